@@ -4,6 +4,9 @@ import { registerRoutes } from '../server/routes.js';
 console.log('🚀 Initializing Express app...');
 const app = express();
 
+// Behind the Vercel proxy - needed for the real client IP (recorded with parental consent)
+app.set('trust proxy', 1);
+
 // Basic middleware
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
@@ -0,0 +1,255 @@
+// Semillita service worker
+// Keeps the app installable and usable offline so children can keep writing in workshop rooms
+// without connectivity:
+// - The app shell (index, built files, manifest, icons) is precached on install. The build
+//   prepends self.__SW_MANIFEST with the list of files and a build id (see vite.config.ts), so
+//   every deploy changes this file and the browser installs the new version.
+// - The emotion list and the dashboard are cached at runtime so the app opens with data offline.
+// - Entries written offline wait in the IndexedDB outbox (client/src/lib/outbox.ts). The app
+//   registers a background sync when it cannot send them, and this worker sends them even if
+//   the app was closed before the connection came back.
+// - A new version waits until the child accepts the update prompt, so a deploy never reloads
+//   the page in the middle of an entry.
+// - Push messages sent by the server (server/push.ts), such as the daily reminder, are shown
+//   as notifications even when the app is closed.
+// Other API calls and media always go to the network: they are private and change constantly.
+
+const { buildId, urls: PRECACHE_URLS } = self.__SW_MANIFEST || { buildId: 'development', urls: ['/'] };
+
+const SHELL_CACHE = `semillita-shell-${buildId}`;
+const DATA_CACHE = 'semillita-data'; // Also deleted on logout (client/src/lib/service-worker.ts)
+
+const EMOTIONS_URL = '/api/emotions';
+const DASHBOARD_PATH = '/api/dashboard/';
+
+// Same database, store and rules as client/src/lib/outbox.ts
+const OUTBOX_DB = 'semillita-outbox';
+const OUTBOX_STORE = 'journal-entries';
+const OUTBOX_SYNC_TAG = 'journal-outbox';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE).then((cache) => cache.addAll(PRECACHE_URLS)).then(() =>
+      // The emotion list is nice to have offline, but an API hiccup must not block the update
+      caches.open(DATA_CACHE).then((cache) => cache.add(EMOTIONS_URL)).catch((error) => {
+        console.warn('[SW] Could not precache emotions:', error);
+      })
+    )
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key !== SHELL_CACHE && key !== DATA_CACHE).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Sent by the update prompt once the child accepts the new version
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+function putInCache(cacheName, request, response) {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(cacheName).then((cache) => cache.put(request, copy));
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== 'GET' || url.origin !== self.location.origin) {
+    return;
+  }
+
+  // Emotions rarely change: answer from the cache and refresh it in the background
+  if (url.pathname === EMOTIONS_URL) {
+    event.respondWith(
+      caches.open(DATA_CACHE).then((cache) => cache.match(request)).then((cached) => {
+        const refresh = fetch(request).then((response) => putInCache(DATA_CACHE, request, response));
+        if (cached) {
+          event.waitUntil(refresh.catch(() => {}));
+          return cached;
+        }
+        return refresh;
+      })
+    );
+    return;
+  }
+
+  // Dashboard: always fresh when online, the last copy when offline
+  if (url.pathname.startsWith(DASHBOARD_PATH)) {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInCache(DATA_CACHE, request, response))
+        .catch(() => caches.open(DATA_CACHE)
+          .then((cache) => cache.match(request))
+          .then((cached) => cached || Promise.reject(new Error('Offline and no cached dashboard'))))
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith('/api/') || url.pathname.startsWith('/uploads/')) {
+    return;
+  }
+
+  // Pages: network first so a new deploy is picked up, the precached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request).catch(() => caches.open(SHELL_CACHE).then((cache) => cache.match('/')))
+    );
+    return;
+  }
+
+  // Built files have hashed names, so a cached copy never goes stale
+  event.respondWith(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.match(request))
+      .then((cached) => cached || fetch(request).then((response) => putInCache(SHELL_CACHE, request, response)))
+  );
+});
+
+// Background sync of the journal outbox
+
+function openOutbox() {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function outboxRequest(db, mode, run) {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(OUTBOX_STORE, mode);
+    const request = run(transaction.objectStore(OUTBOX_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+async function notifyClients(message) {
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clients.forEach((client) => client.postMessage(message));
+}
+
+/**
+ * Send every pending entry of the signed-in user, oldest first
+ * Throws on network errors and retryable responses so the browser schedules another sync.
+ * The app may send the same entry at the same time: the idempotency key makes that harmless.
+ */
+async function syncOutbox() {
+  // Entries are created under the session user, so a shared device must not send
+  // what another child left in the outbox
+  const session = await fetch('/api/auth/me', { credentials: 'include' });
+  if (!session.ok) {
+    throw new Error(`No session to sync the outbox (${session.status})`);
+  }
+  const { id: userId } = await session.json();
+
+  const db = await openOutbox();
+  const entries = (await outboxRequest(db, 'readonly', (store) => store.getAll()))
+    .filter((entry) => entry.status === 'pending' && entry.userId === userId)
+    .sort((a, b) => a.draftedAt.localeCompare(b.draftedAt));
+
+  let created = 0;
+  let synced = 0;
+  try {
+    for (const entry of entries) {
+      const formData = new FormData();
+      for (const [name, value] of Object.entries(entry.fields)) {
+        formData.append(name, value);
+      }
+      formData.append('draftedAt', entry.draftedAt);
+      if (entry.photo) {
+        formData.append('photo', entry.photo);
+      }
+      if (entry.audio) {
+        formData.append('audio', entry.audio);
+      }
+
+      const response = await fetch('/api/journal-entries', {
+        method: 'POST',
+        headers: { 'Idempotency-Key': entry.id },
+        body: formData,
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const text = (await response.text()) || response.statusText;
+        const retryable = response.status >= 500 || [401, 408, 429].includes(response.status);
+        await outboxRequest(db, 'readwrite', (store) => store.put({
+          ...entry,
+          attempts: entry.attempts + 1,
+          status: retryable ? 'pending' : 'failed',
+          lastError: text,
+        }));
+        if (retryable) {
+          throw new Error(`${response.status}: ${text}`);
+        }
+        continue;
+      }
+
+      const data = await response.json();
+      await outboxRequest(db, 'readwrite', (store) => store.delete(entry.id));
+      synced++;
+      if (!data?.replayed) {
+        created++;
+      }
+    }
+  } finally {
+    if (entries.length > 0) {
+      await notifyClients({ type: 'OUTBOX_SYNCED', synced, created });
+    }
+  }
+}
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(syncOutbox());
+  }
+});
+
+// Push notifications
+
+self.addEventListener('push', (event) => {
+  const data = event.data ? event.data.json() : {};
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Semillita', {
+      body: data.message,
+      icon: '/icons/icon-192.png',
+      badge: '/icons/icon-192.png',
+      tag: `semillita-${data.type || 'reminder'}`,
+      data: { url: data.url || '/dashboard' },
+    })
+  );
+});
+
+// Focus an open window of the app (or open one) on the page the notification points to
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || '/dashboard';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((candidate) => new URL(candidate.url).origin === self.location.origin);
+      if (client) {
+        // navigate() only works on windows this worker controls; others are just focused
+        return client.focus().then((focused) => focused.navigate(url)).catch(() => {});
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
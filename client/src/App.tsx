@@ -1,6 +1,6 @@
 import { Switch, Route, useLocation } from "wouter";
-import { queryClient } from "./lib/queryClient";
-import { QueryClientProvider } from "@tanstack/react-query";
+import { queryClient, getQueryFn } from "./lib/queryClient";
+import { QueryClientProvider, useQuery } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
@@ -8,27 +8,69 @@ import Welcome from "@/pages/welcome";
 import ModeSelection from "@/pages/mode-selection";
 import Login from "@/pages/login";
 import Register from "@/pages/register";
+import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
 import AwaitingConsent from "@/pages/awaiting-consent";
+import ParentalConsent from "@/pages/parental-consent";
 import Onboarding from "@/pages/onboarding";
 import Dashboard from "@/pages/dashboard";
 import FacilitatorDashboard from "@/pages/facilitator-dashboard";
 import ChildProfile from "@/pages/child-profile";
+import CaregiverDashboard from "@/pages/caregiver-dashboard";
 import NewEntry from "@/pages/new-entry";
 import PlantProfile from "@/pages/plant-profile";
 import Achievements from "@/pages/achievements";
 import SeedVault from "@/pages/seed-vault";
 import Store from "@/pages/store";
 import Help from "@/pages/help";
-import { useStorage, useStorageWithNotifications } from "@/hooks/use-storage";
+import Notifications from "@/pages/notifications";
+import Garden from "@/pages/garden";
+import { useStorage } from "@/hooks/use-storage";
+import { useOutboxSync } from "@/hooks/use-outbox";
+import { usePushReminders } from "@/hooks/use-push-reminders";
 import { useEffect } from "react";
 import AppHeader from "@/components/app-header";
 import FloatingOpcionIcon from "@/components/floating-opcion-icon";
+import UpdatePrompt from "@/components/update-prompt";
 
 // COPPA Route Guard Component - Critical security protection
 function ProtectedRoute({ component: Component, showHeader = false }: { component: React.ComponentType<any>, showHeader?: boolean }) {
-  const { currentUser } = useStorage();
+  const { currentUser, setCurrentUser, clearStorage } = useStorage();
   const [, setLocation] = useLocation();
 
+  // The server session is the source of truth - the stored user is only a cache
+  const { data: sessionUser } = useQuery<typeof currentUser>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+    enabled: !!currentUser,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    // Session expired or revoked - sign out locally too
+    if (currentUser && sessionUser === null) {
+      clearStorage();
+      setLocation('/login');
+    }
+  }, [currentUser, sessionUser, clearStorage, setLocation]);
+
+  useEffect(() => {
+    // A parent can revoke consent at any time, and new terms require re-consent -
+    // apply both as soon as the session reflects them
+    if (currentUser && sessionUser && (
+      sessionUser.consentVerified !== currentUser.consentVerified ||
+      !!sessionUser.reconsentRequired !== !!currentUser.reconsentRequired
+    )) {
+      setCurrentUser({
+        ...currentUser,
+        consentVerified: sessionUser.consentVerified,
+        reconsentRequired: sessionUser.reconsentRequired,
+      });
+    }
+  }, [currentUser, sessionUser, setCurrentUser]);
+
+  const needsConsent = currentUser?.role === 'child' && (!currentUser.consentVerified || !!currentUser.reconsentRequired);
+
   useEffect(() => {
     // No user logged in - redirect to welcome
     if (!currentUser) {
@@ -36,13 +78,13 @@ function ProtectedRoute({ component: Component, showHeader = false }: { componen
       return;
     }
 
-    // Child without verified consent - redirect to awaiting consent
-    if (currentUser.role === 'child' && !currentUser.consentVerified) {
+    // Child without verified consent for the current terms - redirect to awaiting consent
+    if (needsConsent) {
       console.warn('COPPA: Blocking unverified child from protected route');
       setLocation('/awaiting-consent');
       return;
     }
-  }, [currentUser, setLocation]);
+  }, [currentUser, needsConsent, setLocation]);
 
   // Show loading state during redirect
   if (!currentUser) {
@@ -54,7 +96,7 @@ function ProtectedRoute({ component: Component, showHeader = false }: { componen
   }
 
   // Child without verified consent - show loading during redirect
-  if (currentUser.role === 'child' && !currentUser.consentVerified) {
+  if (needsConsent) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-lg">Verificando permisos...</div>
@@ -84,7 +126,15 @@ function Router() {
       <Route path="/mode-selection" component={ModeSelection} />
       <Route path="/login" component={Login} />
       <Route path="/register" component={Register} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password" component={ResetPassword} />
       <Route path="/awaiting-consent" component={AwaitingConsent} />
+      <Route path="/consent/revoke">
+        <ParentalConsent mode="revoke" />
+      </Route>
+      <Route path="/consent">
+        <ParentalConsent mode="respond" />
+      </Route>
       <Route path="/help" component={Help} />
       
       {/* PROTECTED routes - require verified consent for children */}
@@ -100,6 +150,9 @@ function Router() {
       <Route path="/plant">
         <ProtectedRoute component={PlantProfile} />
       </Route>
+      <Route path="/garden">
+        <ProtectedRoute component={Garden} />
+      </Route>
       <Route path="/achievements">
         <ProtectedRoute component={Achievements} />
       </Route>
@@ -109,6 +162,9 @@ function Router() {
       <Route path="/store">
         <ProtectedRoute component={Store} />
       </Route>
+      <Route path="/notifications">
+        <ProtectedRoute component={Notifications} />
+      </Route>
 
       {/* Facilitator routes */}
       <Route path="/facilitator/dashboard">
@@ -118,18 +174,22 @@ function Router() {
         <ProtectedRoute component={ChildProfile} />
       </Route>
 
+      {/* Caregiver routes */}
+      <Route path="/caregiver/dashboard">
+        <ProtectedRoute component={CaregiverDashboard} />
+      </Route>
+
       <Route component={NotFound} />
     </Switch>
   );
 }
 
 function App() {
-  const { requestNotificationPermission } = useStorageWithNotifications();
+  // Journal entries written offline are sent as soon as there is a connection
+  useOutboxSync();
 
-  useEffect(() => {
-    // Request notification permission on app load
-    requestNotificationPermission();
-  }, [requestNotificationPermission]);
+  // Daily reminders are pushed by the server at the time saved in the child's preferences
+  usePushReminders();
 
   return (
     <QueryClientProvider client={queryClient}>
@@ -139,6 +199,7 @@ function App() {
           <FloatingOpcionIcon />
         </div>
         <Toaster />
+        <UpdatePrompt />
       </TooltipProvider>
     </QueryClientProvider>
   );
@@ -2,6 +2,7 @@ import { Menu, HelpCircle, ArrowLeft, LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
 import { useStorage } from "@/hooks/use-storage";
+import NotificationBell from "@/components/notification-bell";
 import opcionIsollogo from "@assets/isologo_opcion_1758035535543.png";
 
 // Avatar and color options (shared with register.tsx)
@@ -34,6 +35,7 @@ interface AppHeaderProps {
   showHelpButton?: boolean;
   showLogoutButton?: boolean;
   onLogoutClick?: () => void;
+  showNotificationsButton?: boolean; // Only shown to signed-in users who can use the app
   variant?: 'default' | 'gradient';
   className?: string;
   children?: React.ReactNode;
@@ -50,6 +52,7 @@ export default function AppHeader({
   showHelpButton = false,
   showLogoutButton = false,
   onLogoutClick,
+  showNotificationsButton = true,
   variant = 'default',
   className = "",
   children
@@ -61,6 +64,9 @@ export default function AppHeader({
   const userAvatar = currentUser?.avatar ? AVATAR_OPTIONS.find(a => a.id === currentUser.avatar) : null;
   const userColorTheme = currentUser?.colorTheme ? COLOR_THEMES.find(c => c.id === currentUser.colorTheme) || COLOR_THEMES[0] : COLOR_THEMES[0];
 
+  // Children still waiting for consent cannot open the inbox
+  const canOpenInbox = !!currentUser && !(currentUser.role === 'child' && (!currentUser.consentVerified || currentUser.reconsentRequired));
+
   const handleBackClick = () => {
     if (onBackClick) {
       onBackClick();
@@ -151,6 +157,10 @@ export default function AppHeader({
       {/* Right section with action buttons */}
       <div className="flex items-center space-x-2">
         {children}
+
+        {showNotificationsButton && canOpenInbox && (
+          <NotificationBell className={buttonClasses} iconClassName="w-5 h-5" />
+        )}
         
         {showLogoutButton && (
           <Button
@@ -0,0 +1,27 @@
+interface AudioWaveformProps {
+  peaks: number[];
+  progress?: number; // 0-1, share of the recording already played
+}
+
+// Format a voice note length as m:ss
+export function formatAudioDuration(durationMs: number): string {
+  const totalSeconds = Math.round(durationMs / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+}
+
+// Waveform bars computed on the server when the recording was uploaded, so it shows before the audio loads
+export default function AudioWaveform({ peaks, progress = 0 }: AudioWaveformProps) {
+  return (
+    <div className="flex items-center gap-[2px] h-8" aria-hidden="true" data-testid="audio-waveform">
+      {peaks.map((peak, index) => (
+        <div
+          key={index}
+          className={`flex-1 rounded-full transition-colors ${
+            index / peaks.length < progress ? 'bg-primary' : 'bg-primary/30'
+          }`}
+          style={{ height: `${Math.max(peak * 100, 8)}%` }}
+        />
+      ))}
+    </div>
+  );
+}
@@ -18,8 +18,8 @@ export default function BottomNavigation() {
       id: 'plant',
       label: 'Jardín',
       icon: Leaf,
-      path: '/plant',
-      isActive: location === '/plant',
+      path: '/garden',
+      isActive: location === '/garden' || location === '/plant',
     },
     {
       id: 'new',
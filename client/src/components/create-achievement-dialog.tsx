@@ -0,0 +1,323 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { PLANT_CARE_LABELS } from "@/components/plant-care-log";
+import type { AchievementRule, CreateAchievement, PlantCareType, TimeOfDay } from "@shared/schema";
+
+// Conditions a facilitator can pick; "all" and "any" are chosen with the combinator instead
+type ConditionType = Exclude<AchievementRule['type'], 'all' | 'any'>;
+
+// Care conditions count every kind of care unless one is picked
+const ANY_CARE = 'any';
+
+interface Condition {
+  type: ConditionType;
+  count: number;
+  period: TimeOfDay;
+  careType: PlantCareType | typeof ANY_CARE;
+}
+
+const CONDITION_LABELS: Record<ConditionType, string> = {
+  journal_entries: 'Entradas en la bitácora',
+  photo_entries: 'Entradas con foto',
+  distinct_emotions: 'Emociones distintas registradas',
+  seeds_shared: 'Semillas compartidas',
+  time_of_day: 'Entradas en un momento del día',
+  streak: 'Días seguidos escribiendo',
+  days_caring: 'Días cuidando la planta',
+  care_events: 'Cuidados anotados',
+  points: 'Puntos acumulados',
+  plant_created: 'Plantar su planta',
+};
+
+const PERIOD_LABELS: Record<TimeOfDay, string> = {
+  morning: 'Mañana (5 a 12 h)',
+  afternoon: 'Tarde (12 a 18 h)',
+  evening: 'Anochecer (18 a 22 h)',
+  night: 'Noche (22 a 5 h)',
+};
+
+const ICON_LABELS: Record<CreateAchievement['iconName'], string> = {
+  seedling: '🌱 Brote',
+  leaf: '🍃 Hoja',
+  'calendar-check': '📅 Calendario',
+  'book-open': '📖 Libro',
+  trophy: '🏆 Trofeo',
+  star: '⭐ Estrella',
+  camera: '📷 Cámara',
+  flame: '🔥 Racha',
+  sun: '☀️ Sol',
+  moon: '🌙 Luna',
+  heart: '❤️ Corazón',
+  share: '🔗 Compartir',
+};
+
+const newCondition = (): Condition => ({ type: 'journal_entries', count: 5, period: 'morning', careType: ANY_CARE });
+
+function toRule(condition: Condition): AchievementRule {
+  switch (condition.type) {
+    case 'plant_created':
+      return { type: 'plant_created' };
+    case 'points':
+      return { type: 'points', threshold: condition.count };
+    case 'streak':
+      return { type: 'streak', days: condition.count };
+    case 'time_of_day':
+      return { type: 'time_of_day', period: condition.period, count: condition.count };
+    case 'care_events':
+      return condition.careType === ANY_CARE
+        ? { type: 'care_events', count: condition.count }
+        : { type: 'care_events', careType: condition.careType, count: condition.count };
+    default:
+      return { type: condition.type, count: condition.count };
+  }
+}
+
+interface CreateAchievementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Facilitators build an achievement's rule from one or more conditions
+export default function CreateAchievementDialog({ open, onOpenChange }: CreateAchievementDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [iconName, setIconName] = useState<CreateAchievement['iconName']>('star');
+  const [points, setPoints] = useState(20);
+  const [combinator, setCombinator] = useState<'all' | 'any'>('all');
+  const [conditions, setConditions] = useState<Condition[]>([newCondition()]);
+
+  const reset = () => {
+    setName("");
+    setDescription("");
+    setIconName('star');
+    setPoints(20);
+    setCombinator('all');
+    setConditions([newCondition()]);
+  };
+
+  const updateCondition = (index: number, changes: Partial<Condition>) => {
+    setConditions(current => current.map((condition, i) => i === index ? { ...condition, ...changes } : condition));
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const rules = conditions.map(toRule);
+      const achievement: CreateAchievement = {
+        name: name.trim(),
+        description: description.trim(),
+        iconName,
+        pointsRequired: points,
+        rule: rules.length === 1 ? rules[0] : { type: combinator, rules },
+      };
+      const response = await fetch('/api/facilitator/achievements', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(achievement),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Error al crear el logro');
+      }
+      return response.json();
+    },
+    onSuccess: (achievement) => {
+      toast({
+        title: "Logro creado",
+        description: `Los niños ya pueden conseguir "${achievement.name}".`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/achievements'] });
+      onOpenChange(false);
+      reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isValid = name.trim().length >= 2
+    && description.trim().length >= 2
+    && conditions.every(condition => condition.type === 'plant_created' || condition.count >= 1);
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent className="max-h-[90vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Nuevo logro</AlertDialogTitle>
+          <AlertDialogDescription>
+            Los niños lo recibirán, con sus puntos, en cuanto cumplan las condiciones.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3">
+          <Input
+            placeholder="Nombre, ej: Madrugador"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            data-testid="input-achievement-name"
+          />
+          <Textarea
+            placeholder="Cómo se consigue, ej: Escribe 5 entradas por la mañana"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            data-testid="input-achievement-description"
+          />
+          <div className="flex items-center space-x-2">
+            <Select value={iconName} onValueChange={(value) => setIconName(value as CreateAchievement['iconName'])}>
+              <SelectTrigger className="flex-1" data-testid="select-achievement-icon">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ICON_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="number"
+              min={0}
+              max={1000}
+              className="w-24"
+              value={points}
+              onChange={(e) => setPoints(Math.max(0, parseInt(e.target.value, 10) || 0))}
+              title="Puntos"
+              data-testid="input-achievement-points"
+            />
+            <span className="text-sm text-muted-foreground">pts</span>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-semibold text-foreground">Condiciones</p>
+              {conditions.length > 1 && (
+                <Select value={combinator} onValueChange={(value) => setCombinator(value as 'all' | 'any')}>
+                  <SelectTrigger className="w-40 h-8" data-testid="select-achievement-combinator">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Cumplir todas</SelectItem>
+                    <SelectItem value="any">Cumplir alguna</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            {conditions.map((condition, index) => (
+              <div key={index} className="p-2 bg-primary/5 rounded-lg space-y-2" data-testid={`achievement-condition-${index}`}>
+                <div className="flex items-center space-x-2">
+                  <Select value={condition.type} onValueChange={(value) => updateCondition(index, { type: value as ConditionType })}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CONDITION_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {conditions.length > 1 && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="w-8 h-8"
+                      onClick={() => setConditions(current => current.filter((_, i) => i !== index))}
+                      title="Quitar condición"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+                {condition.type !== 'plant_created' && (
+                  <div className="flex items-center space-x-2">
+                    <span className="text-sm text-muted-foreground">Al menos</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-24 h-8"
+                      value={condition.count}
+                      onChange={(e) => updateCondition(index, { count: parseInt(e.target.value, 10) || 0 })}
+                    />
+                    {condition.type === 'time_of_day' && (
+                      <Select value={condition.period} onValueChange={(value) => updateCondition(index, { period: value as TimeOfDay })}>
+                        <SelectTrigger className="flex-1 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    {condition.type === 'care_events' && (
+                      <Select value={condition.careType} onValueChange={(value) => updateCondition(index, { careType: value as Condition['careType'] })}>
+                        <SelectTrigger className="flex-1 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY_CARE}>Cualquier cuidado</SelectItem>
+                          {Object.entries(PLANT_CARE_LABELS).map(([value, label]) => (
+                            <SelectItem key={value} value={value}>{label.emoji} {label.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {conditions.length < 10 && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="w-full"
+                onClick={() => setConditions(current => [...current, newCondition()])}
+                data-testid="button-add-condition"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Agregar condición
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancelar</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+            disabled={!isValid || createMutation.isPending}
+            data-testid="button-create-achievement"
+          >
+            Crear logro
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,20 @@
+import type { ImgHTMLAttributes } from "react";
+import type { RenditionSize } from "@shared/schema";
+import { mediaUrl } from "@/lib/media";
+
+interface MediaImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  storageKey: string;
+  size: RenditionSize; // thumb for icons, card for entries, full for large views
+}
+
+// Stored photo in the rendition that fits where it is shown; browsers pick AVIF or WebP when
+// they support it and fall back to JPEG. Photos uploaded before renditions existed are served as is.
+export default function MediaImage({ storageKey, size, loading = "lazy", ...props }: MediaImageProps) {
+  return (
+    <picture>
+      <source type="image/avif" srcSet={mediaUrl(storageKey, { size, format: 'avif' })} />
+      <source type="image/webp" srcSet={mediaUrl(storageKey, { size, format: 'webp' })} />
+      <img src={mediaUrl(storageKey, { size })} loading={loading} {...props} />
+    </picture>
+  );
+}
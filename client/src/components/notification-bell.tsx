@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useStorage } from "@/hooks/use-storage";
+import { cn } from "@/lib/utils";
+
+interface NotificationBellProps {
+  className?: string;
+  iconClassName?: string;
+}
+
+// Opens the notification inbox; the unread count comes with the dashboard data
+export default function NotificationBell({ className, iconClassName }: NotificationBellProps) {
+  const [, setLocation] = useLocation();
+  const { currentUser } = useStorage();
+
+  const { data: dashboardData } = useQuery<{ unreadNotifications?: number }>({
+    queryKey: [`/api/dashboard/${currentUser?.id}`],
+    enabled: !!currentUser?.id,
+  });
+
+  const unread = dashboardData?.unreadNotifications ?? 0;
+
+  return (
+    <Button
+      size="icon"
+      variant="ghost"
+      className={cn("relative", className)}
+      onClick={() => setLocation('/notifications')}
+      title="Avisos"
+      aria-label={unread > 0 ? `Avisos (${unread} sin leer)` : "Avisos"}
+      data-testid="button-notifications"
+    >
+      <Bell className={cn("w-4 h-4", iconClassName)} />
+      {unread > 0 && (
+        <span
+          className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-bold flex items-center justify-center"
+          data-testid="badge-unread-notifications"
+        >
+          {unread > 9 ? '9+' : unread}
+        </span>
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from "react";
+import { CloudOff, RefreshCw, CheckCircle2, AlertCircle, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useOutbox } from "@/hooks/use-outbox";
+import type { OutboxEntry } from "@/lib/outbox";
+
+// How long the "all synced" confirmation stays after the last entry is sent
+const SYNCED_NOTICE_MS = 4000;
+
+function errorMessage(entry: OutboxEntry): string {
+  try {
+    return JSON.parse(entry.lastError || '').message || entry.lastError || '';
+  } catch {
+    return entry.lastError || '';
+  }
+}
+
+// Journal entries written offline that are still on this device, shown on the dashboard
+export default function OutboxStatus() {
+  const { entries, isOnline, isSending, syncNow, retry, discard } = useOutbox();
+  const [justSynced, setJustSynced] = useState(false);
+  const previousCount = useRef(entries.length);
+
+  useEffect(() => {
+    if (previousCount.current > 0 && entries.length === 0) {
+      setJustSynced(true);
+      const timeout = setTimeout(() => setJustSynced(false), SYNCED_NOTICE_MS);
+      previousCount.current = entries.length;
+      return () => clearTimeout(timeout);
+    }
+    previousCount.current = entries.length;
+  }, [entries.length]);
+
+  if (justSynced) {
+    return (
+      <div className="flex items-center space-x-2 p-3 rounded-lg bg-primary/10 text-sm text-primary" data-testid="outbox-synced">
+        <CheckCircle2 className="w-4 h-4" />
+        <span>Todas tus entradas están sincronizadas</span>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return isOnline ? null : (
+      <div className="flex items-center space-x-2 p-3 rounded-lg bg-muted text-sm text-muted-foreground" data-testid="outbox-offline">
+        <CloudOff className="w-4 h-4" />
+        <span>Sin conexión: puedes seguir escribiendo, tus entradas se enviarán solas.</span>
+      </div>
+    );
+  }
+
+  const pendingCount = entries.filter(entry => entry.status === 'pending').length;
+
+  return (
+    <Card data-testid="card-outbox">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <CloudOff className="w-5 h-5 text-muted-foreground" />
+            <h3 className="font-semibold text-foreground">Entradas por enviar</h3>
+          </div>
+          {isOnline && pendingCount > 0 && (
+            <Button size="sm" variant="outline" onClick={() => syncNow()} data-testid="button-sync-outbox">
+              <RefreshCw className="w-4 h-4 mr-1" />
+              Enviar ahora
+            </Button>
+          )}
+        </div>
+        {!isOnline && (
+          <p className="text-xs text-muted-foreground">
+            Sin conexión: se enviarán solas cuando vuelva internet.
+          </p>
+        )}
+        <div className="space-y-2">
+          {entries.map(entry => (
+            <div key={entry.id} className="p-3 rounded-lg bg-muted/50 space-y-2" data-testid={`outbox-entry-${entry.id}`}>
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">
+                  {new Date(entry.draftedAt).toLocaleString('es', { dateStyle: 'medium', timeStyle: 'short' })}
+                </span>
+                {isSending(entry.id) ? (
+                  <Badge variant="secondary">Enviando...</Badge>
+                ) : entry.status === 'failed' ? (
+                  <Badge variant="destructive">No se pudo enviar</Badge>
+                ) : (
+                  <Badge variant="outline">Pendiente</Badge>
+                )}
+              </div>
+              <p className="text-sm text-foreground line-clamp-2">{entry.fields.textEntry}</p>
+              {entry.status === 'failed' && (
+                <div className="space-y-2">
+                  <p className="flex items-center text-xs text-destructive">
+                    <AlertCircle className="w-3 h-3 mr-1 shrink-0" />
+                    {errorMessage(entry)}
+                  </p>
+                  <div className="flex space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => retry(entry)} disabled={!isOnline}>
+                      <RefreshCw className="w-4 h-4 mr-1" />
+                      Reintentar
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => discard(entry)}>
+                      <Trash2 className="w-4 h-4 mr-1" />
+                      Descartar
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
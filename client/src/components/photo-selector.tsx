@@ -2,6 +2,7 @@ import { useState } from "react";
 import { X, Check } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import MediaImage from "@/components/media-image";
 
 interface PhotoEntry {
   id: string;
@@ -72,8 +73,9 @@ export default function PhotoSelector({ entries, onSelect, onClose, currentPhoto
                 >
                   <CardContent className="p-2">
                     <div className="relative">
-                      <img
-                        src={entry.photoUrl!}
+                      <MediaImage
+                        storageKey={entry.photoUrl!}
+                        size="card"
                         alt="Foto de bitácora"
                         className="w-full h-40 object-cover rounded-md"
                       />
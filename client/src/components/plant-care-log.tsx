@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Ruler, Sprout } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useStorage } from "@/hooks/use-storage";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { LogPlantCare, PlantCareEvent, PlantCareType } from "@shared/schema";
+
+export const PLANT_CARE_LABELS: Record<PlantCareType, { name: string; emoji: string; done: string }> = {
+  watered: { name: 'Regar', emoji: '💧', done: 'Regada' },
+  sunlight: { name: 'Sol', emoji: '☀️', done: 'Tomó sol' },
+  repotted: { name: 'Trasplantar', emoji: '🪴', done: 'Trasplantada' },
+  pest_spotted: { name: 'Plaga', emoji: '🐛', done: 'Viste una plaga' },
+  measured: { name: 'Medir', emoji: '📏', done: 'Medida' },
+};
+
+interface PlantCareLogProps {
+  plantId: string;
+}
+
+// One-tap care actions for the active plant and their history, apart from the emotional journal
+export default function PlantCareLog({ plantId }: PlantCareLogProps) {
+  const { currentUser, addPoints } = useStorage();
+  const { toast } = useToast();
+  const [showMeasureDialog, setShowMeasureDialog] = useState(false);
+  const [height, setHeight] = useState("");
+
+  const careKey = [`/api/plants/${plantId}/care`];
+
+  const { data: events = [] } = useQuery<PlantCareEvent[]>({
+    queryKey: careKey,
+  });
+
+  const latestHeight = events.find(event => event.type === 'measured' && event.heightCm !== null)?.heightCm;
+
+  const logCareMutation = useMutation({
+    mutationFn: async (care: LogPlantCare) => {
+      const response = await fetch(`/api/plants/${plantId}/care`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(care),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Error al anotar el cuidado');
+      }
+      return response.json();
+    },
+    onSuccess: ({ event }: { event: PlantCareEvent }) => {
+      const label = PLANT_CARE_LABELS[event.type as PlantCareType];
+      toast({
+        title: `${label.emoji} ¡Anotado!`,
+        description: event.pointsEarned > 0
+          ? `${label.done}. Ganaste ${event.pointsEarned} puntos por cuidar tu planta.`
+          : `${label.done}. Ya ganaste los puntos de este cuidado hoy.`,
+      });
+      if (event.pointsEarned > 0) {
+        addPoints(event.pointsEarned);
+      }
+      queryClient.invalidateQueries({ queryKey: careKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/users', currentUser?.id, 'plant'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/dashboard/${currentUser?.id}`] });
+      setShowMeasureDialog(false);
+      setHeight("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const heightCm = parseFloat(height.replace(',', '.'));
+  const isValidHeight = heightCm > 0 && heightCm <= 500;
+
+  const handleCare = (type: PlantCareType) => {
+    if (type === 'measured') {
+      setShowMeasureDialog(true);
+      return;
+    }
+    logCareMutation.mutate({ type });
+  };
+
+  return (
+    <Card data-testid="card-plant-care">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold text-foreground flex items-center">
+            <Sprout className="w-4 h-4 mr-2 text-primary" />
+            Cuidados de tu planta
+          </h3>
+          {latestHeight != null && (
+            <Badge variant="outline" data-testid="text-plant-height">
+              <Ruler className="w-3 h-3 mr-1" />
+              {latestHeight} cm
+            </Badge>
+          )}
+        </div>
+
+        <div className="grid grid-cols-5 gap-2">
+          {(Object.keys(PLANT_CARE_LABELS) as PlantCareType[]).map((type) => (
+            <Button
+              key={type}
+              variant="outline"
+              className="h-auto flex-col py-2 px-1"
+              onClick={() => handleCare(type)}
+              disabled={logCareMutation.isPending}
+              data-testid={`button-care-${type}`}
+            >
+              <span className="text-xl" aria-hidden="true">{PLANT_CARE_LABELS[type].emoji}</span>
+              <span className="text-xs">{PLANT_CARE_LABELS[type].name}</span>
+            </Button>
+          ))}
+        </div>
+
+        {events.length > 0 ? (
+          <div className="space-y-2">
+            {events.slice(0, 5).map((event) => {
+              const label = PLANT_CARE_LABELS[event.type as PlantCareType];
+              return (
+                <div key={event.id} className="flex items-center justify-between text-sm" data-testid="plant-care-event">
+                  <span className="text-foreground">
+                    {label?.emoji} {label?.done ?? event.type}
+                    {event.heightCm != null && ` · ${event.heightCm} cm`}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {event.createdAt && formatDistanceToNow(new Date(event.createdAt), { addSuffix: true, locale: es })}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground text-center">
+            Toca un botón cada vez que cuides tu planta.
+          </p>
+        )}
+      </CardContent>
+
+      {/* Measure Dialog */}
+      <AlertDialog open={showMeasureDialog} onOpenChange={setShowMeasureDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>📏 ¿Cuánto mide tu planta?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Mide desde la tierra hasta la hoja más alta.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex items-center space-x-2">
+            <Input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              max={500}
+              step={0.5}
+              placeholder="Ej: 12"
+              value={height}
+              onChange={(e) => setHeight(e.target.value)}
+              data-testid="input-plant-height"
+            />
+            <span className="text-sm text-muted-foreground">cm</span>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                logCareMutation.mutate({ type: 'measured', heightCm });
+              }}
+              disabled={!isValidHeight || logCareMutation.isPending}
+              data-testid="button-confirm-height"
+            >
+              Anotar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -1,66 +1,90 @@
-import { Calendar, TrendingUp, Star, Award } from "lucide-react";
+import { Calendar, TrendingUp, Droplets, Award, HeartHandshake } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent } from "@/components/ui/card";
+import type { GrowthStage, PlantLifecycle } from "@shared/schema";
+
+export const GROWTH_STAGE_LABELS: Record<GrowthStage, { name: string; emoji: string }> = {
+  seed: { name: 'Semilla', emoji: '🌰' },
+  sprout: { name: 'Brote', emoji: '🌱' },
+  seedling: { name: 'Plantita', emoji: '🌿' },
+  flowering: { name: 'En flor', emoji: '🌸' },
+};
 
 interface PlantProgressProps {
-  daysSincePlanting: number;
-  entriesCount: number;
-  milestones?: string[];
+  lifecycle: PlantLifecycle;
 }
 
-export default function PlantProgress({ 
-  daysSincePlanting, 
-  entriesCount,
-  milestones = []
-}: PlantProgressProps) {
-  // Calculate progress towards different goals
-  const weeklyGoal = 7; // 7 days
-  const monthlyGoal = 30; // 30 days
-  const entriesGoal = 10; // 10 entries
-  
-  const weeklyProgress = Math.min((daysSincePlanting / weeklyGoal) * 100, 100);
-  const monthlyProgress = Math.min((daysSincePlanting / monthlyGoal) * 100, 100);
-  const entriesProgress = Math.min((entriesCount / entriesGoal) * 100, 100);
-  
-  const progressData = [
+// Growth stage of the plant and what it needs to reach the next one (computed by the server)
+export default function PlantProgress({ lifecycle }: PlantProgressProps) {
+  const { stage, nextStage, daysSincePlanting, careDays, milestones } = lifecycle;
+  const current = GROWTH_STAGE_LABELS[stage];
+
+  const progressData = nextStage ? [
     {
-      label: 'Meta Semanal',
-      value: weeklyProgress,
+      label: 'Días cultivando',
+      value: Math.min((daysSincePlanting / Math.max(1, nextStage.minDays)) * 100, 100),
       current: daysSincePlanting,
-      target: weeklyGoal,
+      target: nextStage.minDays,
       unit: 'días',
       icon: Calendar,
       color: 'text-primary',
     },
     {
-      label: 'Meta Mensual',
-      value: monthlyProgress,
-      current: daysSincePlanting,
-      target: monthlyGoal,
+      label: 'Días cuidándola',
+      value: Math.min((careDays / Math.max(1, nextStage.minCareDays)) * 100, 100),
+      current: careDays,
+      target: nextStage.minCareDays,
       unit: 'días',
-      icon: TrendingUp,
+      icon: Droplets,
       color: 'text-accent-foreground',
     },
-    {
-      label: 'Entradas',
-      value: entriesProgress,
-      current: entriesCount,
-      target: entriesGoal,
-      unit: 'entradas',
-      icon: Star,
-      color: 'text-secondary-foreground',
-    },
-  ];
+  ] : [];
 
   return (
     <div className="space-y-4">
-      {/* Progress Overview */}
+      {/* Current Stage */}
+      <Card className="bg-primary/5 border-primary/20" data-testid="card-plant-stage">
+        <CardContent className="p-4 flex items-center space-x-4">
+          <div className="text-4xl" aria-hidden="true">{current.emoji}</div>
+          <div className="flex-1">
+            <p className="text-xs text-muted-foreground">Etapa actual</p>
+            <p className="font-bold text-primary" data-testid="text-plant-stage">{current.name}</p>
+          </div>
+          {nextStage ? (
+            <Badge variant="outline">
+              Siguiente: {GROWTH_STAGE_LABELS[nextStage.stage].emoji} {GROWTH_STAGE_LABELS[nextStage.stage].name}
+            </Badge>
+          ) : (
+            <Badge className="bg-primary text-primary-foreground">
+              <Award className="w-3 h-3 mr-1" />
+              ¡Etapa final!
+            </Badge>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Needs Care */}
+      {lifecycle.needsCare && (
+        <Card className="bg-accent/10 border-accent/30" data-testid="card-plant-needs-care">
+          <CardContent className="p-4 flex items-start space-x-3">
+            <HeartHandshake className="w-5 h-5 text-accent-foreground mt-0.5 shrink-0" />
+            <div>
+              <p className="font-semibold text-foreground">Tu planta te extraña</p>
+              <p className="text-xs text-muted-foreground">
+                Hace {lifecycle.daysWithoutCare} días que nadie la cuida. Riégala o cuéntale cómo te sientes y volverá a crecer.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Progress towards the next stage */}
       <div className="grid gap-3">
         {progressData.map((item) => {
           const IconComponent = item.icon;
           const isCompleted = item.value >= 100;
-          
+
           return (
             <Card key={item.label} className={isCompleted ? 'bg-primary/5 border-primary/20' : ''}>
               <CardContent className="p-4">
@@ -71,26 +95,26 @@ export default function PlantProgress({
                       {item.label}
                     </span>
                   </div>
-                  <Badge 
+                  <Badge
                     variant={isCompleted ? 'default' : 'secondary'}
                     className="text-xs"
                   >
                     {isCompleted ? (
                       <div className="flex items-center">
                         <Award className="w-3 h-3 mr-1" />
-                        ¡Completado!
+                        ¡Listo!
                       </div>
                     ) : (
                       `${item.current}/${item.target} ${item.unit}`
                     )}
                   </Badge>
                 </div>
-                
-                <Progress 
-                  value={item.value} 
+
+                <Progress
+                  value={item.value}
                   className="h-2"
                 />
-                
+
                 <p className="text-xs text-muted-foreground mt-1">
                   {Math.round(item.value)}% completado
                   {!isCompleted && item.current < item.target && (
@@ -103,57 +127,24 @@ export default function PlantProgress({
         })}
       </div>
 
-      {/* Next Milestone */}
-      <Card className="bg-accent/5 border-accent/20">
-        <CardContent className="p-4">
-          <h3 className="font-semibold text-accent-foreground mb-2 flex items-center">
-            <TrendingUp className="w-4 h-4 mr-2" />
-            Próximo Hito
-          </h3>
-          <div className="space-y-2">
-            {daysSincePlanting < 7 && (
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">Primera semana</span>
-                <Badge variant="outline">{7 - daysSincePlanting} días</Badge>
-              </div>
-            )}
-            {daysSincePlanting >= 7 && daysSincePlanting < 14 && (
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">Dos semanas cultivando</span>
-                <Badge variant="outline">{14 - daysSincePlanting} días</Badge>
-              </div>
-            )}
-            {daysSincePlanting >= 14 && daysSincePlanting < 30 && (
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">Primer mes</span>
-                <Badge variant="outline">{30 - daysSincePlanting} días</Badge>
-              </div>
-            )}
-            {entriesCount < 5 && (
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">5 entradas</span>
-                <Badge variant="outline">{5 - entriesCount} entradas</Badge>
-              </div>
-            )}
-            {entriesCount >= 5 && entriesCount < 10 && (
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">10 entradas</span>
-                <Badge variant="outline">{10 - entriesCount} entradas</Badge>
-              </div>
-            )}
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Celebration for achievements */}
-      {(weeklyProgress >= 100 || monthlyProgress >= 100 || entriesProgress >= 100) && (
-        <Card className="bg-gradient-to-r from-primary/10 to-accent/10 border-primary/20">
-          <CardContent className="p-4 text-center">
-            <Award className="w-8 h-8 text-primary mx-auto mb-2" />
-            <p className="font-semibold text-primary">¡Excelente trabajo!</p>
-            <p className="text-xs text-muted-foreground">
-              Has alcanzado una meta importante. ¡Sigue cuidando tu planta!
-            </p>
+      {/* Milestones */}
+      {milestones.length > 0 && (
+        <Card className="bg-accent/5 border-accent/20">
+          <CardContent className="p-4">
+            <h3 className="font-semibold text-accent-foreground mb-2 flex items-center">
+              <TrendingUp className="w-4 h-4 mr-2" />
+              Hitos de tu planta
+            </h3>
+            <div className="space-y-2">
+              {milestones.map((milestone) => (
+                <div key={milestone.stage} className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">
+                    {GROWTH_STAGE_LABELS[milestone.stage].emoji} {GROWTH_STAGE_LABELS[milestone.stage].name}
+                  </span>
+                  <Badge variant="outline">{new Date(milestone.reachedAt).toLocaleDateString('es')}</Badge>
+                </div>
+              ))}
+            </div>
           </CardContent>
         </Card>
       )}
@@ -0,0 +1,216 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Camera, Film, Pause, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import MediaImage from "@/components/media-image";
+import { useStorage } from "@/hooks/use-storage";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { PlantPhotoFrame } from "@shared/schema";
+
+// Time each photo stays on screen while the time-lapse plays
+const FRAME_MS = 700;
+
+interface PlantTimelapseProps {
+  plantId: string;
+  plantName?: string | null;
+}
+
+function formatDay(value: string): string {
+  return format(new Date(value), "d MMM", { locale: es });
+}
+
+// The plant's photos as a time-lapse, and its first photo next to the latest one
+export default function PlantTimelapse({ plantId, plantName }: PlantTimelapseProps) {
+  const { currentUser } = useStorage();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const timelapseKey = [`/api/plants/${plantId}/timelapse`];
+
+  const { data: frames = [] } = useQuery<PlantPhotoFrame[]>({
+    queryKey: timelapseKey,
+  });
+
+  // New photos show up at the end of the series
+  useEffect(() => {
+    setFrameIndex(Math.max(0, frames.length - 1));
+  }, [frames.length]);
+
+  useEffect(() => {
+    if (!isPlaying) {
+      return;
+    }
+    if (frameIndex >= frames.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setFrameIndex(frameIndex + 1), FRAME_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, frameIndex, frames.length]);
+
+  const uploadPhotoMutation = useMutation({
+    mutationFn: async (photo: File) => {
+      const formData = new FormData();
+      formData.append('photo', photo);
+      const response = await fetch(`/api/plants/${plantId}/photo`, {
+        method: 'PATCH',
+        body: formData,
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Error al subir la foto');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "📸 ¡Foto guardada!",
+        description: "Cada foto suma un cuadro al video de tu planta.",
+      });
+      queryClient.invalidateQueries({ queryKey: timelapseKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/users', currentUser?.id, 'plant'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/dashboard/${currentUser?.id}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handlePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Playing again from the last photo starts over
+    if (frameIndex >= frames.length - 1) {
+      setFrameIndex(0);
+    }
+    setIsPlaying(true);
+  };
+
+  const frame = frames[Math.min(frameIndex, frames.length - 1)];
+  const first = frames[0];
+  const latest = frames[frames.length - 1];
+
+  return (
+    <div className="space-y-4">
+      <Card data-testid="card-plant-timelapse">
+        <CardContent className="p-4 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold text-foreground flex items-center">
+              <Film className="w-4 h-4 mr-2 text-primary" />
+              Así crece tu planta
+            </h3>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadPhotoMutation.isPending}
+              data-testid="button-add-plant-photo"
+            >
+              <Camera className="w-4 h-4 mr-1" />
+              {uploadPhotoMutation.isPending ? 'Subiendo...' : 'Foto'}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              className="hidden"
+              onChange={(e) => {
+                const photo = e.target.files?.[0];
+                if (photo) {
+                  uploadPhotoMutation.mutate(photo);
+                }
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          {frame ? (
+            <>
+              <div className="relative">
+                <MediaImage
+                  storageKey={frame.photoUrl}
+                  size="card"
+                  loading="eager"
+                  alt={`Foto del día ${frame.day}`}
+                  className="w-full h-56 object-cover rounded-lg"
+                  data-testid="img-timelapse-frame"
+                />
+                <Badge className="absolute top-2 left-2 bg-black/60 text-white">
+                  Día {frame.day} · {formatDay(frame.takenAt)}
+                </Badge>
+              </div>
+              {frames.length > 1 && (
+                <div className="flex items-center space-x-3">
+                  <Button size="icon" variant="outline" onClick={handlePlay} data-testid="button-play-timelapse">
+                    {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </Button>
+                  <Slider
+                    value={[frameIndex]}
+                    min={0}
+                    max={frames.length - 1}
+                    step={1}
+                    onValueChange={([index]) => {
+                      setIsPlaying(false);
+                      setFrameIndex(index);
+                    }}
+                    data-testid="slider-timelapse"
+                  />
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {frameIndex + 1}/{frames.length}
+                  </span>
+                </div>
+              )}
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              Toma una foto de tu planta de vez en cuando y mira cómo crece.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* First vs Latest */}
+      {first && latest && frames.length > 1 && (
+        <Card className="bg-gradient-to-br from-primary/10 to-accent/10 border-primary/20" data-testid="card-plant-before-after">
+          <CardContent className="p-4 space-y-3">
+            <p className="text-center font-bold text-primary">
+              {plantName ? `¡Mira cuánto creció ${plantName}!` : '¡Mira cuánto creció tu planta!'}
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              {[first, latest].map((photo, index) => (
+                <div key={photo.photoUrl} className="space-y-1 text-center">
+                  <MediaImage
+                    storageKey={photo.photoUrl}
+                    size="card"
+                    alt={index === 0 ? 'Primera foto' : 'Última foto'}
+                    className="w-full h-36 object-cover rounded-lg shadow-md"
+                  />
+                  <p className="text-xs font-semibold text-foreground">{index === 0 ? 'Antes' : 'Ahora'}</p>
+                  <p className="text-xs text-muted-foreground">Día {photo.day} · {formatDay(photo.takenAt)}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-center text-xs text-muted-foreground">
+              {latest.day - first.day} {latest.day - first.day === 1 ? 'día' : 'días'} de cuidados
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
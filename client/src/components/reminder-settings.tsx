@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bell } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { deviceTimeZone, isPushSupported, subscribeToPush, unsubscribeFromPush } from "@/lib/push";
+import type { NotificationPreferences, UpdateNotificationPreferences } from "@shared/schema";
+
+// Daily reminder settings, saved on the server that sends the reminders
+export default function ReminderSettings({ userId }: { userId: string }) {
+  const { toast } = useToast();
+  const preferencesKey = `/api/users/${userId}/notification-preferences`;
+  const [reminderTime, setReminderTime] = useState('18:00');
+
+  const { data: preferences } = useQuery<NotificationPreferences>({
+    queryKey: [preferencesKey],
+  });
+
+  useEffect(() => {
+    if (preferences?.reminderTime) {
+      setReminderTime(preferences.reminderTime);
+    }
+  }, [preferences?.reminderTime]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (changes: UpdateNotificationPreferences) => {
+      // Turning reminders on needs permission for this device; asked here, after a tap
+      if (changes.enabled && isPushSupported()) {
+        const permission = await Notification.requestPermission();
+        if (permission !== 'granted') {
+          throw new Error('Activa las notificaciones de Semillita en los ajustes del navegador.');
+        }
+      }
+
+      const response = await apiRequest('PUT', preferencesKey, { ...changes, timezone: deviceTimeZone() });
+      const saved: NotificationPreferences = await response.json();
+
+      if (changes.enabled === true) {
+        await subscribeToPush();
+      } else if (changes.enabled === false) {
+        await unsubscribeFromPush();
+      }
+      return saved;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData([preferencesKey], saved);
+      toast({
+        title: "Recordatorios guardados",
+        description: saved.enabled
+          ? `Te recordaremos escribir en tu bitácora cada día a las ${saved.reminderTime}.`
+          : "No recibirás recordatorios diarios.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudieron guardar los recordatorios.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const enabled = preferences?.enabled ?? true;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold text-foreground">Recordatorios</h3>
+
+      <div className="flex items-center justify-between">
+        <label htmlFor="reminder-enabled" className="flex items-center text-sm font-medium text-muted-foreground">
+          <Bell className="w-4 h-4 mr-2" />
+          Recordatorio diario
+        </label>
+        <Switch
+          id="reminder-enabled"
+          checked={enabled}
+          disabled={!preferences || updateMutation.isPending}
+          onCheckedChange={(checked) => updateMutation.mutate({ enabled: checked })}
+          data-testid="switch-reminder-enabled"
+        />
+      </div>
+
+      {enabled && (
+        <div className="flex items-center justify-between">
+          <label htmlFor="reminder-time" className="text-sm font-medium text-muted-foreground">Hora</label>
+          <Input
+            id="reminder-time"
+            type="time"
+            className="w-32"
+            value={reminderTime}
+            disabled={!preferences || updateMutation.isPending}
+            onChange={(event) => setReminderTime(event.target.value)}
+            onBlur={() => {
+              if (reminderTime && reminderTime !== preferences?.reminderTime) {
+                updateMutation.mutate({ reminderTime });
+              }
+            }}
+            data-testid="input-reminder-time"
+          />
+        </div>
+      )}
+
+      {!isPushSupported() && (
+        <p className="text-xs text-muted-foreground">
+          Instala Semillita en tu dispositivo para recibir los recordatorios aunque la app esté cerrada.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useQuery } from "@tanstack/react-query";
+import { addDays, format } from "date-fns";
+import { es } from "date-fns/locale";
+import { BookOpen, CheckCircle2, Droplets, Sun } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { GROWTH_STAGE_LABELS } from "@/components/plant-progress";
+import type { GrowthStage, PlantCareEvent, PlantLifecycle, PlantSpecies, SunlightNeed } from "@shared/schema";
+
+const SUNLIGHT_LABELS: Record<SunlightNeed, string> = {
+  full_sun: 'Sol directo varias horas al día',
+  partial_sun: 'Algo de sol, mejor sin el de mediodía',
+  shade: 'Luz sin sol directo',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SpeciesCareGuideProps {
+  species: PlantSpecies;
+  plantId: string;
+  plantedAt: string;
+  lifecycle: PlantLifecycle;
+}
+
+// Care tips for the plant's species and when each growth stage usually arrives
+export default function SpeciesCareGuide({ species, plantId, plantedAt, lifecycle }: SpeciesCareGuideProps) {
+  // Same query as the care log, so the last watering comes from the cache
+  const { data: careEvents = [] } = useQuery<PlantCareEvent[]>({
+    queryKey: [`/api/plants/${plantId}/care`],
+  });
+
+  const lastWatered = careEvents.find(event => event.type === 'watered')?.createdAt;
+  const daysSinceWatering = lastWatered ? Math.floor((Date.now() - new Date(lastWatered).getTime()) / DAY_MS) : null;
+  const needsWater = daysSinceWatering === null || daysSinceWatering >= species.wateringEveryDays;
+
+  const timeline: { stage: GrowthStage; day: number }[] = [
+    { stage: 'sprout', day: species.germinationDays },
+    { stage: 'seedling', day: species.seedlingDays },
+    { stage: 'flowering', day: species.matureDays },
+  ];
+
+  return (
+    <Card data-testid="card-species-guide">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center space-x-3">
+          <div className="text-4xl" aria-hidden="true">{species.emoji}</div>
+          <div>
+            <p className="font-bold text-foreground">{species.commonName}</p>
+            {species.scientificName && (
+              <p className="text-xs italic text-muted-foreground">{species.scientificName}</p>
+            )}
+          </div>
+        </div>
+
+        {/* Watering and Sunlight */}
+        <div className="space-y-2">
+          <div className={`flex items-start space-x-2 p-2 rounded-lg ${needsWater ? 'bg-accent/10' : 'bg-muted/50'}`}>
+            <Droplets className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+            <div className="text-sm">
+              <p className="text-foreground">
+                {species.wateringEveryDays === 1 ? 'Riégala todos los días' : `Riégala cada ${species.wateringEveryDays} días`}
+              </p>
+              <p className="text-xs text-muted-foreground" data-testid="text-watering-status">
+                {daysSinceWatering === null
+                  ? 'Anota cuando la riegues para saber cuándo le toca de nuevo.'
+                  : needsWater
+                    ? `¡Le toca agua! La regaste hace ${daysSinceWatering} ${daysSinceWatering === 1 ? 'día' : 'días'}.`
+                    : `Próximo riego en ${species.wateringEveryDays - daysSinceWatering} ${species.wateringEveryDays - daysSinceWatering === 1 ? 'día' : 'días'}.`}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-start space-x-2 p-2 rounded-lg bg-muted/50">
+            <Sun className="w-4 h-4 mt-0.5 text-accent-foreground shrink-0" />
+            <p className="text-sm text-foreground">{SUNLIGHT_LABELS[species.sunlight as SunlightNeed] ?? species.sunlight}</p>
+          </div>
+        </div>
+
+        {/* Expected Timeline */}
+        <div className="space-y-2">
+          <p className="text-sm font-semibold text-foreground">Cuándo suele crecer</p>
+          {timeline.map(({ stage, day }) => {
+            const milestone = lifecycle.milestones.find(reached => reached.stage === stage);
+            return (
+              <div key={stage} className="flex items-center justify-between text-sm" data-testid={`timeline-stage-${stage}`}>
+                <span className="text-muted-foreground">
+                  {GROWTH_STAGE_LABELS[stage].emoji} {GROWTH_STAGE_LABELS[stage].name} · día {day}
+                </span>
+                {milestone ? (
+                  <Badge className="bg-primary/10 text-primary">
+                    <CheckCircle2 className="w-3 h-3 mr-1" />
+                    {format(new Date(milestone.reachedAt), "d MMM", { locale: es })}
+                  </Badge>
+                ) : (
+                  <Badge variant="outline">
+                    ~{format(addDays(new Date(plantedAt), day), "d MMM", { locale: es })}
+                  </Badge>
+                )}
+              </div>
+            );
+          })}
+          <p className="text-xs text-muted-foreground">
+            Hoy es el día {lifecycle.daysSincePlanting} de tu planta. Cada planta tiene su ritmo.
+          </p>
+        </div>
+
+        {/* Tips */}
+        {species.tips.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-semibold text-foreground flex items-center">
+              <BookOpen className="w-4 h-4 mr-2 text-primary" />
+              Consejos
+            </p>
+            <ul className="list-disc pl-5 space-y-1">
+              {species.tips.map((tip) => (
+                <li key={tip} className="text-sm text-muted-foreground">{tip}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import type { PlantSpecies } from "@shared/schema";
+
+// Suggestions shown under the field
+const MAX_SUGGESTIONS = 6;
+
+// Accents and case are ignored, so "calendula" finds "Caléndula"
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+interface SpeciesPickerProps {
+  value: string;
+  onChange: (value: string, species: PlantSpecies | null) => void;
+  placeholder?: string;
+  testId?: string;
+}
+
+// Free-text plant type with suggestions from the species catalog; typing a species' name links it
+export default function SpeciesPicker({ value, onChange, placeholder, testId }: SpeciesPickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const { data: catalog = [] } = useQuery<PlantSpecies[]>({
+    queryKey: ['/api/plant-species'],
+    staleTime: Infinity,
+  });
+
+  const query = normalize(value);
+  const suggestions = catalog
+    .filter(species => normalize(species.commonName).includes(query))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const handleType = (text: string) => {
+    onChange(text, catalog.find(species => normalize(species.commonName) === normalize(text)) ?? null);
+    setIsOpen(true);
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => handleType(e.target.value)}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        autoComplete="off"
+        data-testid={testId}
+      />
+      {isOpen && suggestions.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover shadow-md" role="listbox">
+          {suggestions.map((species) => (
+            <button
+              key={species.id}
+              type="button"
+              role="option"
+              aria-selected={normalize(species.commonName) === query}
+              className="flex w-full items-center space-x-2 px-3 py-2 text-left text-sm hover:bg-accent/20"
+              // Chosen before the field loses focus and closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onChange(species.commonName, species);
+                setIsOpen(false);
+              }}
+              data-testid={`option-species-${species.slug}`}
+            >
+              <span aria-hidden="true">{species.emoji}</span>
+              <span className="text-foreground">{species.commonName}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { useEffect } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { subscribeToUpdates, applyUpdate } from "@/lib/service-worker";
+
+// Offers to reload when a new version of the app has been installed in the background
+// The page is never reloaded without asking: the child may be in the middle of an entry.
+export default function UpdatePrompt() {
+  const { toast } = useToast();
+
+  useEffect(() => {
+    return subscribeToUpdates(() => {
+      toast({
+        title: "Hay una nueva versión de Semillita",
+        description: "Actualiza cuando termines lo que estás haciendo.",
+        duration: Infinity,
+        action: (
+          <ToastAction altText="Actualizar la app" onClick={applyUpdate} data-testid="button-apply-update">
+            Actualizar
+          </ToastAction>
+        ),
+      });
+    });
+  }, [toast]);
+
+  return null;
+}
@@ -43,8 +43,8 @@ export function useNotifications() {
     try {
       const notification = new Notification(data.title, {
         body: data.message,
-        icon: '/favicon.ico', // App icon
-        badge: '/favicon.ico',
+        icon: '/icons/icon-192.png',
+        badge: '/icons/icon-192.png',
         tag: `semillita-${data.type}`,
         // timestamp: data.timestamp.getTime(), // Not supported in all browsers
         requireInteraction: false,
@@ -75,44 +75,6 @@ export function useNotifications() {
     }
   }, [isSupported, permission]);
 
-  const scheduleDailyReminder = useCallback((hour: number = 18, minute: number = 0) => {
-    if (!isSupported || permission !== 'granted') {
-      return null;
-    }
-
-    // Clear existing reminders
-    const existingReminders = JSON.parse(localStorage.getItem('semillita_reminders') || '[]');
-    existingReminders.forEach((id: number) => clearTimeout(id));
-
-    const now = new Date();
-    const reminderTime = new Date();
-    reminderTime.setHours(hour, minute, 0, 0);
-
-    // If the time has passed today, schedule for tomorrow
-    if (reminderTime <= now) {
-      reminderTime.setDate(reminderTime.getDate() + 1);
-    }
-
-    const timeUntilReminder = reminderTime.getTime() - now.getTime();
-
-    const timerId = setTimeout(() => {
-      sendNotification({
-        title: '🌱 ¿Cómo está tu planta hoy?',
-        message: 'No olvides registrar tus emociones y tomar una foto',
-        type: 'reminder',
-        timestamp: new Date(),
-      });
-
-      // Schedule next reminder for tomorrow
-      scheduleDailyReminder(hour, minute);
-    }, timeUntilReminder);
-
-    // Save reminder ID
-    localStorage.setItem('semillita_reminders', JSON.stringify([timerId]));
-
-    return timerId;
-  }, [isSupported, permission, sendNotification]);
-
   const sendAchievementNotification = useCallback(async (achievementName: string, points: number) => {
     return await sendNotification({
       title: '🏆 ¡Nuevo logro desbloqueado!',
@@ -131,20 +93,12 @@ export function useNotifications() {
     });
   }, [sendNotification]);
 
-  const clearAllReminders = useCallback(() => {
-    const existingReminders = JSON.parse(localStorage.getItem('semillita_reminders') || '[]');
-    existingReminders.forEach((id: number) => clearTimeout(id));
-    localStorage.removeItem('semillita_reminders');
-  }, []);
-
   return {
     isSupported,
     permission,
     requestPermission,
     sendNotification,
-    scheduleDailyReminder,
     sendAchievementNotification,
     sendMilestoneNotification,
-    clearAllReminders,
   };
 }
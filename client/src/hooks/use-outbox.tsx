@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from "react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useStorage } from "@/hooks/use-storage";
+import {
+  getOutboxEntries,
+  subscribeToOutbox,
+  flushOutbox,
+  retryOutboxEntry,
+  removeOutboxEntry,
+  isSending,
+  type OutboxEntry,
+  type SyncResult,
+} from "@/lib/outbox";
+import { subscribeToBackgroundSync } from "@/lib/service-worker";
+
+// Refresh everything a new journal entry changes (points, plant photo, achievements)
+export function invalidateJournalQueries(userId: string | undefined) {
+  queryClient.invalidateQueries({ queryKey: [`/api/dashboard/${userId}`] });
+  queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/users', userId, 'plant'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/users', userId, 'journal-entries'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/users', userId, 'achievements'] });
+  queryClient.invalidateQueries({ queryKey: ['/api/achievements'] });
+}
+
+function useOnline(): boolean {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+}
+
+// Entries of the current user waiting in the offline outbox
+export function useOutbox() {
+  const { currentUser } = useStorage();
+  const isOnline = useOnline();
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+
+  useEffect(() => {
+    if (!currentUser?.id) {
+      setEntries([]);
+      return;
+    }
+    const refresh = () => {
+      getOutboxEntries(currentUser.id).then(setEntries).catch((error) => {
+        console.error('Error reading the offline outbox:', error);
+      });
+    };
+    refresh();
+    const unsubscribeOutbox = subscribeToOutbox(refresh);
+    const unsubscribeSync = subscribeToBackgroundSync(refresh);
+    return () => {
+      unsubscribeOutbox();
+      unsubscribeSync();
+    };
+  }, [currentUser?.id]);
+
+  const syncNow = useCallback(() => flushOutbox(currentUser?.id), [currentUser?.id]);
+  const retry = useCallback((entry: OutboxEntry) => retryOutboxEntry(entry), []);
+  const discard = useCallback((entry: OutboxEntry) => removeOutboxEntry(entry.id), []);
+
+  return { entries, isOnline, isSending, syncNow, retry, discard };
+}
+
+// Send the outbox when the app opens and whenever the connection comes back (mounted once in App)
+// Entries sent by the service worker's background sync are announced the same way.
+export function useOutboxSync() {
+  const { currentUser } = useStorage();
+  const { toast } = useToast();
+  const isOnline = useOnline();
+
+  const announceSynced = useCallback((userId: string, synced: number, created: number) => {
+    if (synced === 0) {
+      return;
+    }
+    invalidateJournalQueries(userId);
+    toast({
+      title: "¡Entradas sincronizadas!",
+      description: created > 0
+        ? `Se enviaron ${created} entrada(s) escritas sin conexión: +${created * 10} puntos`
+        : "Tus entradas escritas sin conexión ya están guardadas",
+    });
+  }, [toast]);
+
+  useEffect(() => {
+    if (!currentUser?.id) {
+      return;
+    }
+    const userId = currentUser.id;
+    return subscribeToBackgroundSync(({ synced, created }) => announceSynced(userId, synced, created));
+  }, [currentUser?.id, announceSynced]);
+
+  useEffect(() => {
+    if (!currentUser?.id || !isOnline) {
+      return;
+    }
+
+    const userId = currentUser.id;
+    flushOutbox(userId)
+      .then((synced: SyncResult[]) => {
+        // Replays of entries the server already had bring no new points
+        const created = synced.filter(result => !result.response?.replayed);
+        announceSynced(userId, synced.length, created.length);
+      })
+      .catch((error) => {
+        console.error('Error syncing the offline outbox:', error);
+      });
+  }, [currentUser?.id, isOnline, announceSynced]);
+}
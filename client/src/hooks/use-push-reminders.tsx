@@ -0,0 +1,34 @@
+import { useEffect } from "react";
+import { useStorage } from "@/hooks/use-storage";
+import { isPushSupported, subscribeToPush } from "@/lib/push";
+import type { NotificationPreferences } from "@shared/schema";
+
+// Keep this browser subscribed to the server's reminders for the signed-in user (mounted once in App)
+// Asks for permission once per login while the child's reminders are on; the daily reminder
+// itself is scheduled by the server at the time saved in their preferences.
+export function usePushReminders() {
+  const { currentUser } = useStorage();
+
+  useEffect(() => {
+    if (!currentUser?.id || !isPushSupported() || Notification.permission === 'denied') {
+      return;
+    }
+
+    (async () => {
+      const response = await fetch(`/api/users/${currentUser.id}/notification-preferences`, { credentials: 'include' });
+      if (!response.ok) {
+        return;
+      }
+      const preferences: NotificationPreferences = await response.json();
+      if (!preferences.enabled) {
+        return;
+      }
+      if (Notification.permission === 'default' && (await Notification.requestPermission()) !== 'granted') {
+        return;
+      }
+      await subscribeToPush();
+    })().catch((error) => {
+      console.error('Error subscribing to push reminders:', error);
+    });
+  }, [currentUser?.id]);
+}
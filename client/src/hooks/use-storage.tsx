@@ -1,6 +1,8 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { useNotifications } from './use-notifications';
+import { clearOfflineData } from '@/lib/service-worker';
+import { unsubscribeFromPush } from '@/lib/push';
 
 interface User {
   id: string;
@@ -15,13 +17,15 @@ interface User {
   
   // Context and role
   context: 'workshop' | 'home';
-  role: 'child' | 'caregiver' | 'professional' | 'facilitator';
+  role: 'child' | 'caregiver' | 'professional' | 'facilitator' | 'admin';
   
   // Enhanced parental consent system
   parentalConsent: boolean;
   parentEmail?: string;
   parentalConsentDate?: string;
   consentVerified: boolean;
+  consentTermsVersion?: string | null;
+  reconsentRequired?: boolean; // Set by /api/auth/me when the terms changed since the parent consented
   
   // Legacy workshop mode (maintaining backward compatibility)
   isWorkshopMode: boolean;
@@ -33,17 +37,11 @@ interface User {
 interface StorageState {
   currentUser: User | null;
   onboardingCompleted: boolean;
-  notificationSettings: {
-    enabled: boolean;
-    time: string; // HH:MM format
-    types: string[]; // ['reminder', 'achievement', 'milestone']
-  };
-  
+
   // Actions
   setCurrentUser: (user: User | null) => void;
   updateUser: (updates: Partial<User>) => void;
   completeOnboarding: () => void;
-  updateNotificationSettings: (settings: Partial<StorageState['notificationSettings']>) => void;
   addPoints: (points: number) => void;
   clearStorage: () => void;
 }
@@ -53,11 +51,6 @@ export const useStorage = create<StorageState>()(
     (set, get) => ({
       currentUser: null,
       onboardingCompleted: false,
-      notificationSettings: {
-        enabled: true,
-        time: '18:00',
-        types: ['reminder', 'achievement', 'milestone'],
-      },
 
       setCurrentUser: (user) => {
         set({ currentUser: user });
@@ -80,16 +73,6 @@ export const useStorage = create<StorageState>()(
         set({ onboardingCompleted: true });
       },
 
-      updateNotificationSettings: (settings) => {
-        const currentSettings = get().notificationSettings;
-        set({
-          notificationSettings: {
-            ...currentSettings,
-            ...settings,
-          },
-        });
-      },
-
       addPoints: (points) => {
         const { currentUser } = get();
         if (currentUser) {
@@ -104,14 +87,17 @@ export const useStorage = create<StorageState>()(
       },
 
       clearStorage: () => {
+        // Stop this device's reminders, then end the server session too (fire and forget,
+        // the cookie is HttpOnly)
+        unsubscribeFromPush()
+          .catch(() => {})
+          .finally(() => fetch('/api/auth/logout', { method: 'POST', credentials: 'include' }).catch(() => {}));
+        // The service worker keeps the last dashboard for offline use
+        clearOfflineData();
+
         set({
           currentUser: null,
           onboardingCompleted: false,
-          notificationSettings: {
-            enabled: true,
-            time: '18:00',
-            types: ['reminder', 'achievement', 'milestone'],
-          },
         });
       },
     }),
@@ -120,7 +106,6 @@ export const useStorage = create<StorageState>()(
       partialize: (state) => ({
         currentUser: state.currentUser,
         onboardingCompleted: state.onboardingCompleted,
-        notificationSettings: state.notificationSettings,
       }),
     }
   )
@@ -129,17 +114,7 @@ export const useStorage = create<StorageState>()(
 // Hook with notification integration
 export function useStorageWithNotifications() {
   const storage = useStorage();
-  const { requestPermission, scheduleDailyReminder, sendAchievementNotification } = useNotifications();
-
-  const requestNotificationPermission = async () => {
-    if (storage.notificationSettings.enabled) {
-      const granted = await requestPermission();
-      if (granted) {
-        const [hour, minute] = storage.notificationSettings.time.split(':').map(Number);
-        scheduleDailyReminder(hour, minute);
-      }
-    }
-  };
+  const { sendAchievementNotification } = useNotifications();
 
   const addPointsWithNotification = async (points: number, reason?: string) => {
     const oldPoints = storage.currentUser?.points || 0;
@@ -166,7 +141,6 @@ export function useStorageWithNotifications() {
 
   return {
     ...storage,
-    requestNotificationPermission,
     addPointsWithNotification,
   };
 }
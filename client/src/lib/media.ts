@@ -0,0 +1,19 @@
+import type { RenditionSize, RenditionFormat } from "@shared/schema";
+
+// The API returns storage keys (<userId>/<filename>) for photos and recordings; /api/media checks
+// the session and redirects to a short-lived signed URL. Full URLs (already signed) are kept as is.
+// Images can ask for a smaller rendition or a modern format.
+export function mediaUrl(key: string, options: { size?: RenditionSize; format?: RenditionFormat } = {}): string {
+  if (/^(https?:|blob:|data:|\/)/.test(key)) {
+    return key;
+  }
+  const params = new URLSearchParams();
+  if (options.size) {
+    params.set('size', options.size);
+  }
+  if (options.format) {
+    params.set('format', options.format);
+  }
+  const query = params.toString();
+  return `/api/media/${key}${query ? `?${query}` : ''}`;
+}
@@ -0,0 +1,229 @@
+// Offline outbox for journal entries
+// Every new entry is saved in IndexedDB before it is sent, so nothing is lost in workshop rooms
+// without connectivity. Entries are replayed when the connection comes back, each with the
+// Idempotency-Key it was created with: if a response gets lost the server hands back the
+// original entry instead of creating a second one (and awarding the points twice).
+// When an entry cannot be sent, a background sync is registered so the service worker sends it
+// even if the app is closed before the connection comes back.
+
+import { requestBackgroundSync } from "@/lib/service-worker";
+import type { JournalEntry, UserAchievement } from "@shared/schema";
+
+const DB_NAME = 'semillita-outbox';
+const DB_VERSION = 1;
+const STORE = 'journal-entries';
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  id: string; // Idempotency key
+  userId: string;
+  draftedAt: string; // When the child wrote it, kept as the entry date
+  fields: Record<string, string>; // emotionId, textEntry, isPrivate, plantId, timezone
+  photo?: File;
+  audio?: File;
+  status: OutboxStatus; // failed: rejected by the server, waits for the child to retry or discard it
+  attempts: number;
+  lastError?: string;
+}
+
+// What POST /api/journal-entries answers; replayed entries bring no achievements
+export interface JournalEntryResponse {
+  entry: JournalEntry;
+  replayed?: boolean;
+  newAchievements?: UserAchievement[];
+}
+
+export interface SyncResult {
+  entry: OutboxEntry;
+  response: JournalEntryResponse;
+}
+
+// Errors that will not go away by sending the same entry again (invalid data, no consent...)
+export class OutboxRejectedError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'OutboxRejectedError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = run(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+// Components showing the outbox re-read it when it changes
+const listeners = new Set<() => void>();
+
+export function subscribeToOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+// Entries being sent right now (kept in memory: a closed tab leaves them pending, and
+// sending the same entry twice is harmless thanks to the idempotency key)
+const inFlight = new Set<string>();
+
+export function isSending(id: string): boolean {
+  return inFlight.has(id);
+}
+
+export async function getOutboxEntries(userId?: string): Promise<OutboxEntry[]> {
+  const entries = await withStore<OutboxEntry[]>('readonly', store => store.getAll());
+  return entries
+    .filter(entry => !userId || entry.userId === userId)
+    .sort((a, b) => a.draftedAt.localeCompare(b.draftedAt));
+}
+
+async function putEntry(entry: OutboxEntry): Promise<void> {
+  await withStore('readwrite', store => store.put(entry));
+  notify();
+}
+
+export async function removeOutboxEntry(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+  notify();
+}
+
+/**
+ * Save a new entry in the outbox (it is sent by sendOutboxEntry or the next sync)
+ */
+export async function enqueueEntry(userId: string, fields: Record<string, string>, files: { photo?: File | null; audio?: File | null }): Promise<OutboxEntry> {
+  const entry: OutboxEntry = {
+    id: crypto.randomUUID(),
+    userId,
+    draftedAt: new Date().toISOString(),
+    fields,
+    photo: files.photo ?? undefined,
+    audio: files.audio ?? undefined,
+    status: 'pending',
+    attempts: 0,
+  };
+  await putEntry(entry);
+  return entry;
+}
+
+/**
+ * Send one entry and remove it from the outbox once the server has it
+ * @throws OutboxRejectedError when the server refuses it; any other error means "try later"
+ */
+export async function sendOutboxEntry(entry: OutboxEntry): Promise<JournalEntryResponse> {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(entry.fields)) {
+    formData.append(name, value);
+  }
+  formData.append('draftedAt', entry.draftedAt);
+  if (entry.photo) {
+    formData.append('photo', entry.photo);
+  }
+  if (entry.audio) {
+    formData.append('audio', entry.audio);
+  }
+
+  inFlight.add(entry.id);
+  notify();
+  try {
+    let response: Response;
+    try {
+      response = await fetch('/api/journal-entries', {
+        method: 'POST',
+        headers: { 'Idempotency-Key': entry.id },
+        body: formData,
+        credentials: 'include',
+      });
+    } catch (error) {
+      requestBackgroundSync();
+      throw error;
+    }
+
+    if (!response.ok) {
+      const text = (await response.text()) || response.statusText;
+      // Server errors, timeouts, rate limits and expired sessions are worth another try
+      const retryable = response.status >= 500 || [401, 408, 429].includes(response.status);
+      await putEntry({
+        ...entry,
+        attempts: entry.attempts + 1,
+        status: retryable ? 'pending' : 'failed',
+        lastError: text,
+      });
+      if (retryable) {
+        requestBackgroundSync();
+      }
+      const message = `${response.status}: ${text}`;
+      throw retryable ? new Error(message) : new OutboxRejectedError(message, response.status);
+    }
+
+    const data: JournalEntryResponse = await response.json();
+    await removeOutboxEntry(entry.id);
+    return data;
+  } finally {
+    inFlight.delete(entry.id);
+    notify();
+  }
+}
+
+let flushing: Promise<SyncResult[]> | null = null;
+
+/**
+ * Send every pending entry, oldest first (concurrent calls share the same run)
+ * Stops at the first network error: the rest would fail the same way.
+ */
+export function flushOutbox(userId?: string): Promise<SyncResult[]> {
+  if (!flushing) {
+    flushing = (async () => {
+      const synced: SyncResult[] = [];
+      for (const entry of await getOutboxEntries(userId)) {
+        if (entry.status !== 'pending' || inFlight.has(entry.id)) {
+          continue;
+        }
+        try {
+          synced.push({ entry, response: await sendOutboxEntry(entry) });
+        } catch (error) {
+          if (!(error instanceof OutboxRejectedError)) {
+            break;
+          }
+        }
+      }
+      return synced;
+    })().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+/**
+ * Put a rejected entry back in the queue and try to send it
+ */
+export async function retryOutboxEntry(entry: OutboxEntry): Promise<SyncResult[]> {
+  await putEntry({ ...entry, status: 'pending' });
+  return await flushOutbox(entry.userId);
+}
@@ -0,0 +1,73 @@
+// Web Push subscription of this browser
+// Reminders are sent by the server (server/reminders.ts) and shown by the service worker, so
+// they arrive even when the app is closed. Needs the service worker, so production builds only.
+
+export function isPushSupported(): boolean {
+  return import.meta.env.PROD && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+// The browser's time zone, so reminders go out at the chosen local time
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// VAPID keys are base64url, PushManager wants the raw bytes
+function decodeBase64Url(value: string): Uint8Array {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+/**
+ * Subscribe this browser and register it for the signed-in user
+ * Notification permission must already be granted.
+ * @returns false when push is unavailable (unsupported browser or server without VAPID keys)
+ */
+export async function subscribeToPush(): Promise<boolean> {
+  if (!isPushSupported() || Notification.permission !== 'granted') {
+    return false;
+  }
+
+  const keyResponse = await fetch('/api/push/public-key');
+  if (!keyResponse.ok) {
+    return false;
+  }
+  const { publicKey } = await keyResponse.json();
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(publicKey),
+    });
+
+  const response = await fetch('/api/push/subscriptions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ subscription: subscription.toJSON(), timezone: deviceTimeZone() }),
+    credentials: 'include',
+  });
+  return response.ok;
+}
+
+/**
+ * Stop push notifications in this browser (on logout and when the child turns reminders off)
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  if (!isPushSupported()) {
+    return;
+  }
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) {
+    return;
+  }
+
+  await fetch('/api/push/subscriptions', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+    credentials: 'include',
+  }).catch(() => {});
+  await subscription.unsubscribe();
+}
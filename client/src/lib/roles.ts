@@ -0,0 +1,14 @@
+// Staff roles (facilitators and admins) use the facilitator panel, mirrors isStaffRole in server/policy.ts
+export function isStaff(user: { role: string } | null | undefined): boolean {
+  return user?.role === 'facilitator' || user?.role === 'admin';
+}
+
+// Caregivers (parents and tutors) use the caregiver portal; legacy "professional" accounts keep their own dashboard
+export function isCaregiver(user: { role: string } | null | undefined): boolean {
+  return user?.role === 'caregiver';
+}
+
+// Admins manage the deployment itself, e.g. inviting facilitators
+export function isAdmin(user: { role: string } | null | undefined): boolean {
+  return user?.role === 'admin';
+}
@@ -0,0 +1,118 @@
+// Service worker integration (client/public/sw.js)
+// Only registered in production builds: in development it would serve stale modules to Vite.
+
+// Keep in sync with DATA_CACHE and OUTBOX_SYNC_TAG in sw.js
+const DATA_CACHE = 'semillita-data';
+const OUTBOX_SYNC_TAG = 'journal-outbox';
+
+// How often an open app checks for a new deploy
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Background Sync is not in the DOM typings yet (and missing in Safari and Firefox)
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+// A new version is installed and waiting for the child to accept it
+let waitingWorker: ServiceWorker | null = null;
+const updateListeners = new Set<() => void>();
+
+function setWaitingWorker(worker: ServiceWorker) {
+  waitingWorker = worker;
+  updateListeners.forEach(listener => listener());
+}
+
+export function subscribeToUpdates(listener: () => void): () => void {
+  updateListeners.add(listener);
+  if (waitingWorker) {
+    listener();
+  }
+  return () => updateListeners.delete(listener);
+}
+
+function watchForUpdates(registration: ServiceWorkerRegistration) {
+  // No controller means this is the first install: nothing to update
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    setWaitingWorker(registration.waiting);
+  }
+
+  registration.addEventListener('updatefound', () => {
+    const installing = registration.installing;
+    installing?.addEventListener('statechange', () => {
+      if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+        setWaitingWorker(installing);
+      }
+    });
+  });
+
+  setInterval(() => {
+    registration.update().catch(() => {});
+  }, UPDATE_CHECK_INTERVAL_MS);
+}
+
+/**
+ * Activate the waiting version and reload once it controls the page
+ */
+export function applyUpdate() {
+  if (!waitingWorker) {
+    return;
+  }
+  navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+  waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+}
+
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js')
+      .then(watchForUpdates)
+      .catch((error) => {
+        console.error('Service worker registration failed:', error);
+      });
+  });
+}
+
+/**
+ * Ask the browser to send the outbox from the service worker once there is a connection,
+ * even if the app is closed by then. Browsers without Background Sync rely on the app
+ * sending the outbox when it is next opened online.
+ */
+export async function requestBackgroundSync(): Promise<void> {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return;
+  }
+  try {
+    const registration: SyncRegistration = await navigator.serviceWorker.ready;
+    await registration.sync?.register(OUTBOX_SYNC_TAG);
+  } catch (error) {
+    console.warn('Background sync registration failed:', error);
+  }
+}
+
+/**
+ * Listen for outbox entries sent by the service worker
+ */
+export function subscribeToBackgroundSync(listener: (result: { synced: number; created: number }) => void): () => void {
+  if (!('serviceWorker' in navigator)) {
+    return () => {};
+  }
+  const onMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'OUTBOX_SYNCED') {
+      listener({ synced: event.data.synced, created: event.data.created });
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', onMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', onMessage);
+}
+
+/**
+ * Delete cached API responses (dashboard) so the next person on a shared device cannot see them
+ */
+export function clearOfflineData() {
+  if ('caches' in window) {
+    caches.delete(DATA_CACHE).catch(() => {});
+  }
+}
@@ -1,6 +1,6 @@
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { Trophy, Star, Calendar, BookOpen, Sprout, Leaf, Award, Lock, ArrowLeft } from "lucide-react";
+import { Trophy, Star, Calendar, BookOpen, Sprout, Leaf, Award, Lock, ArrowLeft, Camera, Flame, Sun, Moon, Heart, Share2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -19,6 +19,7 @@ interface Achievement {
   earned?: boolean;
   earnedAt?: string;
   progress?: number;
+  progressDetail?: string | null;
 }
 
 export default function Achievements() {
@@ -34,7 +35,7 @@ export default function Achievements() {
     enabled: !!currentUser?.id,
   });
 
-  const { data: dashboardData } = useQuery({
+  const { data: dashboardData } = useQuery<{ user?: { points?: number }; achievements?: Achievement[] }>({
     queryKey: [`/api/dashboard/${currentUser?.id}`],
     enabled: !!currentUser?.id,
   });
@@ -55,39 +56,30 @@ export default function Achievements() {
         return <Trophy className={iconClass} />;
       case 'star':
         return <Star className={iconClass} />;
+      case 'camera':
+        return <Camera className={iconClass} />;
+      case 'flame':
+        return <Flame className={iconClass} />;
+      case 'sun':
+        return <Sun className={iconClass} />;
+      case 'moon':
+        return <Moon className={iconClass} />;
+      case 'heart':
+        return <Heart className={iconClass} />;
+      case 'share':
+        return <Share2 className={iconClass} />;
       default:
         return <Award className={iconClass} />;
     }
   };
 
-  const getProgressForAchievement = (achievement: Achievement): number => {
-    if (!dashboardData?.user) return 0;
-
-    try {
-      const condition = JSON.parse(achievement.condition);
-      const user = dashboardData.user;
-      const plant = dashboardData.plant;
-
-      switch (condition.type) {
-        case 'plant_created':
-          return plant ? 100 : 0;
-        case 'days_caring':
-          if (!plant) return 0;
-          const daysCaring = Math.floor((Date.now() - new Date(plant.plantedAt).getTime()) / (1000 * 60 * 60 * 24));
-          return Math.min((daysCaring / condition.count) * 100, 100);
-        case 'journal_entries':
-          const entriesCount = user.journalEntriesCount || 0;
-          return Math.min((entriesCount / condition.count) * 100, 100);
-        case 'points':
-          const points = user.points || 0;
-          const threshold = condition.threshold || achievement.pointsRequired;
-          return Math.min((points / threshold) * 100, 100);
-        default:
-          return 0;
-      }
-    } catch {
-      return 0;
-    }
+  // Progress towards each achievement's rule, worked out by the server
+  const getProgressForAchievement = (achievement: Achievement): { progress: number; progressDetail: string | null } => {
+    const withProgress = dashboardData?.achievements?.find(a => a.id === achievement.id);
+    return {
+      progress: withProgress?.progress ?? 0,
+      progressDetail: withProgress?.progressDetail ?? null,
+    };
   };
 
   if (!currentUser) {
@@ -112,7 +104,7 @@ export default function Achievements() {
     ...achievement,
     earned: earnedIds.has(achievement.id),
     earnedAt: earnedAchievements.find((ua: any) => ua.achievementId === achievement.id)?.earnedAt,
-    progress: getProgressForAchievement(achievement),
+    ...getProgressForAchievement(achievement),
   }));
 
   const earnedCount = earnedAchievements.length;
@@ -250,7 +242,7 @@ export default function Achievements() {
                           <div className="space-y-1">
                             <Progress value={achievement.progress} className="h-2" />
                             <p className="text-xs text-muted-foreground">
-                              {Math.round(achievement.progress)}% completado
+                              {achievement.progressDetail ?? `${Math.round(achievement.progress)}% completado`}
                             </p>
                           </div>
                         </div>
@@ -1,36 +1,58 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
-import { useMutation } from "@tanstack/react-query";
-import { Mail, Clock, Shield, CheckCircle, XCircle } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Mail, Clock, Shield, CheckCircle, XCircle, RefreshCw } from "lucide-react";
 import AppHeader from "@/components/app-header";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useStorage } from "@/hooks/use-storage";
 
+interface ConsentStatus {
+  consentVerified: boolean;
+  reconsentRequired: boolean;
+  consentTermsVersion: string | null;
+  currentTermsVersion: string;
+  request: {
+    status: 'pending' | 'granted' | 'denied' | 'revoked' | 'superseded';
+    parentEmail: string;
+    createdAt: string;
+    expiresAt: string;
+  } | null;
+}
+
 export default function AwaitingConsent() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { currentUser, setCurrentUser } = useStorage();
-  const [verificationCode, setVerificationCode] = useState("");
+  const [showEmailForm, setShowEmailForm] = useState(false);
+  const [parentEmail, setParentEmail] = useState("");
+
+  const { data: consentStatus } = useQuery<ConsentStatus>({
+    queryKey: [`/api/users/${currentUser?.id}/consent`],
+    enabled: !!currentUser?.id,
+  });
 
-  const verifyConsentMutation = useMutation({
-    mutationFn: async (code: string) => {
-      if (!currentUser?.id) {
-        throw new Error('No user found for verification');
+  const request = consentStatus?.request;
+  const expired = request?.status === 'pending' && new Date(request.expiresAt).getTime() < Date.now();
+
+  // The parent answers from their email - check whether consent has arrived
+  const checkConsentMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/auth/me', { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error('No se pudo verificar');
       }
-      const response = await apiRequest('POST', '/api/verify-consent', { 
-        verificationCode: code,
-        userId: currentUser.id 
-      });
       return response.json();
     },
     onSuccess: (user) => {
-      if (user.consentVerified) {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${currentUser?.id}/consent`] });
+      if (user.consentVerified && !user.reconsentRequired) {
         setCurrentUser(user);
+        queryClient.setQueryData(['/api/auth/me'], user);
         toast({
           title: "¡Consentimiento verificado!",
           description: "El adulto responsable ha autorizado tu acceso. ¡Bienvenido a Semillita!",
@@ -38,49 +60,62 @@ export default function AwaitingConsent() {
         setLocation('/onboarding');
       } else {
         toast({
-          title: "Código incorrecto",
-          description: "El código ingresado no es válido. Inténtalo de nuevo.",
-          variant: "destructive",
+          title: "Aún no hay respuesta",
+          description: "El adulto responsable todavía no ha autorizado tu acceso.",
         });
       }
     },
     onError: () => {
       toast({
         title: "Error de verificación",
-        description: "No se pudo verificar el código. Inténtalo de nuevo.",
+        description: "No se pudo verificar. Inténtalo de nuevo.",
         variant: "destructive",
       });
     },
   });
 
   const resendEmailMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest('POST', '/api/resend-consent-email', {});
+    mutationFn: async (newParentEmail?: string) => {
+      const response = await fetch('/api/resend-consent-email', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(newParentEmail ? { parentEmail: newParentEmail } : {}),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'No se pudo reenviar el correo. Inténtalo más tarde.');
+      }
+
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: ({ parentEmail: sentTo }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${currentUser?.id}/consent`] });
+      setShowEmailForm(false);
+      setParentEmail("");
       toast({
-        title: "Correo reenviado",
-        description: "Se ha enviado nuevamente el correo de confirmación al adulto responsable.",
+        title: "Correo enviado",
+        description: `Se envió un nuevo correo de confirmación a ${sentTo}.`,
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "No se pudo reenviar el correo. Inténtalo más tarde.",
+        description: error.message,
         variant: "destructive",
       });
     },
   });
 
-  const handleVerify = () => {
-    if (verificationCode.trim()) {
-      verifyConsentMutation.mutate(verificationCode.trim());
-    }
+  const handleResendEmail = () => {
+    resendEmailMutation.mutate(undefined);
   };
 
-  const handleResendEmail = () => {
-    resendEmailMutation.mutate();
+  const handleChangeEmail = () => {
+    if (parentEmail.trim()) {
+      resendEmailMutation.mutate(parentEmail.trim());
+    }
   };
 
   // COPPA compliance: Don't allow navigation away from consent flow
@@ -119,6 +154,16 @@ export default function AwaitingConsent() {
           </AlertDescription>
         </Alert>
 
+        {consentStatus?.reconsentRequired && (
+          <Alert data-testid="alert-reconsent">
+            <Shield className="h-4 w-4" />
+            <AlertDescription>
+              <strong>Actualizamos los términos de uso.</strong> El adulto responsable debe confirmar
+              nuevamente su autorización para que sigas usando Semillita.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Email Status */}
         <Card>
           <CardHeader>
@@ -128,68 +173,66 @@ export default function AwaitingConsent() {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="flex items-start space-x-3">
-              <CheckCircle className="w-5 h-5 text-green-500 mt-0.5" />
-              <div>
-                <p className="text-sm font-medium">Se envió un correo de confirmación</p>
-                <p className="text-xs text-muted-foreground">
-                  El adulto responsable recibirá un correo con instrucciones para autorizar tu acceso.
-                </p>
+            {request?.status === 'denied' || request?.status === 'revoked' ? (
+              <div className="flex items-start space-x-3" data-testid="consent-status-closed">
+                <XCircle className="w-5 h-5 text-destructive mt-0.5" />
+                <div>
+                  <p className="text-sm font-medium">
+                    {request.status === 'denied' ? 'El adulto no autorizó tu acceso' : 'El adulto retiró la autorización'}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Conversa con el adulto responsable. Si cambia de opinión, puedes enviarle un nuevo correo.
+                  </p>
+                </div>
               </div>
-            </div>
-            
-            <div className="flex items-start space-x-3">
-              <Clock className="w-5 h-5 text-orange-500 mt-0.5" />
-              <div>
-                <p className="text-sm font-medium">Esperando confirmación</p>
-                <p className="text-xs text-muted-foreground">
-                  Una vez que el adulto confirme, podrás usar Semillita inmediatamente.
-                </p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+            ) : (
+              <>
+                <div className="flex items-start space-x-3">
+                  <CheckCircle className="w-5 h-5 text-green-500 mt-0.5" />
+                  <div>
+                    <p className="text-sm font-medium">Se envió un correo de confirmación</p>
+                    <p className="text-xs text-muted-foreground">
+                      {request
+                        ? `Lo enviamos a ${request.parentEmail}. Tiene un enlace para autorizar tu acceso.`
+                        : 'El adulto responsable recibirá un correo con instrucciones para autorizar tu acceso.'}
+                    </p>
+                  </div>
+                </div>
 
-        {/* Verification Code Entry */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg">¿Ya tienes el código?</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <p className="text-sm text-muted-foreground">
-              Si el adulto responsable ya confirmó tu acceso, ingresa el código que recibiste:
-            </p>
-            
-            <div className="space-y-3">
-              <Input
-                type="text"
-                placeholder="Código de verificación"
-                value={verificationCode}
-                onChange={(e) => setVerificationCode(e.target.value)}
-                data-testid="input-verification-code"
-                className="text-center text-lg tracking-widest"
-                maxLength={8}
-              />
-              
-              <Button
-                onClick={handleVerify}
-                disabled={!verificationCode.trim() || verifyConsentMutation.isPending}
-                className="w-full"
-                data-testid="button-verify-code"
-              >
-                {verifyConsentMutation.isPending ? (
-                  <div className="flex items-center">
-                    <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full mr-2" />
-                    Verificando...
+                <div className="flex items-start space-x-3">
+                  <Clock className="w-5 h-5 text-orange-500 mt-0.5" />
+                  <div>
+                    <p className="text-sm font-medium">
+                      {expired ? 'El enlace venció' : 'Esperando confirmación'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {expired
+                        ? 'Envía un nuevo correo para que el adulto pueda responder.'
+                        : 'Una vez que el adulto confirme, podrás usar Semillita inmediatamente.'}
+                    </p>
                   </div>
-                ) : (
-                  <>
-                    <CheckCircle className="w-4 h-4 mr-2" />
-                    Verificar código
-                  </>
-                )}
-              </Button>
-            </div>
+                </div>
+              </>
+            )}
+
+            <Button
+              onClick={() => checkConsentMutation.mutate()}
+              disabled={checkConsentMutation.isPending}
+              className="w-full"
+              data-testid="button-check-consent"
+            >
+              {checkConsentMutation.isPending ? (
+                <div className="flex items-center">
+                  <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full mr-2" />
+                  Verificando...
+                </div>
+              ) : (
+                <>
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Ya me autorizó
+                </>
+              )}
+            </Button>
           </CardContent>
         </Card>
 
@@ -220,6 +263,35 @@ export default function AwaitingConsent() {
                 )}
               </Button>
 
+              {showEmailForm ? (
+                <div className="space-y-2">
+                  <Input
+                    type="email"
+                    placeholder="correo@ejemplo.com"
+                    value={parentEmail}
+                    onChange={(e) => setParentEmail(e.target.value)}
+                    data-testid="input-new-parent-email"
+                  />
+                  <Button
+                    onClick={handleChangeEmail}
+                    disabled={!parentEmail.trim() || resendEmailMutation.isPending}
+                    className="w-full"
+                    data-testid="button-send-new-parent-email"
+                  >
+                    Enviar a este correo
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  variant="outline"
+                  onClick={() => setShowEmailForm(true)}
+                  className="w-full"
+                  data-testid="button-change-parent-email"
+                >
+                  Cambiar correo del adulto
+                </Button>
+              )}
+
               <Button
                 variant="ghost"
                 onClick={() => setLocation('/welcome')}
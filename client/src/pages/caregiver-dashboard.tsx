@@ -0,0 +1,284 @@
+import { useState, useEffect } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Heart, LogOut, Sprout, Trophy, Star, Calendar, Lock, Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { useStorage } from "@/hooks/use-storage";
+import { isCaregiver } from "@/lib/roles";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import MediaImage from "@/components/media-image";
+
+interface GuardedChild {
+  id: string;
+  alias: string;
+  avatar: string | null;
+  colorTheme: string | null;
+  points: number | null;
+  plantName: string | null;
+  plantStatus: string | null;
+  plantedAt: string | null;
+  latestPhotoUrl: string | null;
+  achievementsCount: number;
+  lastEntryAt: string | null;
+}
+
+interface CaregiverChildView {
+  child: { id: string; alias: string; avatar: string | null; colorTheme: string | null; points: number | null };
+  plant: { name: string | null; status: string | null; plantedAt: string | null; latestPhotoUrl: string | null } | null;
+  achievements: Array<{ id: string; name: string; description: string; icon: string }>;
+  moodSummary: {
+    since: string;
+    days: number;
+    entriesCount: number;
+    emotions: Array<{ emotionId: string; name: string; emoji: string; color: string; count: number }>;
+  };
+}
+
+const AVATAR_EMOJIS: Record<string, string> = {
+  plant1: '🌱',
+  plant2: '🌿',
+  flower1: '🌸',
+  flower2: '🌻',
+  tree: '🌳',
+  cactus: '🌵',
+};
+
+const PLANT_STATUS_LABELS: Record<string, string> = {
+  growing: 'Creciendo',
+  alive: 'Saludable',
+  withered: 'Necesita cuidados',
+};
+
+export default function CaregiverDashboard() {
+  const { currentUser, clearStorage } = useStorage();
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [selectedChildId, setSelectedChildId] = useState<string | null>(null);
+
+  const { data: children = [], isLoading } = useQuery<GuardedChild[]>({
+    queryKey: ['/api/caregiver/children'],
+    enabled: isCaregiver(currentUser),
+  });
+
+  // Show the first child by default
+  useEffect(() => {
+    if (!selectedChildId && children.length > 0) {
+      setSelectedChildId(children[0].id);
+    }
+  }, [children, selectedChildId]);
+
+  const { data: childView } = useQuery<CaregiverChildView>({
+    queryKey: [`/api/caregiver/child/${selectedChildId}`],
+    enabled: !!selectedChildId,
+  });
+
+  const handleLogout = () => {
+    toast({
+      title: "¡Hasta pronto!",
+      description: "Has cerrado sesión correctamente.",
+    });
+
+    queryClient.clear();
+    clearStorage();
+
+    setTimeout(() => {
+      setLocation('/welcome');
+    }, 100);
+  };
+
+  const daysSince = (dateString: string | null) => {
+    if (!dateString) return 0;
+    return Math.max(0, Math.floor((Date.now() - new Date(dateString).getTime()) / (24 * 60 * 60 * 1000)));
+  };
+
+  if (!isCaregiver(currentUser)) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="text-lg">Acceso solo para adultos responsables</div>
+      </div>
+    );
+  }
+
+  const maxMoodCount = Math.max(1, ...(childView?.moodSummary.emotions.map(mood => mood.count) ?? []));
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="p-4 space-y-6">
+        {/* Header Card */}
+        <Card className="bg-gradient-to-r from-primary to-accent text-white border-0 shadow-lg">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 bg-white bg-opacity-20 rounded-full flex items-center justify-center">
+                  <Heart className="w-6 h-6 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-lg font-bold">Adulto Responsable</h1>
+                  <p className="text-xs opacity-90">{currentUser?.alias}</p>
+                </div>
+              </div>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="w-8 h-8 bg-white bg-opacity-20 hover:bg-white hover:bg-opacity-30"
+                onClick={handleLogout}
+                title="Cerrar sesión"
+                data-testid="button-caregiver-logout"
+              >
+                <LogOut className="w-4 h-4 text-white" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="text-center text-muted-foreground">Cargando...</div>
+        ) : children.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <Sprout className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">
+                Aún no tienes niños vinculados. Se vinculan desde el correo de autorización.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Child selector */}
+            {children.length > 1 && (
+              <div className="flex flex-wrap gap-2">
+                {children.map((child) => (
+                  <Button
+                    key={child.id}
+                    variant={selectedChildId === child.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setSelectedChildId(child.id)}
+                    data-testid={`button-select-child-${child.id}`}
+                  >
+                    <span className="mr-1">{AVATAR_EMOJIS[child.avatar ?? ''] ?? '🌱'}</span>
+                    {child.alias}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {childView && (
+              <>
+                {/* Child + plant progress */}
+                <Card>
+                  <CardContent className="p-4 space-y-4">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-12 h-12 bg-primary/10 rounded-full flex items-center justify-center text-2xl">
+                        {AVATAR_EMOJIS[childView.child.avatar ?? ''] ?? '🌱'}
+                      </div>
+                      <div className="flex-1">
+                        <h2 className="text-lg font-bold text-foreground">{childView.child.alias}</h2>
+                        <div className="flex items-center space-x-1 text-sm text-muted-foreground">
+                          <Star className="w-4 h-4 text-yellow-500" />
+                          <span>{childView.child.points ?? 0} puntos</span>
+                        </div>
+                      </div>
+                    </div>
+
+                    {childView.plant ? (
+                      <div className="flex items-center space-x-3 p-3 bg-primary/5 rounded-lg">
+                        {childView.plant.latestPhotoUrl ? (
+                          <MediaImage
+                            storageKey={childView.plant.latestPhotoUrl}
+                            size="thumb"
+                            alt="Foto de la planta"
+                            className="w-16 h-16 object-cover rounded-lg"
+                          />
+                        ) : (
+                          <div className="w-16 h-16 bg-primary/10 rounded-lg flex items-center justify-center">
+                            <Sprout className="w-8 h-8 text-primary" />
+                          </div>
+                        )}
+                        <div>
+                          <p className="font-semibold text-foreground">{childView.plant.name || 'Su plantita'}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {PLANT_STATUS_LABELS[childView.plant.status ?? ''] ?? childView.plant.status}
+                          </p>
+                          <p className="text-xs text-muted-foreground flex items-center">
+                            <Calendar className="w-3 h-3 mr-1" />
+                            {daysSince(childView.plant.plantedAt)} días cuidándola
+                          </p>
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">Aún no tiene una planta activa.</p>
+                    )}
+
+                    <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                      <Trophy className="w-4 h-4 text-yellow-500" />
+                      <span>{childView.achievements.length} logros obtenidos</span>
+                    </div>
+                  </CardContent>
+                </Card>
+
+                {/* Weekly mood summary */}
+                <Card>
+                  <CardContent className="p-4 space-y-4">
+                    <div className="flex items-center justify-between">
+                      <h3 className="font-semibold text-foreground">Emociones de la semana</h3>
+                      <Badge variant="secondary" className="text-xs">
+                        {childView.moodSummary.entriesCount} {childView.moodSummary.entriesCount === 1 ? 'registro' : 'registros'}
+                      </Badge>
+                    </div>
+
+                    {childView.moodSummary.emotions.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        No hay registros compartidos en los últimos {childView.moodSummary.days} días.
+                      </p>
+                    ) : (
+                      <div className="space-y-3" data-testid="list-mood-summary">
+                        {childView.moodSummary.emotions.map((mood) => (
+                          <div key={mood.emotionId} className="space-y-1">
+                            <div className="flex items-center justify-between text-sm">
+                              <span>
+                                <span className="mr-2">{mood.emoji}</span>
+                                {mood.name}
+                              </span>
+                              <span className="text-muted-foreground">{mood.count}</span>
+                            </div>
+                            <Progress value={(mood.count / maxMoodCount) * 100} className="h-2" />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <p className="text-xs text-muted-foreground flex items-center">
+                      <Lock className="w-3 h-3 mr-1" />
+                      Las entradas que {childView.child.alias} marca como privadas no se muestran.
+                    </p>
+                  </CardContent>
+                </Card>
+
+                {/* Data export (access request) */}
+                <Card>
+                  <CardContent className="p-4 space-y-3">
+                    <h3 className="font-semibold text-foreground">Sus datos</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Descarga un archivo ZIP con lo que Semillita guarda de {childView.child.alias}:
+                      su diario, fotos, audios, plantas y logros. Las entradas privadas no se incluyen.
+                    </p>
+                    <Button variant="outline" className="w-full" asChild>
+                      <a href={`/api/users/${childView.child.id}/export`} download data-testid="button-export-child-data">
+                        <Download className="w-4 h-4 mr-2" />
+                        Descargar sus datos
+                      </a>
+                    </Button>
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
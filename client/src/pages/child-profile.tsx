@@ -1,11 +1,13 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation, useRoute } from "wouter";
-import { ArrowLeft, Calendar, Star, BookOpen, Sprout, Trophy, Award, ShoppingBag, Trash2, Play, Pause } from "lucide-react";
+import { ArrowLeft, Calendar, Star, BookOpen, Sprout, Trophy, Award, ShoppingBag, Trash2, Play, Pause, KeyRound, ShieldCheck, Download, RotateCcw } from "lucide-react";
+import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useStorage } from "@/hooks/use-storage";
+import { isStaff } from "@/lib/roles";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import {
@@ -18,6 +20,8 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { mediaUrl } from "@/lib/media";
+import MediaImage from "@/components/media-image";
 
 interface JournalEntry {
   id: string;
@@ -61,6 +65,40 @@ interface UserReward {
   };
 }
 
+interface ConsentEvent {
+  id: string;
+  type: 'acknowledged' | 'requested' | 'granted' | 'reconfirmed' | 'denied' | 'revoked';
+  termsVersion: string;
+  actorType: 'child' | 'parent' | 'staff' | 'system';
+  actorName: string | null;
+  details: string | null;
+  createdAt: string;
+}
+
+const CONSENT_EVENT_LABELS: Record<ConsentEvent['type'], string> = {
+  acknowledged: 'Aceptó los términos',
+  requested: 'Solicitud enviada',
+  granted: 'Autorizado',
+  reconfirmed: 'Autorización renovada',
+  denied: 'No autorizado',
+  revoked: 'Autorización retirada',
+};
+
+const CONSENT_ACTOR_LABELS: Record<ConsentEvent['actorType'], string> = {
+  child: 'Niño/a',
+  parent: 'Adulto responsable',
+  staff: 'Facilitador',
+  system: 'Sistema',
+};
+
+interface DeletedJournalEntry {
+  id: string;
+  textEntry: string | null;
+  createdAt: string;
+  deletedAt: string;
+  restorableUntil: string;
+}
+
 interface ChildProfileData {
   child: {
     id: string;
@@ -110,6 +148,8 @@ export default function ChildProfile() {
   const [showDeleteUserDialog, setShowDeleteUserDialog] = useState(false);
   const [showDeleteEntryDialog, setShowDeleteEntryDialog] = useState(false);
   const [entryToDelete, setEntryToDelete] = useState<string | null>(null);
+  const [showPinDialog, setShowPinDialog] = useState(false);
+  const [newPin, setNewPin] = useState("");
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
   const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
   const { toast } = useToast();
@@ -118,13 +158,25 @@ export default function ChildProfile() {
 
   const { data: profileData, isLoading, error } = useQuery<ChildProfileData>({
     queryKey: [`/api/facilitator/child/${childId}`],
-    enabled: !!currentUser?.id && currentUser?.role === 'facilitator' && !!childId,
+    enabled: !!currentUser?.id && isStaff(currentUser) && !!childId,
     refetchOnWindowFocus: true, // Only refetch when window regains focus
     staleTime: 30000, // Consider data stale after 30 seconds
     retry: 1, // Retry failed requests once
     retryDelay: 1000, // Wait 1 second between retries
   });
 
+  // Consent history (audit ledger)
+  const { data: consentEvents = [] } = useQuery<ConsentEvent[]>({
+    queryKey: [`/api/users/${childId}/consent-events`],
+    enabled: !!currentUser?.id && isStaff(currentUser) && !!childId,
+  });
+
+  // Journal entries deleted in the last 30 days (they can still be restored)
+  const { data: deletedEntries = [] } = useQuery<DeletedJournalEntry[]>({
+    queryKey: [`/api/facilitator/child/${childId}/deleted-entries`],
+    enabled: !!currentUser?.id && isStaff(currentUser) && !!childId,
+  });
+
   // Fetch emotions list
   const { data: emotionsData } = useQuery<Array<{ id: string; name: string; emoji: string; color: string }>>({
     queryKey: ['/api/emotions'],
@@ -134,7 +186,7 @@ export default function ChildProfile() {
   // Delete user mutation
   const deleteUserMutation = useMutation({
     mutationFn: async (userId: string) => {
-      const response = await fetch(`/api/users/${userId}?requestingUserId=${currentUser?.id}`, {
+      const response = await fetch(`/api/users/${userId}`, {
         method: 'DELETE',
       });
       if (!response.ok) {
@@ -146,9 +198,10 @@ export default function ChildProfile() {
     onSuccess: () => {
       toast({
         title: "Usuario eliminado",
-        description: "El usuario ha sido eliminado exitosamente.",
+        description: "Puedes restaurarlo desde el panel durante 30 días.",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/facilitator/dashboard'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/facilitator/deleted-children'] });
       setLocation('/facilitator/dashboard');
     },
     onError: (error: Error) => {
@@ -163,7 +216,7 @@ export default function ChildProfile() {
   // Delete journal entry mutation
   const deleteEntryMutation = useMutation({
     mutationFn: async (entryId: string) => {
-      const response = await fetch(`/api/journal-entries/${entryId}?requestingUserId=${currentUser?.id}`, {
+      const response = await fetch(`/api/journal-entries/${entryId}`, {
         method: 'DELETE',
       });
       if (!response.ok) {
@@ -175,9 +228,70 @@ export default function ChildProfile() {
     onSuccess: () => {
       toast({
         title: "Entrada eliminada",
-        description: "La entrada ha sido eliminada exitosamente.",
+        description: "Puedes restaurarla desde este perfil durante 30 días.",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/facilitator/child/${childId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/facilitator/child/${childId}/deleted-entries`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Undo a journal entry's deletion
+  const restoreEntryMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      const response = await fetch(`/api/facilitator/journal-entries/${entryId}/restore`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Error al restaurar la entrada');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Entrada restaurada",
+        description: "La entrada vuelve a aparecer en la bitácora.",
       });
       queryClient.invalidateQueries({ queryKey: [`/api/facilitator/child/${childId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/facilitator/child/${childId}/deleted-entries`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Set or reset the child's login PIN
+  const setPinMutation = useMutation({
+    mutationFn: async (pin: string) => {
+      const response = await fetch(`/api/facilitator/child/${childId}/pin`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pin }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Error al asignar el PIN');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "PIN actualizado",
+        description: "El niño ya puede iniciar sesión con su nuevo PIN.",
+      });
+      setShowPinDialog(false);
+      setNewPin("");
     },
     onError: (error: Error) => {
       toast({
@@ -223,7 +337,7 @@ export default function ChildProfile() {
     }
 
     // Play new audio
-    const audio = new Audio(audioUrl);
+    const audio = new Audio(mediaUrl(audioUrl));
     audio.play();
     setPlayingAudioId(entryId);
     setAudioElement(audio);
@@ -234,7 +348,7 @@ export default function ChildProfile() {
     };
   };
 
-  if (!currentUser || currentUser.role !== 'facilitator') {
+  if (!currentUser || !isStaff(currentUser)) {
     setLocation('/welcome');
     return null;
   }
@@ -349,15 +463,37 @@ export default function ChildProfile() {
                 <ArrowLeft className="w-4 h-4 text-white" />
               </Button>
               <h2 className="text-sm opacity-90">Perfil del Niño</h2>
-              <Button
-                size="icon"
-                variant="ghost"
-                className="w-8 h-8 bg-red-500 bg-opacity-80 hover:bg-red-600 hover:bg-opacity-90"
-                onClick={() => setShowDeleteUserDialog(true)}
-                title="Eliminar usuario"
-              >
-                <Trash2 className="w-4 h-4 text-white" />
-              </Button>
+              <div className="flex items-center space-x-2">
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="w-8 h-8 bg-white bg-opacity-20 hover:bg-white hover:bg-opacity-30"
+                  onClick={() => setShowPinDialog(true)}
+                  title="Asignar PIN"
+                >
+                  <KeyRound className="w-4 h-4 text-white" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="w-8 h-8 bg-white bg-opacity-20 hover:bg-white hover:bg-opacity-30"
+                  asChild
+                  title="Descargar datos"
+                >
+                  <a href={`/api/users/${childId}/export`} download data-testid="button-export-child-data">
+                    <Download className="w-4 h-4 text-white" />
+                  </a>
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="w-8 h-8 bg-red-500 bg-opacity-80 hover:bg-red-600 hover:bg-opacity-90"
+                  onClick={() => setShowDeleteUserDialog(true)}
+                  title="Eliminar usuario"
+                >
+                  <Trash2 className="w-4 h-4 text-white" />
+                </Button>
+              </div>
             </div>
             <div className="flex items-center space-x-4">
               <div className={`w-16 h-16 ${childColorTheme.color} rounded-full flex items-center justify-center shadow-lg`}>
@@ -405,8 +541,9 @@ export default function ChildProfile() {
                   <p className="text-sm text-muted-foreground capitalize">{plant.status}</p>
                 </div>
                 {plant.latestPhotoUrl && (
-                  <img
-                    src={plant.latestPhotoUrl}
+                  <MediaImage
+                    storageKey={plant.latestPhotoUrl}
+                    size="thumb"
                     alt="Planta"
                     className="w-16 h-16 object-cover rounded-lg"
                   />
@@ -498,6 +635,40 @@ export default function ChildProfile() {
           </Card>
         )}
 
+        {/* Consent History */}
+        {consentEvents.length > 0 && (
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-3 mb-4">
+                <ShieldCheck className="w-5 h-5 text-primary" />
+                <h3 className="font-semibold text-foreground">Historial de Consentimiento</h3>
+              </div>
+
+              <div className="space-y-2" data-testid="list-consent-events">
+                {consentEvents.map((event) => (
+                  <div key={event.id} className="flex items-start justify-between p-2 bg-muted/30 rounded-lg">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-foreground">
+                        {CONSENT_EVENT_LABELS[event.type] ?? event.type}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {CONSENT_ACTOR_LABELS[event.actorType] ?? event.actorType}
+                        {event.actorName ? ` · ${event.actorName}` : ''} · {formatDate(event.createdAt)}
+                      </p>
+                      {event.details && (
+                        <p className="text-xs text-muted-foreground">{event.details}</p>
+                      )}
+                    </div>
+                    <Badge variant="outline" className="text-xs flex-shrink-0">
+                      v{event.termsVersion}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Journal Entries - Bitácora */}
         <div className="space-y-4">
           <div className="flex items-center space-x-2">
@@ -592,8 +763,9 @@ export default function ChildProfile() {
                         )}
 
                         {entry.photoUrl && (
-                          <img
-                            src={entry.photoUrl}
+                          <MediaImage
+                            storageKey={entry.photoUrl}
+                            size="card"
                             alt="Foto de entrada"
                             className="w-full h-32 object-cover rounded-lg mt-2"
                           />
@@ -664,6 +836,44 @@ export default function ChildProfile() {
             </div>
           )}
         </div>
+
+        {/* Recently deleted journal entries */}
+        {deletedEntries.length > 0 && (
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-3 mb-4">
+                <Trash2 className="w-5 h-5 text-muted-foreground" />
+                <h3 className="font-semibold text-foreground">Entradas eliminadas</h3>
+              </div>
+
+              <div className="space-y-2" data-testid="list-deleted-entries">
+                {deletedEntries.map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between p-2 bg-muted/30 rounded-lg">
+                    <div className="min-w-0">
+                      <p className="text-sm text-foreground truncate">
+                        {entry.textEntry || `Entrada del ${formatDate(entry.createdAt)}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Se borrará definitivamente el {new Date(entry.restorableUntil).toLocaleDateString('es')}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="flex-shrink-0"
+                      onClick={() => restoreEntryMutation.mutate(entry.id)}
+                      disabled={restoreEntryMutation.isPending}
+                      data-testid={`button-restore-entry-${entry.id}`}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restaurar
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
 
       {/* Delete User Confirmation Dialog */}
@@ -672,7 +882,7 @@ export default function ChildProfile() {
           <AlertDialogHeader>
             <AlertDialogTitle>¿Eliminar usuario?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta acción eliminará permanentemente el usuario <strong>{child.alias}</strong> y todos sus datos asociados (plantas, entradas, logros, etc.). Esta acción no se puede deshacer.
+              Se eliminará el usuario <strong>{child.alias}</strong> y todos sus datos asociados (plantas, entradas, logros, etc.). Podrás restaurarlo desde el panel durante 30 días; después se borrará definitivamente.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -687,13 +897,45 @@ export default function ChildProfile() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Set PIN Dialog */}
+      <AlertDialog open={showPinDialog} onOpenChange={(open) => { setShowPinDialog(open); if (!open) setNewPin(""); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Asignar PIN</AlertDialogTitle>
+            <AlertDialogDescription>
+              Escribe un PIN nuevo de 4 a 6 números para <strong>{child.alias}</strong>. Se cerrarán sus sesiones abiertas.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            type="password"
+            inputMode="numeric"
+            maxLength={6}
+            placeholder="Nuevo PIN"
+            value={newPin}
+            onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                setPinMutation.mutate(newPin);
+              }}
+              disabled={newPin.length < 4 || setPinMutation.isPending}
+            >
+              Guardar PIN
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Delete Entry Confirmation Dialog */}
       <AlertDialog open={showDeleteEntryDialog} onOpenChange={setShowDeleteEntryDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>¿Eliminar entrada?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta acción eliminará permanentemente esta entrada de la bitácora. Esta acción no se puede deshacer.
+              Se eliminará esta entrada de la bitácora. Podrás restaurarla desde este perfil durante 30 días; después se borrará definitivamente.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Sprout, Star, HelpCircle, Camera, Plus, BookOpen, Leaf, LogOut, Calendar, Trophy, Award, Settings, Trash2 } from "lucide-react";
+import { Sprout, Star, HelpCircle, Camera, Plus, BookOpen, Leaf, LogOut, Calendar, Trophy, Award, Settings, Trash2, Flame, Sun, Moon, Heart, Share2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -20,8 +20,15 @@ import BottomNavigation from "@/components/bottom-navigation";
 import NotificationToast from "@/components/notification-toast";
 import PhotoSelector from "@/components/photo-selector";
 import { useStorage } from "@/hooks/use-storage";
+import { isStaff, isCaregiver } from "@/lib/roles";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import MediaImage from "@/components/media-image";
+import OutboxStatus from "@/components/outbox-status";
+import ReminderSettings from "@/components/reminder-settings";
+import NotificationBell from "@/components/notification-bell";
+import { GROWTH_STAGE_LABELS } from "@/components/plant-progress";
+import type { GrowthStage } from "@shared/schema";
 
 // Avatar and color options (shared with register.tsx)
 const AVATAR_OPTIONS = [
@@ -44,10 +51,21 @@ const COLOR_THEMES = [
 
 interface DashboardData {
   user: any;
-  plant: any;
+  plant: any; // Includes its lifecycle (PlantLifecycle)
   latestEntry: any;
   achievements: any[];
   seeds: any[];
+  unreadNotifications: number;
+  streak: StreakStatus;
+}
+
+// Journaling streak, counted by the server in the child's time zone
+interface StreakStatus {
+  current: number;
+  longest: number;
+  freezes: number;
+  wroteToday: boolean;
+  frozenDays: number;
 }
 
 export default function Dashboard() {
@@ -65,10 +83,12 @@ export default function Dashboard() {
   // Accessibility settings
   const [fontSize, setFontSize] = useState<'small' | 'medium' | 'large'>('medium');
 
-  // Redirect facilitators to their own dashboard
+  // Redirect facilitators and caregivers to their own dashboards
   useEffect(() => {
-    if (currentUser?.role === 'facilitator') {
+    if (isStaff(currentUser)) {
       setLocation('/facilitator/dashboard');
+    } else if (isCaregiver(currentUser)) {
+      setLocation('/caregiver/dashboard');
     }
   }, [currentUser?.role, setLocation]);
 
@@ -128,7 +148,7 @@ export default function Dashboard() {
   // Delete user mutation
   const deleteUserMutation = useMutation({
     mutationFn: async () => {
-      const response = await fetch(`/api/users/${currentUser?.id}?requestingUserId=${currentUser?.id}`, {
+      const response = await fetch(`/api/users/${currentUser?.id}`, {
         method: 'DELETE',
       });
       if (!response.ok) {
@@ -216,6 +236,8 @@ export default function Dashboard() {
   const plant = dashboardData?.plant;
   const latestEntry = dashboardData?.latestEntry;
   const achievements = dashboardData?.achievements || [];
+  const streak = dashboardData?.streak;
+  const plantStage = plant?.lifecycle ? GROWTH_STAGE_LABELS[plant.lifecycle.stage as GrowthStage] : null;
   const seeds = dashboardData?.seeds || [];
 
   // Calculate days since planting (Día 1 = first day, Día 2 = second day, etc.)
@@ -224,10 +246,7 @@ export default function Dashboard() {
 
   // Calculate progress for the next achievement in progress (not completed, but with progress > 0)
   const getNextAchievementProgress = () => {
-    const journalEntriesCount = dashboardData?.user?.journalEntriesCount || 0;
-    const userPoints = dashboardData?.user?.points || 0;
-
-    // Find unearned achievements and calculate their progress
+    // Find unearned achievements; the server works out how far along each one is
     const unearnedAchievements = achievements.filter((a: any) => !a.earned);
 
     if (unearnedAchievements.length === 0) {
@@ -238,96 +257,15 @@ export default function Dashboard() {
       };
     }
 
-    // Calculate progress for each unearned achievement
-    const achievementsWithProgress = [];
-
-    for (const achievement of unearnedAchievements) {
-      try {
-        const condition = JSON.parse(achievement.condition);
-        let progress = 0;
-        let milestoneName = achievement.name;
-
-        switch (condition.type) {
-          case 'plant_created':
-            progress = plant ? 100 : 0;
-            milestoneName = `${achievement.name}`;
-            break;
-          case 'journal_entries':
-            progress = Math.min((journalEntriesCount / condition.count) * 100, 100);
-            milestoneName = `${achievement.name} (${journalEntriesCount}/${condition.count})`;
-            break;
-          case 'days_caring':
-            progress = Math.min((daysSincePlanting / condition.count) * 100, 100);
-            milestoneName = `${achievement.name} (${daysSincePlanting}/${condition.count} días)`;
-            break;
-          case 'points':
-            const threshold = condition.threshold || achievement.pointsRequired;
-            progress = Math.min((userPoints / threshold) * 100, 100);
-            milestoneName = `${achievement.name} (${userPoints}/${threshold} pts)`;
-            break;
-        }
-
-        // Only include achievements with progress >= 0 and < 100 (not completed)
-        if (progress >= 0 && progress < 100) {
-          achievementsWithProgress.push({
-            progress: Math.round(progress),
-            milestone: milestoneName,
-            iconName: achievement.iconName,
-            achievement: achievement
-          });
-        }
-      } catch (error) {
-        console.error('Error parsing achievement condition:', error);
-      }
-    }
-
-    // If we have achievements with progress data, show the one with most progress
-    // If all are at 0%, show the first one
-    if (achievementsWithProgress.length > 0) {
-      const maxProgressAchievement = achievementsWithProgress.reduce((max, curr) =>
-        curr.progress > max.progress ? curr : max
-      );
-      return maxProgressAchievement;
-    }
-
-    // Fallback: If no achievements were calculated (shouldn't happen), show the first unearned one
-    if (unearnedAchievements.length > 0) {
-      const firstUnearned = unearnedAchievements[0];
-      try {
-        const condition = JSON.parse(firstUnearned.condition);
-        let milestoneName = firstUnearned.name;
-
-        switch (condition.type) {
-          case 'journal_entries':
-            milestoneName = `${firstUnearned.name} (${journalEntriesCount}/${condition.count})`;
-            break;
-          case 'days_caring':
-            milestoneName = `${firstUnearned.name} (${daysSincePlanting}/${condition.count} días)`;
-            break;
-          case 'points':
-            const threshold = condition.threshold || firstUnearned.pointsRequired;
-            milestoneName = `${firstUnearned.name} (${userPoints}/${threshold} pts)`;
-            break;
-        }
-
-        return {
-          percentage: 0,
-          milestone: milestoneName,
-          iconName: firstUnearned.iconName
-        };
-      } catch {
-        return {
-          percentage: 0,
-          milestone: firstUnearned.name,
-          iconName: firstUnearned.iconName
-        };
-      }
-    }
+    // Show the one with most progress (the first one when all are at 0%)
+    const next = unearnedAchievements.reduce((max: any, curr: any) =>
+      (curr.progress ?? 0) > (max.progress ?? 0) ? curr : max
+    );
 
     return {
-      percentage: 0,
-      milestone: "¡Comienza tu viaje!",
-      iconName: 'sprout'
+      percentage: Math.round(next.progress ?? 0),
+      milestone: next.progressDetail ? `${next.name} (${next.progressDetail})` : next.name,
+      iconName: next.iconName
     };
   };
 
@@ -361,6 +299,18 @@ export default function Dashboard() {
         return <Trophy className={iconClass} />;
       case 'star':
         return <Star className={iconClass} />;
+      case 'camera':
+        return <Camera className={iconClass} />;
+      case 'flame':
+        return <Flame className={iconClass} />;
+      case 'sun':
+        return <Sun className={iconClass} />;
+      case 'moon':
+        return <Moon className={iconClass} />;
+      case 'heart':
+        return <Heart className={iconClass} />;
+      case 'share':
+        return <Share2 className={iconClass} />;
       default:
         return <Award className={iconClass} />;
     }
@@ -409,6 +359,10 @@ export default function Dashboard() {
                   <Star className="w-3 h-3 mr-1" />
                   {user.points} pts
                 </Badge>
+                <NotificationBell
+                  className="w-8 h-8 bg-white bg-opacity-20 hover:bg-white hover:bg-opacity-30"
+                  iconClassName="text-white"
+                />
                 <Button
                   size="icon"
                   variant="ghost"
@@ -432,23 +386,31 @@ export default function Dashboard() {
             </div>
           </CardContent>
         </Card>
+        {/* Entries written offline, waiting to be sent */}
+        <OutboxStatus />
+
         {/* Plant Status Card */}
         <Card className="plant-card transition-all hover-elevate" data-testid="card-plant-status">
           <CardContent className="p-6">
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-xl font-bold">Mi Planta</h2>
               <div className="flex items-center space-x-2">
-                <div className="w-3 h-3 bg-primary rounded-full animate-pulse"></div>
+                <div className={`w-3 h-3 rounded-full animate-pulse ${plant?.lifecycle?.needsCare ? 'bg-accent' : 'bg-primary'}`}></div>
                 <span className="text-sm text-muted-foreground" data-testid="text-plant-status">
-                  {plant?.status === 'growing' ? 'Creciendo' : 'Sin planta'}
+                  {!plant
+                    ? 'Sin planta'
+                    : plantStage
+                      ? `${plantStage.emoji} ${plantStage.name}${plant.lifecycle.needsCare ? ' · te extraña' : ''}`
+                      : 'Creciendo'}
                 </span>
               </div>
             </div>
             
             {selectedDashboardPhoto || latestEntry?.photoUrl || plant?.latestPhotoUrl ? (
               <div className="relative mb-4">
-                <img
-                  src={selectedDashboardPhoto || latestEntry?.photoUrl || plant?.latestPhotoUrl || ''}
+                <MediaImage
+                  storageKey={selectedDashboardPhoto || latestEntry?.photoUrl || plant?.latestPhotoUrl || ''}
+                  size="card"
                   alt="Foto de tu planta"
                   className="w-full h-48 object-cover rounded-lg shadow-md"
                   data-testid="img-plant-photo"
@@ -468,7 +430,7 @@ export default function Dashboard() {
               </div>
             )}
             
-            <div className="grid grid-cols-2 gap-4 mb-4">
+            <div className="grid grid-cols-3 gap-4 mb-2">
               <div className="text-center">
                 <div className="text-2xl font-bold text-primary" data-testid="text-days-count">
                   {daysSincePlanting}
@@ -481,7 +443,24 @@ export default function Dashboard() {
                 </div>
                 <div className="text-sm text-muted-foreground">Entradas</div>
               </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-orange-500 flex items-center justify-center" data-testid="text-streak-count">
+                  <Flame className="w-5 h-5 mr-1" />
+                  {streak?.current ?? 0}
+                </div>
+                <div className="text-sm text-muted-foreground">Racha</div>
+              </div>
             </div>
+            {streak && (
+              <p className="text-xs text-muted-foreground text-center mb-4" data-testid="text-streak-detail">
+                {streak.frozenDays > 0
+                  ? '🧊 Tu racha está protegida: escribe hoy para no perderla'
+                  : streak.current > 0 && !streak.wroteToday
+                    ? 'Escribe hoy para seguir tu racha'
+                    : `Mejor racha: ${streak.longest} ${streak.longest === 1 ? 'día' : 'días'}`}
+                {streak.freezes > 0 && ` · 🧊 ${streak.freezes} ${streak.freezes === 1 ? 'protector' : 'protectores'}`}
+              </p>
+            )}
             
             {/* Progress Bar */}
             <div className="mb-4">
@@ -719,6 +698,12 @@ export default function Dashboard() {
             {/* Divider */}
             <div className="border-t border-border" />
 
+            {/* Reminders Section */}
+            <ReminderSettings userId={currentUser.id} />
+
+            {/* Divider */}
+            <div className="border-t border-border" />
+
             {/* Account Section */}
             <div className="space-y-3">
               <h3 className="text-sm font-semibold text-foreground">Cuenta</h3>
@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { Users, ArrowRight, LogOut, HelpCircle, Search, X, Settings, HardDrive, RefreshCw, ArrowUpDown } from "lucide-react";
+import { Users, ArrowRight, LogOut, HelpCircle, Search, X, Settings, HardDrive, RefreshCw, ArrowUpDown, UserPlus, FolderPlus, RotateCcw, Trash2, Archive, Trophy } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -18,8 +18,11 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useStorage } from "@/hooks/use-storage";
+import { isAdmin, isStaff } from "@/lib/roles";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import CreateAchievementDialog from "@/components/create-achievement-dialog";
+import type { Achievement } from "@shared/schema";
 
 interface ChildData {
   id: string;
@@ -38,6 +41,29 @@ interface ChildData {
   };
 }
 
+interface WorkshopGroup {
+  id: string;
+  name: string;
+  joinCode: string;
+  childrenCount: number;
+  facilitatorsCount: number;
+}
+
+interface DeletedChild {
+  id: string;
+  alias: string;
+  age: number;
+  deletedAt: string;
+  restorableUntil: string;
+}
+
+interface RetentionReport {
+  policy: { audioDays: number; photoDays: number; inactiveMonths: number };
+  audioDeleted: Array<{ entryId: string; alias: string }>;
+  photosDownscaled: Array<{ entryId: string; alias: string }>;
+  inactiveChildren: Array<{ userId: string; alias: string; lastActiveAt: string }>;
+}
+
 interface FacilitatorDashboardData {
   facilitator: any;
   children: ChildData[];
@@ -56,6 +82,14 @@ export default function FacilitatorDashboard() {
   // Dialog states
   const [showLogoutDialog, setShowLogoutDialog] = useState(false);
   const [showSettingsDialog, setShowSettingsDialog] = useState(false);
+  const [showInviteDialog, setShowInviteDialog] = useState(false);
+  const [inviteAlias, setInviteAlias] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [showGroupDialog, setShowGroupDialog] = useState(false);
+  const [groupName, setGroupName] = useState("");
+  const [groupForCoFacilitator, setGroupForCoFacilitator] = useState<WorkshopGroup | null>(null);
+  const [coFacilitatorEmail, setCoFacilitatorEmail] = useState("");
+  const [showAchievementDialog, setShowAchievementDialog] = useState(false);
 
   // Loading progress tracking
   const [loadingProgress, setLoadingProgress] = useState(0);
@@ -76,7 +110,7 @@ export default function FacilitatorDashboard() {
 
   const { data: dashboardData, isLoading, error } = useQuery<FacilitatorDashboardData>({
     queryKey: [`/api/facilitator/dashboard`],
-    enabled: !!currentUser?.id && currentUser?.role === 'facilitator',
+    enabled: !!currentUser?.id && isStaff(currentUser),
     refetchInterval: false, // Disable auto-refetch in development to reduce server load
     staleTime: 60000, // Consider data stale after 60 seconds
     retry: 3, // Retry failed requests 3 times (more resilient for local dev)
@@ -86,9 +120,34 @@ export default function FacilitatorDashboard() {
   // Debugging: log currentUser and dashboard fetch trigger
   if (process.env.NODE_ENV === 'development') {
     console.log('🐞 [FACILITATOR] currentUser:', currentUser);
-    console.log('🐞 [FACILITATOR] query enabled:', !!currentUser?.id && currentUser?.role === 'facilitator');
+    console.log('🐞 [FACILITATOR] query enabled:', !!currentUser?.id && isStaff(currentUser));
   }
 
+  // Children deleted in the last 30 days (they can still be restored)
+  const { data: deletedChildren = [] } = useQuery<DeletedChild[]>({
+    queryKey: ['/api/facilitator/deleted-children'],
+    enabled: !!currentUser?.id && isStaff(currentUser),
+  });
+
+  // What the next retention run would remove or flag (dry run, nothing changes)
+  const { data: retentionReport } = useQuery<RetentionReport>({
+    queryKey: ['/api/facilitator/retention-report'],
+    enabled: !!currentUser?.id && isStaff(currentUser),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Fetch the facilitator's workshop groups
+  const { data: groups = [] } = useQuery<WorkshopGroup[]>({
+    queryKey: ['/api/facilitator/groups'],
+    enabled: !!currentUser?.id && isStaff(currentUser),
+  });
+
+  // Achievements the children can earn
+  const { data: achievementsList = [] } = useQuery<Achievement[]>({
+    queryKey: ['/api/achievements'],
+    enabled: !!currentUser?.id && isStaff(currentUser),
+  });
+
   // Fetch emotions list
   const { data: emotionsData } = useQuery<Array<{ id: string; name: string; emoji: string; color: string }>>({
     queryKey: ['/api/emotions'],
@@ -106,7 +165,7 @@ export default function FacilitatorDashboard() {
     bucketName: string;
   }>({
     queryKey: ['/api/storage/stats'],
-    enabled: !!currentUser?.id && currentUser?.role === 'facilitator',
+    enabled: !!currentUser?.id && isStaff(currentUser),
     staleTime: 60000, // Consider data stale after 60 seconds
   });
 
@@ -203,6 +262,131 @@ export default function FacilitatorDashboard() {
     },
   });
 
+  // Create a workshop group - children join it with its code at registration
+  const createGroupMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await fetch('/api/facilitator/groups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Error al crear el grupo');
+      }
+      return response.json();
+    },
+    onSuccess: (group) => {
+      toast({
+        title: "Grupo creado",
+        description: `Comparte el código ${group.joinCode} con los niños del grupo.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/facilitator/groups'] });
+      setShowGroupDialog(false);
+      setGroupName("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Undo a child's deletion
+  const restoreChildMutation = useMutation({
+    mutationFn: async (childId: string) => {
+      const response = await fetch(`/api/facilitator/child/${childId}/restore`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Error al restaurar el usuario');
+      }
+      return response.json();
+    },
+    onSuccess: (child) => {
+      toast({
+        title: "Usuario restaurado",
+        description: `${child.alias} vuelve a estar en tu grupo con todos sus datos.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/facilitator/deleted-children'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/facilitator/dashboard'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Give another facilitator access to one of our groups
+  const addCoFacilitatorMutation = useMutation({
+    mutationFn: async ({ groupId, email }: { groupId: string; email: string }) => {
+      const response = await fetch(`/api/facilitator/groups/${groupId}/facilitators`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Error al agregar facilitador');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Facilitador agregado",
+        description: "Ahora también puede ver a los niños de este grupo.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/facilitator/groups'] });
+      setGroupForCoFacilitator(null);
+      setCoFacilitatorEmail("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Invite another facilitator - they receive an email to choose their password
+  const inviteFacilitatorMutation = useMutation({
+    mutationFn: async (data: { alias: string; email: string }) => {
+      const response = await fetch('/api/facilitator/accounts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Error al invitar facilitador');
+      }
+      return response.json();
+    },
+    onSuccess: (facilitator) => {
+      toast({
+        title: "Invitación enviada",
+        description: `Enviamos un correo a ${facilitator.email} para que elija su contraseña.`,
+      });
+      setShowInviteDialog(false);
+      setInviteAlias("");
+      setInviteEmail("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleFontSizeChange = (newSize: 'small' | 'medium' | 'large') => {
     setFontSize(newSize);
     updateAccessibilityMutation.mutate({ fontSize: newSize });
@@ -266,7 +450,7 @@ export default function FacilitatorDashboard() {
   };
 
   // Early returns AFTER all hooks
-  if (!currentUser || currentUser.role !== 'facilitator') {
+  if (!currentUser || !isStaff(currentUser)) {
     setLocation('/welcome');
     return null;
   }
@@ -334,7 +518,7 @@ export default function FacilitatorDashboard() {
                 </div>
                 <div>
                   <h1 className="text-lg font-bold">Facilitador</h1>
-                  <p className="text-xs opacity-90">Seguimiento</p>
+                  <p className="text-xs opacity-90">{currentUser.alias}</p>
                 </div>
               </div>
               <div className="flex items-center space-x-2">
@@ -438,6 +622,125 @@ export default function FacilitatorDashboard() {
           </CardContent>
         </Card>
 
+        {/* Data Retention Card */}
+        {retentionReport && (
+          <Card>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center space-x-2">
+                <Archive className="w-5 h-5 text-primary" />
+                <h3 className="font-semibold text-foreground">Conservación de datos</h3>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {retentionReport.policy.audioDays > 0 && `Los audios se borran a los ${retentionReport.policy.audioDays} días. `}
+                {retentionReport.policy.photoDays > 0 && `Las fotos se reducen a miniatura a los ${retentionReport.policy.photoDays} días. `}
+                {retentionReport.policy.inactiveMonths > 0 && `Se marcan las cuentas sin actividad por ${retentionReport.policy.inactiveMonths} meses.`}
+              </p>
+              <div className="grid grid-cols-3 gap-2 text-center" data-testid="retention-report">
+                <div>
+                  <p className="text-xl font-bold text-primary">{retentionReport.audioDeleted.length}</p>
+                  <p className="text-xs text-muted-foreground">Audios por borrar</p>
+                </div>
+                <div>
+                  <p className="text-xl font-bold text-primary">{retentionReport.photosDownscaled.length}</p>
+                  <p className="text-xs text-muted-foreground">Fotos por reducir</p>
+                </div>
+                <div>
+                  <p className="text-xl font-bold text-primary">{retentionReport.inactiveChildren.length}</p>
+                  <p className="text-xs text-muted-foreground">Cuentas inactivas</p>
+                </div>
+              </div>
+              {retentionReport.inactiveChildren.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Sin actividad: {retentionReport.inactiveChildren.map(child => child.alias).join(', ')}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Workshop Groups Card */}
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-foreground">Mis Grupos</h3>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8"
+                onClick={() => setShowGroupDialog(true)}
+                title="Crear grupo"
+              >
+                <FolderPlus className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {groups.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Crea un grupo y comparte su código para que los niños se unan al registrarse.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {groups.map((group) => (
+                  <div key={group.id} className="flex items-center justify-between p-2 bg-primary/5 rounded-lg">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-foreground truncate">{group.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {group.childrenCount} niños • {group.facilitatorsCount} facilitadores
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0">
+                      <Badge variant="outline" className="font-mono">{group.joinCode}</Badge>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="w-8 h-8"
+                        onClick={() => setGroupForCoFacilitator(group)}
+                        title="Agregar facilitador al grupo"
+                      >
+                        <UserPlus className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Achievements Card */}
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold text-foreground">Logros</h3>
+              {isAdmin(currentUser) && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8"
+                  onClick={() => setShowAchievementDialog(true)}
+                  title="Crear logro"
+                  data-testid="button-new-achievement"
+                >
+                  <Trophy className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {achievementsList.length} logros disponibles.
+              {isAdmin(currentUser) && " Crea nuevos combinando rachas, fotos, emociones, semillas y más."}
+            </p>
+            {achievementsList.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {achievementsList.map((achievement) => (
+                  <Badge key={achievement.id} variant="outline" title={achievement.description ?? undefined}>
+                    {achievement.name}
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Stats Card - Niños Registrados */}
         <Card>
           <CardContent className="p-4">
@@ -646,6 +949,41 @@ export default function FacilitatorDashboard() {
           )}
         </div>
 
+        {/* Recently deleted children */}
+        {deletedChildren.length > 0 && (
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center space-x-3 mb-4">
+                <Trash2 className="w-5 h-5 text-muted-foreground" />
+                <h3 className="font-semibold text-foreground">Eliminados recientemente</h3>
+              </div>
+
+              <div className="space-y-2" data-testid="list-deleted-children">
+                {deletedChildren.map((child) => (
+                  <div key={child.id} className="flex items-center justify-between p-2 bg-muted/30 rounded-lg">
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold text-foreground truncate">{child.alias}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Se borrará definitivamente el {new Date(child.restorableUntil).toLocaleDateString('es')}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => restoreChildMutation.mutate(child.id)}
+                      disabled={restoreChildMutation.isPending}
+                      data-testid={`button-restore-child-${child.id}`}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-1" />
+                      Restaurar
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
       </div>
 
       {/* Settings Dialog */}
@@ -700,6 +1038,19 @@ export default function FacilitatorDashboard() {
             {/* Account Section */}
             <div className="space-y-3">
               <h3 className="text-sm font-semibold text-foreground">Cuenta</h3>
+              {isAdmin(currentUser) && (
+                <Button
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={() => {
+                    setShowSettingsDialog(false);
+                    setShowInviteDialog(true);
+                  }}
+                >
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  Invitar facilitador
+                </Button>
+              )}
               <Button
                 variant="outline"
                 className="w-full justify-start text-destructive hover:text-destructive hover:bg-destructive/10"
@@ -719,6 +1070,107 @@ export default function FacilitatorDashboard() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Invite Facilitator Dialog */}
+      <AlertDialog open={showInviteDialog} onOpenChange={setShowInviteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Invitar facilitador</AlertDialogTitle>
+            <AlertDialogDescription>
+              Se creará una cuenta y enviaremos un enlace al correo para que elija su contraseña.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-3">
+            <Input
+              placeholder="Nombre"
+              value={inviteAlias}
+              onChange={(e) => setInviteAlias(e.target.value)}
+            />
+            <Input
+              type="email"
+              placeholder="correo@ejemplo.com"
+              value={inviteEmail}
+              onChange={(e) => setInviteEmail(e.target.value)}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                inviteFacilitatorMutation.mutate({ alias: inviteAlias.trim(), email: inviteEmail.trim() });
+              }}
+              disabled={!inviteAlias.trim() || !inviteEmail.trim() || inviteFacilitatorMutation.isPending}
+            >
+              Enviar invitación
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Create Group Dialog */}
+      <AlertDialog open={showGroupDialog} onOpenChange={setShowGroupDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Nuevo grupo</AlertDialogTitle>
+            <AlertDialogDescription>
+              Los niños que se registren con el código del grupo aparecerán en tu panel.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            placeholder="Ej: Taller Escuela Los Aromos"
+            value={groupName}
+            onChange={(e) => setGroupName(e.target.value)}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                createGroupMutation.mutate(groupName.trim());
+              }}
+              disabled={groupName.trim().length < 2 || createGroupMutation.isPending}
+            >
+              Crear grupo
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Create Achievement Dialog */}
+      <CreateAchievementDialog open={showAchievementDialog} onOpenChange={setShowAchievementDialog} />
+
+      {/* Add Co-Facilitator Dialog */}
+      <AlertDialog open={!!groupForCoFacilitator} onOpenChange={(open) => { if (!open) setGroupForCoFacilitator(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Agregar facilitador</AlertDialogTitle>
+            <AlertDialogDescription>
+              Escribe el correo de un facilitador con cuenta para darle acceso a <strong>{groupForCoFacilitator?.name}</strong>.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            type="email"
+            placeholder="correo@ejemplo.com"
+            value={coFacilitatorEmail}
+            onChange={(e) => setCoFacilitatorEmail(e.target.value)}
+          />
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (groupForCoFacilitator) {
+                  addCoFacilitatorMutation.mutate({ groupId: groupForCoFacilitator.id, email: coFacilitatorEmail.trim() });
+                }
+              }}
+              disabled={!coFacilitatorEmail.trim() || addCoFacilitatorMutation.isPending}
+            >
+              Agregar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Logout Confirmation Dialog */}
       <AlertDialog open={showLogoutDialog} onOpenChange={setShowLogoutDialog}>
         <AlertDialogContent>
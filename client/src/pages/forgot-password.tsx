@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { KeyRound, Mail } from "lucide-react";
+import AppHeader from "@/components/app-header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Correo electrónico inválido"),
+});
+
+type ForgotPasswordForm = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPassword() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [sent, setSent] = useState(false);
+
+  const form = useForm<ForgotPasswordForm>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const requestResetMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordForm) => {
+      const response = await fetch('/api/auth/password-reset/request', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: data.email }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'No se pudo enviar el enlace');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      setSent(true);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader
+        title="Recuperar Contraseña"
+        subtitle="Te enviaremos un enlace por correo"
+        showBackButton={true}
+        onBackClick={() => setLocation('/login')}
+        variant="gradient"
+      />
+
+      <div className="p-4">
+        <Card className="fade-in mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <KeyRound className="w-5 h-5 mr-2" />
+              Restablecer contraseña
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sent ? (
+              <div className="text-center space-y-4">
+                <Mail className="w-12 h-12 text-primary mx-auto" />
+                <p className="text-sm text-muted-foreground">
+                  Si el correo está registrado como facilitador, recibirás un enlace para elegir una nueva contraseña. Revisa tu bandeja de entrada.
+                </p>
+                <Button className="w-full" onClick={() => setLocation('/login')}>
+                  Volver a Iniciar Sesión
+                </Button>
+              </div>
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit((data) => requestResetMutation.mutate(data))} className="space-y-6">
+                  <FormField
+                    control={form.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Correo electrónico</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="email"
+                            autoComplete="email"
+                            placeholder="tu@correo.com"
+                            {...field}
+                            data-testid="input-forgot-email"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={requestResetMutation.isPending}
+                    data-testid="button-submit-forgot-password"
+                  >
+                    {requestResetMutation.isPending ? 'Enviando...' : 'Enviar enlace'}
+                  </Button>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { BookOpen, Sprout, Archive, Flower2, Leaf } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import AppHeader from "@/components/app-header";
+import BottomNavigation from "@/components/bottom-navigation";
+import MediaImage from "@/components/media-image";
+import SpeciesPicker from "@/components/species-picker";
+import { GROWTH_STAGE_LABELS } from "@/components/plant-progress";
+import { useStorage } from "@/hooks/use-storage";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import type { GrowthStage, PlantLifecycle, Seed, StartPlant } from "@shared/schema";
+
+interface GardenPlant {
+  id: string;
+  name: string | null;
+  type: string | null;
+  stage: GrowthStage;
+  status: string | null;
+  plantedAt: string | null;
+  archivedAt: string | null;
+  latestPhotoUrl: string | null;
+  isActive: boolean | null;
+  entriesCount: number;
+  lastEntryAt: string | null;
+  lifecycle?: PlantLifecycle; // Only the active plant
+}
+
+// No seed: the new plant is a generic seedling
+const NO_SEED = 'none';
+
+function formatDay(value: string | null): string {
+  return value ? format(new Date(value), "d MMM yyyy", { locale: es }) : '';
+}
+
+function stageLabel(stage: GrowthStage) {
+  return GROWTH_STAGE_LABELS[stage] ?? GROWTH_STAGE_LABELS.seed;
+}
+
+// The child's garden: the plant growing now and the ones they cared for before
+export default function Garden() {
+  const [, setLocation] = useLocation();
+  const { currentUser } = useStorage();
+  const { toast } = useToast();
+  const [showPlantDialog, setShowPlantDialog] = useState(false);
+  const [showArchiveDialog, setShowArchiveDialog] = useState(false);
+  const [plantName, setPlantName] = useState("");
+  const [seedId, setSeedId] = useState(NO_SEED);
+  const [plantType, setPlantType] = useState("");
+  const [speciesId, setSpeciesId] = useState<string | null>(null);
+
+  const plantsKey = ['/api/users', currentUser?.id, 'plants'];
+
+  const { data: plants = [], isLoading } = useQuery<GardenPlant[]>({
+    queryKey: plantsKey,
+    enabled: !!currentUser?.id,
+  });
+
+  const { data: seeds = [] } = useQuery<Seed[]>({
+    queryKey: ['/api/users', currentUser?.id, 'seeds'],
+    enabled: !!currentUser?.id,
+  });
+
+  const activePlant = plants.find(plant => plant.isActive);
+  const pastPlants = plants.filter(plant => !plant.isActive);
+
+  const refreshGarden = () => {
+    queryClient.invalidateQueries({ queryKey: plantsKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/users', currentUser?.id, 'plant'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/dashboard/${currentUser?.id}`] });
+  };
+
+  const startPlantMutation = useMutation({
+    mutationFn: async (plant: StartPlant) => {
+      const response = await fetch('/api/plants', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(plant),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Error al plantar');
+      }
+      return response.json();
+    },
+    onSuccess: ({ plant }) => {
+      toast({
+        title: "¡Nueva planta!",
+        description: `${plant.name} ya está en tu jardín. Cuídala escribiendo en tu bitácora.`,
+      });
+      refreshGarden();
+      setShowPlantDialog(false);
+      setPlantName("");
+      setSeedId(NO_SEED);
+      setPlantType("");
+      setSpeciesId(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const archivePlantMutation = useMutation({
+    mutationFn: async (plantId: string) => {
+      const response = await fetch(`/api/plants/${plantId}/archive`, { method: 'POST' });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Error al guardar la planta');
+      }
+      return response.json();
+    },
+    onSuccess: (plant) => {
+      toast({
+        title: "Planta guardada",
+        description: `${plant.name} queda en tu jardín de recuerdos con todas sus entradas.`,
+      });
+      refreshGarden();
+      setShowArchiveDialog(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectedSeed = seeds.find(seed => seed.id === seedId);
+
+  return (
+    <div className="h-screen bg-background overflow-y-auto">
+      <AppHeader
+        title="Mi Jardín"
+        subtitle={plants.length > 0 ? `${plants.length} ${plants.length === 1 ? 'planta' : 'plantas'}` : undefined}
+        variant="gradient"
+        showBackButton
+        backTo="/dashboard"
+      />
+
+      <main className="p-4 pb-24 space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin">
+              <Leaf className="w-8 h-8 text-primary" />
+            </div>
+          </div>
+        ) : (
+          <>
+            {/* Current Plant */}
+            {activePlant ? (
+              <Card data-testid="card-active-plant">
+                <CardContent className="p-4 space-y-4">
+                  {activePlant.latestPhotoUrl && (
+                    <MediaImage
+                      storageKey={activePlant.latestPhotoUrl}
+                      size="card"
+                      alt={`Foto de ${activePlant.name}`}
+                      className="w-full h-40 object-cover rounded-lg"
+                    />
+                  )}
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h2 className="text-lg font-bold text-foreground">{activePlant.name}</h2>
+                      <p className="text-xs text-muted-foreground">Plantada el {formatDay(activePlant.plantedAt)}</p>
+                    </div>
+                    <Badge className="bg-primary/10 text-primary">
+                      {stageLabel(activePlant.stage).emoji} {stageLabel(activePlant.stage).name}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {activePlant.entriesCount} {activePlant.entriesCount === 1 ? 'entrada' : 'entradas'} en su bitácora
+                    {activePlant.lifecycle?.needsCare && ' · te extraña'}
+                  </p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <Button variant="outline" onClick={() => setLocation('/plant')} data-testid="button-open-journal">
+                      <BookOpen className="w-4 h-4 mr-1" />
+                      Ver bitácora
+                    </Button>
+                    <Button variant="outline" onClick={() => setShowArchiveDialog(true)} data-testid="button-archive-plant">
+                      <Archive className="w-4 h-4 mr-1" />
+                      Guardar planta
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="p-8 text-center space-y-2">
+                  <Sprout className="w-10 h-10 mx-auto text-muted-foreground" />
+                  <p className="font-semibold text-foreground">No tienes una planta creciendo</p>
+                  <p className="text-sm text-muted-foreground">
+                    Planta una nueva, o una de las semillas de tu bóveda, para seguir tu bitácora.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            <Button className="w-full" onClick={() => setShowPlantDialog(true)} data-testid="button-new-plant">
+              <Sprout className="w-4 h-4 mr-2" />
+              Plantar una nueva planta
+            </Button>
+
+            {/* Garden History */}
+            {pastPlants.length > 0 && (
+              <div className="space-y-3">
+                <h2 className="text-lg font-bold text-foreground flex items-center">
+                  <Flower2 className="w-5 h-5 mr-2 text-primary" />
+                  Plantas que cuidaste
+                </h2>
+                {pastPlants.map((plant) => (
+                  <Card key={plant.id} className="bg-muted/30" data-testid={`card-past-plant-${plant.id}`}>
+                    <CardContent className="p-4 flex items-center space-x-4">
+                      <div className="text-3xl" aria-hidden="true">{stageLabel(plant.stage).emoji}</div>
+                      <div className="flex-1 min-w-0">
+                        <p className="font-semibold text-foreground truncate">{plant.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDay(plant.plantedAt)} – {formatDay(plant.archivedAt)}
+                        </p>
+                      </div>
+                      <Badge variant="outline">
+                        {plant.entriesCount} {plant.entriesCount === 1 ? 'entrada' : 'entradas'}
+                      </Badge>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+
+      {/* New Plant Dialog */}
+      <AlertDialog open={showPlantDialog} onOpenChange={setShowPlantDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Nueva planta</AlertDialogTitle>
+            <AlertDialogDescription>
+              {activePlant
+                ? `${activePlant.name} quedará guardada en tu jardín con todas sus entradas.`
+                : 'Tus próximas entradas harán crecer esta planta.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Input
+            placeholder="Nombre, ej: Girasol feliz"
+            value={plantName}
+            onChange={(e) => setPlantName(e.target.value)}
+            data-testid="input-plant-name"
+          />
+          {seeds.length > 0 && (
+            <Select value={seedId} onValueChange={setSeedId}>
+              <SelectTrigger data-testid="select-plant-seed">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SEED}>Sin semilla de la bóveda</SelectItem>
+                {seeds.map((seed) => (
+                  <SelectItem key={seed.id} value={seed.id}>🌰 {seed.type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {/* Seeds from the vault already know their type */}
+          {!selectedSeed && (
+            <SpeciesPicker
+              placeholder="¿Qué planta es? Ej: Tomate"
+              value={plantType}
+              onChange={(value, species) => {
+                setPlantType(value);
+                setSpeciesId(species?.id ?? null);
+              }}
+              testId="input-plant-type"
+            />
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                startPlantMutation.mutate(selectedSeed
+                  ? { name: plantName.trim(), seedId: selectedSeed.id }
+                  : { name: plantName.trim(), type: plantType.trim() || undefined, speciesId: speciesId ?? undefined });
+              }}
+              disabled={plantName.trim().length < 1 || startPlantMutation.isPending}
+              data-testid="button-confirm-new-plant"
+            >
+              Plantar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Archive Plant Dialog */}
+      <AlertDialog open={showArchiveDialog} onOpenChange={setShowArchiveDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Guardar {activePlant?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tu planta y sus entradas quedarán en tu jardín de recuerdos. Después podrás plantar una nueva.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (activePlant) {
+                  archivePlantMutation.mutate(activePlant.id);
+                }
+              }}
+              disabled={archivePlantMutation.isPending}
+              data-testid="button-confirm-archive-plant"
+            >
+              Guardar planta
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <BottomNavigation />
+    </div>
+  );
+}
@@ -4,30 +4,32 @@ import { useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { LogIn, User, Shield, Users } from "lucide-react";
+import { LogIn, User, Shield, Users, Heart } from "lucide-react";
 import AppHeader from "@/components/app-header";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useStorage } from "@/hooks/use-storage";
+import { isStaff, isCaregiver } from "@/lib/roles";
 
 const loginSchema = z.object({
   alias: z.string().min(2, "El nombre debe tener al menos 2 caracteres"),
-  password: z.string().min(6, "La contraseña debe tener al menos 6 caracteres"),
+  password: z.string().min(4, "Ingresa tu PIN o contraseña"),
 });
 
 type LoginForm = z.infer<typeof loginSchema>;
 
-type LoginType = 'child' | 'facilitator' | null;
+type LoginType = 'child' | 'facilitator' | 'caregiver' | null;
 
 export default function Login() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const { setCurrentUser } = useStorage();
   const [loginType, setLoginType] = useState<LoginType>(null);
+  // Adults sign in with email + password, children with alias + PIN
+  const usesEmail = loginType === 'facilitator' || loginType === 'caregiver';
 
   const form = useForm<LoginForm>({
     resolver: zodResolver(loginSchema),
@@ -39,103 +41,49 @@ export default function Login() {
 
   const loginMutation = useMutation({
     mutationFn: async (data: LoginForm) => {
-      // Si es facilitador, usar credenciales fijas
-      if (loginType === 'facilitator') {
-        if (data.alias !== 'facilitador' || data.password !== 'cepij2025') {
-          throw new Error('Credenciales de facilitador incorrectas');
-        }
+      // Las credenciales se validan en el servidor, que inicia la sesión
+      const response = usesEmail
+        ? await fetch('/api/auth/facilitator-login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email: data.alias, password: data.password }),
+            credentials: 'include',
+          })
+        : await fetch('/api/auth/login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ alias: data.alias, pin: data.password }),
+            credentials: 'include',
+          });
 
-        // Buscar usuario facilitador existente
-        const searchResponse = await apiRequest('GET', `/api/users?alias=facilitador`);
-        const existingUsers = await searchResponse.json();
-
-        if (existingUsers && existingUsers.length > 0) {
-          // Guardar contraseña en localStorage
-          localStorage.setItem(`semillita_password_${existingUsers[0].id}`, 'cepij2025');
-          return { user: existingUsers[0], isFacilitator: true };
-        }
-
-        // Si no existe, crear usuario facilitador
-        const selectedMode = localStorage.getItem('semillita_mode') || 'workshop';
-        const facilitatorData = {
-          alias: 'facilitador',
-          avatar: 'plant1',
-          colorTheme: 'orange',
-          age: 25,
-          context: selectedMode as 'workshop' | 'home',
-          role: 'facilitator' as const,
-          points: 0,
-          daysSincePlanting: 0,
-          isWorkshopMode: selectedMode === 'workshop',
-          parentEmail: null,
-          parentalConsent: null,
-          consentVerified: true,
-        };
-
-        const createResponse = await apiRequest('POST', '/api/users', facilitatorData);
-        const createdUser = await createResponse.json();
-
-        // Guardar contraseña en localStorage
-        localStorage.setItem(`semillita_password_${createdUser.id}`, 'cepij2025');
-
-        return { user: createdUser, isFacilitator: true };
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'No se pudo iniciar sesión');
       }
 
-      // Login normal para niños
-      const response = await apiRequest('GET', `/api/users?alias=${encodeURIComponent(data.alias)}`);
-      const users = await response.json();
-      return { users, isFacilitator: false };
+      return response.json();
     },
-    onSuccess: (result) => {
-      if (result.isFacilitator) {
-        // Login de facilitador exitoso
-        setCurrentUser(result.user);
+    onSuccess: (user) => {
+      setCurrentUser(user);
+
+      // Redirigir según el rol del usuario
+      if (isStaff(user)) {
         toast({
           title: "¡Bienvenido Facilitador!",
           description: "Acceso concedido al panel de facilitador.",
         });
-        // Redirigir directamente al dashboard del facilitador
         setLocation('/facilitator/dashboard');
-        return;
-      }
-
-      // Login de niño
-      const users = result.users;
-      if (!users || users.length === 0) {
+      } else if (isCaregiver(user)) {
         toast({
-          title: "Usuario no encontrado",
-          description: "No se encontró un perfil con ese nombre. Por favor, crea un nuevo perfil.",
-          variant: "destructive",
+          title: "¡Bienvenido!",
+          description: "Aquí puedes seguir el progreso de tus niños.",
         });
-        return;
-      }
-
-      const user = users[0];
-      const enteredPassword = form.getValues('password');
-
-      // Validación simple de contraseña
-      const storedPassword = localStorage.getItem(`semillita_password_${user.id}`) || '1234';
-
-      if (enteredPassword !== storedPassword) {
+        setLocation('/caregiver/dashboard');
+      } else {
         toast({
-          title: "Contraseña incorrecta",
-          description: "La contraseña ingresada no es correcta. Intenta de nuevo.",
-          variant: "destructive",
+          title: "¡Bienvenido de vuelta!",
+          description: `Hola ${user.alias}, es bueno verte de nuevo.`,
         });
-        return;
-      }
-
-      // Login exitoso - redirigir según el rol
-      setCurrentUser(user);
-      toast({
-        title: "¡Bienvenido de vuelta!",
-        description: `Hola ${user.alias}, es bueno verte de nuevo.`,
-      });
-
-      // Redirigir según el rol del usuario
-      if (user.role === 'facilitator') {
-        setLocation('/facilitator/dashboard');
-      } else {
         setLocation('/dashboard');
       }
     },
@@ -179,7 +127,7 @@ export default function Login() {
                   <div className="flex-1">
                     <h3 className="font-semibold text-lg">Iniciar como Niño/Niña</h3>
                     <p className="text-sm text-muted-foreground">
-                      Ingresa con tu nombre de usuario
+                      Ingresa con tu nombre y tu PIN
                     </p>
                   </div>
                 </div>
@@ -204,6 +152,25 @@ export default function Login() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card
+              className="fade-in cursor-pointer hover-elevate transition-all hover:border-primary"
+              onClick={() => setLoginType('caregiver')}
+            >
+              <CardContent className="p-6">
+                <div className="flex items-center space-x-4">
+                  <div className="w-12 h-12 bg-pink-500/10 rounded-full flex items-center justify-center">
+                    <Heart className="w-6 h-6 text-pink-500" />
+                  </div>
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-lg">Iniciar como Adulto Responsable</h3>
+                    <p className="text-sm text-muted-foreground">
+                      Sigue el progreso de los niños que autorizaste
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
           </div>
 
           <div className="mt-6 text-center">
@@ -227,7 +194,7 @@ export default function Login() {
   return (
     <div className="min-h-screen bg-background">
       <AppHeader
-        title={loginType === 'facilitator' ? 'Acceso Facilitador' : 'Iniciar Sesión'}
+        title={loginType === 'facilitator' ? 'Acceso Facilitador' : loginType === 'caregiver' ? 'Acceso Adulto Responsable' : 'Iniciar Sesión'}
         subtitle={loginType === 'facilitator' ? 'Ingresa tus credenciales de facilitador' : 'Ingresa tus credenciales para continuar'}
         showBackButton={true}
         onBackClick={() => setLoginType(null)}
@@ -244,6 +211,11 @@ export default function Login() {
                   <Shield className="w-5 h-5 mr-2" />
                   Acceso Facilitador
                 </>
+              ) : loginType === 'caregiver' ? (
+                <>
+                  <Heart className="w-5 h-5 mr-2" />
+                  Acceso Adulto Responsable
+                </>
               ) : (
                 <>
                   <LogIn className="w-5 h-5 mr-2" />
@@ -260,10 +232,12 @@ export default function Login() {
                   name="alias"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Usuario</FormLabel>
+                      <FormLabel>{usesEmail ? 'Correo electrónico' : 'Usuario'}</FormLabel>
                       <FormControl>
                         <Input
-                          placeholder={loginType === 'facilitator' ? 'facilitador' : 'Tu nombre o apodo'}
+                          type={usesEmail ? 'email' : 'text'}
+                          autoComplete={usesEmail ? 'email' : 'username'}
+                          placeholder={usesEmail ? 'tu@correo.com' : 'Tu nombre o apodo'}
                           {...field}
                           data-testid="input-login-alias"
                         />
@@ -278,11 +252,12 @@ export default function Login() {
                   name="password"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Contraseña</FormLabel>
+                      <FormLabel>{usesEmail ? 'Contraseña' : 'PIN'}</FormLabel>
                       <FormControl>
                         <Input
                           type="password"
-                          placeholder="Tu contraseña"
+                          inputMode={usesEmail ? undefined : 'numeric'}
+                          placeholder={usesEmail ? 'Tu contraseña' : 'Tu PIN secreto'}
                           {...field}
                           data-testid="input-login-password"
                         />
@@ -313,6 +288,18 @@ export default function Login() {
               </form>
             </Form>
 
+            {usesEmail && (
+              <div className="mt-6 text-center">
+                <Button
+                  variant="ghost"
+                  onClick={() => setLocation('/forgot-password')}
+                  data-testid="button-forgot-password"
+                >
+                  ¿Olvidaste tu contraseña?
+                </Button>
+              </div>
+            )}
+
             {loginType === 'child' && (
               <div className="mt-6 text-center">
                 <p className="text-sm text-muted-foreground mb-2">
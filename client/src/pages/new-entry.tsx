@@ -4,7 +4,8 @@ import { useMutation, useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Camera, Mic, Save, X, ArrowLeft, BookOpen } from "lucide-react";
+import { Camera, Mic, Save, X, ArrowLeft, BookOpen, Lock } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -13,16 +14,19 @@ import EmotionSelector from "@/components/emotion-selector";
 import CameraCapture from "@/components/camera-capture";
 import AudioRecorder from "@/components/audio-recorder";
 import NotificationToast from "@/components/notification-toast";
-import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useStorage } from "@/hooks/use-storage";
-import { queryClient } from "@/lib/queryClient";
+import { invalidateJournalQueries } from "@/hooks/use-outbox";
+import { enqueueEntry, sendOutboxEntry, removeOutboxEntry, OutboxRejectedError } from "@/lib/outbox";
+import { requestBackgroundSync } from "@/lib/service-worker";
+import { deviceTimeZone } from "@/lib/push";
 
 const entrySchema = z.object({
   emotionId: z.string().min(1, "Selecciona una emoción"),
   textEntry: z.string().min(1, "Escribe algo sobre cómo te sientes"),
   photoFile: z.any().optional(),
   audioFile: z.any().optional(),
+  isPrivate: z.boolean().default(false),
 });
 
 type EntryForm = z.infer<typeof entrySchema>;
@@ -53,49 +57,68 @@ export default function NewEntry() {
     defaultValues: {
       emotionId: "",
       textEntry: "",
+      isPrivate: false,
     },
   });
 
   const entryMutation = useMutation({
     mutationFn: async (data: EntryForm) => {
-      const formData = new FormData();
-      formData.append('userId', currentUser!.id);
-      formData.append('emotionId', data.emotionId);
-      formData.append('textEntry', data.textEntry);
+      const fields: Record<string, string> = {
+        emotionId: data.emotionId,
+        textEntry: data.textEntry,
+        isPrivate: String(data.isPrivate),
+        timezone: deviceTimeZone(), // Streaks count days where the child lives
+      };
 
       if (activePlant && 'id' in activePlant && activePlant.id) {
-        formData.append('plantId', activePlant.id);
+        fields.plantId = String(activePlant.id);
       }
-      
-      if (capturedPhoto) {
-        formData.append('photo', capturedPhoto);
-      }
-      
-      if (audioRecording) {
-        formData.append('audio', audioRecording);
+
+      // Saved in the outbox first so the entry survives a dropped connection
+      const outboxEntry = await enqueueEntry(currentUser!.id, fields, {
+        photo: capturedPhoto,
+        audio: audioRecording,
+      });
+
+      if (!navigator.onLine) {
+        requestBackgroundSync();
+        return { queued: true as const };
       }
 
-      const response = await apiRequest('POST', '/api/journal-entries', formData);
-      return response.json();
+      try {
+        return await sendOutboxEntry(outboxEntry);
+      } catch (error) {
+        if (error instanceof OutboxRejectedError) {
+          // The form still has the entry: the child fixes it here instead of in the outbox
+          await removeOutboxEntry(outboxEntry.id);
+          throw error;
+        }
+        return { queued: true as const };
+      }
     },
     onSuccess: (data) => {
+      if ('queued' in data) {
+        toast({
+          title: "Entrada guardada en tu dispositivo",
+          description: "No hay conexión: la enviaremos sola cuando vuelva internet.",
+        });
+        setLocation(isOnboarding ? '/onboarding' : '/dashboard');
+        return;
+      }
+
       // Invalidate queries to refresh dashboard data
-      queryClient.invalidateQueries({ queryKey: [`/api/dashboard/${currentUser?.id}`] });
-      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/users', currentUser?.id, 'plant'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/users', currentUser?.id, 'journal-entries'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/users', currentUser?.id, 'achievements'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/achievements'] });
+      invalidateJournalQueries(currentUser?.id);
 
       setShowToast(true);
 
       // Check if new achievements were unlocked
-      const hasNewAchievements = data?.newAchievements && data.newAchievements.length > 0;
+      const newAchievements = data.newAchievements ?? [];
+      const hasNewAchievements = newAchievements.length > 0;
 
       toast({
         title: hasNewAchievements ? "¡Entrada guardada y logro desbloqueado!" : "¡Entrada guardada!",
         description: hasNewAchievements
-          ? `Has ganado +10 puntos y desbloqueado ${data.newAchievements.length} logro(s)!`
+          ? `Has ganado +10 puntos y desbloqueado ${newAchievements.length} logro(s)!`
           : "Has ganado +10 puntos",
       });
 
@@ -347,6 +370,30 @@ export default function NewEntry() {
                     </Button>
                   )}
                 </div>
+
+                {/* Private entry - hidden from caregivers */}
+                <FormField
+                  control={form.control}
+                  name="isPrivate"
+                  render={({ field }) => (
+                    <FormItem className="mt-4 flex items-center justify-between rounded-lg bg-muted p-3">
+                      <div className="flex items-center space-x-2">
+                        <Lock className="w-4 h-4 text-primary" />
+                        <div>
+                          <FormLabel className="text-sm font-semibold">Solo para mí</FormLabel>
+                          <p className="text-xs text-muted-foreground">Tu familia no verá esta entrada</p>
+                        </div>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                          data-testid="switch-private-entry"
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
               </CardContent>
             </Card>
 
@@ -0,0 +1,167 @@
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Bell, Trophy, Sprout, CheckCheck, Inbox } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import AppHeader from "@/components/app-header";
+import BottomNavigation from "@/components/bottom-navigation";
+import { useStorage } from "@/hooks/use-storage";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { notificationLink, type Notification } from "@shared/schema";
+
+// How many notifications the inbox shows
+const INBOX_LIMIT = 50;
+
+function NotificationIcon({ type }: { type: string | null }) {
+  switch (type) {
+    case 'achievement':
+      return <Trophy className="w-5 h-5 text-accent" />;
+    case 'milestone':
+      return <Sprout className="w-5 h-5 text-primary" />;
+    default:
+      return <Bell className="w-5 h-5 text-primary" />;
+  }
+}
+
+export default function Notifications() {
+  const [, setLocation] = useLocation();
+  const { currentUser } = useStorage();
+  const { toast } = useToast();
+
+  const inboxKey = `/api/users/${currentUser?.id}/notifications?limit=${INBOX_LIMIT}`;
+
+  const { data: notifications = [], isLoading } = useQuery<Notification[]>({
+    queryKey: [inboxKey],
+    enabled: !!currentUser?.id,
+  });
+
+  const refreshInbox = () => {
+    queryClient.invalidateQueries({ queryKey: [inboxKey] });
+    queryClient.invalidateQueries({ queryKey: [`/api/dashboard/${currentUser?.id}`] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('PATCH', `/api/notifications/${id}/read`);
+      return response.json();
+    },
+    onSuccess: refreshInbox,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PATCH', '/api/notifications/read-all');
+      return response.json();
+    },
+    onSuccess: refreshInbox,
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudieron marcar los avisos como leídos.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Opening a notification marks it read and goes to the page it is about
+  const openNotification = (notification: Notification) => {
+    if (!notification.isRead) {
+      markReadMutation.mutate(notification.id);
+    }
+    setLocation(notificationLink(notification.type));
+  };
+
+  const unreadCount = notifications.filter(notification => !notification.isRead).length;
+
+  return (
+    <div className="h-screen bg-background overflow-y-auto">
+      <AppHeader
+        title="Avisos"
+        subtitle={unreadCount > 0 ? `${unreadCount} sin leer` : undefined}
+        variant="gradient"
+        showBackButton
+        backTo="/dashboard"
+        showNotificationsButton={false}
+      />
+
+      <main className="p-4 pb-24 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-foreground">Tus avisos</h2>
+          {unreadCount > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+              data-testid="button-mark-all-read"
+            >
+              <CheckCheck className="w-4 h-4 mr-1" />
+              Marcar todo como leído
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin">
+              <Bell className="w-8 h-8 text-primary" />
+            </div>
+          </div>
+        ) : notifications.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center space-y-2">
+              <Inbox className="w-10 h-10 mx-auto text-muted-foreground" />
+              <p className="font-semibold text-foreground">No tienes avisos</p>
+              <p className="text-sm text-muted-foreground">
+                Aquí aparecerán tus recordatorios, logros y los avances de tu planta.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-2">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => openNotification(notification)}
+                className={cn(
+                  "w-full text-left p-4 rounded-lg border flex items-start space-x-3 transition-colors hover:bg-muted/50",
+                  notification.isRead ? "bg-card" : "bg-primary/5 border-primary/30"
+                )}
+                data-testid={`notification-${notification.id}`}
+              >
+                <div className="mt-0.5 shrink-0">
+                  <NotificationIcon type={notification.type} />
+                </div>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="flex items-center justify-between space-x-2">
+                    <p className={cn("text-sm text-foreground truncate", !notification.isRead && "font-semibold")}>
+                      {notification.title}
+                    </p>
+                    {!notification.isRead && (
+                      <span className="w-2 h-2 rounded-full bg-primary shrink-0" aria-label="Sin leer" />
+                    )}
+                  </div>
+                  {notification.message && (
+                    <p className="text-sm text-muted-foreground line-clamp-2">{notification.message}</p>
+                  )}
+                  {notification.sentAt && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.sentAt), { addSuffix: true, locale: es })}
+                    </p>
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <BottomNavigation />
+    </div>
+  );
+}
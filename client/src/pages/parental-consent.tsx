@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Shield, CheckCircle, XCircle, Ban } from "lucide-react";
+import AppHeader from "@/components/app-header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+
+interface ConsentRequestInfo {
+  childAlias: string;
+  childAge: number | null;
+  status: 'pending' | 'granted' | 'denied' | 'revoked' | 'superseded' | 'expired';
+  termsVersion: string;
+  termsSummary: string | null;
+  isReconsent: boolean;
+  expiresAt: string;
+  respondedAt: string | null;
+}
+
+const CLOSED_MESSAGES: Record<string, string> = {
+  granted: "Ya autorizaste este perfil. Gracias.",
+  denied: "Ya rechazaste esta solicitud. El perfil no podrá usar Semillita.",
+  revoked: "La autorización de este perfil fue retirada.",
+  superseded: "Este enlace fue reemplazado por uno más reciente. Revisa el último correo que recibiste.",
+  expired: "Este enlace venció. Pide al niño o niña que envíe uno nuevo desde la aplicación.",
+};
+
+// Parent-facing page opened from the consent email (/consent) or the confirmation email (/consent/revoke)
+export default function ParentalConsent({ mode = 'respond' }: { mode?: 'respond' | 'revoke' }) {
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const { toast } = useToast();
+  const token = new URLSearchParams(search).get('token') || '';
+  const [consenterName, setConsenterName] = useState("");
+  const [acceptTerms, setAcceptTerms] = useState(false);
+  const [answer, setAnswer] = useState<string | null>(null);
+  const [guardianLinked, setGuardianLinked] = useState<{ needsPassword: boolean } | null>(null);
+
+  const { data: request, isLoading, isError } = useQuery<ConsentRequestInfo>({
+    queryKey: ['/api/consent', token],
+    queryFn: async () => {
+      const response = await fetch(`/api/consent?token=${encodeURIComponent(token)}`);
+      if (!response.ok) {
+        throw new Error('El enlace no es válido');
+      }
+      return response.json();
+    },
+    enabled: mode === 'respond' && !!token,
+    retry: false,
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async (decision: 'grant' | 'deny') => {
+      const response = await fetch('/api/consent', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, decision, consenterName, acceptTerms }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'No se pudo registrar tu respuesta');
+      }
+
+      return response.json();
+    },
+    onSuccess: ({ status }) => {
+      setAnswer(status);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Link (or create) the parent's caregiver account to follow the child's progress
+  const guardianMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/consent/guardian', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'No se pudo vincular tu cuenta');
+      }
+
+      return response.json();
+    },
+    onSuccess: ({ needsPassword }) => {
+      setGuardianLinked({ needsPassword });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch('/api/consent/revoke', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'No se pudo retirar la autorización');
+      }
+
+      return response.json();
+    },
+    onSuccess: ({ status }) => {
+      setAnswer(status);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderInvalid = () => (
+    <div className="text-center space-y-4">
+      <XCircle className="w-12 h-12 mx-auto text-destructive" />
+      <p className="text-sm text-muted-foreground">
+        El enlace no es válido. Revisa que lo hayas copiado completo desde el correo.
+      </p>
+    </div>
+  );
+
+  const renderAnswered = (status: string) => (
+    <div className="text-center space-y-4" data-testid="consent-answered">
+      {status === 'granted' ? (
+        <CheckCircle className="w-12 h-12 mx-auto text-green-500" />
+      ) : (
+        <Ban className="w-12 h-12 mx-auto text-muted-foreground" />
+      )}
+      <p className="text-sm">
+        {status === 'granted'
+          ? "¡Listo! Autorizaste el acceso. Te enviamos un correo de confirmación con un enlace para retirar la autorización si cambias de opinión."
+          : CLOSED_MESSAGES[status] ?? "Tu respuesta fue registrada."}
+      </p>
+      {status === 'granted' && mode === 'respond' && (
+        guardianLinked ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-guardian-linked">
+            {guardianLinked.needsPassword
+              ? "Te enviamos un correo para que elijas la contraseña de tu cuenta de adulto responsable."
+              : "Listo. Ya puedes ver su progreso al iniciar sesión como adulto responsable."}
+          </p>
+        ) : (
+          <Button
+            className="w-full"
+            onClick={() => guardianMutation.mutate()}
+            disabled={guardianMutation.isPending}
+            data-testid="button-link-guardian"
+          >
+            {guardianMutation.isPending ? 'Vinculando...' : 'Quiero seguir su progreso'}
+          </Button>
+        )
+      )}
+      <Button variant="ghost" className="w-full" onClick={() => setLocation('/welcome')}>
+        Conocer Semillita
+      </Button>
+    </div>
+  );
+
+  const renderRevoke = () => (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Al retirar la autorización, el perfil dejará de poder registrar información en Semillita.
+        Puedes volver a autorizarlo más adelante desde un nuevo correo de solicitud.
+      </p>
+      <Button
+        variant="destructive"
+        className="w-full"
+        onClick={() => revokeMutation.mutate()}
+        disabled={revokeMutation.isPending}
+        data-testid="button-revoke-consent"
+      >
+        {revokeMutation.isPending ? 'Retirando...' : 'Retirar autorización'}
+      </Button>
+    </div>
+  );
+
+  const renderRequest = (info: ConsentRequestInfo) => {
+    if (info.status !== 'pending') {
+      return renderAnswered(info.status);
+    }
+
+    return (
+      <div className="space-y-6">
+        {info.isReconsent ? (
+          <p className="text-sm">
+            Actualizamos los términos de uso de Semillita. Para que <strong>{info.childAlias}</strong> pueda
+            seguir usando la aplicación, necesitamos que confirmes nuevamente tu autorización.
+          </p>
+        ) : (
+          <p className="text-sm">
+            <strong>{info.childAlias}</strong>
+            {info.childAge ? ` (${info.childAge} años)` : ''} creó un perfil en Semillita, una aplicación
+            para registrar emociones y cuidar una planta virtual.
+          </p>
+        )}
+
+        <Alert>
+          <Shield className="h-4 w-4" />
+          <AlertDescription className="text-xs space-y-1">
+            {info.termsSummary && <p data-testid="text-terms-summary">{info.termsSummary}</p>}
+            <p>Puedes retirar la autorización en cualquier momento desde el correo de confirmación.</p>
+          </AlertDescription>
+        </Alert>
+
+        <div className="space-y-2">
+          <Label htmlFor="consenter-name">Tu nombre completo</Label>
+          <Input
+            id="consenter-name"
+            value={consenterName}
+            onChange={(e) => setConsenterName(e.target.value)}
+            placeholder="Nombre del adulto responsable"
+            data-testid="input-consenter-name"
+          />
+        </div>
+
+        <div className="flex items-start space-x-2">
+          <Checkbox
+            id="accept-terms"
+            checked={acceptTerms}
+            onCheckedChange={(checked) => setAcceptTerms(checked === true)}
+            data-testid="checkbox-accept-terms"
+          />
+          <Label htmlFor="accept-terms" className="text-sm font-normal leading-snug">
+            Soy el padre, madre o tutor legal y acepto los términos de uso (versión {info.termsVersion}).
+          </Label>
+        </div>
+
+        <div className="space-y-3">
+          <Button
+            className="w-full"
+            onClick={() => decisionMutation.mutate('grant')}
+            disabled={!acceptTerms || consenterName.trim().length < 2 || decisionMutation.isPending}
+            data-testid="button-grant-consent"
+          >
+            <CheckCircle className="w-4 h-4 mr-2" />
+            Autorizar
+          </Button>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => decisionMutation.mutate('deny')}
+            disabled={consenterName.trim().length < 2 || decisionMutation.isPending}
+            data-testid="button-deny-consent"
+          >
+            <XCircle className="w-4 h-4 mr-2" />
+            No autorizar
+          </Button>
+        </div>
+
+        <p className="text-xs text-muted-foreground text-center">
+          Este enlace vence el {new Date(info.expiresAt).toLocaleDateString('es')}.
+        </p>
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    if (!token) {
+      return renderInvalid();
+    }
+    if (answer) {
+      return renderAnswered(answer);
+    }
+    if (mode === 'revoke') {
+      return renderRevoke();
+    }
+    if (isLoading) {
+      return <p className="text-sm text-center text-muted-foreground">Cargando...</p>;
+    }
+    if (isError || !request) {
+      return renderInvalid();
+    }
+    return renderRequest(request);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader
+        title={mode === 'revoke' ? "Retirar autorización" : "Autorización parental"}
+        subtitle="Para el adulto responsable"
+        variant="gradient"
+      />
+
+      <div className="p-4">
+        <Card className="fade-in mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Shield className="w-5 h-5 mr-2" />
+              {mode === 'revoke' ? "Retirar autorización" : "Solicitud de autorización"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {renderContent()}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
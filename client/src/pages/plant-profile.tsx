@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { BookOpen, Calendar, Droplets, Leaf, ArrowLeft, Plus, Trash2, UserX, Play, Pause } from "lucide-react";
+import { BookOpen, Calendar, Droplets, Leaf, ArrowLeft, Plus, Trash2, UserX, Play, Pause, Lock, Unlock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -18,6 +18,14 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { mediaUrl } from "@/lib/media";
+import MediaImage from "@/components/media-image";
+import AudioWaveform, { formatAudioDuration } from "@/components/audio-waveform";
+import PlantProgress from "@/components/plant-progress";
+import PlantCareLog from "@/components/plant-care-log";
+import PlantTimelapse from "@/components/plant-timelapse";
+import SpeciesCareGuide from "@/components/species-care-guide";
+import type { PlantLifecycle, PlantSpecies } from "@shared/schema";
 
 export default function PlantProfile() {
   const [, setLocation] = useLocation();
@@ -28,14 +36,22 @@ export default function PlantProfile() {
   const [entryToDelete, setEntryToDelete] = useState<string | null>(null);
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
   const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
+  const [audioProgress, setAudioProgress] = useState(0);
 
   const isOnboarding = new URLSearchParams(window.location.search).get('onboarding') === 'true';
 
-  const { data: plant, isLoading } = useQuery({
+  const { data: plant, isLoading } = useQuery<{ id: string; name: string | null; speciesId: string | null; plantedAt: string; lifecycle?: PlantLifecycle } | null>({
     queryKey: ['/api/users', currentUser?.id, 'plant'],
     enabled: !!currentUser?.id,
   });
 
+  const { data: speciesCatalog = [] } = useQuery<PlantSpecies[]>({
+    queryKey: ['/api/plant-species'],
+    enabled: !!plant?.speciesId,
+    staleTime: Infinity,
+  });
+  const species = speciesCatalog.find(item => item.id === plant?.speciesId);
+
   const { data: journalEntries = [], isLoading: isLoadingEntries } = useQuery({
     queryKey: ['/api/users', currentUser?.id, 'journal-entries'],
     enabled: !!currentUser?.id,
@@ -44,7 +60,7 @@ export default function PlantProfile() {
   // Delete user mutation (for children to delete themselves)
   const deleteUserMutation = useMutation({
     mutationFn: async () => {
-      const response = await fetch(`/api/users/${currentUser?.id}?requestingUserId=${currentUser?.id}`, {
+      const response = await fetch(`/api/users/${currentUser?.id}`, {
         method: 'DELETE',
       });
       if (!response.ok) {
@@ -76,7 +92,7 @@ export default function PlantProfile() {
   // Delete journal entry mutation
   const deleteEntryMutation = useMutation({
     mutationFn: async (entryId: string) => {
-      const response = await fetch(`/api/journal-entries/${entryId}?requestingUserId=${currentUser?.id}`, {
+      const response = await fetch(`/api/journal-entries/${entryId}`, {
         method: 'DELETE',
       });
       if (!response.ok) {
@@ -102,6 +118,38 @@ export default function PlantProfile() {
     },
   });
 
+  // Private entries are hidden from caregivers
+  const togglePrivacyMutation = useMutation({
+    mutationFn: async ({ entryId, isPrivate }: { entryId: string; isPrivate: boolean }) => {
+      const response = await fetch(`/api/journal-entries/${entryId}/privacy`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isPrivate }),
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Error al cambiar la privacidad');
+      }
+      return response.json();
+    },
+    onSuccess: (entry) => {
+      toast({
+        title: entry.isPrivate ? "Entrada privada" : "Entrada compartida",
+        description: entry.isPrivate
+          ? "Tu familia no verá esta entrada."
+          : "Tu familia podrá ver esta emoción en su resumen.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/users', currentUser?.id, 'journal-entries'] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleDeleteUser = () => {
     deleteUserMutation.mutate();
   };
@@ -135,14 +183,21 @@ export default function PlantProfile() {
     }
 
     // Play new audio
-    const audio = new Audio(audioUrl);
+    const audio = new Audio(mediaUrl(audioUrl));
     audio.play();
     setPlayingAudioId(entryId);
     setAudioElement(audio);
+    setAudioProgress(0);
 
+    audio.ontimeupdate = () => {
+      if (audio.duration) {
+        setAudioProgress(audio.currentTime / audio.duration);
+      }
+    };
     audio.onended = () => {
       setPlayingAudioId(null);
       setAudioElement(null);
+      setAudioProgress(0);
     };
   };
 
@@ -266,6 +321,20 @@ export default function PlantProfile() {
           </Card>
         )}
 
+        {/* Growth Stage */}
+        {plant?.lifecycle && <PlantProgress lifecycle={plant.lifecycle} />}
+
+        {/* Care Log */}
+        {plant && <PlantCareLog plantId={plant.id} />}
+
+        {/* Species Care Guide */}
+        {plant?.lifecycle && species && (
+          <SpeciesCareGuide species={species} plantId={plant.id} plantedAt={plant.plantedAt} lifecycle={plant.lifecycle} />
+        )}
+
+        {/* Photo Time-lapse */}
+        {plant && <PlantTimelapse plantId={plant.id} plantName={plant.name} />}
+
         {/* Journal Entries Grouped by Day */}
         {sortedEntries.length > 0 ? (
           <div className="space-y-6">
@@ -314,22 +383,35 @@ export default function PlantProfile() {
                               </Badge>
                             </div>
                           </div>
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            className="text-red-500 hover:text-red-600 hover:bg-red-50"
-                            onClick={() => handleDeleteEntry(entry.id)}
-                            data-testid="button-delete-entry"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
+                          <div className="flex items-center">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => togglePrivacyMutation.mutate({ entryId: entry.id, isPrivate: !entry.isPrivate })}
+                              disabled={togglePrivacyMutation.isPending}
+                              title={entry.isPrivate ? "Privada - solo tú la ves" : "Compartida con tu familia"}
+                              data-testid="button-toggle-entry-privacy"
+                            >
+                              {entry.isPrivate ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4 text-muted-foreground" />}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                              onClick={() => handleDeleteEntry(entry.id)}
+                              data-testid="button-delete-entry"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
                         </div>
 
                         {/* Entry Photo */}
                         {entry.photoUrl && (
                           <div className="w-full">
-                            <img
-                              src={entry.photoUrl}
+                            <MediaImage
+                              storageKey={entry.photoUrl}
+                              size="card"
                               alt="Foto de la planta"
                               className="w-full h-56 object-cover rounded-lg shadow-md"
                               data-testid="img-entry-photo"
@@ -352,7 +434,14 @@ export default function PlantProfile() {
                                   )}
                                 </div>
                                 <div>
-                                  <p className="text-sm font-semibold text-foreground">Nota de voz</p>
+                                  <p className="text-sm font-semibold text-foreground">
+                                    Nota de voz
+                                    {entry.audioDurationMs > 0 && (
+                                      <span className="ml-2 text-xs font-normal text-muted-foreground" data-testid="text-audio-duration">
+                                        {formatAudioDuration(entry.audioDurationMs)}
+                                      </span>
+                                    )}
+                                  </p>
                                   <p className="text-xs text-muted-foreground">
                                     {playingAudioId === entry.id ? 'Reproduciendo...' : 'Toca para escuchar'}
                                   </p>
@@ -377,6 +466,14 @@ export default function PlantProfile() {
                                 )}
                               </Button>
                             </div>
+                            {entry.audioPeaks?.length > 0 && (
+                              <div className="mt-3">
+                                <AudioWaveform
+                                  peaks={entry.audioPeaks}
+                                  progress={playingAudioId === entry.id ? audioProgress : 0}
+                                />
+                              </div>
+                            )}
                           </div>
                         )}
 
@@ -418,7 +515,7 @@ export default function PlantProfile() {
           <AlertDialogHeader>
             <AlertDialogTitle>¿Eliminar tu usuario?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta acción eliminará permanentemente tu usuario <strong>{currentUser?.alias}</strong> y todos tus datos asociados (planta, entradas, logros, etc.). Esta acción no se puede deshacer.
+              Se eliminará tu usuario <strong>{currentUser?.alias}</strong> y todos tus datos asociados (planta, entradas, logros, etc.). Tu facilitador puede recuperarlo durante 30 días; después se borrará definitivamente.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -439,7 +536,7 @@ export default function PlantProfile() {
           <AlertDialogHeader>
             <AlertDialogTitle>¿Eliminar entrada?</AlertDialogTitle>
             <AlertDialogDescription>
-              Esta acción eliminará permanentemente esta entrada de tu bitácora. Esta acción no se puede deshacer.
+              Se eliminará esta entrada de tu bitácora. Tu facilitador puede recuperarla durante 30 días; después se borrará definitivamente.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
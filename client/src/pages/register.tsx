@@ -21,8 +21,7 @@ import opcionIsollogo from "@assets/isologo_opcion_1758035535543.png";
 
 // UI-only fields for form management
 const uiOnlyFields = z.object({
-  password: z.string().min(6, "La contraseña debe tener al menos 6 caracteres"),
-  confirmPassword: z.string().min(6, "Confirma tu contraseña"),
+  confirmPin: z.string(),
 });
 
 type UIRegisterForm = InsertUser & z.infer<typeof uiOnlyFields>;
@@ -58,10 +57,11 @@ export default function Register() {
       colorTheme: z.string().default("green"),
       age: z.number().min(6, "Debes tener al menos 6 años"),
       role: z.literal("child"),
-      password: z.string().min(6, "La contraseña debe tener al menos 6 caracteres"),
-      confirmPassword: z.string().min(6, "Confirma tu contraseña"),
+      pin: z.string().regex(/^\d{4,6}$/, "El PIN debe tener entre 4 y 6 números"),
+      confirmPin: z.string().min(4, "Confirma tu PIN"),
+      joinCode: z.string().optional(),
       // Simplified fields
-      parentEmail: z.string().optional(),
+      parentEmail: z.string().trim().email("Ingresa el correo de un adulto responsable"),
       parentalConsent: z.boolean().optional(),
       consentAcknowledgment: z.boolean().optional(),
       points: z.number().optional(),
@@ -70,12 +70,12 @@ export default function Register() {
       consentVerified: z.boolean().optional(),
       parentalConsentDate: z.string().optional(),
     }).superRefine((data, ctx) => {
-      // Validar que las contraseñas coincidan
-      if (data.password !== data.confirmPassword) {
+      // Validar que los PIN coincidan
+      if (data.pin !== data.confirmPin) {
         ctx.addIssue({
           code: z.ZodIssueCode.custom,
-          message: "Las contraseñas no coinciden",
-          path: ["confirmPassword"],
+          message: "Los PIN no coinciden",
+          path: ["confirmPin"],
         });
       }
       // Age validation for children only
@@ -99,8 +99,9 @@ export default function Register() {
       alias: "",
       avatar: "plant1",
       colorTheme: "green",
-      password: "",
-      confirmPassword: "",
+      pin: "",
+      confirmPin: "",
+      joinCode: "",
       age: 10,
       role: "child",
       parentEmail: "",
@@ -109,7 +110,7 @@ export default function Register() {
       points: 0,
       daysSincePlanting: 0,
       isWorkshopMode: false,
-      consentVerified: true,
+      consentVerified: false,
     },
   });
 
@@ -135,10 +136,11 @@ export default function Register() {
           daysSincePlanting: 0,
           isWorkshopMode: selectedMode === 'workshop',
           parentEmail: data.parentEmail,
-          parentalConsent: data.parentalConsent,
+          parentalConsent: false,
           consentAcknowledgment: data.consentAcknowledgment!,
-          parentalConsentDate: data.consentAcknowledgment ? new Date().toISOString() : undefined,
-          consentVerified: true, // Auto-verificado en modo prototipo
+          consentVerified: false, // Lo otorga el adulto desde el correo de autorización
+          pin: data.pin,
+          joinCode: data.joinCode?.trim() || undefined,
         };
       } else { // professional
         serverData = {
@@ -162,17 +164,23 @@ export default function Register() {
       // Validate with shared discriminated union schema before sending
       const validatedData = insertUserSchema.parse(serverData);
 
+      // El servidor guarda el PIN cifrado e inicia la sesión
       const response = await apiRequest('POST', '/api/users', validatedData);
-      const createdUser = await response.json();
-
-      // Guardar contraseña en localStorage (temporal, en producción usar backend seguro)
-      localStorage.setItem(`semillita_password_${createdUser.id}`, data.password);
-
-      return createdUser;
+      return response.json();
     },
     onSuccess: (user) => {
-      // Acceso liberado para todos los usuarios
       setCurrentUser(user);
+
+      // Los niños esperan la autorización del adulto responsable
+      if (user.role === 'child' && !user.consentVerified) {
+        toast({
+          title: "¡Perfil creado!",
+          description: "Enviamos un correo al adulto responsable para que autorice tu acceso.",
+        });
+        setLocation('/awaiting-consent');
+        return;
+      }
+
       toast({
         title: "¡Perfil creado exitosamente!",
         description: "¡Bienvenido a Semillita! Vamos a empezar tu aventura.",
@@ -180,6 +188,11 @@ export default function Register() {
       setLocation('/onboarding');
     },
     onError: (error) => {
+      if (error.message.includes('INVALID_JOIN_CODE')) {
+        setStep(1);
+        form.setError('joinCode', { message: 'El código del grupo no es válido. Pregúntale a tu facilitador.' });
+        return;
+      }
       toast({
         title: "Error",
         description: "No se pudo crear tu perfil. Inténtalo de nuevo.",
@@ -197,7 +210,7 @@ export default function Register() {
 
   const nextStep = () => {
     if (step === 1) {
-      form.trigger(['alias', 'avatar', 'colorTheme', 'age', 'role', 'password', 'confirmPassword']).then(isValid => {
+      form.trigger(['alias', 'avatar', 'colorTheme', 'age', 'role', 'pin', 'confirmPin', 'joinCode']).then(isValid => {
         if (isValid) {
           setStep(2);
         }
@@ -370,21 +383,26 @@ export default function Register() {
                 {/* Hidden Role - Always child */}
                 <input type="hidden" {...form.register("role")} value="child" />
 
-                {/* Password Fields */}
+                {/* PIN Fields */}
                 <FormField
                   control={form.control}
-                  name="password"
+                  name="pin"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Contraseña</FormLabel>
+                      <FormLabel>PIN secreto</FormLabel>
                       <FormControl>
                         <Input
                           type="password"
-                          placeholder="Crea una contraseña"
+                          inputMode="numeric"
+                          maxLength={6}
+                          placeholder="Entre 4 y 6 números"
                           {...field}
-                          data-testid="input-password"
+                          data-testid="input-pin"
                         />
                       </FormControl>
+                      <p className="text-xs text-muted-foreground">
+                        No le cuentes tu PIN a nadie, solo a tu familia.
+                      </p>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -392,22 +410,50 @@ export default function Register() {
 
                 <FormField
                   control={form.control}
-                  name="confirmPassword"
+                  name="confirmPin"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Confirmar Contraseña</FormLabel>
+                      <FormLabel>Confirmar PIN</FormLabel>
                       <FormControl>
                         <Input
                           type="password"
-                          placeholder="Confirma tu contraseña"
+                          inputMode="numeric"
+                          maxLength={6}
+                          placeholder="Escribe tu PIN otra vez"
                           {...field}
-                          data-testid="input-confirm-password"
+                          data-testid="input-confirm-pin"
                         />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
+
+                {/* Workshop group join code */}
+                <FormField
+                  control={form.control}
+                  name="joinCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Código de tu grupo (opcional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Ej: K7QH3M"
+                          maxLength={12}
+                          autoCapitalize="characters"
+                          {...field}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                          data-testid="input-join-code"
+                        />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">
+                        Si estás en un taller, tu facilitador te dará este código.
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </CardContent>
             </Card>
           )}
@@ -423,16 +469,36 @@ export default function Register() {
               </CardHeader>
               <CardContent className="space-y-6">
                 <div className="bg-primary/10 rounded-lg p-4">
-                  <h3 className="font-semibold text-foreground mb-2">Modo Prototipo - Acceso Libre</h3>
+                  <h3 className="font-semibold text-foreground mb-2">Autorización de un adulto</h3>
                   <p className="text-sm text-muted-foreground">
                     Semillita es una aplicación para registrar emociones y el crecimiento de plantas de forma segura.
-                    Al continuar, confirmas que has leído y aceptas nuestros términos de uso.
                     <span className="block mt-2 font-medium">
-                      Como eres menor de edad, un adulto responsable debe estar al tanto de tu uso de la aplicación.
+                      Como eres menor de edad, enviaremos un correo a tu padre, madre o tutor para que autorice tu acceso.
                     </span>
                   </p>
                 </div>
 
+                <FormField
+                  control={form.control}
+                  name="parentEmail"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Correo del adulto responsable</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="email"
+                          placeholder="correo@ejemplo.com"
+                          autoComplete="off"
+                          {...field}
+                          value={field.value ?? ""}
+                          data-testid="input-parent-email"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="border rounded-lg p-4 max-h-48 overflow-y-auto text-sm space-y-2">
                   <h4 className="font-semibold">Resumen de Términos:</h4>
                   <ul className="list-disc list-inside space-y-1 text-muted-foreground">
@@ -0,0 +1,156 @@
+import { useLocation, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { KeyRound } from "lucide-react";
+import AppHeader from "@/components/app-header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(8, "La contraseña debe tener al menos 8 caracteres"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Las contraseñas no coinciden",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordForm = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPassword() {
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const { toast } = useToast();
+  const token = new URLSearchParams(search).get('token') || '';
+
+  const form = useForm<ResetPasswordForm>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: ResetPasswordForm) => {
+      const response = await fetch('/api/auth/password-reset/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password: data.password }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || 'No se pudo actualizar la contraseña');
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Contraseña actualizada",
+        description: "Ya puedes iniciar sesión con tu nueva contraseña.",
+      });
+      setLocation('/login');
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader
+        title="Nueva Contraseña"
+        subtitle="Elige la contraseña de tu cuenta de facilitador"
+        showBackButton={true}
+        onBackClick={() => setLocation('/login')}
+        variant="gradient"
+      />
+
+      <div className="p-4">
+        <Card className="fade-in mt-8">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <KeyRound className="w-5 h-5 mr-2" />
+              Elegir contraseña
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!token ? (
+              <div className="text-center space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  El enlace no es válido. Solicita uno nuevo desde la pantalla de inicio de sesión.
+                </p>
+                <Button className="w-full" onClick={() => setLocation('/forgot-password')}>
+                  Solicitar nuevo enlace
+                </Button>
+              </div>
+            ) : (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-6">
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nueva contraseña</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            autoComplete="new-password"
+                            placeholder="Al menos 8 caracteres"
+                            {...field}
+                            data-testid="input-reset-password"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Confirmar contraseña</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            autoComplete="new-password"
+                            placeholder="Repite la contraseña"
+                            {...field}
+                            data-testid="input-reset-confirm-password"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={resetMutation.isPending}
+                    data-testid="button-submit-reset-password"
+                  >
+                    {resetMutation.isPending ? 'Guardando...' : 'Guardar contraseña'}
+                  </Button>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
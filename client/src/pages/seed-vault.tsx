@@ -17,6 +17,8 @@ import BottomNavigation from "@/components/bottom-navigation";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useStorage } from "@/hooks/use-storage";
+import MediaImage from "@/components/media-image";
+import SpeciesPicker from "@/components/species-picker";
 
 const seedSchema = z.object({
   type: z.string().min(1, "El tipo de semilla es requerido"),
@@ -34,6 +36,7 @@ export default function SeedVault() {
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [capturedPhoto, setCapturedPhoto] = useState<File | null>(null);
   const [showQR, setShowQR] = useState<string | null>(null);
+  const [speciesId, setSpeciesId] = useState<string | null>(null);
 
   const { data: seeds, isLoading } = useQuery({
     queryKey: ['/api/users', currentUser?.id, 'seeds'],
@@ -54,6 +57,9 @@ export default function SeedVault() {
       const formData = new FormData();
       formData.append('userId', currentUser!.id);
       formData.append('type', data.type);
+      if (speciesId) {
+        formData.append('speciesId', speciesId);
+      }
       formData.append('origin', data.origin || '');
       formData.append('notes', data.notes || '');
       formData.append('isShared', 'true');
@@ -73,6 +79,7 @@ export default function SeedVault() {
       });
       setShowAddDialog(false);
       setCapturedPhoto(null);
+      setSpeciesId(null);
       form.reset();
     },
     onError: () => {
@@ -211,10 +218,14 @@ export default function SeedVault() {
                       <FormItem>
                         <FormLabel>Tipo de semilla</FormLabel>
                         <FormControl>
-                          <Input 
+                          <SpeciesPicker
                             placeholder="Ej: Tomate, Girasol, Albahaca"
-                            {...field}
-                            data-testid="input-seed-type"
+                            value={field.value}
+                            onChange={(value, species) => {
+                              field.onChange(value);
+                              setSpeciesId(species?.id ?? null);
+                            }}
+                            testId="input-seed-type"
                           />
                         </FormControl>
                         <FormMessage />
@@ -333,8 +344,9 @@ export default function SeedVault() {
                   <CardContent className="p-4">
                     <div className="flex items-center space-x-4">
                       {seed.photoUrl ? (
-                        <img
-                          src={seed.photoUrl}
+                        <MediaImage
+                          storageKey={seed.photoUrl}
+                          size="thumb"
                           alt={seed.type}
                           className="w-16 h-16 object-cover rounded-lg border-2 border-border"
                         />
@@ -19,12 +19,13 @@ import {
   Sprout,
   Trophy,
   CheckCircle,
-  ArrowLeft
+  ArrowLeft,
+  Snowflake
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { queryClient } from '@/lib/queryClient';
 import { useStorage } from '@/hooks/use-storage';
-import type { Reward, UserReward } from '@shared/schema';
+import { STREAK_FREEZE_CATEGORY, MAX_STREAK_FREEZES, type Reward, type UserReward } from '@shared/schema';
 
 export default function Store() {
   const [, setLocation] = useLocation();
@@ -45,7 +46,7 @@ export default function Store() {
   });
 
   // Fetch dashboard data for accurate points
-  const { data: dashboardData } = useQuery({
+  const { data: dashboardData } = useQuery<{ user?: { points?: number }; streak?: { freezes: number } }>({
     queryKey: [`/api/dashboard/${user?.id}`],
     enabled: !!user?.id,
   });
@@ -81,6 +82,7 @@ export default function Store() {
       // Invalidate both user data (for points) and rewards data
       queryClient.invalidateQueries({ queryKey: ['/api/users'] });
       queryClient.invalidateQueries({ queryKey: ['/api/users', user?.id, 'rewards'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/dashboard/${user?.id}`] });
     },
     onError: (error: Error) => {
       toast({
@@ -104,6 +106,7 @@ export default function Store() {
   }
 
   const purchasedRewardIds = new Set(userRewards.map(ur => ur.rewardId));
+  const streakFreezes = dashboardData?.streak?.freezes ?? 0;
 
   // Use dashboard data for user points
   const userPoints = dashboardData?.user?.points || user?.points || 0;
@@ -116,6 +119,7 @@ export default function Store() {
     { id: 'badges', name: 'Insignias', icon: Award },
     { id: 'avatars', name: 'Avatares', icon: User },
     { id: 'backgrounds', name: 'Fondos', icon: Image },
+    { id: STREAK_FREEZE_CATEGORY, name: 'Rachas', icon: Snowflake },
   ];
 
   const filteredRewards = selectedCategory === 'all' 
@@ -196,7 +200,11 @@ export default function Store() {
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {filteredRewards.map((reward) => {
-            const isPurchased = purchasedRewardIds.has(reward.id);
+            // Streak freezes are bought again once used, up to the stock limit
+            const isStreakFreeze = reward.category === STREAK_FREEZE_CATEGORY;
+            const isPurchased = isStreakFreeze
+              ? streakFreezes >= MAX_STREAK_FREEZES
+              : purchasedRewardIds.has(reward.id);
             const canAfford = userPoints >= reward.pointsCost;
             
             return (
@@ -215,6 +223,7 @@ export default function Store() {
                     {reward.category === 'badges' && <Award className="h-12 w-12 mx-auto text-yellow-500" />}
                     {reward.category === 'avatars' && <User className="h-12 w-12 mx-auto text-pink-500" />}
                     {reward.category === 'backgrounds' && <Image className="h-12 w-12 mx-auto text-indigo-500" />}
+                    {isStreakFreeze && <Snowflake className="h-12 w-12 mx-auto text-sky-500" />}
                     {!reward.category && <Star className="h-12 w-12 mx-auto text-primary" />}
                   </div>
                   <CardTitle className="text-lg">{reward.name}</CardTitle>
@@ -232,6 +241,12 @@ export default function Store() {
                     </span>
                   </div>
                   
+                  {isStreakFreeze && !isPurchased && streakFreezes > 0 && (
+                    <p className="text-xs text-center text-muted-foreground" data-testid="text-streak-freezes">
+                      Tienes {streakFreezes} de {MAX_STREAK_FREEZES}
+                    </p>
+                  )}
+
                   {/* Category Badge */}
                   <div className="flex justify-center">
                     <Badge variant="secondary" className="rounded-full flex items-center gap-1">
@@ -257,7 +272,7 @@ export default function Store() {
                         data-testid={`button-purchased-${reward.id}`}
                       >
                         <CheckCircle className="h-4 w-4 mr-1" />
-                        Obtenida
+                        {isStreakFreeze ? `Tienes ${streakFreezes} de ${MAX_STREAK_FREEZES}` : 'Obtenida'}
                       </Button>
                     ) : (
                       <Button
@@ -0,0 +1,18 @@
+-- Achievement engine counters (idempotent)
+-- Rows are created the first time a user triggers an achievement event, backfilled from their
+-- existing journal entries and seeds, and then updated incrementally on every event.
+CREATE TABLE IF NOT EXISTS achievement_stats (
+  user_id varchar PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  journal_entries integer NOT NULL DEFAULT 0,
+  photo_entries integer NOT NULL DEFAULT 0,
+  seeds_shared integer NOT NULL DEFAULT 0,
+  emotion_ids text[] NOT NULL DEFAULT '{}'::text[],
+  morning_entries integer NOT NULL DEFAULT 0,
+  afternoon_entries integer NOT NULL DEFAULT 0,
+  evening_entries integer NOT NULL DEFAULT 0,
+  night_entries integer NOT NULL DEFAULT 0,
+  current_streak integer NOT NULL DEFAULT 0,
+  longest_streak integer NOT NULL DEFAULT 0,
+  last_entry_date date,
+  updated_at timestamp DEFAULT now()
+);
@@ -0,0 +1,5 @@
+-- Voice note processing (idempotent)
+-- Recordings are converted to MP3 with silence trimmed and loudness normalised; the
+-- duration and waveform are stored so the player can show them before loading the file.
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS audio_duration_ms integer;
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS audio_peaks json;
@@ -0,0 +1,8 @@
+-- Add authentication columns to users table (idempotent)
+-- pin_hash: scrypt hash of the child's login PIN
+-- session_version: bumped to revoke every session of a user
+-- failed_login_attempts / locked_until: per-account login lockout
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pin_hash text;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS session_version integer NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS failed_login_attempts integer NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locked_until timestamp;
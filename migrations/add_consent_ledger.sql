@@ -0,0 +1,75 @@
+-- Consent audit ledger and terms versions (idempotent)
+-- consent_events is append-only: every acknowledgment, request, grant, re-confirmation,
+-- denial and revocation is recorded with the terms version and who acted. It has no
+-- foreign key to users so the history survives account deletion.
+CREATE TABLE IF NOT EXISTS terms_versions (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  version varchar(20) NOT NULL UNIQUE,
+  summary text NOT NULL,
+  published_at timestamp NOT NULL DEFAULT now(),
+  published_by varchar REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS consent_events (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id varchar NOT NULL,
+  type varchar(20) NOT NULL,
+  terms_version varchar(20) NOT NULL,
+  actor_type varchar(20) NOT NULL,
+  actor_id varchar,
+  actor_name varchar(100),
+  consent_request_id varchar,
+  ip_address varchar(64),
+  user_agent text,
+  details text,
+  created_at timestamp NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS consent_events_user_idx ON consent_events (user_id, created_at);
+
+-- Reject any change to recorded events
+CREATE OR REPLACE FUNCTION consent_events_append_only() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'consent_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS consent_events_no_update ON consent_events;
+CREATE TRIGGER consent_events_no_update
+  BEFORE UPDATE OR DELETE ON consent_events
+  FOR EACH ROW EXECUTE FUNCTION consent_events_append_only();
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS consent_terms_version varchar(20);
+
+-- The terms parents have accepted so far
+INSERT INTO terms_versions (version, summary, published_at)
+VALUES (
+  '2025-10',
+  'Semillita guarda un apodo, la edad, las entradas del diario emocional y fotos opcionales. No pedimos el nombre real ni mostramos la información a otros usuarios.',
+  '2025-10-01'
+)
+ON CONFLICT (version) DO NOTHING;
+
+-- Consent answered through consent_requests before the ledger existed
+INSERT INTO consent_events (user_id, type, terms_version, actor_type, actor_name, consent_request_id, ip_address, user_agent, details, created_at)
+SELECT cr.user_id, cr.status, cr.terms_version, 'parent', cr.consenter_name, cr.id, cr.consenter_ip, cr.consenter_user_agent,
+       'Registrado antes de la bitácora', COALESCE(cr.responded_at, cr.created_at)
+FROM consent_requests cr
+WHERE cr.status IN ('granted', 'denied', 'revoked')
+  AND NOT EXISTS (SELECT 1 FROM consent_events ce WHERE ce.consent_request_id = cr.id);
+
+UPDATE users u SET consent_terms_version = cr.terms_version
+FROM consent_requests cr
+WHERE cr.user_id = u.id AND cr.status = 'granted' AND u.consent_verified = true AND u.consent_terms_version IS NULL;
+
+-- Children verified without a consent request (prototype sign-ups) keep access under the
+-- current terms, recorded as a system event so the audit trail shows where it came from
+INSERT INTO consent_events (user_id, type, terms_version, actor_type, details, created_at)
+SELECT u.id, 'granted', '2025-10', 'system', 'Consentimiento previo a la verificación por correo', COALESCE(u.parental_consent_date, u.created_at, now())
+FROM users u
+WHERE u.role = 'child' AND u.consent_verified = true AND u.consent_terms_version IS NULL
+  AND NOT EXISTS (SELECT 1 FROM consent_events ce WHERE ce.user_id = u.id);
+
+UPDATE users SET consent_terms_version = '2025-10'
+WHERE role = 'child' AND consent_verified = true AND consent_terms_version IS NULL;
@@ -0,0 +1,19 @@
+-- Parental consent requests (idempotent)
+-- A parent receives a signed, expiring link; the row records who answered, when,
+-- from which IP and for which terms version. Revoking sets status = 'revoked'.
+CREATE TABLE IF NOT EXISTS consent_requests (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id varchar NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  parent_email varchar(255) NOT NULL,
+  status varchar(20) NOT NULL DEFAULT 'pending',
+  terms_version varchar(20) NOT NULL,
+  expires_at timestamp NOT NULL,
+  responded_at timestamp,
+  consenter_name varchar(100),
+  consenter_ip varchar(64),
+  consenter_user_agent text,
+  revoked_at timestamp,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS consent_requests_user_idx ON consent_requests (user_id);
@@ -0,0 +1,18 @@
+-- Facilitator accounts with email + hashed password (idempotent)
+-- email: login identifier for facilitators (children keep alias + PIN)
+-- password_hash: scrypt hash of the facilitator's password
+ALTER TABLE users ADD COLUMN IF NOT EXISTS email varchar(255);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_hash text;
+CREATE UNIQUE INDEX IF NOT EXISTS users_email_unique ON users (email);
+
+-- Single-use password reset / invitation tokens (only the SHA-256 is stored)
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id varchar NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash varchar(64) NOT NULL UNIQUE,
+  expires_at timestamp NOT NULL,
+  used_at timestamp,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS password_reset_tokens_user_idx ON password_reset_tokens (user_id);
@@ -0,0 +1,16 @@
+-- Caregiver portal (idempotent)
+-- A guardianship links a caregiver account to a child. It is created when the parent
+-- who granted consent asks to follow the child's progress. Caregivers never see
+-- journal entries the child marked as private.
+CREATE TABLE IF NOT EXISTS guardianships (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  caregiver_id varchar NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  child_id varchar NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  consent_request_id varchar REFERENCES consent_requests(id) ON DELETE SET NULL,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS guardianships_caregiver_child_idx ON guardianships (caregiver_id, child_id);
+CREATE INDEX IF NOT EXISTS guardianships_child_idx ON guardianships (child_id);
+
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS is_private boolean NOT NULL DEFAULT false;
@@ -0,0 +1,7 @@
+-- Offline journaling (idempotent)
+-- Entries written without connectivity wait in the browser's outbox and are replayed with
+-- an Idempotency-Key header; the key is unique per child so a replay returns the original
+-- entry instead of creating a duplicate (and awarding the points twice).
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS idempotency_key varchar(64);
+
+CREATE UNIQUE INDEX IF NOT EXISTS journal_entries_idempotency_idx ON journal_entries (user_id, idempotency_key);
@@ -0,0 +1,15 @@
+-- Image renditions (idempotent)
+-- Every uploaded image is stored as thumb, card and full renditions in JPEG, WebP and AVIF,
+-- auto-rotated and without EXIF/GPS metadata. The full JPEG key is the one saved in the
+-- photo columns; media_assets maps it to the other renditions.
+CREATE TABLE IF NOT EXISTS media_assets (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id varchar NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  key text NOT NULL UNIQUE,
+  width integer,
+  height integer,
+  renditions json NOT NULL,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS media_assets_user_idx ON media_assets (user_id);
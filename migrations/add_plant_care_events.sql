@@ -0,0 +1,26 @@
+-- Plant care log (idempotent)
+-- Practical care logged from the plant profile, apart from the journal, and the achievement
+-- counters for it. Users with counters from before start from zero: there was no care to count.
+CREATE TABLE IF NOT EXISTS plant_care_events (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  plant_id varchar NOT NULL REFERENCES plants(id) ON DELETE CASCADE,
+  user_id varchar NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type varchar(20) NOT NULL,
+  height_cm real,
+  note varchar(200),
+  points_earned integer NOT NULL DEFAULT 0,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS plant_care_events_plant_idx ON plant_care_events (plant_id, created_at);
+
+ALTER TABLE achievement_stats ADD COLUMN IF NOT EXISTS watered_events integer NOT NULL DEFAULT 0;
+ALTER TABLE achievement_stats ADD COLUMN IF NOT EXISTS sunlight_events integer NOT NULL DEFAULT 0;
+ALTER TABLE achievement_stats ADD COLUMN IF NOT EXISTS repotted_events integer NOT NULL DEFAULT 0;
+ALTER TABLE achievement_stats ADD COLUMN IF NOT EXISTS pest_spotted_events integer NOT NULL DEFAULT 0;
+ALTER TABLE achievement_stats ADD COLUMN IF NOT EXISTS measured_events integer NOT NULL DEFAULT 0;
+
+-- New achievement for databases that already have the default ones
+INSERT INTO achievements (name, description, icon_name, points_required, condition, is_active)
+SELECT 'Jardinero Atento', 'Regaste tu planta 10 veces', 'leaf', 50, '{"type":"care_events","careType":"watered","count":10}', true
+WHERE NOT EXISTS (SELECT 1 FROM achievements WHERE condition = '{"type":"care_events","careType":"watered","count":10}');
@@ -0,0 +1,21 @@
+-- Multiple plants per child (idempotent)
+-- Each user keeps one active plant; archived ones stay as the history of their garden.
+ALTER TABLE plants ADD COLUMN IF NOT EXISTS seed_id varchar REFERENCES seeds(id) ON DELETE SET NULL;
+ALTER TABLE plants ADD COLUMN IF NOT EXISTS archived_at timestamp;
+
+-- Users who ended up with several active plants keep the newest one
+UPDATE plants SET is_active = false, archived_at = COALESCE(archived_at, now())
+WHERE is_active AND id NOT IN (
+  SELECT DISTINCT ON (user_id) id FROM plants WHERE is_active ORDER BY user_id, created_at DESC
+);
+UPDATE plants SET archived_at = COALESCE(updated_at, now()) WHERE NOT is_active AND archived_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS plants_one_active_per_user_idx ON plants(user_id) WHERE is_active;
+
+-- Entries written without a plant belong to the plant the child had then
+UPDATE journal_entries je SET plant_id = (
+  SELECT p.id FROM plants p
+  WHERE p.user_id = je.user_id AND p.created_at <= je.created_at
+  ORDER BY p.created_at DESC LIMIT 1
+)
+WHERE je.plant_id IS NULL;
@@ -0,0 +1,4 @@
+-- Plant lifecycle (idempotent)
+-- Growth stage of each plant; milestones keeps the stages reached with their dates. Existing
+-- plants start as seeds and catch up to their real stage the next time they are loaded.
+ALTER TABLE plants ADD COLUMN IF NOT EXISTS stage varchar(20) NOT NULL DEFAULT 'seed';
@@ -0,0 +1,19 @@
+-- Plant species catalog (idempotent)
+-- The catalog rows are upserted by the server on start (see initializeDefaultPlantSpecies in
+-- server/routes.ts). Existing plants and seeds keep their free-text type without a species.
+CREATE TABLE IF NOT EXISTS plant_species (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug varchar(50) NOT NULL UNIQUE,
+  common_name varchar(100) NOT NULL,
+  scientific_name varchar(100),
+  emoji varchar(10) NOT NULL,
+  germination_days integer NOT NULL,
+  seedling_days integer NOT NULL,
+  mature_days integer NOT NULL,
+  watering_every_days integer NOT NULL,
+  sunlight varchar(20) NOT NULL,
+  tips text[] NOT NULL DEFAULT '{}'::text[]
+);
+
+ALTER TABLE plants ADD COLUMN IF NOT EXISTS species_id varchar REFERENCES plant_species(id) ON DELETE SET NULL;
+ALTER TABLE seeds ADD COLUMN IF NOT EXISTS species_id varchar REFERENCES plant_species(id) ON DELETE SET NULL;
@@ -0,0 +1,25 @@
+-- Web Push reminders (idempotent)
+-- push_subscriptions holds one row per browser that accepted notifications; rows are removed
+-- when the push service reports the subscription as gone. notification_preferences replaces the
+-- reminder settings that used to live only in the browser's localStorage.
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id varchar NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent varchar(255),
+  created_at timestamp DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS push_subscriptions_user_idx ON push_subscriptions (user_id);
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id varchar PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  enabled boolean NOT NULL DEFAULT true,
+  reminder_time varchar(5) NOT NULL DEFAULT '18:00',
+  timezone varchar(64) NOT NULL DEFAULT 'UTC',
+  types json NOT NULL DEFAULT '["reminder","achievement","milestone"]'::json,
+  last_reminder_date varchar(10),
+  updated_at timestamp DEFAULT now()
+);
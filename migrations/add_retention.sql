@@ -0,0 +1,6 @@
+-- Data retention (idempotent)
+-- The retention job (server/retention.ts) deletes old audio, replaces old photos with
+-- thumbnails and flags child accounts that have been inactive for too long.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS inactive_flagged_at timestamp;
+
+CREATE INDEX IF NOT EXISTS journal_entries_created_at_idx ON journal_entries (created_at);
@@ -0,0 +1,10 @@
+-- Soft deletion with a recovery window (idempotent)
+-- Deleting a user or a journal entry only sets deleted_at. Facilitators can restore it for
+-- 30 days; after that the purge job removes the files, the profile history and the rows.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_at timestamp;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_by varchar;
+
+ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS deleted_at timestamp;
+
+CREATE INDEX IF NOT EXISTS users_deleted_at_idx ON users (deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS journal_entries_deleted_at_idx ON journal_entries (deleted_at) WHERE deleted_at IS NOT NULL;
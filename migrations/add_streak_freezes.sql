@@ -0,0 +1,16 @@
+-- Journaling streaks and streak freezes (idempotent)
+-- Streak counters already live in achievement_stats; users gain the freezes they have in stock.
+ALTER TABLE users ADD COLUMN IF NOT EXISTS streak_freezes integer DEFAULT 0;
+
+-- New store item and achievements for databases that already have the default ones
+INSERT INTO rewards (name, description, emoji, points_cost, category, is_active)
+SELECT 'Protector de Racha', 'Cuida tu racha si un día no puedes escribir', '🧊', 40, 'streak_freeze', true
+WHERE NOT EXISTS (SELECT 1 FROM rewards WHERE category = 'streak_freeze');
+
+INSERT INTO achievements (name, description, icon_name, points_required, condition, is_active)
+SELECT 'Racha de 3 Días', 'Escribiste en tu bitácora 3 días seguidos', 'flame', 30, '{"type":"streak","days":3}', true
+WHERE NOT EXISTS (SELECT 1 FROM achievements WHERE condition = '{"type":"streak","days":3}');
+
+INSERT INTO achievements (name, description, icon_name, points_required, condition, is_active)
+SELECT 'Racha de 7 Días', 'Escribiste en tu bitácora 7 días seguidos', 'flame', 70, '{"type":"streak","days":7}', true
+WHERE NOT EXISTS (SELECT 1 FROM achievements WHERE condition = '{"type":"streak","days":7}');
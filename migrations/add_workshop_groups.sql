@@ -0,0 +1,28 @@
+-- Workshop groups: facilitators own cohorts of children (idempotent)
+-- Children join a group with its join code at registration; facilitators only
+-- see children in the groups they belong to.
+CREATE TABLE IF NOT EXISTS workshop_groups (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  name varchar(100) NOT NULL,
+  join_code varchar(12) NOT NULL UNIQUE,
+  is_active boolean DEFAULT true,
+  created_by varchar REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS group_facilitators (
+  id varchar PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id varchar NOT NULL REFERENCES workshop_groups(id) ON DELETE CASCADE,
+  facilitator_id varchar NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at timestamp DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS group_facilitators_group_facilitator_idx ON group_facilitators (group_id, facilitator_id);
+CREATE INDEX IF NOT EXISTS group_facilitators_facilitator_idx ON group_facilitators (facilitator_id);
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS group_id varchar REFERENCES workshop_groups(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS users_group_idx ON users (group_id);
+
+-- Existing children have no group and are hidden from every facilitator until
+-- they are assigned one, e.g.:
+--   UPDATE users SET group_id = '<group id>' WHERE role = 'child' AND id IN (...);
@@ -0,0 +1,16 @@
+-- Private media (idempotent)
+-- Photos and recordings used to be stored as permanent public URLs. Only the storage key
+-- (<userId>/<filename>) is kept now; /api/media exchanges it for a short-lived signed URL.
+UPDATE journal_entries SET photo_url = regexp_replace(split_part(photo_url, '?', 1), '^.*/([^/]+/[^/]+)$', '\1') WHERE photo_url LIKE '%/%/%';
+UPDATE journal_entries SET audio_url = regexp_replace(split_part(audio_url, '?', 1), '^.*/([^/]+/[^/]+)$', '\1') WHERE audio_url LIKE '%/%/%';
+UPDATE plants SET first_photo_url = regexp_replace(split_part(first_photo_url, '?', 1), '^.*/([^/]+/[^/]+)$', '\1') WHERE first_photo_url LIKE '%/%/%';
+UPDATE plants SET latest_photo_url = regexp_replace(split_part(latest_photo_url, '?', 1), '^.*/([^/]+/[^/]+)$', '\1') WHERE latest_photo_url LIKE '%/%/%';
+UPDATE seeds SET photo_url = regexp_replace(split_part(photo_url, '?', 1), '^.*/([^/]+/[^/]+)$', '\1') WHERE photo_url LIKE '%/%/%';
+
+-- profile_history lives next to these tables when the database is hosted on Supabase
+DO $$
+BEGIN
+  IF to_regclass('public.profile_history') IS NOT NULL THEN
+    UPDATE profile_history SET photo_url = regexp_replace(split_part(photo_url, '?', 1), '^.*/([^/]+/[^/]+)$', '\1') WHERE photo_url LIKE '%/%/%';
+  END IF;
+END $$;
@@ -0,0 +1,291 @@
+import { storage, type AchievementStatsChange, type AchievementHistory } from './storage.js';
+import { notifyUser } from './push.js';
+import { localClock, addDays, DEFAULT_TIMEZONE } from './local-time.js';
+import {
+  achievementRuleSchema,
+  PLANT_CARE_STATS,
+  PLANT_CARE_TYPES,
+  type Achievement,
+  type AchievementRule,
+  type AchievementStats,
+  type InsertAchievementStats,
+  type JournalEntry,
+  type PlantCareType,
+  type TimeOfDay,
+  type UserAchievement,
+} from '../shared/schema.js';
+
+// Achievement engine
+// Domain events (a journal entry, a plant, a shared seed, plant care) update the user's counters in
+// achievement_stats with one UPDATE, then every achievement the user has not earned yet is
+// checked against those counters in memory. Rules are the JSON in achievements.condition
+// (AchievementRule in shared/schema.ts). Users without counters yet, such as accounts created
+// before the engine existed, get them rebuilt once from their journal, seeds and care log.
+
+export type AchievementEvent =
+  | { type: 'journal_entry_created'; entry: JournalEntry }
+  | { type: 'plant_created' }
+  | { type: 'seed_shared' }
+  | { type: 'plant_care_logged'; careType: PlantCareType };
+
+// Everything a rule can look at
+export interface AchievementFacts {
+  stats: AchievementStats;
+  points: number;
+  plantedAt: Date | null; // Of the active plant
+  now: Date;
+}
+
+export interface RuleProgress {
+  percent: number; // 0-100
+  detail: string | null; // e.g. "3/10 días", only for single conditions
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local hours where each period starts (night runs from 22:00 to 04:59)
+export function timeOfDay(minutes: number): TimeOfDay {
+  const hour = Math.floor(minutes / 60);
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 18) return 'afternoon';
+  if (hour >= 18 && hour < 22) return 'evening';
+  return 'night';
+}
+
+const TIME_OF_DAY_LABELS: Record<TimeOfDay, string> = {
+  morning: 'por la mañana',
+  afternoon: 'por la tarde',
+  evening: 'al anochecer',
+  night: 'por la noche',
+};
+
+const CARE_LABELS: Record<PlantCareType, string> = {
+  watered: ' riegos',
+  sunlight: ' veces al sol',
+  repotted: ' trasplantes',
+  pest_spotted: ' plagas vistas',
+  measured: ' mediciones',
+};
+
+export async function userTimeZone(userId: string): Promise<string> {
+  return (await storage.getNotificationPreferences(userId))?.timezone ?? DEFAULT_TIMEZONE;
+}
+
+/**
+ * Counters for a user who has none yet, from their existing journal entries, seeds and care log
+ */
+export function buildStats(userId: string, history: AchievementHistory, timeZone: string): InsertAchievementStats {
+  const stats = {
+    userId,
+    journalEntries: history.entries.length,
+    photoEntries: history.entries.filter(entry => entry.hasPhoto).length,
+    seedsShared: history.seedsShared,
+    emotionIds: Array.from(new Set(history.entries.flatMap(entry => entry.emotionId ? [entry.emotionId] : []))),
+    morningEntries: 0,
+    afternoonEntries: 0,
+    eveningEntries: 0,
+    nightEntries: 0,
+    currentStreak: 0,
+    longestStreak: 0,
+    lastEntryDate: null as string | null,
+    wateredEvents: 0,
+    sunlightEvents: 0,
+    repottedEvents: 0,
+    pestSpottedEvents: 0,
+    measuredEvents: 0,
+  };
+
+  for (const { type, count } of history.careEvents) {
+    if (PLANT_CARE_TYPES.includes(type as PlantCareType)) {
+      stats[PLANT_CARE_STATS[type as PlantCareType]] += count;
+    }
+  }
+
+  const dates = new Set<string>();
+  for (const entry of history.entries) {
+    if (!entry.createdAt) continue;
+    const { date, minutes } = localClock(entry.createdAt, timeZone);
+    stats[`${timeOfDay(minutes)}Entries`]++;
+    dates.add(date);
+  }
+
+  for (const date of Array.from(dates).sort()) {
+    stats.currentStreak = stats.lastEntryDate && addDays(stats.lastEntryDate, 1) === date ? stats.currentStreak + 1 : 1;
+    stats.longestStreak = Math.max(stats.longestStreak, stats.currentStreak);
+    stats.lastEntryDate = date;
+  }
+
+  return stats;
+}
+
+function statsChange(event: AchievementEvent, timeZone: string): AchievementStatsChange | null {
+  switch (event.type) {
+    case 'journal_entry_created': {
+      const { date, minutes } = localClock(event.entry.createdAt ?? new Date(), timeZone);
+      return {
+        kind: 'journalEntry',
+        emotionId: event.entry.emotionId,
+        hasPhoto: !!event.entry.photoUrl,
+        period: timeOfDay(minutes),
+        localDate: date,
+      };
+    }
+    case 'seed_shared':
+      return { kind: 'seedShared' };
+    case 'plant_care_logged':
+      return { kind: 'plantCare', careType: event.careType };
+    case 'plant_created':
+      return null; // Plant rules read the active plant directly
+  }
+}
+
+/**
+ * How far a user is towards a rule
+ * "all" is as far as its least advanced condition, "any" as its most advanced one.
+ */
+export function ruleProgress(rule: AchievementRule, facts: AchievementFacts, pointsRequired: number | null = null): RuleProgress {
+  const measure = (current: number, target: number, unit = ''): RuleProgress => ({
+    percent: Math.min(100, Math.floor((Math.max(0, current) / Math.max(1, target)) * 100)),
+    detail: `${Math.min(current, target)}/${target}${unit}`,
+  });
+  const { stats } = facts;
+
+  switch (rule.type) {
+    case 'plant_created':
+      return { percent: facts.plantedAt ? 100 : 0, detail: null };
+    case 'days_caring': {
+      const days = facts.plantedAt ? Math.floor((facts.now.getTime() - facts.plantedAt.getTime()) / DAY_MS) : 0;
+      return measure(days, rule.count, ' días');
+    }
+    case 'points':
+      return measure(facts.points, rule.threshold ?? pointsRequired ?? 0, ' pts');
+    case 'journal_entries':
+      return measure(stats.journalEntries, rule.count);
+    case 'photo_entries':
+      return measure(stats.photoEntries, rule.count, ' fotos');
+    case 'distinct_emotions':
+      return measure(stats.emotionIds.length, rule.count, ' emociones');
+    case 'seeds_shared':
+      return measure(stats.seedsShared, rule.count, ' semillas');
+    case 'time_of_day':
+      return measure(stats[`${rule.period}Entries`], rule.count, ` ${TIME_OF_DAY_LABELS[rule.period]}`);
+    case 'streak':
+      // The longest streak counts, so an achievement reached before a missed day is not lost
+      return measure(stats.longestStreak, rule.days, ' días seguidos');
+    case 'care_events': {
+      const careTypes: readonly PlantCareType[] = rule.careType ? [rule.careType] : PLANT_CARE_TYPES;
+      const total = careTypes.reduce((sum, careType) => sum + stats[PLANT_CARE_STATS[careType]], 0);
+      return measure(total, rule.count, rule.careType ? CARE_LABELS[rule.careType] : ' cuidados');
+    }
+    case 'all':
+    case 'any': {
+      const parts = rule.rules.map(part => ruleProgress(part, facts, pointsRequired).percent);
+      return { percent: rule.type === 'all' ? Math.min(...parts) : Math.max(...parts), detail: null };
+    }
+  }
+}
+
+/**
+ * Parse an achievement's rule (null when it is missing or malformed)
+ */
+export function parseRule(achievement: Pick<Achievement, 'id' | 'condition'>): AchievementRule | null {
+  if (!achievement.condition) {
+    return null;
+  }
+  try {
+    const result = achievementRuleSchema.safeParse(JSON.parse(achievement.condition));
+    if (result.success) {
+      return result.data;
+    }
+    console.error(`❌ [ACHIEVEMENTS] Invalid rule in achievement ${achievement.id}:`, result.error.errors[0]?.message);
+  } catch (error) {
+    console.error(`❌ [ACHIEVEMENTS] Unreadable rule in achievement ${achievement.id}:`, error);
+  }
+  return null;
+}
+
+/**
+ * A user's counters, rebuilt from their journal, seeds and care log the first time they are needed
+ */
+export async function ensureAchievementStats(userId: string): Promise<AchievementStats> {
+  const stats = await storage.getAchievementStats(userId);
+  if (stats) {
+    return stats;
+  }
+  const history = await storage.getAchievementHistory(userId);
+  return storage.saveAchievementStats(buildStats(userId, history, await userTimeZone(userId)));
+}
+
+/**
+ * Everything the rules of one user are checked against
+ */
+export async function getAchievementFacts(userId: string, stats?: AchievementStats): Promise<AchievementFacts | null> {
+  const [user, plant, currentStats] = await Promise.all([
+    storage.getUser(userId),
+    storage.getActivePlant(userId),
+    stats ? Promise.resolve(stats) : ensureAchievementStats(userId),
+  ]);
+  if (!user) {
+    return null;
+  }
+  return {
+    stats: currentStats,
+    points: user.points ?? 0,
+    plantedAt: plant?.plantedAt ? new Date(plant.plantedAt) : null,
+    now: new Date(),
+  };
+}
+
+/**
+ * Record a domain event and award every achievement it completes
+ * Call after the change is saved: users without counters get them rebuilt from the database,
+ * which then already includes this event.
+ * @returns The achievements awarded by this event
+ */
+export async function recordAchievementEvent(userId: string, event: AchievementEvent): Promise<UserAchievement[]> {
+  let stats = await storage.getAchievementStats(userId);
+  if (!stats) {
+    stats = await ensureAchievementStats(userId);
+  } else {
+    const change = statsChange(event, await userTimeZone(userId));
+    if (change) {
+      stats = (await storage.incrementAchievementStats(userId, change)) ?? stats;
+    }
+  }
+
+  const facts = await getAchievementFacts(userId, stats);
+  if (!facts) {
+    return [];
+  }
+
+  const [allAchievements, earned] = await Promise.all([
+    storage.getAllAchievements(),
+    storage.getUserAchievements(userId),
+  ]);
+  const earnedIds = new Set(earned.map(userAchievement => userAchievement.achievementId));
+
+  const newlyAwarded: UserAchievement[] = [];
+  for (const achievement of allAchievements) {
+    if (earnedIds.has(achievement.id)) continue;
+
+    const rule = parseRule(achievement);
+    if (!rule || ruleProgress(rule, facts, achievement.pointsRequired).percent < 100) continue;
+
+    const awarded = await storage.awardAchievement(userId, achievement.id);
+    if (!awarded) continue; // Awarded by a concurrent event
+
+    newlyAwarded.push(awarded);
+    if (achievement.pointsRequired && achievement.pointsRequired > 0) {
+      await storage.updateUserPoints(userId, achievement.pointsRequired);
+    }
+    console.log(`🏆 [ACHIEVEMENTS] User ${userId} earned "${achievement.name}" (${event.type})`);
+
+    await notifyUser(userId, {
+      type: 'achievement',
+      title: '🏆 ¡Nuevo logro desbloqueado!',
+      message: `Has conseguido "${achievement.name}" (+${achievement.pointsRequired ?? 0} puntos)`,
+    }).catch(error => console.error('❌ [ACHIEVEMENTS] Error sending achievement notification:', error));
+  }
+
+  return newlyAwarded;
+}
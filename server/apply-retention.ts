@@ -0,0 +1,18 @@
+/**
+ * Apply the data retention policy (see server/retention.ts for the rules and their settings)
+ * Ejecutar con: npm run retention:apply (schedule it daily, e.g. from cron)
+ * Add -- --dry-run to only print what would change
+ */
+import { applyRetention } from "./retention.js";
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const report = await applyRetention({ dryRun });
+  console.log(JSON.stringify(report, null, 2));
+  process.exit(report.failures.length > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('❌ Error applying retention policy:', error);
+  process.exit(1);
+});
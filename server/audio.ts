@@ -0,0 +1,104 @@
+import { spawn } from 'child_process';
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+
+// Audio pipeline for journal voice notes
+// Browsers record webm/opus (Chrome, Firefox) or mp4 (Safari), and Safari cannot play webm.
+// Every recording is converted to a mono MP3 that plays everywhere, with the silence before and
+// after the voice trimmed and the loudness normalised so quiet and loud notes sound alike.
+// FFMPEG_PATH: use a system ffmpeg instead of the bundled binary
+const ffmpegPath = process.env.FFMPEG_PATH || ffmpegInstaller.path;
+
+export const PROCESSED_AUDIO_MIMETYPE = 'audio/mpeg';
+
+// Number of bars in the waveform shown before the file is loaded
+const WAVEFORM_PEAKS = 48;
+
+// Processed audio is kept as mono 16-bit PCM between the filter and encoding steps
+const SAMPLE_RATE = 44100;
+const PCM_FORMAT = ['-f', 's16le', '-ac', '1', '-ar', String(SAMPLE_RATE)];
+
+// Shorter recordings are treated as empty (nothing left once the silence is trimmed)
+const MIN_DURATION_MS = 300;
+
+// Trim leading silence, then reverse to trim the trailing silence the same way
+const TRIM_SILENCE = 'silenceremove=start_periods=1:start_threshold=-45dB';
+const AUDIO_FILTERS = [TRIM_SILENCE, 'areverse', TRIM_SILENCE, 'areverse', 'loudnorm=I=-16:TP=-1.5:LRA=11'].join(',');
+
+export class AudioProcessingError extends Error {
+  constructor(message: string, public code: 'INVALID_AUDIO' | 'EMPTY_AUDIO') {
+    super(message);
+    this.name = 'AudioProcessingError';
+  }
+}
+
+export type ProcessedAudio = {
+  data: Buffer;
+  durationMs: number;
+  peaks: number[]; // 0-1, one per waveform bar
+};
+
+function runFfmpeg(inputArgs: string[], outputArgs: string[], input: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(ffmpegPath, ['-hide_banner', '-loglevel', 'error', ...inputArgs, '-i', 'pipe:0', ...outputArgs, 'pipe:1']);
+    const output: Buffer[] = [];
+    let errors = '';
+
+    ffmpeg.stdout.on('data', (chunk: Buffer) => output.push(chunk));
+    ffmpeg.stderr.on('data', (chunk: Buffer) => { errors += chunk.toString(); });
+    ffmpeg.on('error', reject);
+    ffmpeg.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(output));
+      } else {
+        reject(new AudioProcessingError(`ffmpeg exited with code ${code}: ${errors.trim()}`, 'INVALID_AUDIO'));
+      }
+    });
+
+    // ffmpeg may stop reading early on a broken file; the exit code reports it
+    ffmpeg.stdin.on('error', () => {});
+    ffmpeg.stdin.end(input);
+  });
+}
+
+/**
+ * Highest absolute amplitude per bar, scaled so the loudest bar is 1
+ * @param pcm - Mono signed 16-bit little-endian samples
+ */
+function computePeaks(pcm: Buffer, bars: number): number[] {
+  const sampleCount = Math.floor(pcm.length / 2);
+  const samplesPerBar = Math.max(1, Math.floor(sampleCount / bars));
+  const peaks: number[] = [];
+
+  for (let bar = 0; bar < bars && bar * samplesPerBar < sampleCount; bar++) {
+    let peak = 0;
+    const end = Math.min(sampleCount, (bar + 1) * samplesPerBar);
+    for (let sample = bar * samplesPerBar; sample < end; sample++) {
+      peak = Math.max(peak, Math.abs(pcm.readInt16LE(sample * 2)));
+    }
+    peaks.push(peak);
+  }
+
+  const loudest = Math.max(...peaks, 1);
+  return peaks.map(peak => Math.round((peak / loudest) * 100) / 100);
+}
+
+/**
+ * Convert a recording to a normalised MP3 and measure it for the player
+ * @param buffer - Uploaded recording in any format ffmpeg can read
+ * @throws AudioProcessingError when the file cannot be decoded or only contains silence
+ */
+export async function processAudio(buffer: Buffer): Promise<ProcessedAudio> {
+  const start = Date.now();
+  const pcm = await runFfmpeg([], ['-vn', '-af', AUDIO_FILTERS, ...PCM_FORMAT], buffer);
+
+  // Measured after filtering so duration and waveform match what is played
+  const durationMs = Math.round((pcm.length / 2 / SAMPLE_RATE) * 1000);
+  if (durationMs < MIN_DURATION_MS) {
+    throw new AudioProcessingError('Recording only contains silence', 'EMPTY_AUDIO');
+  }
+
+  const data = await runFfmpeg(PCM_FORMAT, ['-c:a', 'libmp3lame', '-b:a', '96k', '-f', 'mp3'], pcm);
+
+  console.log(`🎙️ [AUDIO] Processed recording: ${buffer.length} -> ${data.length} bytes, ${durationMs}ms (${Date.now() - start}ms)`);
+  return { data, durationMs, peaks: computePeaks(pcm, WAVEFORM_PEAKS) };
+}
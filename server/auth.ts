@@ -0,0 +1,333 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { User } from "../shared/schema.js";
+import { storage } from "./storage.js";
+import { sendMail, buildAppUrl } from "./mailer.js";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+// Session cookie configuration
+export const SESSION_COOKIE = 'semillita_session';
+const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7; // 7 days
+
+// Login lockout configuration (per account)
+const MAX_FAILED_LOGIN_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+
+// Password reset links expire quickly, invitations give the new facilitator a few days
+const PASSWORD_RESET_TTL_MINUTES = 60;
+const INVITATION_TTL_MINUTES = 60 * 24 * 3;
+
+// Public user shape returned by the API (never includes credential data)
+export type PublicUser = Omit<User, 'pinHash' | 'passwordHash' | 'sessionVersion' | 'failedLoginAttempts' | 'lockedUntil'>;
+
+interface SessionPayload {
+  uid: string; // User ID
+  sv: number; // Session version at issue time (bumped to revoke all sessions)
+  exp: number; // Expiry (unix seconds)
+}
+
+// Alias needed because passport declares its own Express.User interface
+type SessionUser = User;
+
+declare global {
+  namespace Express {
+    interface Request {
+      currentUser?: SessionUser;
+    }
+  }
+}
+
+// Lazily resolved signing secret (prevents initialization errors in serverless)
+let _sessionSecret: string | null = null;
+
+function getSessionSecret(): string {
+  if (!_sessionSecret) {
+    if (process.env.SESSION_SECRET) {
+      _sessionSecret = process.env.SESSION_SECRET;
+    } else if (process.env.NODE_ENV === 'production') {
+      throw new Error('SESSION_SECRET must be set in production');
+    } else {
+      console.warn('⚠️ SESSION_SECRET not configured. Using a random secret, sessions will not survive restarts.');
+      _sessionSecret = randomBytes(32).toString('hex');
+    }
+  }
+  return _sessionSecret;
+}
+
+/**
+ * Hash a PIN or password using scrypt with a random salt
+ * @param secret - Plain text secret
+ * @returns Encoded hash in the format scrypt:<salt>:<hash>
+ */
+export async function hashSecret(secret: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const derived = await scryptAsync(secret, salt, 64);
+  return `scrypt:${salt}:${derived.toString('hex')}`;
+}
+
+/**
+ * Verify a PIN or password against a stored scrypt hash
+ * @param secret - Plain text secret provided by the user
+ * @param storedHash - Hash previously produced by hashSecret
+ */
+export async function verifySecret(secret: string, storedHash: string | null | undefined): Promise<boolean> {
+  if (!storedHash) {
+    return false;
+  }
+
+  const [scheme, salt, hash] = storedHash.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const derived = await scryptAsync(secret, salt, expected.length);
+  return timingSafeEqual(expected, derived);
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getSessionSecret()).update(value).digest('base64url');
+}
+
+function encodeSession(payload: SessionPayload): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+function decodeSession(token: string): SessionPayload | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(body));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as SessionPayload;
+    if (!payload.uid || typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create a signed, expiring token for links sent by email (e.g. parental consent)
+ * @param purpose - What the token may be used for, checked when it is read back
+ * @param subjectId - Record the token refers to
+ * @param ttlSeconds - Lifetime of the token
+ */
+export function createSignedToken(purpose: string, subjectId: string, ttlSeconds: number): string {
+  const body = Buffer.from(JSON.stringify({
+    p: purpose,
+    sub: subjectId,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+  })).toString('base64url');
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * Verify a token created by createSignedToken
+ * @returns The subject id, or null if the token is invalid, expired or for another purpose
+ */
+export function verifySignedToken(purpose: string, token: string): string | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(body));
+  const provided = Buffer.from(signature);
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    if (payload.p !== purpose || typeof payload.sub !== 'string' || typeof payload.exp !== 'number' || payload.exp * 1000 < Date.now()) {
+      return null;
+    }
+    return payload.sub;
+  } catch {
+    return null;
+  }
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) {
+    return undefined;
+  }
+
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Issue a signed session cookie for the given user
+ */
+export function issueSession(res: Response, user: User): void {
+  const token = encodeSession({
+    uid: user.id,
+    sv: user.sessionVersion ?? 0,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE_SECONDS,
+  });
+
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: SESSION_MAX_AGE_SECONDS * 1000,
+    path: '/',
+  });
+}
+
+/**
+ * Clear the session cookie
+ */
+export function clearSession(res: Response): void {
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+}
+
+/**
+ * Resolve the user behind the session cookie of a request
+ * @returns The user, or undefined if there is no valid session
+ */
+export async function resolveSessionUser(req: Request): Promise<User | undefined> {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (!token) {
+    return undefined;
+  }
+
+  const payload = decodeSession(token);
+  if (!payload) {
+    return undefined;
+  }
+
+  const user = await storage.getUser(payload.uid);
+  if (!user || (user.sessionVersion ?? 0) !== payload.sv) {
+    return undefined;
+  }
+
+  return user;
+}
+
+/**
+ * Strip credential fields before sending a user to the client
+ */
+export function toPublicUser(user: User): PublicUser;
+export function toPublicUser(user: User | undefined): PublicUser | undefined;
+export function toPublicUser(user: User | undefined): PublicUser | undefined {
+  if (!user) {
+    return undefined;
+  }
+  const { pinHash, passwordHash, sessionVersion, failedLoginAttempts, lockedUntil, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Check whether an account is temporarily locked after too many failed logins
+ */
+export function isLockedOut(user: User): boolean {
+  return !!user.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now();
+}
+
+/**
+ * Record a failed login attempt, locking the account when the limit is reached
+ */
+export async function registerFailedLogin(user: User): Promise<void> {
+  const attempts = (user.failedLoginAttempts ?? 0) + 1;
+  const lockedUntil = attempts >= MAX_FAILED_LOGIN_ATTEMPTS
+    ? new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000)
+    : null;
+
+  await storage.updateUserLoginState(user.id, {
+    failedLoginAttempts: lockedUntil ? 0 : attempts,
+    lockedUntil,
+  });
+
+  if (lockedUntil) {
+    console.warn(`🔒 [AUTH] Account ${user.id} locked until ${lockedUntil.toISOString()} after ${attempts} failed attempts`);
+  }
+}
+
+/**
+ * Hash a one-time token for storage (tokens are random, so a plain SHA-256 is enough)
+ */
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Email a single-use link to set a new password
+ * @param user - Facilitator account (must have an email)
+ * @param options.invitation - Welcome wording and a longer expiry for newly invited facilitators
+ */
+export async function sendPasswordSetupEmail(
+  user: User,
+  options: { invitation?: boolean } = {}
+): Promise<void> {
+  if (!user.email) {
+    throw new Error(`User ${user.id} has no email address`);
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const ttlMinutes = options.invitation ? INVITATION_TTL_MINUTES : PASSWORD_RESET_TTL_MINUTES;
+  await storage.createPasswordResetToken(user.id, hashToken(token), new Date(Date.now() + ttlMinutes * 60 * 1000));
+
+  const link = buildAppUrl(`/reset-password?token=${token}`);
+  const subject = options.invitation
+    ? 'Te damos la bienvenida a Semillita'
+    : 'Restablece tu contraseña de Semillita';
+  const intro = options.invitation
+    ? `Hola ${user.alias}, se creó tu cuenta de ${user.role === 'caregiver' ? 'adulto responsable' : 'facilitador'} en Semillita. Elige tu contraseña en este enlace:`
+    : `Hola ${user.alias}, recibimos una solicitud para restablecer tu contraseña. Puedes elegir una nueva en este enlace:`;
+  const expiry = options.invitation ? 'El enlace vence en 3 días.' : 'El enlace vence en 1 hora.';
+
+  await sendMail({
+    to: user.email,
+    subject,
+    text: `${intro}\n\n${link}\n\n${expiry} Si no esperabas este correo, puedes ignorarlo.`,
+  });
+}
+
+// Authentication middleware - resolves the caller from the session cookie
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = await resolveSessionUser(req);
+    if (!user) {
+      return res.status(401).json({
+        message: 'Debes iniciar sesión',
+        code: 'UNAUTHENTICATED'
+      });
+    }
+
+    req.currentUser = user;
+    next();
+  } catch (error) {
+    console.error('Error resolving session:', error);
+    return res.status(500).json({ message: 'Server error' });
+  }
+}
+
+// Audit middleware - records which facilitator performed each action (must run after requireAuth)
+export function auditFacilitatorAction(req: Request, res: Response, next: NextFunction) {
+  const caller = req.currentUser;
+  if (caller) {
+    console.log(`👤 [AUDIT] ${caller.role} ${caller.id} (${caller.email ?? caller.alias}) ${req.method} ${req.originalUrl}`);
+  }
+  next();
+}
@@ -0,0 +1,338 @@
+import { mkdir, readFile, writeFile, unlink, readdir, stat } from 'fs/promises';
+import path from 'path';
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectsCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createSupabaseBlobStore } from './supabase.js';
+import { createSignedToken, verifySignedToken } from './auth.js';
+
+// Storage configuration
+// STORAGE_BACKEND: "supabase" | "local" | "s3" (defaults to supabase when SUPABASE_URL and
+// SUPABASE_SERVICE_ROLE_KEY are set, local otherwise)
+// local: files are written under LOCAL_STORAGE_DIR and served by the /uploads route, so a
+// workshop running offline on a laptop keeps its media across restarts
+// s3: any S3-compatible service (AWS, MinIO, R2...) configured with S3_BUCKET, S3_REGION,
+// S3_ENDPOINT, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY
+// MEDIA_URL_TTL_SECONDS: lifetime of the signed URLs handed out by /api/media (default 300)
+const localDir = process.env.LOCAL_STORAGE_DIR || '.uploads';
+const s3Bucket = process.env.S3_BUCKET || '';
+export const MEDIA_URL_TTL_SECONDS = parseInt(process.env.MEDIA_URL_TTL_SECONDS || '', 10) || 300;
+
+// Every file lives at <userId>/<filename> whatever the backend. The database stores that key,
+// never a URL: children's photos and recordings are private and only reachable through
+// short-lived signed URLs issued by /api/media after an authorization check.
+export interface StoredBlob {
+  path: string;
+  size: number | null; // Bytes, null when the backend does not report it
+}
+
+export interface BlobStore {
+  name: string;
+  label: string; // Bucket or directory, shown in the storage stats
+  put(path: string, data: Buffer, contentType: string): Promise<void>;
+  get(path: string): Promise<Buffer | undefined>;
+  delete(paths: string[]): Promise<void>;
+  list(prefix?: string): Promise<StoredBlob[]>;
+  signedUrl(path: string, expiresInSeconds: number): Promise<string>; // Temporary read URL
+}
+
+// Signed URL of a file served by the /uploads route (checked by verifyUploadsToken)
+function signedUploadsUrl(blobPath: string, expiresInSeconds: number): string {
+  return `/uploads/${blobPath}?token=${createSignedToken('media', blobPath, expiresInSeconds)}`;
+}
+
+/**
+ * Check the token of an /uploads request against the requested file
+ */
+export function verifyUploadsToken(blobPath: string, token: unknown): boolean {
+  return typeof token === 'string' && verifySignedToken('media', token) === blobPath;
+}
+
+// Keep paths inside the storage directory
+function resolveLocalPath(blobPath: string): string {
+  const root = path.resolve(localDir);
+  const resolved = path.resolve(root, blobPath);
+  if (!resolved.startsWith(root + path.sep)) {
+    throw new Error(`Invalid storage path: ${blobPath}`);
+  }
+  return resolved;
+}
+
+function createLocalBlobStore(): BlobStore {
+  return {
+    name: 'local',
+    label: path.resolve(localDir),
+
+    async put(blobPath, data) {
+      const filePath = resolveLocalPath(blobPath);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+      console.log(`✅ File saved to ${filePath}`);
+    },
+
+    async get(blobPath) {
+      try {
+        return await readFile(resolveLocalPath(blobPath));
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+
+    async delete(paths) {
+      for (const blobPath of paths) {
+        await unlink(resolveLocalPath(blobPath)).catch((error) => {
+          if (error?.code !== 'ENOENT') {
+            throw error;
+          }
+        });
+      }
+    },
+
+    async list(prefix = '') {
+      const root = path.resolve(localDir);
+
+      async function walk(dir: string): Promise<StoredBlob[]> {
+        const entries = await readdir(dir, { withFileTypes: true }).catch(() => []);
+        let files: StoredBlob[] = [];
+        for (const entry of entries) {
+          const fullPath = path.join(dir, entry.name);
+          if (entry.isDirectory()) {
+            files = files.concat(await walk(fullPath));
+          } else {
+            const { size } = await stat(fullPath);
+            files.push({ path: path.relative(root, fullPath).split(path.sep).join('/'), size });
+          }
+        }
+        return files;
+      }
+
+      return await walk(prefix ? resolveLocalPath(prefix.replace(/\/$/, '')) : root);
+    },
+
+    async signedUrl(blobPath, expiresInSeconds) {
+      resolveLocalPath(blobPath); // Never sign a path outside the storage directory
+      return signedUploadsUrl(blobPath, expiresInSeconds);
+    },
+  };
+}
+
+function createS3BlobStore(): BlobStore {
+  if (!s3Bucket) {
+    throw new Error('STORAGE_BACKEND=s3 requires S3_BUCKET');
+  }
+
+  const client = new S3Client({
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    // MinIO and most self-hosted services only support path-style URLs
+    forcePathStyle: !!process.env.S3_ENDPOINT,
+    credentials: process.env.S3_ACCESS_KEY_ID
+      ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '' }
+      : undefined,
+  });
+
+  return {
+    name: 's3',
+    label: s3Bucket,
+
+    async put(blobPath, data, contentType) {
+      await client.send(new PutObjectCommand({ Bucket: s3Bucket, Key: blobPath, Body: data, ContentType: contentType }));
+      console.log(`✅ File uploaded to S3: ${blobPath}`);
+    },
+
+    async get(blobPath) {
+      try {
+        const { Body } = await client.send(new GetObjectCommand({ Bucket: s3Bucket, Key: blobPath }));
+        return Body ? Buffer.from(await Body.transformToByteArray()) : undefined;
+      } catch (error: any) {
+        if (error?.name === 'NoSuchKey') {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+
+    async delete(paths) {
+      if (paths.length === 0) {
+        return;
+      }
+      await client.send(new DeleteObjectsCommand({
+        Bucket: s3Bucket,
+        Delete: { Objects: paths.map(Key => ({ Key })) },
+      }));
+    },
+
+    async list(prefix = '') {
+      const files: StoredBlob[] = [];
+      let continuationToken: string | undefined;
+      do {
+        const page = await client.send(new ListObjectsV2Command({
+          Bucket: s3Bucket,
+          Prefix: prefix || undefined,
+          ContinuationToken: continuationToken,
+        }));
+        for (const object of page.Contents ?? []) {
+          if (object.Key) {
+            files.push({ path: object.Key, size: object.Size ?? null });
+          }
+        }
+        continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (continuationToken);
+      return files;
+    },
+
+    async signedUrl(blobPath, expiresInSeconds) {
+      return await getSignedUrl(client, new GetObjectCommand({ Bucket: s3Bucket, Key: blobPath }), { expiresIn: expiresInSeconds });
+    },
+  };
+}
+
+// Lazy-initialized store (prevents initialization errors in serverless)
+let _store: BlobStore | null = null;
+
+export function getBlobStore(): BlobStore {
+  if (!_store) {
+    const supabaseConfigured = !!process.env.SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY;
+    const configured = process.env.STORAGE_BACKEND || (supabaseConfigured ? 'supabase' : 'local');
+    switch (configured) {
+      case 'supabase':
+        _store = createSupabaseBlobStore();
+        break;
+      case 'local':
+        _store = createLocalBlobStore();
+        break;
+      case 's3':
+        _store = createS3BlobStore();
+        break;
+      default:
+        throw new Error(`Unknown STORAGE_BACKEND: ${configured}`);
+    }
+    console.log(`📦 [STORAGE] Using the ${_store.name} blob store (${_store.label})`);
+  }
+  return _store;
+}
+
+/**
+ * Replace the blob store (e.g. to point a script at another backend)
+ */
+export function setBlobStore(store: BlobStore): void {
+  _store = store;
+}
+
+/**
+ * Storage key (<userId>/<filename>) of a value saved in the database
+ * Also accepts the public URLs stored before media became private.
+ */
+export function mediaKey(value: string): string {
+  // Format: userId/file, https://.../storage/v1/object/public/bucket-name/userId/file, /uploads/userId/file...
+  return value.split('?')[0].split('/').slice(-2).join('/');
+}
+
+/**
+ * Short-lived URL to read a stored file (only hand it out after checking the caller may see it)
+ */
+export async function signMediaUrl(key: string): Promise<string> {
+  return await getBlobStore().signedUrl(mediaKey(key), MEDIA_URL_TTL_SECONDS);
+}
+
+/**
+ * Read a stored file by the key saved in the database
+ */
+export async function readBlob(key: string): Promise<Buffer | undefined> {
+  return await getBlobStore().get(mediaKey(key));
+}
+
+/**
+ * Delete a stored file by the key saved in the database
+ */
+export async function deleteBlob(key: string): Promise<void> {
+  await getBlobStore().delete([mediaKey(key)]);
+}
+
+/**
+ * Delete all files for a user
+ * @param userId - User ID whose files should be deleted
+ * @returns Number of files deleted
+ */
+export async function deleteUserFiles(userId: string): Promise<number> {
+  const store = getBlobStore();
+  console.log(`🗑️ [Delete User Files] Starting deletion for user: ${userId}`);
+
+  const files = await store.list(`${userId}/`);
+  if (files.length === 0) {
+    console.log(`✅ [Delete User Files] No files found for user ${userId}`);
+    return 0;
+  }
+
+  await store.delete(files.map(file => file.path));
+  console.log(`✅ [Delete User Files] Successfully deleted ${files.length} files for user ${userId}`);
+  return files.length;
+}
+
+// Used when the backend does not report sizes
+const AVERAGE_FILE_SIZE_BYTES = 0.5 * 1024 * 1024;
+
+function toMB(bytes: number): number {
+  return Math.round((bytes / (1024 * 1024)) * 100) / 100;
+}
+
+/**
+ * Get storage usage statistics
+ * @returns Total size and number of files (sizes are estimated when the backend does not report them)
+ */
+export async function getStorageStats(): Promise<{
+  totalSizeBytes: number;
+  totalSizeMB: number;
+  fileCount: number;
+  bucketName: string;
+}> {
+  const store = getBlobStore();
+  try {
+    console.log(`📊 [Storage Stats] Counting files in ${store.name} store...`);
+    const files = await store.list();
+    const totalSizeBytes = files.reduce((total, file) => total + (file.size ?? AVERAGE_FILE_SIZE_BYTES), 0);
+    console.log(`✅ [Storage Stats] Total files found: ${files.length}`);
+    return { totalSizeBytes, totalSizeMB: toMB(totalSizeBytes), fileCount: files.length, bucketName: store.label };
+  } catch (error) {
+    console.error('❌ [Storage Stats] Count files failed:', error);
+    return { totalSizeBytes: 0, totalSizeMB: 0, fileCount: 0, bucketName: store.label };
+  }
+}
+
+/**
+ * Get storage statistics per user
+ * @returns Map of userId to their storage stats
+ */
+export async function getStorageStatsByUser(): Promise<Map<string, {
+  fileCount: number;
+  estimatedSizeMB: number;
+}>> {
+  const userStats = new Map<string, { fileCount: number; estimatedSizeMB: number }>();
+  try {
+    console.log(`📊 [Storage Stats] Calculating storage per user...`);
+    const bytesByUser = new Map<string, { fileCount: number; bytes: number }>();
+
+    // Path format: userId/timestamp_id.ext
+    for (const file of await getBlobStore().list()) {
+      const [userId, filename] = file.path.split('/');
+      if (!filename) {
+        continue;
+      }
+      const stats = bytesByUser.get(userId) ?? { fileCount: 0, bytes: 0 };
+      stats.fileCount++;
+      stats.bytes += file.size ?? AVERAGE_FILE_SIZE_BYTES;
+      bytesByUser.set(userId, stats);
+    }
+
+    for (const [userId, stats] of Array.from(bytesByUser.entries())) {
+      userStats.set(userId, { fileCount: stats.fileCount, estimatedSizeMB: toMB(stats.bytes) });
+    }
+
+    console.log(`✅ [Storage Stats] Calculated storage for ${userStats.size} users`);
+  } catch (error) {
+    console.error('❌ [Storage Stats] Error getting storage by user:', error);
+  }
+  return userStats;
+}
@@ -0,0 +1,173 @@
+import type { Request } from "express";
+import type { ConsentRequest, User } from "../shared/schema.js";
+import { storage } from "./storage.js";
+import { sendMail, buildAppUrl } from "./mailer.js";
+import { createSignedToken, verifySignedToken } from "./auth.js";
+import { isStaffRole } from "./policy.js";
+
+// Terms version used until one is published in terms_versions (seeded by add_consent_ledger.sql)
+const FALLBACK_TERMS = {
+  version: '2025-10',
+  summary: 'Semillita guarda un apodo, la edad, las entradas del diario emocional y fotos opcionales. No pedimos el nombre real ni mostramos la información a otros usuarios.',
+};
+
+// Whether a child's parental consent covers the terms in force
+export type ConsentState = 'current' | 'missing' | 'outdated';
+
+// Consent links expire after a week; the revocation link in the confirmation email lasts a year
+const CONSENT_REQUEST_TTL_DAYS = 7;
+const REVOCATION_LINK_TTL_DAYS = 365;
+
+// Signed token purposes
+const CONSENT_TOKEN_PURPOSE = 'consent';
+const REVOKE_TOKEN_PURPOSE = 'consent-revoke';
+
+/**
+ * Terms version in force (the latest published one)
+ */
+export async function getCurrentTerms(): Promise<{ version: string; summary: string }> {
+  const terms = await storage.getCurrentTermsVersion();
+  return terms ? { version: terms.version, summary: terms.summary } : FALLBACK_TERMS;
+}
+
+/**
+ * Check a child's consent against the terms in force
+ * Publishing a new terms version makes every earlier consent outdated until the parent re-confirms
+ */
+export async function getConsentState(user: User): Promise<ConsentState> {
+  if (!user.consentVerified) {
+    return 'missing';
+  }
+  const { version } = await getCurrentTerms();
+  return user.consentTermsVersion === version ? 'current' : 'outdated';
+}
+
+// Who triggered a consent action from the current request (the child during sign-up)
+function describeActor(child: User, req?: Request) {
+  const caller = req?.currentUser;
+  if (caller && caller.id !== child.id && isStaffRole(caller.role)) {
+    return { actorType: 'staff', actorId: caller.id, actorName: caller.alias };
+  }
+  return { actorType: 'child', actorId: child.id, actorName: child.alias };
+}
+
+/**
+ * Record in the consent ledger that the child accepted the terms at sign-up
+ */
+export async function recordTermsAcknowledgment(child: User, req?: Request): Promise<void> {
+  const { version } = await getCurrentTerms();
+  await storage.appendConsentEvent({
+    userId: child.id,
+    type: 'acknowledged',
+    termsVersion: version,
+    ...describeActor(child, req),
+    ipAddress: req?.ip ?? null,
+    userAgent: req?.get('user-agent') ?? null,
+  });
+}
+
+/**
+ * Create a consent request for a child and email the signed link to the parent
+ * Any pending request for the same child is superseded, so only the newest link works
+ * @param child - Child account that needs consent
+ * @param parentEmail - Address of the responsible adult
+ * @param req - Current request, recorded as the consent event's origin
+ */
+export async function requestParentalConsent(child: User, parentEmail: string, req?: Request): Promise<ConsentRequest> {
+  await storage.supersedePendingConsentRequests(child.id);
+
+  const terms = await getCurrentTerms();
+  const isReconsent = !!child.consentTermsVersion && child.consentTermsVersion !== terms.version;
+  const request = await storage.createConsentRequest({
+    userId: child.id,
+    parentEmail: parentEmail.trim().toLowerCase(),
+    termsVersion: terms.version,
+    expiresAt: new Date(Date.now() + CONSENT_REQUEST_TTL_DAYS * 24 * 60 * 60 * 1000),
+  });
+
+  await storage.appendConsentEvent({
+    userId: child.id,
+    type: 'requested',
+    termsVersion: terms.version,
+    ...describeActor(child, req),
+    consentRequestId: request.id,
+    ipAddress: req?.ip ?? null,
+    userAgent: req?.get('user-agent') ?? null,
+    details: isReconsent ? `Nuevos términos (antes ${child.consentTermsVersion})` : null,
+  });
+
+  const token = createSignedToken(CONSENT_TOKEN_PURPOSE, request.id, CONSENT_REQUEST_TTL_DAYS * 24 * 60 * 60);
+  const link = buildAppUrl(`/consent?token=${token}`);
+
+  await sendMail({
+    to: request.parentEmail,
+    subject: isReconsent ? `Actualizamos los términos de Semillita` : `${child.alias} quiere usar Semillita`,
+    text: [
+      `Hola,`,
+      ``,
+      ...(isReconsent
+        ? [
+            `Actualizamos los términos de uso de Semillita. Para que ${child.alias} pueda seguir usando la aplicación,`,
+            `necesitamos que confirmes nuevamente tu autorización.`,
+          ]
+        : [
+            `${child.alias} creó un perfil en Semillita, una aplicación para registrar emociones y el crecimiento de una planta.`,
+            `Como es menor de edad, necesitamos que un adulto responsable autorice su uso.`,
+          ]),
+      ``,
+      `Revisa los términos y responde en este enlace:`,
+      link,
+      ``,
+      `El enlace vence en ${CONSENT_REQUEST_TTL_DAYS} días. Si no conoces a ${child.alias}, puedes ignorar este correo.`,
+    ].join('\n'),
+  });
+
+  console.log(`📨 [CONSENT] Request ${request.id} sent for child ${child.id}`);
+  return request;
+}
+
+/**
+ * Email the parent a confirmation with a link to revoke consent later
+ */
+export async function sendConsentConfirmation(request: ConsentRequest, child: User): Promise<void> {
+  const token = createSignedToken(REVOKE_TOKEN_PURPOSE, request.id, REVOCATION_LINK_TTL_DAYS * 24 * 60 * 60);
+  const link = buildAppUrl(`/consent/revoke?token=${token}`);
+
+  await sendMail({
+    to: request.parentEmail,
+    subject: `Autorizaste a ${child.alias} en Semillita`,
+    text: [
+      `Gracias por autorizar a ${child.alias} a usar Semillita (términos versión ${request.termsVersion}).`,
+      ``,
+      `Si cambias de opinión, puedes retirar la autorización en cualquier momento en este enlace:`,
+      link,
+    ].join('\n'),
+  });
+}
+
+/**
+ * Resolve a consent link token to its request
+ */
+export async function getConsentRequestFromToken(token: string): Promise<ConsentRequest | undefined> {
+  const requestId = verifySignedToken(CONSENT_TOKEN_PURPOSE, token);
+  return requestId ? await storage.getConsentRequest(requestId) : undefined;
+}
+
+/**
+ * Resolve a revocation link token to its request
+ */
+export async function getConsentRequestFromRevokeToken(token: string): Promise<ConsentRequest | undefined> {
+  const requestId = verifySignedToken(REVOKE_TOKEN_PURPOSE, token);
+  return requestId ? await storage.getConsentRequest(requestId) : undefined;
+}
+
+/**
+ * Mask an email address for display to the child (a***@example.com)
+ */
+export function maskEmail(email: string): string {
+  const [local, domain] = email.split('@');
+  if (!domain) {
+    return '***';
+  }
+  return `${local.charAt(0)}***@${domain}`;
+}
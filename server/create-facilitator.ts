@@ -0,0 +1,41 @@
+/**
+ * Create a facilitator account from the command line (used to bootstrap the first facilitator,
+ * later ones can be invited from the facilitator dashboard)
+ * Ejecutar con: npm run facilitator:create -- <email> <alias>
+ * The new facilitator receives an email with a link to choose their password
+ */
+import { insertFacilitatorSchema } from "../shared/schema.js";
+import { storage } from "./storage.js";
+import { sendPasswordSetupEmail } from "./auth.js";
+
+async function main() {
+  const [email, ...aliasParts] = process.argv.slice(2);
+  const parsed = insertFacilitatorSchema.safeParse({ email, alias: aliasParts.join(' ') });
+
+  if (!parsed.success) {
+    console.error('Uso: npm run facilitator:create -- <email> <alias>');
+    console.error(`❌ ${parsed.error.errors[0].message}`);
+    process.exit(1);
+  }
+
+  const existing = await storage.getUserByEmail(parsed.data.email);
+  if (existing) {
+    if (existing.role !== 'facilitator') {
+      console.error(`❌ ${parsed.data.email} belongs to a non-facilitator account`);
+      process.exit(1);
+    }
+    console.log(`ℹ️ Facilitator ${existing.id} already exists, sending a new password link`);
+    await sendPasswordSetupEmail(existing);
+    process.exit(0);
+  }
+
+  const facilitator = await storage.createFacilitator(parsed.data);
+  await sendPasswordSetupEmail(facilitator, { invitation: true });
+  console.log(`✅ Facilitator ${facilitator.id} created for ${facilitator.email}`);
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('❌ Error creating facilitator:', error);
+  process.exit(1);
+});
@@ -0,0 +1,219 @@
+import archiver from 'archiver';
+import type { Writable } from 'stream';
+import type { User } from '../shared/schema.js';
+import { storage } from './storage.js';
+import { getProfileHistory } from './supabase.js';
+import { toPublicUser } from './auth.js';
+import { readBlob } from './blob-store.js';
+
+// Data export for access requests (GDPR / COPPA)
+// One ZIP per child with every record we keep about them as JSON, a readable copy of the
+// diary and the photos and audio they uploaded under files/
+
+// Upper bound for tables that are paginated elsewhere (notifications, profile history)
+const EXPORT_ROW_LIMIT = 10000;
+
+/**
+ * Name of the ZIP file offered to the browser
+ */
+export function exportFilename(user: User): string {
+  const alias = user.alias.normalize('NFD').replace(/[^a-zA-Z0-9_-]+/g, '').toLowerCase() || 'perfil';
+  return `semillita-${alias}-${new Date().toISOString().slice(0, 10)}.zip`;
+}
+
+function formatDate(date: Date | string | null): string {
+  return date ? new Date(date).toLocaleString('es', { dateStyle: 'long', timeStyle: 'short' }) : 'sin fecha';
+}
+
+/**
+ * Write a child's full data export as a ZIP to the output stream
+ * All records are loaded before the first byte is written so database errors can still be
+ * answered with a regular error response; missing files are listed in the README instead.
+ * @param user - Child whose data is exported
+ * @param output - Destination stream (the HTTP response)
+ * @param options.includePrivate - Include the entries marked "solo para mí" (off for caregivers)
+ */
+export async function writeUserExport(
+  user: User,
+  output: Writable,
+  options: { includePrivate: boolean }
+): Promise<void> {
+  const [plantHistory, plantCare, journal, seeds, userAchievements, allAchievements, rewards, notifications, profileHistory, consentEvents] = await Promise.all([
+    storage.getUserPlants(user.id),
+    storage.getUserPlantCareEvents(user.id),
+    storage.getJournalEntriesWithEmotions(user.id),
+    storage.getUserSeeds(user.id),
+    storage.getUserAchievements(user.id),
+    storage.getAllAchievements(),
+    storage.getUserRewards(user.id),
+    storage.getUserNotifications(user.id, EXPORT_ROW_LIMIT),
+    getProfileHistory(user.id, EXPORT_ROW_LIMIT),
+    storage.getConsentEvents(user.id),
+  ]);
+
+  // Each uploaded file goes into the archive once, named after its storage path
+  const filePaths = new Map<string, string>();
+  const fileFor = (url: string | null | undefined, folder: string): string | null => {
+    if (!url) {
+      return null;
+    }
+    if (!filePaths.has(url)) {
+      const name = url.split('?')[0].split('/').pop() || `archivo-${filePaths.size + 1}`;
+      filePaths.set(url, `files/${folder}/${name}`);
+    }
+    return filePaths.get(url)!;
+  };
+
+  const achievementsById = new Map(allAchievements.map(achievement => [achievement.id, achievement]));
+
+  // Without private entries, their photos and recordings are left out wherever they appear
+  const entries = options.includePrivate ? journal : journal.filter(entry => !entry.isPrivate);
+  const privateKeys = new Set(options.includePrivate ? [] : journal
+    .filter(entry => entry.isPrivate)
+    .flatMap(entry => [entry.photoUrl, entry.audioUrl])
+    .filter((key): key is string => !!key));
+  const shared = (url: string | null | undefined) => (url && privateKeys.has(url) ? null : url);
+
+  const plantsData = plantHistory.map(plant => ({
+    ...plant,
+    firstPhotoUrl: shared(plant.firstPhotoUrl),
+    latestPhotoUrl: shared(plant.latestPhotoUrl),
+    firstPhotoFile: fileFor(shared(plant.firstPhotoUrl), 'plants'),
+    latestPhotoFile: fileFor(shared(plant.latestPhotoUrl), 'plants'),
+  }));
+
+  // Oldest first so the diary reads in order
+  const journalData = [...entries].reverse().map(entry => ({
+    id: entry.id,
+    createdAt: entry.createdAt,
+    emotion: entry.emotion?.name ?? null,
+    emotionEmoji: entry.emotion?.emoji ?? null,
+    text: entry.textEntry,
+    isPrivate: entry.isPrivate,
+    pointsEarned: entry.pointsEarned,
+    plantId: entry.plantId,
+    photoFile: fileFor(entry.photoUrl, 'journal'),
+    audioFile: fileFor(entry.audioUrl, 'journal'),
+    audioDurationMs: entry.audioDurationMs,
+  }));
+
+  const seedsData = seeds.map(seed => ({ ...seed, photoFile: fileFor(seed.photoUrl, 'seeds') }));
+
+  const achievementsData = userAchievements.map(userAchievement => {
+    const achievement = achievementsById.get(userAchievement.achievementId);
+    return {
+      earnedAt: userAchievement.earnedAt,
+      name: achievement?.name ?? null,
+      description: achievement?.description ?? null,
+    };
+  });
+
+  const rewardsData = rewards.map(({ reward, ...userReward }) => ({
+    purchasedAt: userReward.purchasedAt,
+    name: reward.name,
+    description: reward.description,
+    pointsCost: reward.pointsCost,
+  }));
+
+  const profileHistoryData = profileHistory.filter(record => !privateKeys.has(record.photo_url)).map(record => ({
+    ...record,
+    file: fileFor(record.photo_url, 'history'),
+  }));
+
+  const diary = journalData.map(entry => [
+    `${formatDate(entry.createdAt)}${entry.isPrivate ? ' (solo para mí)' : ''}`,
+    entry.emotion ? `${entry.emotionEmoji ?? ''} ${entry.emotion}`.trim() : null,
+    entry.text,
+    entry.photoFile ? `Foto: ${entry.photoFile}` : null,
+    entry.audioFile ? `Audio: ${entry.audioFile}` : null,
+  ].filter(Boolean).join('\n')).join('\n\n---\n\n');
+
+  const archive = archiver('zip', { zlib: { level: 9 } });
+  archive.on('warning', (warning) => console.warn('⚠️ [EXPORT] Archive warning:', warning));
+  archive.on('error', (error) => {
+    console.error('❌ [EXPORT] Archive error:', error);
+    output.destroy(error);
+  });
+  // Stop reading files once the browser goes away mid-download
+  let aborted = false;
+  output.on('close', () => {
+    if (!output.writableFinished) {
+      aborted = true;
+      archive.abort();
+    }
+  });
+  archive.pipe(output);
+
+  const appendJson = (name: string, data: unknown) => {
+    archive.append(JSON.stringify(data, null, 2), { name });
+  };
+
+  appendJson('user.json', toPublicUser(user));
+  appendJson('plants.json', plantsData);
+  appendJson('plant-care.json', plantCare);
+  appendJson('journal-entries.json', journalData);
+  appendJson('seeds.json', seedsData);
+  appendJson('achievements.json', achievementsData);
+  appendJson('rewards.json', rewardsData);
+  appendJson('notifications.json', notifications);
+  appendJson('profile-history.json', profileHistoryData);
+  appendJson('consent-history.json', consentEvents);
+  archive.append(diary || 'Todavía no hay entradas en el diario.', { name: 'diario.txt' });
+
+  // Files are fetched one at a time to keep memory flat for children with many photos
+  const missingFiles: string[] = [];
+  for (const [url, name] of Array.from(filePaths.entries())) {
+    if (aborted) {
+      console.log(`📦 [EXPORT] Export for ${user.id} aborted: the download was closed`);
+      return;
+    }
+    try {
+      const file = await readBlob(url);
+      if (file) {
+        archive.append(file, { name });
+        continue;
+      }
+    } catch (error) {
+      console.error(`⚠️ [EXPORT] Could not read ${url}:`, error);
+    }
+    missingFiles.push(name);
+  }
+
+  archive.append([
+    `Datos de ${user.alias} en Semillita`,
+    `Generado el ${formatDate(new Date())}`,
+    '',
+    'diario.txt                 El diario emocional para leer o imprimir',
+    'journal-entries.json       Las entradas del diario con su emoción',
+    'plants.json                Todas las plantas y sus fotos',
+    'plant-care.json            Los cuidados anotados de cada planta',
+    'seeds.json                 Las semillas guardadas',
+    'achievements.json          Los logros obtenidos',
+    'rewards.json               Las recompensas canjeadas',
+    'notifications.json         Los avisos recibidos',
+    'profile-history.json       El historial de fotos subidas',
+    'consent-history.json       Las autorizaciones del adulto responsable',
+    'user.json                  Los datos del perfil',
+    'files/                     Las fotos y audios originales',
+    '',
+    ...(options.includePrivate
+      ? [
+          'Las entradas marcadas "solo para mí" son privadas del niño o niña: se incluyen porque',
+          'forman parte de los datos que guardamos sobre su perfil.',
+        ]
+      : [
+          'Las entradas marcadas "solo para mí" son privadas del niño o niña y no se incluyen,',
+          'tampoco sus fotos ni audios.',
+        ]),
+    ...(missingFiles.length > 0
+      ? ['', 'No pudimos recuperar estos archivos del almacenamiento:', ...missingFiles.map(name => `- ${name}`)]
+      : []),
+  ].join('\n'), { name: 'LEEME.txt' });
+
+  if (aborted) {
+    console.log(`📦 [EXPORT] Export for ${user.id} aborted: the download was closed`);
+    return;
+  }
+  await archive.finalize();
+  console.log(`📦 [EXPORT] Export for ${user.id}: ${filePaths.size - missingFiles.length} files, ${missingFiles.length} missing`);
+}
@@ -0,0 +1,160 @@
+import sharp from 'sharp';
+import {
+  RENDITION_SIZES,
+  RENDITION_FORMATS,
+  type MediaRendition,
+  type RenditionSize,
+  type RenditionFormat,
+} from '../shared/schema.js';
+import { storage } from './storage.js';
+import { getBlobStore } from './blob-store.js';
+
+// Image pipeline for uploads
+// Every photo is stored as thumb, card and full renditions in JPEG, WebP and AVIF. The full
+// JPEG is the primary file: its key goes into the photo columns and is what exports and the
+// retention job work with. The other renditions are listed in media_assets.
+
+// Longest side of each rendition in pixels (small images are never enlarged)
+const RENDITION_MAX_SIDE: Record<RenditionSize, number> = {
+  thumb: 200, // Avatars and list icons
+  card: 800, // Journal entries and cards
+  full: 1600, // Full-width views and downloads
+};
+
+const FORMAT_EXTENSIONS: Record<RenditionFormat, string> = {
+  jpeg: 'jpg',
+  webp: 'webp',
+  avif: 'avif',
+};
+
+export const FORMAT_CONTENT_TYPES: Record<RenditionFormat, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+export type ProcessedImage = {
+  width: number;
+  height: number;
+  renditions: (MediaRendition & { data: Buffer })[];
+};
+
+/**
+ * Storage key of a rendition
+ * @param baseKey - <userId>/<timestamp>_<id>, shared by all renditions of an image
+ */
+function renditionKey(baseKey: string, size: RenditionSize, format: RenditionFormat): string {
+  if (size === 'full' && format === 'jpeg') {
+    return `${baseKey}.jpg`;
+  }
+  return `${baseKey}_${size}.${FORMAT_EXTENSIONS[format]}`;
+}
+
+function encode(image: sharp.Sharp, format: RenditionFormat): sharp.Sharp {
+  switch (format) {
+    case 'jpeg':
+      return image.jpeg({ quality: 82, progressive: true, mozjpeg: true });
+    case 'webp':
+      return image.webp({ quality: 80 });
+    case 'avif':
+      return image.avif({ quality: 55, effort: 2 }); // Low effort keeps uploads fast on small servers
+  }
+}
+
+/**
+ * Build every rendition of an uploaded image
+ * rotate() applies the EXIF orientation, and sharp writes no metadata (EXIF, GPS, XMP...)
+ * unless asked to, so no rendition can reveal where the photo was taken. Files sharp cannot
+ * decode are rejected instead of being stored untouched with their metadata.
+ * @param buffer - Uploaded file
+ * @param baseKey - Key shared by all renditions (<userId>/<timestamp>_<id>)
+ */
+export async function processImage(buffer: Buffer, baseKey: string): Promise<ProcessedImage> {
+  const source = sharp(buffer, { failOn: 'error' }).rotate();
+  const { info: original } = await source.clone().toBuffer({ resolveWithObject: true });
+
+  const renditions: ProcessedImage['renditions'] = [];
+  for (const size of RENDITION_SIZES) {
+    const maxSide = RENDITION_MAX_SIDE[size];
+    for (const format of RENDITION_FORMATS) {
+      const { data, info } = await encode(
+        source.clone().resize({ width: maxSide, height: maxSide, fit: 'inside', withoutEnlargement: true }),
+        format
+      ).toBuffer({ resolveWithObject: true });
+
+      renditions.push({
+        size,
+        format,
+        key: renditionKey(baseKey, size, format),
+        width: info.width,
+        height: info.height,
+        bytes: data.length,
+        data,
+      });
+    }
+  }
+
+  return { width: original.width, height: original.height, renditions };
+}
+
+/**
+ * Process an uploaded image, store all its renditions and record them in media_assets
+ * @returns Key of the primary rendition (full JPEG) to save in the photo column
+ */
+export async function saveImage(buffer: Buffer, baseKey: string, userId?: string): Promise<{ key: string; bytes: number }> {
+  const image = await processImage(buffer, baseKey);
+  const store = getBlobStore();
+
+  for (const rendition of image.renditions) {
+    await store.put(rendition.key, rendition.data, FORMAT_CONTENT_TYPES[rendition.format]);
+  }
+
+  const primary = image.renditions.find(rendition => rendition.size === 'full' && rendition.format === 'jpeg')!;
+  if (userId) {
+    await storage.createMediaAsset({
+      userId,
+      key: primary.key,
+      width: image.width,
+      height: image.height,
+      renditions: image.renditions.map(({ data, ...rendition }) => rendition),
+    });
+  }
+
+  console.log(`🖼️ [IMAGES] ${primary.key}: ${image.width}x${image.height}, ${image.renditions.length} renditions (${buffer.length} -> ${primary.bytes} bytes)`);
+  return { key: primary.key, bytes: primary.bytes };
+}
+
+/**
+ * Key of the rendition closest to what the client asked for
+ * Falls back to the stored key for images uploaded before renditions existed.
+ */
+export async function pickRendition(key: string, size?: RenditionSize, format?: RenditionFormat): Promise<string> {
+  if (!size && !format) {
+    return key;
+  }
+  const asset = await storage.getMediaAsset(key);
+  const rendition = asset?.renditions.find(candidate =>
+    candidate.size === (size ?? 'full') && candidate.format === (format ?? 'jpeg')
+  );
+  return rendition?.key ?? key;
+}
+
+/**
+ * Delete the extra renditions of an image and its media_assets row (the primary file is left
+ * to the caller)
+ */
+export async function deleteRenditions(key: string): Promise<void> {
+  const asset = await storage.deleteMediaAsset(key);
+  const keys = asset?.renditions.map(rendition => rendition.key).filter(renditionKey => renditionKey !== key) ?? [];
+  if (keys.length > 0) {
+    await getBlobStore().delete(keys);
+  }
+}
+
+export function isRenditionSize(value: unknown): value is RenditionSize {
+  return typeof value === 'string' && (RENDITION_SIZES as readonly string[]).includes(value);
+}
+
+export function isRenditionFormat(value: unknown): value is RenditionFormat {
+  return typeof value === 'string' && (RENDITION_FORMATS as readonly string[]).includes(value);
+}
@@ -0,0 +1,41 @@
+// Dates and times in a user's own time zone (reminders, streaks, time of day)
+// The time zone is the IANA name the browser reported (notification_preferences.timezone).
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+/**
+ * Local date (YYYY-MM-DD) and minutes since midnight at an instant in a time zone
+ */
+export function localClock(instant: Date, timeZone: string): { date: string; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(instant).map(part => [part.type, part.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10),
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A local date (YYYY-MM-DD) some days later (or earlier with a negative number)
+ */
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days from one local date (YYYY-MM-DD) to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
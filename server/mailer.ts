@@ -0,0 +1,133 @@
+import nodemailer from 'nodemailer';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Mail configuration
+// MAIL_TRANSPORT: "smtp" | "file" | "console" (defaults to smtp when SMTP_HOST is set, console otherwise)
+// Point SMTP_HOST at a local catcher such as Mailpit in development, or use the file
+// transport to write every message to MAIL_OUTBOX_DIR
+// APP_BASE_URL: public address of the app used in email links (required in production)
+const smtpHost = process.env.SMTP_HOST || '';
+const smtpPort = parseInt(process.env.SMTP_PORT || '1025', 10);
+const smtpUser = process.env.SMTP_USER || '';
+const smtpPass = process.env.SMTP_PASS || '';
+const mailFrom = process.env.MAIL_FROM || 'Semillita <no-reply@semillita.app>';
+const outboxDir = process.env.MAIL_OUTBOX_DIR || '.mail-outbox';
+const appBaseUrl = process.env.APP_BASE_URL || '';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+function createSmtpTransport(): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: smtpHost,
+    port: smtpPort,
+    secure: smtpPort === 465,
+    auth: smtpUser ? { user: smtpUser, pass: smtpPass } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({ from: mailFrom, ...message });
+    },
+  };
+}
+
+// Writes each message as a JSON file, handy for local runs and for inspecting links
+function createFileTransport(): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await mkdir(outboxDir, { recursive: true });
+      const filename = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+      const filePath = path.join(outboxDir, filename);
+      await writeFile(filePath, JSON.stringify({ from: mailFrom, ...message, sentAt: new Date().toISOString() }, null, 2));
+      console.log(`📧 [MAILER] Message written to ${filePath}`);
+    },
+  };
+}
+
+function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`📧 [MAILER] To: ${message.to}`);
+      console.log(`📧 [MAILER] Subject: ${message.subject}`);
+      console.log(message.text);
+    },
+  };
+}
+
+// Lazy-initialized transport (prevents initialization errors in serverless)
+let _transport: MailTransport | null = null;
+
+function getTransport(): MailTransport {
+  if (!_transport) {
+    // The console transport prints reset and consent links to the logs: never a silent default in production
+    if (process.env.NODE_ENV === 'production' && !process.env.MAIL_TRANSPORT && !smtpHost) {
+      throw new Error('SMTP_HOST (or an explicit MAIL_TRANSPORT) must be set in production');
+    }
+    const configured = process.env.MAIL_TRANSPORT || (smtpHost ? 'smtp' : 'console');
+    switch (configured) {
+      case 'smtp':
+        if (!smtpHost) {
+          throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST');
+        }
+        _transport = createSmtpTransport();
+        break;
+      case 'file':
+        _transport = createFileTransport();
+        break;
+      case 'console':
+        _transport = createConsoleTransport();
+        break;
+      default:
+        throw new Error(`Unknown MAIL_TRANSPORT: ${configured}`);
+    }
+    if (_transport.name !== 'smtp') {
+      console.warn(`⚠️ Emails are not delivered, using the ${_transport.name} mail transport.`);
+    }
+  }
+  return _transport;
+}
+
+/**
+ * Replace the mail transport (e.g. to capture messages in a script)
+ */
+export function setMailTransport(transport: MailTransport): void {
+  _transport = transport;
+}
+
+/**
+ * Send an email through the configured transport
+ * @param message - Recipient, subject and body
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  const transport = getTransport();
+  await transport.send(message);
+  console.log(`📧 [MAILER] Sent "${message.subject}" to ${message.to} via ${transport.name}`);
+}
+
+/**
+ * Build an absolute link to a client page for use in emails
+ * Uses APP_BASE_URL, or the local development server when it is not set
+ * @param path - Client path, e.g. /reset-password?token=...
+ */
+export function buildAppUrl(path: string): string {
+  // Links carry reset and consent tokens: they are never built from the request's Host header
+  if (!appBaseUrl && process.env.NODE_ENV === 'production') {
+    throw new Error('APP_BASE_URL must be set in production');
+  }
+  const base = appBaseUrl || `http://localhost:${process.env.PORT || '5000'}`;
+  return `${base.replace(/\/$/, '')}${path}`;
+}
@@ -0,0 +1,142 @@
+import { storage } from './storage.js';
+import { notifyUser } from './push.js';
+import { userTimeZone } from './achievements.js';
+import { localClock, daysBetween } from './local-time.js';
+import {
+  GROWTH_STAGES,
+  type GrowthStage,
+  type Plant,
+  type PlantLifecycle,
+} from '../shared/schema.js';
+
+// Plant lifecycle
+// A plant grows through GROWTH_STAGES as days pass since it was planted and as the child keeps
+// caring for it, journaling or logging care (watering, sunlight...): each stage needs both.
+// Stages never go back. A plant nobody cared for in NEEDS_CARE_AFTER_DAYS is marked "needs_care"
+// and goes back to "growing" with the next entry or care event; it is never withered
+// automatically. Refreshed whenever a plant is loaded and after each entry or care event.
+
+const STAGE_REQUIREMENTS: Record<GrowthStage, { minDays: number; minCareDays: number }> = {
+  seed: { minDays: 0, minCareDays: 0 },
+  sprout: { minDays: 3, minCareDays: 2 },
+  seedling: { minDays: 10, minCareDays: 6 },
+  flowering: { minDays: 21, minCareDays: 14 },
+};
+
+const NEEDS_CARE_AFTER_DAYS = 3;
+
+// Statuses set by hand (e.g. "withered" through updatePlantStatus) are left alone
+const MANAGED_STATUSES = [null, 'growing', 'alive', 'needs_care'];
+
+const STAGE_MESSAGES: Record<GrowthStage, string> = {
+  seed: '',
+  sprout: '🌱 ¡Tu semilla brotó! Sigue cuidándola para verla crecer',
+  seedling: '🌿 ¡Tu planta ya tiene sus primeras hojas!',
+  flowering: '🌸 ¡Tu planta floreció! Gracias por cuidarla cada día',
+};
+
+function isGrowthStage(value: unknown): value is GrowthStage {
+  return GROWTH_STAGES.includes(value as GrowthStage);
+}
+
+function stageIndex(stage: string | null): number {
+  return isGrowthStage(stage) ? GROWTH_STAGES.indexOf(stage) : 0;
+}
+
+/**
+ * Lifecycle of a plant from how long ago it was planted and how the child has cared for it
+ */
+export function deriveLifecycle(
+  plant: Pick<Plant, 'stage' | 'milestones' | 'plantedAt'>,
+  care: { careDays: number; lastCareDate: string | null },
+  timeZone: string,
+  now: Date,
+): PlantLifecycle {
+  const plantedAt = plant.plantedAt ? new Date(plant.plantedAt) : now;
+  const today = localClock(now, timeZone).date;
+  const daysSincePlanting = Math.max(0, daysBetween(localClock(plantedAt, timeZone).date, today));
+  const daysWithoutCare = Math.max(0, daysBetween(care.lastCareDate ?? localClock(plantedAt, timeZone).date, today));
+
+  let reached = stageIndex(plant.stage);
+  while (reached + 1 < GROWTH_STAGES.length) {
+    const { minDays, minCareDays } = STAGE_REQUIREMENTS[GROWTH_STAGES[reached + 1]];
+    if (daysSincePlanting < minDays || care.careDays < minCareDays) break;
+    reached++;
+  }
+
+  const milestones = Array.isArray(plant.milestones) ? plant.milestones.filter(milestone => isGrowthStage(milestone?.stage)) : [];
+  for (const stage of GROWTH_STAGES.slice(1, reached + 1)) {
+    if (!milestones.some(milestone => milestone.stage === stage)) {
+      milestones.push({ stage, reachedAt: now.toISOString() });
+    }
+  }
+
+  const next = GROWTH_STAGES[reached + 1];
+  return {
+    stage: GROWTH_STAGES[reached],
+    needsCare: daysWithoutCare >= NEEDS_CARE_AFTER_DAYS,
+    daysSincePlanting,
+    careDays: care.careDays,
+    daysWithoutCare,
+    nextStage: next ? { stage: next, ...STAGE_REQUIREMENTS[next] } : null,
+    milestones,
+  };
+}
+
+/**
+ * Bring a plant's stage, milestones and status up to date
+ * The child is notified of a new stage once: concurrent refreshes only save one of them.
+ */
+export async function refreshPlantLifecycle(plant: Plant, now: Date = new Date()): Promise<Plant & { lifecycle: PlantLifecycle }> {
+  const timeZone = await userTimeZone(plant.userId);
+  const care = await storage.getPlantCare(plant.id, timeZone);
+  const lifecycle = deriveLifecycle(plant, care, timeZone, now);
+
+  const status = MANAGED_STATUSES.includes(plant.status)
+    ? (lifecycle.needsCare ? 'needs_care' : 'growing')
+    : plant.status;
+  const newStages = GROWTH_STAGES.slice(stageIndex(plant.stage) + 1, stageIndex(lifecycle.stage) + 1);
+
+  await storage.updateUserDaysSincePlanting(plant.userId, lifecycle.daysSincePlanting);
+
+  if (newStages.length === 0 && status === plant.status) {
+    return { ...plant, lifecycle };
+  }
+
+  const updated = await storage.updatePlantLifecycle(plant.id, plant, {
+    stage: lifecycle.stage,
+    status,
+    milestones: lifecycle.milestones,
+  });
+  if (!updated) {
+    // Another request got there first
+    const current = await storage.getPlantById(plant.id);
+    return { ...(current ?? plant), lifecycle };
+  }
+
+  if (status !== plant.status) {
+    console.log(`🪴 [PLANTS] Plant ${plant.id} is now ${status}`);
+  }
+  if (newStages.length > 0) {
+    // A plant catching up on several stages at once only announces the latest one
+    const stage = newStages[newStages.length - 1];
+    console.log(`🌸 [PLANTS] Plant ${plant.id} reached the ${stage} stage`);
+    await notifyUser(plant.userId, {
+      type: 'milestone',
+      title: '🪴 ¡Tu planta creció!',
+      message: STAGE_MESSAGES[stage],
+    }).catch(error => console.error('❌ [PLANTS] Error sending milestone notification:', error));
+  }
+
+  return { ...updated, lifecycle };
+}
+
+/**
+ * Refresh the user's active plant (after a journal entry)
+ */
+export async function refreshActivePlant(userId: string): Promise<void> {
+  const plant = await storage.getActivePlant(userId);
+  if (plant) {
+    await refreshPlantLifecycle(plant);
+  }
+}
@@ -0,0 +1,231 @@
+import type { Request, Response, NextFunction } from "express";
+import type { User } from "../shared/schema.js";
+import { storage } from "./storage.js";
+
+/**
+ * Central authorization policy
+ *
+ * Every protected route declares the permission it needs with `authorize(permission, subject)`
+ * in registerRoutes. The subject is the user whose data the request touches (the caller by
+ * default); the policy says, per role, how the caller must relate to that subject.
+ *
+ * Roles:
+ * - child: their own journal, plant, seeds and rewards
+ * - caregiver: a parent or tutor following the children linked to them by a guardianship
+ *   (legacy "professional" accounts map here too)
+ * - facilitator: their own account plus the children in their workshop groups
+ * - admin: everything (assigned directly in the database)
+ */
+
+export type Role = 'child' | 'caregiver' | 'facilitator' | 'admin';
+
+export const ROLES: Role[] = ['child', 'caregiver', 'facilitator', 'admin'];
+
+// How the caller must relate to the subject user for a rule to apply
+export type Relation =
+  | 'any'         // No relation needed
+  | 'self'        // The subject is the caller
+  | 'groupChild'   // The subject is a child in one of the caller's workshop groups
+  | 'deletedGroupChild' // Same, soft-deleted children included (restoring them)
+  | 'guardedChild'; // The subject is a child linked to the caller by a guardianship
+
+export type Permission =
+  | 'profile:read'
+  | 'profile:update'
+  | 'profile:delete'
+  | 'plant:read'
+  | 'plant:write'
+  | 'journal:read'
+  | 'journal:write'
+  | 'journal:delete'
+  | 'seeds:read'
+  | 'seeds:write'
+  | 'media:read'
+  | 'achievements:read'
+  | 'notifications:read'
+  | 'notifications:write'
+  | 'rewards:read'
+  | 'rewards:purchase'
+  | 'child:manage'
+  | 'child:restore'
+  | 'consent:audit'
+  | 'data:export'
+  | 'terms:manage'
+  | 'facilitator:invite'
+  | 'achievements:manage'
+  | 'facilitator:access'
+  | 'caregiver:access'
+  | 'storage:stats'
+  | 'admin:maintenance';
+
+type Rule = Partial<Record<Role, Relation[]>>;
+
+const OWN_DATA: Rule = {
+  child: ['self'],
+  caregiver: ['self'],
+  admin: ['any'],
+};
+
+const OWN_OR_GROUP_DATA: Rule = {
+  child: ['self'],
+  caregiver: ['self'],
+  facilitator: ['self', 'groupChild'],
+  admin: ['any'],
+};
+
+// Caregivers see progress, never the journal itself (private entries stay with the child)
+const OWN_GROUP_OR_GUARDED_DATA: Rule = {
+  ...OWN_OR_GROUP_DATA,
+  caregiver: ['self', 'guardedChild'],
+};
+
+const STAFF_ONLY: Rule = {
+  facilitator: ['any'],
+  admin: ['any'],
+};
+
+export const POLICY: Record<Permission, Rule> = {
+  'profile:read': OWN_GROUP_OR_GUARDED_DATA,
+  'profile:update': { child: ['self'], caregiver: ['self'], facilitator: ['self'], admin: ['any'] },
+  'profile:delete': OWN_OR_GROUP_DATA,
+  'plant:read': OWN_GROUP_OR_GUARDED_DATA,
+  'plant:write': OWN_OR_GROUP_DATA,
+  'journal:read': OWN_OR_GROUP_DATA,
+  'journal:write': OWN_DATA,
+  'journal:delete': OWN_OR_GROUP_DATA,
+  'seeds:read': OWN_OR_GROUP_DATA,
+  'seeds:write': OWN_DATA,
+  // Photos and recordings; caregivers are further limited to files outside private entries
+  'media:read': { child: ['self'], caregiver: ['guardedChild'], facilitator: ['groupChild'], admin: ['any'] },
+  'achievements:read': OWN_GROUP_OR_GUARDED_DATA,
+  'notifications:read': OWN_OR_GROUP_DATA,
+  'notifications:write': { child: ['self'], caregiver: ['self'], facilitator: ['self'], admin: ['any'] },
+  'rewards:read': OWN_OR_GROUP_DATA,
+  'rewards:purchase': OWN_DATA,
+  'child:manage': { facilitator: ['groupChild'], admin: ['any'] },
+  'child:restore': { facilitator: ['deletedGroupChild'], admin: ['any'] },
+  'consent:audit': { facilitator: ['groupChild'], admin: ['any'] },
+  // Access requests: the whole record for the child or their adults (caregivers get it without private entries)
+  'data:export': { child: ['self'], caregiver: ['guardedChild'], facilitator: ['groupChild'], admin: ['any'] },
+  'terms:manage': { admin: ['any'] },
+  // New facilitators can create groups and join codes, so only admins bring them in
+  'facilitator:invite': { admin: ['any'] },
+  // Achievements are awarded to every child in every school, with points
+  'achievements:manage': { admin: ['any'] },
+  'facilitator:access': STAFF_ONLY,
+  'caregiver:access': { caregiver: ['any'] },
+  'storage:stats': STAFF_ONLY,
+  'admin:maintenance': { admin: ['any'] },
+};
+
+/**
+ * Map a stored role to a policy role (unknown roles get no permissions)
+ */
+export function normalizeRole(role: string): Role | null {
+  if (role === 'professional') {
+    return 'caregiver';
+  }
+  return (ROLES as string[]).includes(role) ? role as Role : null;
+}
+
+/**
+ * Staff roles sign in with email + password and use the facilitator panel
+ */
+export function isStaffRole(role: string): boolean {
+  const normalized = normalizeRole(role);
+  return normalized === 'facilitator' || normalized === 'admin';
+}
+
+/**
+ * Adult accounts sign in with email + password (children use alias + PIN)
+ */
+export function usesPasswordLogin(role: string): boolean {
+  return isStaffRole(role) || normalizeRole(role) === 'caregiver';
+}
+
+const RELATION_CHECKS: Record<Relation, (caller: User, subjectUserId: string) => boolean | Promise<boolean>> = {
+  any: () => true,
+  self: (caller, subjectUserId) => caller.id === subjectUserId,
+  groupChild: (caller, subjectUserId) => storage.canFacilitatorAccessChild(caller.id, subjectUserId),
+  deletedGroupChild: (caller, subjectUserId) => storage.canFacilitatorAccessChild(caller.id, subjectUserId, { includeDeleted: true }),
+  guardedChild: (caller, subjectUserId) => storage.isGuardianOf(caller.id, subjectUserId),
+};
+
+/**
+ * Decide whether a user may perform an operation on another user's data
+ * @param caller - Authenticated user
+ * @param permission - Operation being performed
+ * @param subjectUserId - Owner of the data being touched
+ */
+export async function can(caller: User, permission: Permission, subjectUserId: string): Promise<boolean> {
+  const role = normalizeRole(caller.role);
+  const relations = role ? POLICY[permission][role] : undefined;
+  if (!relations) {
+    return false;
+  }
+
+  for (const relation of relations) {
+    if (await RELATION_CHECKS[relation](caller, subjectUserId)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Resolves the owner of the data a request touches (undefined when the resource does not exist)
+export type SubjectResolver = (req: Request) => string | undefined | Promise<string | undefined>;
+
+export const subject = {
+  // The caller's own data (routes that always act on the session user)
+  caller: (): SubjectResolver => (req) => req.currentUser?.id,
+  // A user id taken from a route parameter
+  param: (name: string): SubjectResolver => (req) => req.params[name],
+  // The owner of a journal entry
+  journalEntryOwner: (name: string): SubjectResolver => async (req) =>
+    (await storage.getJournalEntryById(req.params[name]))?.userId,
+  // The owner of a soft-deleted journal entry (restore)
+  deletedJournalEntryOwner: (name: string): SubjectResolver => async (req) =>
+    (await storage.getDeletedJournalEntry(req.params[name]))?.userId,
+  // The owner of a plant
+  plantOwner: (name: string): SubjectResolver => async (req) =>
+    (await storage.getPlantById(req.params[name]))?.userId,
+  // The recipient of a notification
+  notificationOwner: (name: string): SubjectResolver => async (req) =>
+    (await storage.getNotificationById(req.params[name]))?.userId,
+  // The owner of a stored file, from its <userId>/<filename> key
+  mediaOwner: (): SubjectResolver => async (req) =>
+    (await storage.getMediaReference(`${req.params.userId}/${req.params.filename}`))?.userId,
+};
+
+// Authorization middleware - must run after requireAuth
+export function authorize(permission: Permission, resolveSubject: SubjectResolver = subject.caller()) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const caller = req.currentUser;
+    if (!caller) {
+      return res.status(401).json({
+        message: 'Debes iniciar sesión',
+        code: 'UNAUTHENTICATED'
+      });
+    }
+
+    try {
+      const subjectUserId = await resolveSubject(req);
+      if (!subjectUserId) {
+        return res.status(404).json({ message: 'Not found' });
+      }
+
+      if (await can(caller, permission, subjectUserId)) {
+        return next();
+      }
+    } catch (error) {
+      console.error(`Error authorizing ${permission}:`, error);
+      return res.status(500).json({ message: 'Server error' });
+    }
+
+    console.warn(`🚫 [POLICY] ${caller.role} ${caller.id} denied ${permission} on ${req.method} ${req.originalUrl}`);
+    return res.status(403).json({
+      message: 'No tienes permiso para realizar esta acción',
+      code: 'FORBIDDEN'
+    });
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Permanently delete users and journal entries whose 30-day recovery window has expired
+ * Ejecutar con: npm run purge:deleted (schedule it daily, e.g. from cron)
+ * Prints the purge report as JSON and exits with an error code if anything failed
+ */
+import { purgeExpiredDeletions } from "./purge.js";
+
+async function main() {
+  const report = await purgeExpiredDeletions();
+  console.log(JSON.stringify(report, null, 2));
+  process.exit(report.failures.length > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('❌ Error purging deleted data:', error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+import { storage } from './storage.js';
+
+// Soft-deleted users and journal entries
+// Deleting only hides the row; facilitators can restore it during the recovery window.
+// The purge job then runs the permanent cascade (storage files, profile_history, rows).
+
+// Days a deletion can be undone
+export const RECOVERY_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PurgeReport {
+  ranAt: Date;
+  cutoff: Date;
+  users: { id: string; alias: string; role: string; deletedAt: Date | null; filesDeleted: number }[];
+  journalEntries: { id: string; userId: string; deletedAt: Date | null; filesDeleted: number }[];
+  failures: { type: 'user' | 'journal_entry'; id: string; message: string }[];
+}
+
+/**
+ * Last moment a deletion can still be restored
+ */
+export function restorableUntil(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + RECOVERY_WINDOW_DAYS * DAY_MS);
+}
+
+/**
+ * Whether a soft-deleted record is still inside the recovery window
+ */
+export function isRestorable(deletedAt: Date | null, now: Date = new Date()): boolean {
+  return !!deletedAt && restorableUntil(deletedAt).getTime() > now.getTime();
+}
+
+/**
+ * Permanently delete every user and journal entry whose recovery window has expired
+ * Failures are reported and retried on the next run instead of stopping the job.
+ * @param now - Reference time (defaults to the current time)
+ */
+export async function purgeExpiredDeletions(now: Date = new Date()): Promise<PurgeReport> {
+  const cutoff = new Date(now.getTime() - RECOVERY_WINDOW_DAYS * DAY_MS);
+  const report: PurgeReport = { ranAt: now, cutoff, users: [], journalEntries: [], failures: [] };
+
+  console.log(`🧹 [PURGE] Purging deletions older than ${cutoff.toISOString()}`);
+
+  // Users first: their cascade also removes their deleted journal entries
+  for (const user of await storage.getUsersDeletedBefore(cutoff)) {
+    try {
+      const { filesDeleted } = await storage.deleteUser(user.id);
+      report.users.push({ id: user.id, alias: user.alias, role: user.role, deletedAt: user.deletedAt, filesDeleted });
+    } catch (error) {
+      report.failures.push({ type: 'user', id: user.id, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  for (const entry of await storage.getJournalEntriesDeletedBefore(cutoff)) {
+    try {
+      await storage.deleteJournalEntry(entry.id);
+      report.journalEntries.push({
+        id: entry.id,
+        userId: entry.userId,
+        deletedAt: entry.deletedAt,
+        filesDeleted: [entry.photoUrl, entry.audioUrl].filter(Boolean).length,
+      });
+    } catch (error) {
+      report.failures.push({ type: 'journal_entry', id: entry.id, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  console.log(`✅ [PURGE] Purged ${report.users.length} users and ${report.journalEntries.length} journal entries (${report.failures.length} failures)`);
+  return report;
+}
@@ -0,0 +1,96 @@
+import webpush from 'web-push';
+import { storage } from './storage.js';
+import { notificationLink, type NotificationType } from '../shared/schema.js';
+import { DEFAULT_TIMEZONE } from './local-time.js';
+
+// Web Push configuration
+// VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY: generate once with `npx web-push generate-vapid-keys`
+// VAPID_SUBJECT: contact the push services can reach (mailto: or https: URL)
+// Without keys notifications are still recorded in the notifications table, just not pushed.
+const vapidPublicKey = process.env.VAPID_PUBLIC_KEY || '';
+const vapidPrivateKey = process.env.VAPID_PRIVATE_KEY || '';
+const vapidSubject = process.env.VAPID_SUBJECT || 'mailto:no-reply@semillita.app';
+
+// How long a push service keeps trying to deliver (a reminder is useless the next day)
+const PUSH_TTL_SECONDS = 12 * 60 * 60;
+
+// Preferences of users who never changed them (same defaults as the notification_preferences table)
+export const DEFAULT_NOTIFICATION_PREFERENCES = {
+  enabled: true,
+  reminderTime: '18:00',
+  timezone: DEFAULT_TIMEZONE,
+  types: ['reminder', 'achievement', 'milestone'] as NotificationType[],
+};
+
+export function isPushConfigured(): boolean {
+  return !!vapidPublicKey && !!vapidPrivateKey;
+}
+
+export function getVapidPublicKey(): string | null {
+  return isPushConfigured() ? vapidPublicKey : null;
+}
+
+// Lazily applied VAPID details (prevents initialization errors in serverless)
+let _configured = false;
+
+function ensureConfigured() {
+  if (!_configured) {
+    webpush.setVapidDetails(vapidSubject, vapidPublicKey, vapidPrivateKey);
+    _configured = true;
+  }
+}
+
+export interface PushMessage {
+  type: NotificationType;
+  title: string;
+  message: string;
+  url?: string; // Page opened when the notification is tapped (defaults to the type's page)
+}
+
+/**
+ * Push a message to every browser the user subscribed in
+ * Subscriptions the push service reports as gone (404/410) are deleted.
+ * @returns Number of browsers the message was delivered to
+ */
+export async function sendPush(userId: string, message: PushMessage): Promise<number> {
+  if (!isPushConfigured()) {
+    return 0;
+  }
+  ensureConfigured();
+
+  const payload = JSON.stringify({ ...message, url: message.url || notificationLink(message.type) });
+  let delivered = 0;
+
+  for (const subscription of await storage.getUserPushSubscriptions(userId)) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        { TTL: PUSH_TTL_SECONDS }
+      );
+      delivered++;
+    } catch (error: any) {
+      if (error?.statusCode === 404 || error?.statusCode === 410) {
+        await storage.deletePushSubscription(subscription.endpoint);
+        console.log(`🔕 [PUSH] Removed expired subscription of user ${userId}`);
+      } else {
+        console.error(`❌ [PUSH] Error sending to user ${userId}:`, error?.statusCode || error);
+      }
+    }
+  }
+
+  return delivered;
+}
+
+/**
+ * Record a notification in the user's history and push it if their preferences allow that type
+ */
+export async function notifyUser(userId: string, message: PushMessage): Promise<{ delivered: number }> {
+  await storage.createNotification(userId, message.title, message.message, message.type);
+
+  const preferences = await storage.getNotificationPreferences(userId);
+  if (preferences && (!preferences.enabled || !preferences.types.includes(message.type))) {
+    return { delivered: 0 };
+  }
+  return { delivered: await sendPush(userId, message) };
+}
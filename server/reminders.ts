@@ -0,0 +1,64 @@
+import { storage } from './storage.js';
+import { notifyUser } from './push.js';
+import { localClock } from './local-time.js';
+import type { NotificationPreferences } from '../shared/schema.js';
+
+// Daily journaling reminder
+// Run every few minutes (server/send-reminders.ts). Each user gets the reminder once per local
+// day, on the first run after their chosen time in their own time zone.
+// REMINDER_WINDOW_MINUTES: how late a reminder may still go out if runs were missed (default 60),
+// so a scheduler outage does not send 18:00 reminders at midnight
+function readMinutes(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const REMINDER = {
+  type: 'reminder' as const,
+  title: '🌱 ¿Cómo está tu planta hoy?',
+  message: 'No olvides registrar tus emociones y tomar una foto',
+};
+
+export interface ReminderReport {
+  ranAt: Date;
+  checked: number;
+  sent: { userId: string; localDate: string; delivered: number }[];
+  failures: { userId: string; error: string }[];
+}
+
+function isDue(preferences: NotificationPreferences, now: Date, windowMinutes: number): { due: boolean; localDate: string } {
+  const { date, minutes } = localClock(now, preferences.timezone);
+  const [hour, minute] = preferences.reminderTime.split(':').map(Number);
+  const late = minutes - (hour * 60 + minute);
+  return {
+    due: late >= 0 && late < windowMinutes && preferences.lastReminderDate !== date,
+    localDate: date,
+  };
+}
+
+/**
+ * Send the daily reminder to everyone whose local reminder time has come
+ * Concurrent runs are safe: each reminder is claimed in the database before it is sent.
+ */
+export async function sendDueReminders(now: Date = new Date()): Promise<ReminderReport> {
+  const windowMinutes = readMinutes('REMINDER_WINDOW_MINUTES', 60);
+  const candidates = await storage.getReminderCandidates();
+  const report: ReminderReport = { ranAt: now, checked: candidates.length, sent: [], failures: [] };
+
+  for (const preferences of candidates) {
+    try {
+      const { due, localDate } = isDue(preferences, now, windowMinutes);
+      if (!due || !(await storage.claimDailyReminder(preferences.userId, localDate))) {
+        continue;
+      }
+      const { delivered } = await notifyUser(preferences.userId, REMINDER);
+      report.sent.push({ userId: preferences.userId, localDate, delivered });
+    } catch (error) {
+      console.error(`❌ [REMINDERS] Error sending reminder to user ${preferences.userId}:`, error);
+      report.failures.push({ userId: preferences.userId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  console.log(`⏰ [REMINDERS] ${report.sent.length} reminder(s) sent, ${candidates.length} user(s) checked`);
+  return report;
+}
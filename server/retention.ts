@@ -0,0 +1,151 @@
+import sharp from 'sharp';
+import { storage } from './storage.js';
+import { replaceProfileHistoryPhoto } from './supabase.js';
+import { getBlobStore, mediaKey } from './blob-store.js';
+import { deleteRenditions } from './images.js';
+
+// Retention policy (0 turns a rule off)
+// RETENTION_AUDIO_DAYS: journal audio is deleted after this many days (default 90)
+// RETENTION_PHOTO_DAYS: journal photos are replaced by a small thumbnail after this many days (default 365)
+// RETENTION_INACTIVE_MONTHS: child accounts without activity for this long are flagged (default 12)
+function readDays(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export interface RetentionPolicy {
+  audioDays: number;
+  photoDays: number;
+  inactiveMonths: number;
+}
+
+export function getRetentionPolicy(): RetentionPolicy {
+  return {
+    audioDays: readDays('RETENTION_AUDIO_DAYS', 90),
+    photoDays: readDays('RETENTION_PHOTO_DAYS', 365),
+    inactiveMonths: readDays('RETENTION_INACTIVE_MONTHS', 12),
+  };
+}
+
+// Height of the thumbnail kept once a photo expires
+const THUMBNAIL_HEIGHT = 120;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RetentionReport {
+  dryRun: boolean;
+  ranAt: Date;
+  policy: RetentionPolicy;
+  audioDeleted: { entryId: string; userId: string; alias: string; createdAt: Date | null; key: string }[];
+  photosDownscaled: { entryId: string; userId: string; alias: string; createdAt: Date | null; key: string; thumbnailKey: string | null }[];
+  inactiveChildren: { userId: string; alias: string; lastActiveAt: Date; alreadyFlagged: boolean }[];
+  flagsCleared: number;
+  failures: { rule: 'audio' | 'photo' | 'inactive'; id: string; message: string }[];
+}
+
+function thumbnailPath(path: string): string {
+  const [folder, filename] = path.split('/');
+  return `${folder}/thumb_${filename.replace(/\.[^.]+$/, '')}.jpg`;
+}
+
+async function expireAudio(candidateKey: string): Promise<void> {
+  await getBlobStore().delete([mediaKey(candidateKey)]);
+  await storage.replaceMediaKey(candidateKey, null);
+  await replaceProfileHistoryPhoto(candidateKey, null);
+}
+
+async function downscalePhoto(candidateKey: string): Promise<string> {
+  const store = getBlobStore();
+  const path = mediaKey(candidateKey);
+  const original = await store.get(path);
+  if (!original) {
+    throw new Error(`File not found: ${path}`);
+  }
+  const thumbnail = await sharp(original)
+    .resize({ height: THUMBNAIL_HEIGHT, fit: 'inside', withoutEnlargement: true })
+    .jpeg({ quality: 70 })
+    .toBuffer();
+
+  // Upload first so a failure never leaves rows pointing at a missing file
+  const thumbnailKey = thumbnailPath(path);
+  await store.put(thumbnailKey, thumbnail, 'image/jpeg');
+  await storage.replaceMediaKey(candidateKey, thumbnailKey);
+  await replaceProfileHistoryPhoto(candidateKey, thumbnailKey);
+  await deleteRenditions(path);
+  await store.delete([path]);
+  return thumbnailKey;
+}
+
+/**
+ * Apply the retention policy to journal media and child accounts
+ * @param options.dryRun - Only report what would change
+ * @param options.facilitatorId - Limit the run to the children of this facilitator's groups
+ * @param options.now - Reference time (defaults to the current time)
+ */
+export async function applyRetention(options: { dryRun: boolean; facilitatorId?: string; now?: Date }): Promise<RetentionReport> {
+  const { dryRun, facilitatorId } = options;
+  const now = options.now ?? new Date();
+  const policy = getRetentionPolicy();
+  const report: RetentionReport = {
+    dryRun,
+    ranAt: now,
+    policy,
+    audioDeleted: [],
+    photosDownscaled: [],
+    inactiveChildren: [],
+    flagsCleared: 0,
+    failures: [],
+  };
+
+  console.log(`🗄️ [RETENTION] ${dryRun ? 'Dry run' : 'Applying'} policy ${JSON.stringify(policy)}${facilitatorId ? ` for facilitator ${facilitatorId}` : ''}`);
+
+  if (policy.audioDays > 0) {
+    const before = new Date(now.getTime() - policy.audioDays * DAY_MS);
+    for (const candidate of await storage.getJournalMediaBefore('audio', before, facilitatorId)) {
+      try {
+        if (!dryRun) {
+          await expireAudio(candidate.key);
+        }
+        report.audioDeleted.push(candidate);
+      } catch (error) {
+        report.failures.push({ rule: 'audio', id: candidate.entryId, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  if (policy.photoDays > 0) {
+    const before = new Date(now.getTime() - policy.photoDays * DAY_MS);
+    for (const candidate of await storage.getJournalMediaBefore('photo', before, facilitatorId)) {
+      try {
+        const thumbnailKey = dryRun ? null : await downscalePhoto(candidate.key);
+        report.photosDownscaled.push({ ...candidate, thumbnailKey });
+      } catch (error) {
+        report.failures.push({ rule: 'photo', id: candidate.entryId, message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
+  if (policy.inactiveMonths > 0) {
+    const lastActiveBefore = new Date(now);
+    lastActiveBefore.setMonth(lastActiveBefore.getMonth() - policy.inactiveMonths);
+    try {
+      const inactive = await storage.getInactiveChildren(lastActiveBefore, facilitatorId);
+      report.inactiveChildren = inactive.map(child => ({
+        userId: child.id,
+        alias: child.alias,
+        lastActiveAt: child.lastActiveAt,
+        alreadyFlagged: !!child.inactiveFlaggedAt,
+      }));
+      // Flags are global, so a facilitator-scoped run never touches them
+      if (!dryRun && !facilitatorId) {
+        await storage.flagInactiveChildren(inactive.filter(child => !child.inactiveFlaggedAt).map(child => child.id));
+        report.flagsCleared = await storage.clearInactiveFlags(lastActiveBefore);
+      }
+    } catch (error) {
+      report.failures.push({ rule: 'inactive', id: '*', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  console.log(`✅ [RETENTION] ${report.audioDeleted.length} audio, ${report.photosDownscaled.length} photos, ${report.inactiveChildren.length} inactive children (${report.failures.length} failures)`);
+  return report;
+}
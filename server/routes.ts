@@ -2,13 +2,49 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage.js";
 import { db } from "./db.js";
-import { insertUserSchema, insertPlantSchema, insertJournalEntrySchema, insertSeedSchema, emotions, achievements, rewards, users } from "../shared/schema.js";
+import { insertUserSchema, insertFacilitatorSchema, insertWorkshopGroupSchema, facilitatorPasswordSchema, insertTermsVersionSchema, startPlantSchema, insertJournalEntrySchema, insertSeedSchema, pushSubscriptionSchema, updateNotificationPreferencesSchema, createAchievementSchema, logPlantCareSchema, STREAK_FREEZE_CATEGORY, emotions, achievements, rewards, users, type JournalEntry } from "../shared/schema.js";
 import { eq } from "drizzle-orm";
+import postgres from "postgres";
 import multer from "multer";
 import { z } from "zod";
 import { randomBytes } from "crypto";
-import { uploadToSupabase, saveProfileHistory, getProfileHistory, getStorageStats, getStorageStatsByUser } from "./supabase.js";
-import sharp from "sharp";
+import path from "path";
+import { saveProfileHistory, getProfileHistory } from "./supabase.js";
+import { processAudio, AudioProcessingError, PROCESSED_AUDIO_MIMETYPE, type ProcessedAudio } from "./audio.js";
+import { saveImage, pickRendition, isRenditionSize, isRenditionFormat, deleteRenditions } from "./images.js";
+import { getBlobStore, getStorageStats, getStorageStatsByUser, deleteBlob, signMediaUrl, verifyUploadsToken, MEDIA_URL_TTL_SECONDS } from "./blob-store.js";
+import {
+  requireAuth,
+  hashSecret,
+  verifySecret,
+  issueSession,
+  clearSession,
+  toPublicUser,
+  isLockedOut,
+  registerFailedLogin,
+  hashToken,
+  sendPasswordSetupEmail,
+  auditFacilitatorAction,
+} from "./auth.js";
+import { authorize, subject, usesPasswordLogin, normalizeRole } from "./policy.js";
+import {
+  requestParentalConsent,
+  sendConsentConfirmation,
+  getConsentRequestFromToken,
+  getConsentRequestFromRevokeToken,
+  maskEmail,
+  getCurrentTerms,
+  getConsentState,
+  recordTermsAcknowledgment,
+} from "./consent.js";
+import { writeUserExport, exportFilename } from "./export.js";
+import { applyRetention } from "./retention.js";
+import { getVapidPublicKey, DEFAULT_NOTIFICATION_PREFERENCES } from "./push.js";
+import { purgeExpiredDeletions, isRestorable, restorableUntil, RECOVERY_WINDOW_DAYS } from "./purge.js";
+import { recordAchievementEvent, getAchievementFacts, parseRule, ruleProgress, userTimeZone } from "./achievements.js";
+import { getStreak } from "./streaks.js";
+import { refreshPlantLifecycle, refreshActivePlant } from "./plant-lifecycle.js";
+import { getPlantTimelapse } from "./timelapse.js";
 
 // Configure multer for file uploads
 const upload = multer({
@@ -25,61 +61,87 @@ const upload = multer({
   },
 });
 
+// Window of the caregiver's mood summary
+const MOOD_SUMMARY_DAYS = 7;
+
+// Minimum time between consent emails for the same child
+const CONSENT_RESEND_COOLDOWN_MS = 2 * 60 * 1000;
+
+// Entries written offline keep their drafting time if they arrive within this window
+const OFFLINE_DRAFT_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Idempotency keys are generated by the client outbox (crypto.randomUUID)
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+/**
+ * Time an offline entry was written, or undefined to use the time it arrived
+ */
+function parseDraftedAt(value: unknown): Date | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const draftedAt = new Date(value);
+  const age = Date.now() - draftedAt.getTime();
+  return Number.isFinite(age) && age >= 0 && age <= OFFLINE_DRAFT_MAX_AGE_MS ? draftedAt : undefined;
+}
+
 // Helper function to generate share codes
 function generateShareCode(): string {
   return randomBytes(8).toString('hex').toUpperCase();
 }
 
-// Mock file storage (fallback for when Supabase is not configured)
-const mockFileStorage = new Map<string, Buffer>();
+type UploadedFile = {
+  key: string;
+  mimetype: string;
+  size: number; // Stored size (the full rendition for images)
+  originalSize: number;
+};
 
-/**
- * Reescala una imagen a 360p (altura máxima de 360px) manteniendo el aspect ratio
- * @param buffer - Buffer de la imagen original
- * @param mimetype - Tipo MIME de la imagen
- * @returns Buffer de la imagen reescalada
- */
-async function resizeImageTo360p(buffer: Buffer, mimetype: string): Promise<Buffer> {
-  try {
-    // Solo procesar imágenes
-    if (!mimetype.startsWith('image/')) {
-      return buffer;
-    }
-
-    // Obtener metadata de la imagen original
-    const metadata = await sharp(buffer).metadata();
-
-    // Si la imagen ya es menor o igual a 360p, retornar original
-    if (metadata.height && metadata.height <= 360) {
-      console.log(`Imagen ya está en 360p o menor (${metadata.width}x${metadata.height}), usando original`);
-      return buffer;
-    }
-
-    // Reescalar manteniendo aspect ratio con altura máxima de 360px
-    const resizedBuffer = await sharp(buffer)
-      .resize({
-        height: 360,
-        width: undefined, // Mantener aspect ratio
-        fit: 'inside',
-        withoutEnlargement: true, // No agrandar imágenes pequeñas
-      })
-      .jpeg({
-        quality: 85, // Calidad 85% para balance entre tamaño y calidad
-        progressive: true,
-      })
-      .toBuffer();
-
-    const originalSize = buffer.length;
-    const newSize = resizedBuffer.length;
-    const reduction = ((1 - newSize / originalSize) * 100).toFixed(1);
-
-    console.log(`Imagen reescalada: ${originalSize} bytes -> ${newSize} bytes (reducción: ${reduction}%)`);
-    console.log(`Dimensiones originales: ${metadata.width}x${metadata.height} -> Nuevas: auto x 360`);
-
-    return resizedBuffer;
-  } catch (error) {
-    console.error('Error al reescalar imagen, usando original:', error);
-    return buffer; // En caso de error, retornar buffer original
+async function uploadFile(buffer: Buffer, mimetype: string, userId?: string): Promise<UploadedFile> {
+  const id = randomBytes(16).toString('hex');
+  const baseKey = `${userId || 'anonymous'}/${Date.now()}_${id}`;
+
+  // Upload to the configured blob store (errors reach the caller instead of losing the file)
+  // The key is stored instead of a URL: files are private and served through /api/media
+  if (mimetype.startsWith('image/')) {
+    // Thumb, card and full renditions, auto-rotated and stripped of EXIF/GPS metadata
+    const { key, bytes } = await saveImage(buffer, baseKey, userId);
+    return { key, mimetype, size: bytes, originalSize: buffer.length };
+  }
+  const key = `${baseKey}.${mimetype === 'audio/mpeg' ? 'mp3' : mimetype.split('/')[1]}`;
+  await getBlobStore().put(key, buffer, mimetype);
+  return { key, mimetype, size: buffer.length, originalSize: buffer.length };
+}
+
+async function recordUpload(
+  file: UploadedFile,
+  userId: string,
+  type: 'plant' | 'journal_entry' | 'seed' | 'avatar',
+  plantId?: string
+): Promise<void> {
+  await saveProfileHistory({
+    userId,
+    photoUrl: file.key,
+    plantId,
+    type,
+    metadata: {
+      filename: file.key,
+      mimetype: file.mimetype,
+      size: file.size, // Tamaño del archivo guardado (la versión completa en imágenes)
+      originalSize: file.originalSize, // Guardar tamaño original para referencia
+    },
+  });
+}
+
+// Remove files uploaded for a request that saved nothing (errors are logged, not thrown)
+async function discardUploads(uploads: UploadedFile[]): Promise<void> {
+  for (const upload of uploads) {
+    try {
+      await deleteRenditions(upload.key);
+      await deleteBlob(upload.key);
+    } catch (error) {
+      console.error(`⚠️ [UPLOAD] Could not remove ${upload.key}:`, error);
+    }
   }
 }
 
@@ -90,41 +152,14 @@ async function saveFile(
   type?: 'plant' | 'journal_entry' | 'seed' | 'avatar',
   plantId?: string
 ): Promise<string> {
-  const id = randomBytes(16).toString('hex');
-  const extension = mimetype.split('/')[1];
-  const filename = `${userId || 'anonymous'}/${Date.now()}_${id}.${extension}`;
-
-  try {
-    // Reescalar imagen a 360p si es una imagen
-    const processedBuffer = await resizeImageTo360p(buffer, mimetype);
+  const file = await uploadFile(buffer, mimetype, userId);
 
-    // Try to upload to Supabase first
-    const publicUrl = await uploadToSupabase(processedBuffer, filename, mimetype);
-
-    // Save to history if userId is provided
-    if (userId && type) {
-      await saveProfileHistory({
-        userId,
-        photoUrl: publicUrl,
-        plantId,
-        type,
-        metadata: {
-          filename,
-          mimetype,
-          size: processedBuffer.length, // Usar tamaño del buffer procesado
-          originalSize: buffer.length, // Guardar tamaño original para referencia
-        },
-      });
-    }
-
-    return publicUrl;
-  } catch (error) {
-    // Fallback to local storage if Supabase fails
-    console.warn('Supabase upload failed, using local storage:', error);
-    const processedBuffer = await resizeImageTo360p(buffer, mimetype);
-    mockFileStorage.set(filename, processedBuffer);
-    return `/uploads/${filename}`;
+  // Save to history if userId is provided
+  if (userId && type) {
+    await recordUpload(file, userId, type, plantId);
   }
+
+  return file.key;
 }
 
 // COPPA Compliance Middleware - Critical security protection
@@ -137,16 +172,17 @@ async function enforceConsentMiddleware(req: any, res: any, next: any) {
   // Skip enforcement for consent-related endpoints themselves
   const exemptPaths = [
     '/api/users', // Initial user creation
-    '/api/verify-consent', // Consent verification
-    '/api/resend-consent-email' // Consent email resend
+    '/api/resend-consent-email', // Consent email resend
+    '/api/consent', // Parent's answer (signed link)
+    '/api/consent/revoke' // Parent's revocation (signed link)
   ];
   
   if (exemptPaths.includes(req.path)) {
     return next();
   }
 
-  // Extract userId from request body or params
-  const userId = req.body?.userId || req.params?.userId || req.body?.id || req.params?.id;
+  // Prefer the authenticated caller, fall back to request body or params
+  const userId = req.currentUser?.id || req.body?.userId || req.params?.userId || req.body?.id || req.params?.id;
   
   if (!userId) {
     // If no userId can be determined, skip enforcement (API will handle validation)
@@ -165,23 +201,20 @@ async function enforceConsentMiddleware(req: any, res: any, next: any) {
     }
 
     // CRITICAL: Block data collection from children without consent
-    // Allow if: (1) consentVerified is true OR (2) parentalConsent is true (terms accepted)
-    if (user.role === 'child' && !user.consentVerified && !user.parentalConsent) {
-      console.warn(`COPPA VIOLATION BLOCKED: Attempted data collection from unverified child user ${userId} on ${req.method} ${req.path}`);
+    // Only a parent's answer to the emailed consent link sets consentVerified, and it must
+    // cover the terms in force (publishing new terms requires the parent to re-confirm)
+    const consentState = user.role === 'child' ? await getConsentState(user) : 'current';
+    if (consentState !== 'current') {
+      console.warn(`COPPA VIOLATION BLOCKED: Attempted data collection from ${consentState === 'outdated' ? 'outdated-consent' : 'unverified'} child user ${userId} on ${req.method} ${req.path}`);
 
       return res.status(403).json({
         message: 'Parental consent required',
-        code: 'CONSENT_REQUIRED',
+        code: consentState === 'outdated' ? 'RECONSENT_REQUIRED' : 'CONSENT_REQUIRED',
         details: 'Children cannot use data collection features without parental consent',
         action: 'redirect_to_consent'
       });
     }
 
-    // Log when using parentalConsent (terms acceptance) instead of full verification
-    if (user.role === 'child' && !user.consentVerified && user.parentalConsent) {
-      console.log(`✅ Child user ${userId} allowed with parentalConsent (terms accepted) on ${req.method} ${req.path}`);
-    }
-
     // User is verified or not a child - proceed
     next();
   } catch (error) {
@@ -230,6 +263,7 @@ async function ensureDefaultData() {
       console.log('⏳ Initializing default data in background...');
       await Promise.all([
         initializeDefaultEmotions(),
+        initializeDefaultPlantSpecies(),
         initializeDefaultAchievements(),
         initializeDefaultRewards()
       ]);
@@ -249,13 +283,52 @@ async function ensureDefaultData() {
 export async function registerRoutes(app: Express): Promise<Server> {
   console.log('🚀 Starting route initialization...');
 
-  // Serve uploaded files
-  app.get('/uploads/:filename', (req, res) => {
-    const file = mockFileStorage.get(req.params.filename);
-    if (!file) {
-      return res.status(404).json({ message: 'File not found' });
+  // Serve files kept in the local store to holders of a signed URL from /api/media
+  app.get('/uploads/:userId/:filename', async (req, res) => {
+    try {
+      const key = `${req.params.userId}/${req.params.filename}`;
+      if (!verifyUploadsToken(key, req.query.token)) {
+        return res.status(403).json({ message: 'El enlace ha caducado', code: 'INVALID_MEDIA_TOKEN' });
+      }
+      const file = await getBlobStore().get(key);
+      if (!file) {
+        return res.status(404).json({ message: 'File not found' });
+      }
+      res.set('Cache-Control', 'private, no-store');
+      res.type(path.extname(req.params.filename)).send(file);
+    } catch (error) {
+      console.error('Error serving uploaded file:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Journal photos and recordings are private: the stored key is exchanged for a
+  // short-lived signed URL once the caller is known to be allowed to see the file
+  // Images accept ?size=thumb|card|full and ?format=jpeg|webp|avif to pick a rendition
+  app.get('/api/media/:userId/:filename', requireAuth, authorize('media:read', subject.mediaOwner()), async (req, res) => {
+    try {
+      const key = `${req.params.userId}/${req.params.filename}`;
+      const reference = await storage.getMediaReference(key);
+      if (!reference) {
+        return res.status(404).json({ message: 'Not found' });
+      }
+      if (normalizeRole(req.currentUser!.role) === 'caregiver' && !reference.visibleToCaregivers) {
+        return res.status(403).json({ message: 'Este archivo es privado', code: 'FORBIDDEN' });
+      }
+
+      // Browsers may reuse the redirect while the signed URL is still valid
+      res.set('Cache-Control', `private, max-age=${Math.max(MEDIA_URL_TTL_SECONDS - 60, 0)}`);
+      const { size, format } = req.query;
+      const renditionKey = await pickRendition(
+        key,
+        isRenditionSize(size) ? size : undefined,
+        isRenditionFormat(format) ? format : undefined
+      );
+      res.redirect(302, await signMediaUrl(renditionKey));
+    } catch (error) {
+      console.error('Error signing media URL:', error);
+      res.status(500).json({ message: 'Server error' });
     }
-    res.send(file);
   });
 
   // User routes
@@ -270,9 +343,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userData = insertUserSchema.parse(req.body);
       console.log('✅ [POST /api/users] User data validated successfully');
 
+      // Only children sign up here: adult accounts (facilitators, caregivers, admins) are created by invitation
+      if (userData.role !== 'child') {
+        return res.status(403).json({
+          message: 'Las cuentas de adulto se crean por invitación',
+          code: 'FORBIDDEN'
+        });
+      }
+
+      // Children sign in with a PIN, only its hash is stored
+      const pinHash = userData.role === 'child' ? await hashSecret(userData.pin) : undefined;
+
+      // A join code places the child in a workshop group, so its facilitators can follow them
+      let groupId: string | null = null;
+      if (userData.role === 'child' && userData.joinCode) {
+        const group = await storage.getWorkshopGroupByJoinCode(userData.joinCode);
+        if (!group) {
+          return res.status(400).json({
+            message: 'El código del grupo no es válido. Pregúntale a tu facilitador.',
+            code: 'INVALID_JOIN_CODE'
+          });
+        }
+        groupId = group.id;
+      }
+
+      // Consent is only granted by the parent through the emailed link, never at sign-up
+      if (userData.role === 'child') {
+        userData.parentalConsent = false;
+        userData.consentVerified = false;
+        userData.parentalConsentDate = null;
+      }
+
       console.log('🔗 [POST /api/users] About to insert user into database...');
       const dbStart = Date.now();
-      const user = await storage.createUser(userData);
+      const user = await storage.createUser(userData, { pinHash, groupId });
       const dbDuration = Date.now() - dbStart;
       console.log(`✅ [POST /api/users] User created successfully in ${dbDuration}ms:`, user.id);
 
@@ -292,9 +396,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Don't fail user creation if plant creation fails
       }
 
+      // Record the child's acceptance of the terms and ask the parent for consent
+      if (user.role === 'child' && userData.role === 'child') {
+        try {
+          await recordTermsAcknowledgment(user, req);
+          await requestParentalConsent(user, userData.parentEmail, req);
+        } catch (consentError) {
+          console.error('⚠️ [POST /api/users] Could not send consent email:', consentError);
+          // The child can resend it from the awaiting-consent screen
+        }
+      }
+
+      // Registration signs the new user in
+      issueSession(res, user);
+
       const totalDuration = Date.now() - requestStart;
       console.log(`✅ [POST /api/users] Request completed in ${totalDuration}ms total`);
-      res.json(user);
+      res.json(toPublicUser(user));
     } catch (error) {
       const totalDuration = Date.now() - requestStart;
       console.error(`❌ [POST /api/users] Error after ${totalDuration}ms:`, error);
@@ -318,102 +436,461 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // COPPA Compliance endpoints
-  app.post('/api/verify-consent', async (req, res) => {
+  // Consent status for the awaiting-consent screen
+  app.get('/api/users/:userId/consent', requireAuth, authorize('profile:read', subject.param('userId')), async (req, res) => {
     try {
-      const { verificationCode, userId } = req.body;
-      
-      if (!verificationCode || typeof verificationCode !== 'string') {
-        return res.status(400).json({ message: 'Verification code required' });
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
       }
-      
-      if (!userId || typeof userId !== 'string') {
-        return res.status(400).json({ message: 'User ID required' });
+
+      const request = await storage.getLatestConsentRequest(user.id);
+      const terms = await getCurrentTerms();
+      res.json({
+        consentVerified: !!user.consentVerified,
+        reconsentRequired: user.role === 'child' && (await getConsentState(user)) === 'outdated',
+        consentTermsVersion: user.consentTermsVersion,
+        currentTermsVersion: terms.version,
+        request: request ? {
+          status: request.status,
+          parentEmail: maskEmail(request.parentEmail),
+          createdAt: request.createdAt,
+          expiresAt: request.expiresAt,
+        } : null,
+      });
+    } catch (error) {
+      console.error('Error fetching consent status:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Send a new consent link to the parent (optionally to a corrected address)
+  app.post('/api/resend-consent-email', requireAuth, async (req, res) => {
+    try {
+      const child = req.currentUser!;
+      if (child.role !== 'child') {
+        return res.status(400).json({ message: 'Consent verification only required for children' });
       }
-      
-      // Simple verification logic for MVP (in production, use secure tokens)
-      const isValidCode = verificationCode.toUpperCase() === 'APPROVED';
-      
-      if (isValidCode) {
-        // Find and update the actual user record
-        const user = await storage.getUser(userId);
-        if (!user) {
-          return res.status(404).json({ message: 'User not found' });
-        }
-        
-        if (user.role !== 'child') {
-          return res.status(400).json({ message: 'Consent verification only required for children' });
+
+      if (await getConsentState(child) === 'current') {
+        return res.status(400).json({ message: 'El consentimiento ya fue otorgado', code: 'ALREADY_VERIFIED' });
+      }
+
+      const parentEmailResult = z.string().trim().email().safeParse(req.body.parentEmail ?? child.parentEmail);
+      if (!parentEmailResult.success) {
+        return res.status(400).json({
+          message: 'Ingresa el correo de un adulto responsable',
+          code: 'PARENT_EMAIL_REQUIRED'
+        });
+      }
+
+      // Avoid flooding the parent's inbox
+      const latest = await storage.getLatestConsentRequest(child.id);
+      if (latest?.createdAt && Date.now() - new Date(latest.createdAt).getTime() < CONSENT_RESEND_COOLDOWN_MS) {
+        return res.status(429).json({
+          message: 'Espera unos minutos antes de volver a enviar el correo',
+          code: 'TOO_SOON'
+        });
+      }
+
+      const request = await requestParentalConsent(child, parentEmailResult.data, req);
+      res.json({
+        message: 'Consent email resent successfully',
+        parentEmail: maskEmail(request.parentEmail),
+      });
+    } catch (error) {
+      console.error('Error resending consent email:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Parent-facing consent page data (public, the signed token is the credential)
+  app.get('/api/consent', async (req, res) => {
+    try {
+      const token = typeof req.query.token === 'string' ? req.query.token : '';
+      const request = token ? await getConsentRequestFromToken(token) : undefined;
+      if (!request) {
+        return res.status(404).json({ message: 'El enlace no es válido', code: 'INVALID_TOKEN' });
+      }
+
+      const child = await storage.getUser(request.userId);
+      const terms = await storage.getTermsVersion(request.termsVersion);
+      const expired = request.status === 'pending' && new Date(request.expiresAt).getTime() < Date.now();
+
+      res.json({
+        childAlias: child?.alias ?? '',
+        childAge: child?.age ?? null,
+        status: expired ? 'expired' : request.status,
+        termsVersion: request.termsVersion,
+        termsSummary: terms?.summary ?? null,
+        isReconsent: !!child?.consentTermsVersion && child.consentTermsVersion !== request.termsVersion,
+        expiresAt: request.expiresAt,
+        respondedAt: request.respondedAt,
+      });
+    } catch (error) {
+      console.error('Error fetching consent request:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Parent grants or denies consent
+  app.post('/api/consent', async (req, res) => {
+    try {
+      const { token, decision, consenterName, acceptTerms } = req.body;
+      const request = typeof token === 'string' ? await getConsentRequestFromToken(token) : undefined;
+      if (!request) {
+        return res.status(404).json({ message: 'El enlace no es válido', code: 'INVALID_TOKEN' });
+      }
+
+      if (decision !== 'grant' && decision !== 'deny') {
+        return res.status(400).json({ message: 'Decisión inválida' });
+      }
+
+      if (!consenterName || typeof consenterName !== 'string' || consenterName.trim().length < 2) {
+        return res.status(400).json({ message: 'Escribe tu nombre completo' });
+      }
+
+      if (decision === 'grant' && acceptTerms !== true) {
+        return res.status(400).json({ message: 'Debes aceptar los términos para autorizar' });
+      }
+
+      const answered = await storage.recordConsentDecision(request.id, {
+        granted: decision === 'grant',
+        consenterName: consenterName.trim().slice(0, 100),
+        consenterIp: req.ip ?? null,
+        consenterUserAgent: req.get('user-agent') ?? null,
+      });
+
+      if (!answered) {
+        return res.status(409).json({
+          message: 'Esta solicitud ya fue respondida o venció',
+          code: 'REQUEST_CLOSED'
+        });
+      }
+
+      console.log(`✅ [CONSENT] Request ${answered.id} ${answered.status} for child ${answered.userId}`);
+
+      if (answered.status === 'granted') {
+        const child = await storage.getUser(answered.userId);
+        if (child) {
+          await sendConsentConfirmation(answered, child);
         }
-        
-        // Update user consent status in database
-        const updatedUser = await storage.updateUserConsent(userId, true);
-        
-        console.log(`COPPA CONSENT VERIFIED: User ${userId} (${user.alias}) has verified parental consent`);
-        
-        res.json(updatedUser);
-      } else {
-        res.status(400).json({ message: 'Invalid verification code' });
       }
+
+      res.json({ status: answered.status });
     } catch (error) {
-      console.error('Error verifying consent:', error);
+      console.error('Error recording consent:', error);
       res.status(500).json({ message: 'Server error' });
     }
   });
 
-  app.post('/api/resend-consent-email', async (req, res) => {
+  // Parent revokes consent from the link in the confirmation email
+  app.post('/api/consent/revoke', async (req, res) => {
     try {
-      // In production, this would trigger an actual email send
-      // For MVP, just return success
-      res.json({ message: 'Consent email resent successfully' });
+      const { token } = req.body;
+      const request = typeof token === 'string' ? await getConsentRequestFromRevokeToken(token) : undefined;
+      if (!request) {
+        return res.status(404).json({ message: 'El enlace no es válido', code: 'INVALID_TOKEN' });
+      }
+
+      if (request.status === 'revoked') {
+        return res.json({ status: 'revoked' });
+      }
+
+      const revoked = await storage.revokeConsent(request.id, {
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('user-agent') ?? null,
+      });
+      if (!revoked) {
+        return res.status(409).json({
+          message: 'Esta autorización ya no está vigente',
+          code: 'REQUEST_CLOSED'
+        });
+      }
+
+      console.log(`🚫 [CONSENT] Request ${revoked.id} revoked for child ${revoked.userId}`);
+      res.json({ status: revoked.status });
     } catch (error) {
-      console.error('Error resending consent email:', error);
+      console.error('Error revoking consent:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // The parent who granted consent asks to follow the child - links (or creates) their caregiver account
+  app.post('/api/consent/guardian', async (req, res) => {
+    try {
+      const { token } = req.body;
+      const request = typeof token === 'string' ? await getConsentRequestFromToken(token) : undefined;
+      if (!request || request.status !== 'granted') {
+        return res.status(404).json({ message: 'El enlace no es válido', code: 'INVALID_TOKEN' });
+      }
+
+      let caregiver = await storage.getUserByEmail(request.parentEmail);
+      if (caregiver && caregiver.role !== 'caregiver') {
+        return res.status(409).json({
+          message: 'Este correo ya pertenece a otra cuenta de Semillita',
+          code: 'EMAIL_IN_USE'
+        });
+      }
+
+      if (!caregiver) {
+        caregiver = await storage.createCaregiver({
+          alias: request.consenterName || 'Adulto responsable',
+          email: request.parentEmail,
+        });
+      }
+
+      await storage.addGuardianship(caregiver.id, request.userId, request.id);
+
+      // New caregivers choose their password from the emailed invitation
+      if (!caregiver.passwordHash) {
+        await sendPasswordSetupEmail(caregiver, { invitation: true });
+      }
+
+      console.log(`👪 [CAREGIVER] ${caregiver.id} linked to child ${request.userId}`);
+      res.json({ linked: true, needsPassword: !caregiver.passwordHash });
+    } catch (error) {
+      console.error('Error linking caregiver:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Consent ledger for audits - every consent action for a child, oldest first
+  app.get('/api/users/:userId/consent-events', requireAuth, authorize('consent:audit', subject.param('userId')), async (req, res) => {
+    try {
+      const events = await storage.getConsentEvents(req.params.userId);
+      res.json(events);
+    } catch (error) {
+      console.error('Error fetching consent events:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Terms of use versions
+  app.get('/api/terms/current', async (req, res) => {
+    try {
+      res.json(await getCurrentTerms());
+    } catch (error) {
+      console.error('Error fetching current terms:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/admin/terms-versions', requireAuth, authorize('terms:manage'), async (req, res) => {
+    try {
+      res.json(await storage.getTermsVersions());
+    } catch (error) {
+      console.error('Error fetching terms versions:', error);
       res.status(500).json({ message: 'Server error' });
     }
   });
 
-  // Get user by alias (for login) - CRITICAL: Must be fast for serverless
-  app.get('/api/users', async (req, res) => {
+  // Publishing a version sends every child with older consent back to the consent screen
+  app.post('/api/admin/terms-versions', requireAuth, authorize('terms:manage'), async (req, res) => {
+    try {
+      const termsData = insertTermsVersionSchema.parse(req.body);
+
+      if (await storage.getTermsVersion(termsData.version)) {
+        return res.status(409).json({
+          message: 'Esa versión de los términos ya existe',
+          code: 'TERMS_VERSION_EXISTS'
+        });
+      }
+
+      const terms = await storage.publishTermsVersion(termsData, req.currentUser!.id);
+      console.log(`📜 [CONSENT] Terms version ${terms.version} published by ${req.currentUser!.id}`);
+      res.status(201).json(terms);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid terms data', errors: error.errors });
+      }
+      console.error('Error publishing terms version:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Authentication routes
+  app.post('/api/auth/login', async (req, res) => {
     const requestStart = Date.now();
-    console.log(`📥 [GET /api/users] Request started at ${new Date().toISOString()}`);
 
     try {
-      const alias = req.query.alias as string;
-      if (!alias) {
-        console.log(`⚠️ [GET /api/users] Missing alias parameter`);
-        return res.status(400).json({ message: 'Alias query parameter is required' });
+      const { alias, pin } = req.body;
+      if (!alias || typeof alias !== 'string' || !pin || typeof pin !== 'string') {
+        return res.status(400).json({ message: 'Alias y PIN son requeridos' });
       }
 
-      console.log(`🔍 [LOGIN] Searching for user with alias: ${alias}`);
-      console.log(`🔗 [LOGIN] About to query database...`);
-      const dbStart = Date.now();
+      const candidates = (await storage.getUsersByAlias(alias.trim()))
+        .filter(candidate => candidate.role === 'child');
 
-      const user = await storage.getUserByAlias(alias);
+      for (const candidate of candidates) {
+        if (isLockedOut(candidate)) {
+          continue;
+        }
 
-      const dbDuration = Date.now() - dbStart;
-      console.log(`📊 [LOGIN] DB query completed in ${dbDuration}ms`);
+        if (await verifySecret(pin, candidate.pinHash)) {
+          const user = candidate.failedLoginAttempts
+            ? await storage.updateUserLoginState(candidate.id, { failedLoginAttempts: 0, lockedUntil: null })
+            : candidate;
 
-      if (!user) {
-        console.log(`⚠️ [LOGIN] User not found: ${alias}`);
-        return res.json([]); // Return empty array if user not found (matches client expectation)
+          issueSession(res, user);
+          console.log(`✅ [LOGIN] User ${user.id} signed in after ${Date.now() - requestStart}ms`);
+          return res.json(toPublicUser(user));
+        }
       }
 
-      const totalDuration = Date.now() - requestStart;
-      console.log(`✅ [LOGIN] User found in ${totalDuration}ms total`);
-      res.json([user]); // Return array with single user (matches client expectation)
+      // Count the failure against every account that shares this alias
+      await Promise.all(candidates
+        .filter(candidate => candidate.pinHash && !isLockedOut(candidate))
+        .map(candidate => registerFailedLogin(candidate)));
+
+      if (candidates.length > 0 && candidates.every(candidate => !candidate.pinHash)) {
+        return res.status(403).json({
+          message: 'Tu perfil todavía no tiene PIN. Pide a tu facilitador que te asigne uno.',
+          code: 'PIN_NOT_SET'
+        });
+      }
+
+      if (candidates.length > 0 && candidates.every(candidate => isLockedOut(candidate))) {
+        return res.status(429).json({
+          message: 'Demasiados intentos. Espera unos minutos e inténtalo de nuevo.',
+          code: 'LOCKED_OUT'
+        });
+      }
+
+      console.log(`⚠️ [LOGIN] Invalid credentials for alias: ${alias}`);
+      res.status(401).json({
+        message: 'Nombre o PIN incorrecto',
+        code: 'INVALID_CREDENTIALS'
+      });
     } catch (error) {
-      const totalDuration = Date.now() - requestStart;
-      console.error(`❌ [LOGIN] Error after ${totalDuration}ms:`, error);
-      console.error(`❌ [LOGIN] Error stack:`, error instanceof Error ? error.stack : 'No stack');
+      console.error(`❌ [LOGIN] Error after ${Date.now() - requestStart}ms:`, error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Facilitator login (email + password)
+  app.post('/api/auth/facilitator-login', async (req, res) => {
+    try {
+      const { email, password } = req.body;
+      if (!email || typeof email !== 'string' || !password || typeof password !== 'string') {
+        return res.status(400).json({ message: 'Correo y contraseña son requeridos' });
+      }
+
+      // Facilitators, admins and caregivers share the email + password sign-in
+      const facilitator = await storage.getUserByEmail(email);
+      if (!facilitator || !usesPasswordLogin(facilitator.role)) {
+        return res.status(401).json({
+          message: 'Correo o contraseña incorrectos',
+          code: 'INVALID_CREDENTIALS'
+        });
+      }
+
+      if (isLockedOut(facilitator)) {
+        return res.status(429).json({
+          message: 'Demasiados intentos. Espera unos minutos e inténtalo de nuevo.',
+          code: 'LOCKED_OUT'
+        });
+      }
+
+      if (!(await verifySecret(password, facilitator.passwordHash))) {
+        if (facilitator.passwordHash) {
+          await registerFailedLogin(facilitator);
+        }
+        return res.status(401).json({
+          message: 'Correo o contraseña incorrectos',
+          code: 'INVALID_CREDENTIALS'
+        });
+      }
+
+      const user = facilitator.failedLoginAttempts
+        ? await storage.updateUserLoginState(facilitator.id, { failedLoginAttempts: 0, lockedUntil: null })
+        : facilitator;
+
+      issueSession(res, user);
+      console.log(`✅ [LOGIN] ${user.role} ${user.id} signed in`);
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error('Error in facilitator login:', error);
       res.status(500).json({ message: 'Server error' });
     }
   });
 
-  app.get('/api/users/:id', async (req, res) => {
+  // Request a password reset link (always answers the same way to avoid revealing accounts)
+  app.post('/api/auth/password-reset/request', async (req, res) => {
+    try {
+      const { email } = req.body;
+      if (!email || typeof email !== 'string') {
+        return res.status(400).json({ message: 'El correo es requerido' });
+      }
+
+      const facilitator = await storage.getUserByEmail(email);
+      if (facilitator && usesPasswordLogin(facilitator.role)) {
+        await sendPasswordSetupEmail(facilitator);
+        console.log(`🔑 [PASSWORD RESET] Link sent to ${facilitator.role} ${facilitator.id}`);
+      }
+
+      res.json({ message: 'Si el correo está registrado, recibirás un enlace para restablecer tu contraseña.' });
+    } catch (error) {
+      console.error('Error requesting password reset:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Set a new password with a reset or invitation token
+  app.post('/api/auth/password-reset/confirm', async (req, res) => {
+    try {
+      const { token, password } = req.body;
+      if (!token || typeof token !== 'string') {
+        return res.status(400).json({ message: 'El enlace no es válido' });
+      }
+
+      const passwordResult = facilitatorPasswordSchema.safeParse(password);
+      if (!passwordResult.success) {
+        return res.status(400).json({ message: passwordResult.error.errors[0].message });
+      }
+
+      const resetToken = await storage.consumePasswordResetToken(hashToken(token));
+      if (!resetToken) {
+        return res.status(400).json({
+          message: 'El enlace no es válido o ya venció. Solicita uno nuevo.',
+          code: 'INVALID_TOKEN'
+        });
+      }
+
+      const user = await storage.updateUserPassword(resetToken.userId, await hashSecret(passwordResult.data));
+      console.log(`🔑 [PASSWORD RESET] Password updated for user ${user.id}`);
+
+      res.json({ message: 'Contraseña actualizada. Ya puedes iniciar sesión.' });
+    } catch (error) {
+      console.error('Error confirming password reset:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.post('/api/auth/logout', (req, res) => {
+    clearSession(res);
+    res.json({ message: 'Sesión cerrada' });
+  });
+
+  app.get('/api/auth/me', requireAuth, async (req, res) => {
+    try {
+      const user = req.currentUser!;
+      // Children whose consent predates the current terms are sent back to the consent screen
+      const reconsentRequired = user.role === 'child' && (await getConsentState(user)) === 'outdated';
+      res.json({ ...toPublicUser(user), reconsentRequired });
+    } catch (error) {
+      console.error('Error fetching session user:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/users/:id', requireAuth, authorize('profile:read', subject.param('id')), async (req, res) => {
     try {
       const user = await storage.getUser(req.params.id);
       if (!user) {
         return res.status(404).json({ message: 'User not found' });
       }
-      res.json(user);
+      res.json(toPublicUser(user));
     } catch (error) {
       console.error('Error fetching user:', error);
       res.status(500).json({ message: 'Server error' });
@@ -421,7 +898,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update user accessibility settings
-  app.patch('/api/users/:id/accessibility-settings', async (req, res) => {
+  app.patch('/api/users/:id/accessibility-settings', requireAuth, authorize('profile:update', subject.param('id')), async (req, res) => {
     try {
       const userId = req.params.id;
       const { accessibilitySettings } = req.body;
@@ -431,7 +908,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updatedUser = await storage.updateUserAccessibilitySettings(userId, accessibilitySettings);
-      res.json(updatedUser);
+      res.json(toPublicUser(updatedUser));
     } catch (error) {
       console.error('Error updating accessibility settings:', error);
       res.status(500).json({ message: 'Server error' });
@@ -439,48 +916,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dashboard endpoint - aggregates all user data
-  app.get('/api/dashboard/:userId', async (req, res) => {
+  app.get('/api/dashboard/:userId', requireAuth, authorize('profile:read', subject.param('userId')), async (req, res) => {
     try {
       const userId = req.params.userId;
+      const isSelf = req.currentUser!.id === userId;
 
       // Ensure default data is initialized before fetching
       await ensureDefaultData();
 
       // Fetch all dashboard data in parallel
-      const [user, plant, latestEntry, userAchievements, allAchievements, seeds, journalEntries] = await Promise.all([
+      const [user, plant, latestEntry, userAchievements, allAchievements, seeds, journalEntries, unreadNotifications, achievementFacts, streak] = await Promise.all([
         storage.getUser(userId),
         storage.getActivePlant(userId),
-        storage.getLatestJournalEntry(userId),
+        storage.getLatestJournalEntry(userId, isSelf), // Private entries are only shown to the child
         storage.getUserAchievements(userId),
         storage.getAllAchievements(),
         storage.getUserSeeds(userId),
         storage.getUserJournalEntries(userId, 1000), // Get all entries to count them
+        storage.countUnreadNotifications(userId),
+        getAchievementFacts(userId),
+        getStreak(userId),
       ]);
 
       if (!user) {
         return res.status(404).json({ message: 'User not found' });
       }
 
+      // The plant comes with its growth stage and health, brought up to date
+      const plantWithLifecycle = plant ? await refreshPlantLifecycle(plant) : plant;
+
       // Add journal entries count to user data
       const userWithCount = {
-        ...user,
+        ...toPublicUser(user),
         journalEntriesCount: journalEntries.length,
       };
 
-      // Map achievements with earned status
+      // Map achievements with earned status and progress towards their rule
       const earnedIds = new Set(userAchievements.map(ua => ua.achievementId));
-      const achievementsWithStatus = allAchievements.map(achievement => ({
-        ...achievement,
-        earned: earnedIds.has(achievement.id),
-        earnedAt: userAchievements.find(ua => ua.achievementId === achievement.id)?.earnedAt,
-      }));
+      const achievementsWithStatus = allAchievements.map(achievement => {
+        const earned = earnedIds.has(achievement.id);
+        const rule = parseRule(achievement);
+        const progress = earned
+          ? { percent: 100, detail: null }
+          : rule && achievementFacts
+            ? ruleProgress(rule, achievementFacts, achievement.pointsRequired)
+            : { percent: 0, detail: null };
+        return {
+          ...achievement,
+          earned,
+          earnedAt: userAchievements.find(ua => ua.achievementId === achievement.id)?.earnedAt,
+          progress: progress.percent,
+          progressDetail: progress.detail,
+        };
+      });
 
       res.json({
         user: userWithCount,
-        plant,
+        plant: plantWithLifecycle,
         latestEntry,
         achievements: achievementsWithStatus,
         seeds,
+        unreadNotifications,
+        streak,
       });
     } catch (error) {
       console.error('Error fetching dashboard data:', error);
@@ -489,35 +986,154 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Plant routes with COPPA protection for data collection
-  app.get('/api/users/:userId/plant', async (req, res) => {
+  app.get('/api/users/:userId/plant', requireAuth, authorize('plant:read', subject.param('userId')), async (req, res) => {
     try {
       const plant = await storage.getActivePlant(req.params.userId);
-      res.json(plant);
+      res.json(plant ? await refreshPlantLifecycle(plant) : plant);
     } catch (error) {
       console.error('Error fetching plant:', error);
       res.status(500).json({ message: 'Server error' });
     }
   });
 
-  app.post('/api/plants', enforceConsentMiddleware, async (req, res) => {
+  // Start a new plant, optionally from a seed in the child's vault; the current one is archived
+  app.post('/api/plants', requireAuth, authorize('plant:write'), enforceConsentMiddleware, async (req, res) => {
     try {
-      const plantData = insertPlantSchema.parse(req.body);
-      const plant = await storage.createPlant(plantData);
+      // Plants are always created for the authenticated caller
+      const userId = req.currentUser!.id;
+      const { name, type, seedId, speciesId } = startPlantSchema.parse(req.body);
+
+      const seed = seedId ? await storage.getSeedById(seedId) : undefined;
+      if (seedId && (!seed || seed.userId !== userId)) {
+        return res.status(404).json({ message: 'Semilla no encontrada', code: 'SEED_NOT_FOUND' });
+      }
+
+      const pickedSpeciesId = speciesId ?? seed?.speciesId;
+      const species = pickedSpeciesId ? await storage.getPlantSpecies(pickedSpeciesId) : undefined;
+      if (speciesId && !species) {
+        return res.status(404).json({ message: 'Especie no encontrada', code: 'SPECIES_NOT_FOUND' });
+      }
 
-      // Check and award achievements when plant is created
-      const newAchievements = await storage.checkAndAwardAchievements(plantData.userId);
+      const { plant, archived } = await storage.startPlant({
+        userId,
+        name,
+        type: type ?? seed?.type ?? species?.commonName ?? 'seedling',
+        seedId: seed?.id ?? null,
+        speciesId: species?.id ?? null,
+        status: 'growing',
+      });
+      console.log(`🌱 [PLANTS] User ${userId} planted ${plant.id}${seed ? ` from seed ${seed.id}` : ''}${archived.length ? `, archived ${archived.map(p => p.id).join(', ')}` : ''}`);
+
+      const newAchievements = await recordAchievementEvent(userId, { type: 'plant_created' });
 
       res.json({
         plant,
+        archivedPlants: archived,
         newAchievements: newAchievements.length > 0 ? newAchievements : undefined
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
       console.error('Error creating plant:', error);
       res.status(400).json({ message: 'Invalid plant data' });
     }
   });
 
-  app.patch('/api/plants/:id/photo', createMultipartConsentMiddleware(upload.single('photo')), async (req, res) => {
+  // Retire a plant; it stays in the garden's history with its entries
+  app.post('/api/plants/:id/archive', requireAuth, authorize('plant:write', subject.plantOwner('id')), enforceConsentMiddleware, async (req, res) => {
+    try {
+      const plant = await storage.archivePlant(req.params.id);
+      if (!plant) {
+        return res.status(409).json({ message: 'Esta planta ya está en tu jardín de recuerdos', code: 'PLANT_NOT_ACTIVE' });
+      }
+      console.log(`🍂 [PLANTS] Plant ${plant.id} archived`);
+      res.json(plant);
+    } catch (error) {
+      console.error('Error archiving plant:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Quick care log (watering, sunlight...): kept out of the journal, but it counts as caring for the plant
+  app.post('/api/plants/:id/care', requireAuth, authorize('plant:write', subject.plantOwner('id')), enforceConsentMiddleware, async (req, res) => {
+    try {
+      const { type, heightCm, note } = logPlantCareSchema.parse(req.body);
+
+      const plant = await storage.getPlantById(req.params.id);
+      if (!plant) {
+        return res.status(404).json({ message: 'Planta no encontrada', code: 'PLANT_NOT_FOUND' });
+      }
+      if (!plant.isActive) {
+        return res.status(409).json({ message: 'Esta planta ya está en tu jardín de recuerdos', code: 'PLANT_NOT_ACTIVE' });
+      }
+
+      const event = await storage.createPlantCareEvent({
+        plantId: plant.id,
+        userId: plant.userId,
+        type,
+        heightCm: type === 'measured' ? heightCm : null,
+        note: note || null,
+      }, await userTimeZone(plant.userId));
+      if (event.pointsEarned > 0) {
+        await storage.updateUserPoints(plant.userId, event.pointsEarned);
+      }
+      console.log(`💧 [PLANTS] Plant ${plant.id} care logged: ${type} (+${event.pointsEarned} points)`);
+
+      const newAchievements = await recordAchievementEvent(plant.userId, { type: 'plant_care_logged', careType: type });
+
+      res.json({
+        event,
+        plant: await refreshPlantLifecycle(plant),
+        newAchievements: newAchievements.length > 0 ? newAchievements : undefined
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error('Error logging plant care:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // A plant's care log, newest first
+  app.get('/api/plants/:id/care', requireAuth, authorize('plant:read', subject.plantOwner('id')), async (req, res) => {
+    try {
+      const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string) || 20, 100) : 20;
+      res.json(await storage.getPlantCareEvents(req.params.id, limit));
+    } catch (error) {
+      console.error('Error fetching plant care:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // A plant's photos in order, for the time-lapse and the first vs latest comparison
+  app.get('/api/plants/:id/timelapse', requireAuth, authorize('plant:read', subject.plantOwner('id')), async (req, res) => {
+    try {
+      const plant = await storage.getPlantById(req.params.id);
+      if (!plant) {
+        return res.status(404).json({ message: 'Planta no encontrada', code: 'PLANT_NOT_FOUND' });
+      }
+      res.json(await getPlantTimelapse(plant));
+    } catch (error) {
+      console.error('Error fetching plant time-lapse:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Every plant of the user's garden, newest first, with entry counts
+  app.get('/api/users/:userId/plants', requireAuth, authorize('plant:read', subject.param('userId')), async (req, res) => {
+    try {
+      const plants = await storage.getPlantHistory(req.params.userId);
+      // Only the active plant keeps growing; archived ones are shown as they were left
+      res.json(await Promise.all(plants.map(plant => plant.isActive ? refreshPlantLifecycle(plant) : plant)));
+    } catch (error) {
+      console.error('Error fetching plant history:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.patch('/api/plants/:id/photo', requireAuth, authorize('plant:write', subject.plantOwner('id')), createMultipartConsentMiddleware(upload.single('photo')), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: 'No photo provided' });
@@ -529,6 +1145,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Plant not found' });
       }
 
+      if (plant.userId !== req.currentUser!.id) {
+        return res.status(403).json({ message: 'No tienes permiso para modificar esta planta', code: 'FORBIDDEN' });
+      }
+
       const photoUrl = await saveFile(
         req.file.buffer,
         req.file.mimetype,
@@ -556,58 +1176,140 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Plant species catalog, for picking a seed's or plant's type and for care guides
+  app.get('/api/plant-species', async (req, res) => {
+    try {
+      await ensureDefaultData(); // Lazy initialization
+      const species = await storage.getAllPlantSpecies();
+      res.json(species);
+    } catch (error) {
+      console.error('Error fetching plant species:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
   // Journal entry routes with COPPA protection
-  app.post('/api/journal-entries', createMultipartConsentMiddleware(upload.fields([
+  app.post('/api/journal-entries', requireAuth, authorize('journal:write'), createMultipartConsentMiddleware(upload.fields([
     { name: 'photo', maxCount: 1 },
     { name: 'audio', maxCount: 1 }
   ])), async (req, res) => {
+    // Files uploaded for this request, and the entry once it is saved
+    const uploads: UploadedFile[] = [];
+    let entry: JournalEntry | undefined;
+
     try {
       let photoUrl: string | undefined;
       let audioUrl: string | undefined;
 
       const files = req.files as { [fieldname: string]: Express.Multer.File[] };
-      const userId = req.body.userId;
-      const plantId = req.body.plantId;
+      const userId = req.currentUser!.id;
+      let plantId: string | undefined = req.body.plantId || undefined;
 
-      if (files?.photo?.[0]) {
-        photoUrl = await saveFile(
-          files.photo[0].buffer,
-          files.photo[0].mimetype,
-          userId,
-          'journal_entry',
-          plantId
-        );
+      // Replays from the offline outbox get the original entry back, without points
+      const idempotencyKey = req.get('Idempotency-Key');
+      if (idempotencyKey !== undefined && !IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey)) {
+        return res.status(400).json({ message: 'Idempotency-Key inválida', code: 'INVALID_IDEMPOTENCY_KEY' });
+      }
+      if (idempotencyKey) {
+        const existing = await storage.getJournalEntryByIdempotencyKey(userId, idempotencyKey);
+        if (existing) {
+          console.log(`🔁 [JOURNAL] Replayed entry ${existing.id} for key ${idempotencyKey}`);
+          return res.json({ entry: existing, replayed: true });
+        }
       }
 
+      // Entries can only be attached to the caller's own plant
+      if (plantId) {
+        const plant = await storage.getPlantById(plantId);
+        if (!plant || plant.userId !== userId) {
+          return res.status(403).json({ message: 'No tienes permiso para usar esta planta', code: 'FORBIDDEN' });
+        }
+      } else {
+        // Entries without a plant belong to the one growing now
+        plantId = (await storage.getActivePlant(userId))?.id;
+      }
+
+      // Voice notes are converted before anything is stored, so a broken recording saves nothing
+      let audio: ProcessedAudio | undefined;
       if (files?.audio?.[0]) {
-        audioUrl = await saveFile(
-          files.audio[0].buffer,
-          files.audio[0].mimetype,
-          userId,
-          'journal_entry',
-          plantId
-        );
+        try {
+          audio = await processAudio(files.audio[0].buffer);
+        } catch (error) {
+          if (!(error instanceof AudioProcessingError)) {
+            throw error;
+          }
+          console.warn(`⚠️ [AUDIO] Rejected recording from ${userId}: ${error.message}`);
+          return res.status(400).json({
+            message: error.code === 'EMPTY_AUDIO'
+              ? 'No se escucha nada en la grabación, intenta de nuevo'
+              : 'No pudimos procesar la grabación',
+            code: error.code
+          });
+        }
+      }
+
+      // The history is written once the entry exists, so a discarded upload leaves none behind
+      if (files?.photo?.[0]) {
+        const photo = await uploadFile(files.photo[0].buffer, files.photo[0].mimetype, userId);
+        photoUrl = photo.key;
+        uploads.push(photo);
+      }
+
+      if (audio) {
+        const audioFile = await uploadFile(audio.data, PROCESSED_AUDIO_MIMETYPE, userId);
+        audioUrl = audioFile.key;
+        uploads.push(audioFile);
       }
 
       const entryData = insertJournalEntrySchema.parse({
         ...req.body,
+        userId,
+        plantId: plantId ?? null,
         photoUrl,
         audioUrl,
+        audioDurationMs: audio?.durationMs,
+        audioPeaks: audio?.peaks,
+        idempotencyKey,
         pointsEarned: 10, // Default points for entry
       });
 
-      const entry = await storage.createJournalEntry(entryData);
+      try {
+        entry = await storage.createJournalEntry(entryData, parseDraftedAt(req.body.draftedAt));
+      } catch (error) {
+        // The same entry arrived twice at once: the first request won, drop this copy's files
+        const isDuplicate = error instanceof postgres.PostgresError && error.code === '23505';
+        const existing = isDuplicate && idempotencyKey
+          ? await storage.getJournalEntryByIdempotencyKey(userId, idempotencyKey)
+          : undefined;
+        if (!existing) {
+          throw error;
+        }
+        await discardUploads(uploads);
+        return res.json({ entry: existing, replayed: true });
+      }
+
+      for (const upload of uploads) {
+        await recordUpload(upload, userId, 'journal_entry', plantId);
+      }
 
       // Update user points
       await storage.updateUserPoints(entryData.userId, 10);
 
       // Update plant's latest photo if a photo was uploaded and plantId exists
-      if (photoUrl && plantId) {
+      // Photos of private entries stay in the journal: the plant is visible to the child's adults
+      if (photoUrl && plantId && !entry.isPrivate) {
         await storage.updatePlantPhoto(plantId, photoUrl);
       }
 
-      // Check and award any achievements the user has earned
-      const newAchievements = await storage.checkAndAwardAchievements(entryData.userId);
+      // Streaks and time-of-day achievements follow the time zone of the device the child writes on
+      const timezone = updateNotificationPreferencesSchema.shape.timezone.safeParse(req.body.timezone);
+      if (timezone.success && timezone.data && timezone.data !== (await storage.getNotificationPreferences(userId))?.timezone) {
+        await storage.updateNotificationPreferences(userId, { timezone: timezone.data });
+      }
+
+      // Replayed entries returned above were already counted
+      const newAchievements = await recordAchievementEvent(entryData.userId, { type: 'journal_entry_created', entry });
+      await refreshActivePlant(entryData.userId);
 
       res.json({
         entry,
@@ -615,11 +1317,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     } catch (error) {
       console.error('Error creating journal entry:', error);
-      res.status(400).json({ message: 'Invalid entry data' });
+      // Without a saved entry nothing points at the uploaded files
+      if (!entry) {
+        await discardUploads(uploads);
+      }
+      // Only invalid data is a 400: the offline outbox gives up on 4xx and keeps retrying the rest
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0]?.message || 'Invalid entry data', code: 'INVALID_ENTRY' });
+      }
+      res.status(500).json({ message: 'Server error' });
     }
   });
 
-  app.get('/api/users/:userId/journal-entries', async (req, res) => {
+  app.get('/api/users/:userId/journal-entries', requireAuth, authorize('journal:read', subject.param('userId')), async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
       const entries = await storage.getUserJournalEntries(req.params.userId, limit);
@@ -630,7 +1340,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/users/:userId/journal-entries/latest', async (req, res) => {
+  app.get('/api/users/:userId/journal-entries/latest', requireAuth, authorize('journal:read', subject.param('userId')), async (req, res) => {
     try {
       const entry = await storage.getLatestJournalEntry(req.params.userId);
       res.json(entry);
@@ -641,7 +1351,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Seed routes
-  app.get('/api/users/:userId/seeds', async (req, res) => {
+  app.get('/api/users/:userId/seeds', requireAuth, authorize('seeds:read', subject.param('userId')), async (req, res) => {
     try {
       const seeds = await storage.getUserSeeds(req.params.userId);
       res.json(seeds);
@@ -651,10 +1361,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/seeds', createMultipartConsentMiddleware(upload.single('photo')), async (req, res) => {
+  app.post('/api/seeds', requireAuth, authorize('seeds:write'), createMultipartConsentMiddleware(upload.single('photo')), async (req, res) => {
     try {
       let photoUrl: string | undefined;
-      const userId = req.body.userId;
+      const userId = req.currentUser!.id;
 
       if (req.file) {
         photoUrl = await saveFile(
@@ -667,12 +1377,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const seedData = insertSeedSchema.parse({
         ...req.body,
+        speciesId: req.body.speciesId || null, // Multipart forms send an empty string when none was picked
+        userId,
         photoUrl,
         shareCode: generateShareCode(),
       });
 
       const seed = await storage.createSeed(seedData);
-      res.json(seed);
+      const newAchievements = await recordAchievementEvent(userId, { type: 'seed_shared' });
+
+      res.json({
+        ...seed,
+        newAchievements: newAchievements.length > 0 ? newAchievements : undefined
+      });
     } catch (error) {
       console.error('Error creating seed:', error);
       res.status(400).json({ message: 'Invalid seed data' });
@@ -685,7 +1402,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!seed) {
         return res.status(404).json({ message: 'Seed not found' });
       }
-      res.json(seed);
+      // The share code is the permission to see the seed, photo included
+      res.json({ ...seed, photoUrl: seed.photoUrl ? await signMediaUrl(seed.photoUrl) : null });
     } catch (error) {
       console.error('Error fetching seed by share code:', error);
       res.status(500).json({ message: 'Server error' });
@@ -704,7 +1422,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/users/:userId/achievements', async (req, res) => {
+  app.get('/api/users/:userId/achievements', requireAuth, authorize('achievements:read', subject.param('userId')), async (req, res) => {
     try {
       const userAchievements = await storage.getUserAchievements(req.params.userId);
       res.json(userAchievements);
@@ -714,25 +1432,124 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Notification routes with COPPA protection
-  app.post('/api/notifications', enforceConsentMiddleware, async (req, res) => {
+  // Notification routes with COPPA protection
+  app.post('/api/notifications', requireAuth, authorize('notifications:write'), enforceConsentMiddleware, async (req, res) => {
+    try {
+      const { title, message, type } = req.body;
+      const userId = req.currentUser!.id;
+      const notification = await storage.createNotification(userId, title, message, type);
+      res.json(notification);
+    } catch (error) {
+      console.error('Error creating notification:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/users/:userId/notifications', requireAuth, authorize('notifications:read', subject.param('userId')), async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
+      const notifications = await storage.getUserNotifications(req.params.userId, limit);
+      res.json(notifications);
+    } catch (error) {
+      console.error('Error fetching notifications:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Notification center: read state of the caller's inbox
+  app.patch('/api/notifications/read-all', requireAuth, authorize('notifications:write'), async (req, res) => {
+    try {
+      const updated = await storage.markAllNotificationsRead(req.currentUser!.id);
+      res.json({ updated });
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.patch('/api/notifications/:id/read', requireAuth, authorize('notifications:write', subject.notificationOwner('id')), async (req, res) => {
+    try {
+      const notification = await storage.markNotificationRead(req.params.id);
+      res.json(notification);
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Web Push: the browser needs the VAPID public key to subscribe
+  app.get('/api/push/public-key', (req, res) => {
+    const publicKey = getVapidPublicKey();
+    if (!publicKey) {
+      return res.status(503).json({ message: 'Las notificaciones push no están configuradas', code: 'PUSH_NOT_CONFIGURED' });
+    }
+    res.json({ publicKey });
+  });
+
+  app.post('/api/push/subscriptions', requireAuth, authorize('notifications:write'), enforceConsentMiddleware, async (req, res) => {
+    try {
+      const { endpoint, keys } = pushSubscriptionSchema.parse(req.body.subscription);
+      const userId = req.currentUser!.id;
+      await storage.savePushSubscription(userId, {
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        userAgent: req.get('user-agent')?.slice(0, 255) ?? null,
+      });
+
+      // The reminder time is kept, the time zone follows the device the child uses
+      const timezone = updateNotificationPreferencesSchema.shape.timezone.safeParse(req.body.timezone);
+      if (timezone.success && timezone.data) {
+        await storage.updateNotificationPreferences(userId, { timezone: timezone.data });
+      }
+
+      console.log(`🔔 [PUSH] User ${userId} subscribed a browser`);
+      res.status(201).json({ subscribed: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error('Error saving push subscription:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Called on logout and when notifications are turned off, so a shared device stops
+  // receiving the previous child's reminders
+  app.delete('/api/push/subscriptions', requireAuth, async (req, res) => {
+    try {
+      const endpoint = z.string().url().parse(req.body.endpoint);
+      await storage.deletePushSubscription(endpoint, req.currentUser!.id);
+      res.json({ subscribed: false });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error('Error deleting push subscription:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  app.get('/api/users/:userId/notification-preferences', requireAuth, authorize('notifications:read', subject.param('userId')), async (req, res) => {
     try {
-      const { userId, title, message, type } = req.body;
-      const notification = await storage.createNotification(userId, title, message, type);
-      res.json(notification);
+      const preferences = await storage.getNotificationPreferences(req.params.userId);
+      res.json(preferences ?? { userId: req.params.userId, ...DEFAULT_NOTIFICATION_PREFERENCES, lastReminderDate: null });
     } catch (error) {
-      console.error('Error creating notification:', error);
+      console.error('Error fetching notification preferences:', error);
       res.status(500).json({ message: 'Server error' });
     }
   });
 
-  app.get('/api/users/:userId/notifications', async (req, res) => {
+  app.put('/api/users/:userId/notification-preferences', requireAuth, authorize('notifications:write', subject.param('userId')), async (req, res) => {
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
-      const notifications = await storage.getUserNotifications(req.params.userId, limit);
-      res.json(notifications);
+      const data = updateNotificationPreferencesSchema.parse(req.body);
+      const preferences = await storage.updateNotificationPreferences(req.params.userId, data);
+      res.json(preferences);
     } catch (error) {
-      console.error('Error fetching notifications:', error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
+      }
+      console.error('Error updating notification preferences:', error);
       res.status(500).json({ message: 'Server error' });
     }
   });
@@ -749,25 +1566,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/rewards/:id/purchase', enforceConsentMiddleware, async (req, res) => {
+  app.post('/api/rewards/:id/purchase', requireAuth, authorize('rewards:purchase'), enforceConsentMiddleware, async (req, res) => {
     try {
-      const { userId } = req.body;
-      if (!userId) {
-        return res.status(400).json({ message: 'User ID is required' });
-      }
+      const userId = req.currentUser!.id;
 
       const result = await storage.purchaseReward(userId, req.params.id);
-      res.json(result);
+      res.json({ ...result, updatedUser: toPublicUser(result.updatedUser) });
     } catch (error) {
       console.error('Error purchasing reward:', error);
       const message = error instanceof Error ? error.message : 'Server error';
       const statusCode = message.includes('not found') ? 404 : 
-                        message.includes('Insufficient points') || message.includes('already purchased') ? 400 : 500;
+                        message.includes('Insufficient points') || message.includes('already purchased') || message.includes('at maximum') ? 400 : 500;
       res.status(statusCode).json({ message });
     }
   });
 
-  app.get('/api/users/:userId/rewards', async (req, res) => {
+  app.get('/api/users/:userId/rewards', requireAuth, authorize('rewards:read', subject.param('userId')), async (req, res) => {
     try {
       const rewards = await storage.getUserRewards(req.params.userId);
       res.json(rewards);
@@ -778,7 +1592,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // TEMPORARY: Create plant for existing users without one
-  app.post('/api/users/:userId/create-missing-plant', async (req, res) => {
+  app.post('/api/users/:userId/create-missing-plant', requireAuth, authorize('plant:write', subject.param('userId')), async (req, res) => {
     try {
       const userId = req.params.userId;
 
@@ -804,8 +1618,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Permanently delete what has been soft-deleted for longer than the recovery window
+  // (the same job runs from the command line with npm run purge:deleted)
+  app.post('/api/admin/purge-deleted', requireAuth, authorize('admin:maintenance'), async (req, res) => {
+    try {
+      res.json(await purgeExpiredDeletions());
+    } catch (error) {
+      console.error('Error purging deleted data:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Apply the data retention policy now (normally run daily with npm run retention:apply)
+  app.post('/api/admin/retention', requireAuth, authorize('admin:maintenance'), async (req, res) => {
+    try {
+      res.json(await applyRetention({ dryRun: req.body?.dryRun === true }));
+    } catch (error) {
+      console.error('Error applying retention policy:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
   // TEMPORARY: Update professional role to facilitator
-  app.post('/api/migrate-professional-to-facilitator', async (req, res) => {
+  app.post('/api/migrate-professional-to-facilitator', requireAuth, authorize('admin:maintenance'), async (req, res) => {
     try {
       const result = await db
         .update(users)
@@ -816,7 +1651,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         message: 'Migration completed successfully',
         updatedUsers: result.length,
-        users: result
+        users: result.map(user => toPublicUser(user))
       });
     } catch (error) {
       console.error('Error migrating users:', error);
@@ -825,49 +1660,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Profile history routes
-  app.get('/api/users/:userId/profile-history', async (req, res) => {
+  app.get('/api/users/:userId/profile-history', requireAuth, authorize('profile:read', subject.param('userId')), async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
       const history = await getProfileHistory(req.params.userId, limit);
-      res.json(history);
+      if (req.currentUser!.id === req.params.userId) {
+        return res.json(history);
+      }
+      // Other viewers never get the files of private entries
+      const privateKeys = new Set(await storage.getPrivateJournalMediaKeys(req.params.userId));
+      res.json(history.filter(record => !privateKeys.has(record.photo_url)));
     } catch (error) {
       console.error('Error fetching profile history:', error);
       res.status(500).json({ message: 'Server error' });
     }
   });
 
-  // Delete user endpoint (for facilitators to delete children, and for children to delete themselves)
-  app.delete('/api/users/:userId', async (req, res) => {
+  // Full data export (access request) - ZIP with every record and uploaded file for the user
+  app.get('/api/users/:userId/export', requireAuth, authorize('data:export', subject.param('userId')), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.params.userId);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+
+      console.log(`📦 [EXPORT] ${req.currentUser!.role} ${req.currentUser!.id} exporting data for ${user.id}`);
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${exportFilename(user)}"`);
+      // Private entries stay with the child: caregivers get everything else
+      await writeUserExport(user, res, {
+        includePrivate: normalizeRole(req.currentUser!.role) !== 'caregiver',
+      });
+    } catch (error) {
+      console.error('Error exporting user data:', error);
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Delete user endpoint (for facilitators to delete children in their groups, and for users to delete themselves)
+  // The account is soft-deleted: hidden right away, restorable by a facilitator for 30 days, then purged
+  app.delete('/api/users/:userId', requireAuth, authorize('profile:delete', subject.param('userId')), async (req, res) => {
     try {
       const userIdToDelete = req.params.userId;
-      const requestingUserId = req.body.requestingUserId || req.query.requestingUserId;
+      // The requesting user is always resolved from the session
+      const requestingUser = req.currentUser!;
+      const requestingUserId = requestingUser.id;
 
       console.log(`🗑️ [DELETE /api/users/:userId] Request received`);
       console.log(`   - User to delete: ${userIdToDelete}`);
       console.log(`   - Requesting user: ${requestingUserId}`);
-      console.log(`   - Request method: ${req.method}`);
-      console.log(`   - Query params:`, req.query);
-      console.log(`   - Body params:`, req.body);
-
-      if (!requestingUserId) {
-        console.error(`❌ [DELETE /api/users/:userId] Missing requesting user ID`);
-        return res.status(400).json({ message: 'Requesting user ID is required' });
-      }
-
-      // Get the user making the request
-      // Try by ID first, then fallback to alias (for backward compatibility)
-      let requestingUser = await storage.getUser(requestingUserId as string);
-
-      if (!requestingUser) {
-        // Fallback: try to find by alias
-        console.log(`⚠️ [DELETE /api/users/:userId] User not found by ID, trying by alias: ${requestingUserId}`);
-        requestingUser = await storage.getUserByAlias(requestingUserId as string);
-      }
-
-      if (!requestingUser) {
-        console.error(`❌ [DELETE /api/users/:userId] Requesting user not found (tried ID and alias): ${requestingUserId}`);
-        return res.status(404).json({ message: 'Requesting user not found' });
-      }
 
       console.log(`✅ [DELETE /api/users/:userId] Requesting user found: ${requestingUser.alias} (${requestingUser.role})`);
 
@@ -880,34 +1725,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log(`✅ [DELETE /api/users/:userId] User to delete found: ${userToDelete.alias} (${userToDelete.role})`);
 
-      // Authorization check:
-      // 1. Facilitators can delete child users
-      // 2. Children can delete themselves
-      const isFacilitatorDeletingChild = requestingUser.role === 'facilitator' && userToDelete.role === 'child';
+      // Authorization is declared on the route (profile:delete)
       const isUserDeletingThemselves = requestingUserId === userIdToDelete;
 
-      console.log(`🔐 [DELETE /api/users/:userId] Authorization check:`);
-      console.log(`   - Is facilitator deleting child: ${isFacilitatorDeletingChild}`);
-      console.log(`   - Is user deleting themselves: ${isUserDeletingThemselves}`);
-
-      if (!isFacilitatorDeletingChild && !isUserDeletingThemselves) {
-        console.error(`❌ [DELETE /api/users/:userId] Authorization failed`);
-        return res.status(403).json({
-          message: 'No tienes permiso para eliminar este usuario',
-          code: 'FORBIDDEN'
-        });
-      }
-
       console.log(`✅ [DELETE /api/users/:userId] Authorization successful, proceeding with deletion`);
 
-      // Delete the user (cascade will delete all related data)
-      await storage.deleteUser(userIdToDelete);
+      // Hide the user (files and rows are removed by the purge job once the window expires)
+      const deletedUser = await storage.softDeleteUser(userIdToDelete, requestingUserId);
+
+      console.log(`✅ [DELETE /api/users/:userId] User soft-deleted, restorable until ${restorableUntil(deletedUser.deletedAt!).toISOString()}`);
 
-      console.log(`✅ [DELETE /api/users/:userId] User deletion completed successfully`);
+      if (isUserDeletingThemselves) {
+        clearSession(res);
+      }
 
       res.json({
         message: 'Usuario eliminado exitosamente',
-        deletedUserId: userIdToDelete
+        deletedUserId: userIdToDelete,
+        restorableUntil: restorableUntil(deletedUser.deletedAt!)
       });
     } catch (error) {
       console.error('❌ [DELETE /api/users/:userId] Error deleting user:', error);
@@ -915,59 +1750,189 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Mark a journal entry as private (only the child decides; caregivers never see private entries)
+  app.patch('/api/journal-entries/:entryId/privacy', requireAuth, authorize('journal:write', subject.journalEntryOwner('entryId')), async (req, res) => {
+    try {
+      const { isPrivate } = req.body;
+      if (typeof isPrivate !== 'boolean') {
+        return res.status(400).json({ message: 'isPrivate must be a boolean' });
+      }
+
+      const entry = await storage.updateJournalEntryPrivacy(req.params.entryId, isPrivate);
+      res.json(entry);
+    } catch (error) {
+      console.error('Error updating journal entry privacy:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
   // Delete journal entry endpoint (for facilitators and children)
-  app.delete('/api/journal-entries/:entryId', async (req, res) => {
+  app.delete('/api/journal-entries/:entryId', requireAuth, authorize('journal:delete', subject.journalEntryOwner('entryId')), async (req, res) => {
     try {
       const entryId = req.params.entryId;
-      const requestingUserId = req.body.requestingUserId || req.query.requestingUserId;
 
-      if (!requestingUserId) {
-        return res.status(400).json({ message: 'Requesting user ID is required' });
+      // Authorization (own entry, or a child in the facilitator's groups) is declared on the route
+      // Hide the entry (its files are removed by the purge job once the window expires)
+      const entry = await storage.softDeleteJournalEntry(entryId);
+
+      res.json({
+        message: 'Entrada eliminada exitosamente',
+        deletedEntryId: entryId,
+        restorableUntil: restorableUntil(entry.deletedAt!)
+      });
+    } catch (error) {
+      console.error('Error deleting journal entry:', error);
+      res.status(500).json({ message: 'Error al eliminar entrada' });
+    }
+  });
+
+  // Every /api/facilitator route needs a signed-in facilitator, and is logged against them
+  app.use('/api/facilitator', requireAuth, authorize('facilitator:access'), auditFacilitatorAction);
+
+  // List facilitator accounts (admins see all of them)
+  app.get('/api/facilitator/accounts', async (req, res) => {
+    try {
+      // Schools share the deployment: facilitators only see the ones from their own groups
+      const caller = req.currentUser!;
+      const facilitators = await storage.getFacilitators(normalizeRole(caller.role) === 'admin' ? undefined : caller.id);
+      res.json(facilitators.map(facilitator => ({
+        id: facilitator.id,
+        alias: facilitator.alias,
+        email: facilitator.email,
+        hasPassword: !!facilitator.passwordHash,
+        createdAt: facilitator.createdAt,
+      })));
+    } catch (error) {
+      console.error('Error listing facilitators:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Invite a new facilitator (admins only) - the account is created without a password and
+  // the invitation email lets them choose one
+  app.post('/api/facilitator/accounts', authorize('facilitator:invite'), async (req, res) => {
+    try {
+      const data = insertFacilitatorSchema.parse(req.body);
+
+      if (await storage.getUserByEmail(data.email)) {
+        return res.status(409).json({
+          message: 'Ya existe una cuenta con ese correo',
+          code: 'EMAIL_TAKEN'
+        });
       }
 
-      // Get the user making the request
-      // Try by ID first, then fallback to alias (for backward compatibility)
-      let requestingUser = await storage.getUser(requestingUserId as string);
+      const facilitator = await storage.createFacilitator(data);
+      await sendPasswordSetupEmail(facilitator, { invitation: true });
+      console.log(`✅ [FACILITATOR] ${req.currentUser!.id} invited facilitator ${facilitator.id}`);
 
-      if (!requestingUser) {
-        // Fallback: try to find by alias
-        requestingUser = await storage.getUserByAlias(requestingUserId as string);
+      res.status(201).json(toPublicUser(facilitator));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
       }
+      console.error('Error inviting facilitator:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Workshop groups the facilitator belongs to
+  app.get('/api/facilitator/groups', async (req, res) => {
+    try {
+      const groups = await storage.getFacilitatorGroups(req.currentUser!.id);
+      res.json(groups);
+    } catch (error) {
+      console.error('Error fetching facilitator groups:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
 
-      if (!requestingUser) {
-        return res.status(404).json({ message: 'Requesting user not found' });
+  // Create a workshop group (the creator becomes its first facilitator)
+  app.post('/api/facilitator/groups', async (req, res) => {
+    try {
+      const data = insertWorkshopGroupSchema.parse(req.body);
+      const group = await storage.createWorkshopGroup(data, req.currentUser!.id);
+      console.log(`✅ [GROUPS] Facilitator ${req.currentUser!.id} created group ${group.id}`);
+      res.status(201).json(group);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
       }
+      console.error('Error creating group:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
 
-      // Get the journal entry to be deleted
-      const entry = await storage.getJournalEntryById(entryId);
-      if (!entry) {
-        return res.status(404).json({ message: 'Entrada no encontrada' });
+  // Create an achievement (admins only); its rule is checked from then on for every child
+  app.post('/api/facilitator/achievements', authorize('achievements:manage'), async (req, res) => {
+    try {
+      const { rule, ...data } = createAchievementSchema.parse(req.body);
+      const achievement = await storage.createAchievement({ ...data, condition: JSON.stringify(rule) });
+      console.log(`✅ [ACHIEVEMENTS] Admin ${req.currentUser!.id} created achievement ${achievement.id}`);
+      res.status(201).json(achievement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message, errors: error.errors });
       }
+      console.error('Error creating achievement:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
 
-      // Authorization check:
-      // 1. Facilitators can delete any journal entry from children
-      // 2. Children can delete their own entries
-      const userToDelete = await storage.getUser(entry.userId);
-      const isFacilitatorDeletingChildEntry = requestingUser.role === 'facilitator' && userToDelete?.role === 'child';
-      const isUserDeletingOwnEntry = requestingUserId === entry.userId;
+  // Add another facilitator to a group the caller belongs to
+  app.post('/api/facilitator/groups/:groupId/facilitators', async (req, res) => {
+    try {
+      const { groupId } = req.params;
+      if (!(await storage.isGroupFacilitator(groupId, req.currentUser!.id))) {
+        return res.status(404).json({ message: 'Grupo no encontrado' });
+      }
 
-      if (!isFacilitatorDeletingChildEntry && !isUserDeletingOwnEntry) {
-        return res.status(403).json({
-          message: 'No tienes permiso para eliminar esta entrada',
-          code: 'FORBIDDEN'
+      const { email } = req.body;
+      const facilitator = typeof email === 'string' ? await storage.getUserByEmail(email) : undefined;
+      if (!facilitator || facilitator.role !== 'facilitator') {
+        return res.status(404).json({
+          message: 'No existe un facilitador con ese correo',
+          code: 'FACILITATOR_NOT_FOUND'
         });
       }
 
-      // Delete the journal entry
-      await storage.deleteJournalEntry(entryId);
+      await storage.addGroupFacilitator(groupId, facilitator.id);
+      console.log(`✅ [GROUPS] Facilitator ${req.currentUser!.id} added ${facilitator.id} to group ${groupId}`);
+      res.json({ message: 'Facilitador agregado al grupo' });
+    } catch (error) {
+      console.error('Error adding facilitator to group:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Replace a group's join code (e.g. after it was shared outside the workshop)
+  app.post('/api/facilitator/groups/:groupId/join-code', async (req, res) => {
+    try {
+      const { groupId } = req.params;
+      if (!(await storage.isGroupFacilitator(groupId, req.currentUser!.id))) {
+        return res.status(404).json({ message: 'Grupo no encontrado' });
+      }
 
-      res.json({
-        message: 'Entrada eliminada exitosamente',
-        deletedEntryId: entryId
-      });
+      const group = await storage.regenerateGroupJoinCode(groupId);
+      res.json(group);
     } catch (error) {
-      console.error('Error deleting journal entry:', error);
-      res.status(500).json({ message: 'Error al eliminar entrada' });
+      console.error('Error regenerating join code:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Move a child to another of the caller's groups
+  app.patch('/api/facilitator/child/:id/group', authorize('child:manage', subject.param('id')), async (req, res) => {
+    try {
+      const { groupId } = req.body;
+      if (!groupId || typeof groupId !== 'string' || !(await storage.isGroupFacilitator(groupId, req.currentUser!.id))) {
+        return res.status(404).json({ message: 'Grupo no encontrado' });
+      }
+
+      const child = await storage.updateUserGroup(req.params.id, groupId);
+      res.json(toPublicUser(child));
+    } catch (error) {
+      console.error('Error moving child to group:', error);
+      res.status(500).json({ message: 'Server error' });
     }
   });
 
@@ -982,7 +1947,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // OPTIMIZED: Single query with all stats included (avoids N+1 query problem)
       console.log(`🔍 [DASHBOARD] Fetching children with stats (optimized single query)...`);
-      const children = await storage.getAllChildrenWithStats();
+      const children = await storage.getAllChildrenWithStats(req.currentUser!.id);
       const queryDuration = Date.now() - requestStart;
       console.log(`✅ [DASHBOARD] Fetched ${children.length} children in ${queryDuration}ms`);
 
@@ -1031,7 +1996,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Child profile endpoint for facilitator
-  app.get('/api/facilitator/child/:id', async (req, res) => {
+  app.get('/api/facilitator/child/:id', authorize('profile:read', subject.param('id')), async (req, res) => {
     try {
       // Run default data initialization in background, don't wait
       ensureDefaultData();
@@ -1063,7 +2028,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.json({
         child: {
-          ...child,
+          ...toPublicUser(child),
           journalEntriesCount,
         },
         plant,
@@ -1077,8 +2042,175 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Set or reset a child's login PIN (for facilitators)
+  app.post('/api/facilitator/child/:id/pin', authorize('child:manage', subject.param('id')), async (req, res) => {
+    try {
+      const { pin } = req.body;
+      if (!pin || typeof pin !== 'string' || !/^\d{4,6}$/.test(pin)) {
+        return res.status(400).json({ message: 'El PIN debe tener entre 4 y 6 números' });
+      }
+
+      const child = await storage.getUser(req.params.id);
+      if (!child || child.role !== 'child') {
+        return res.status(404).json({ message: 'Child not found' });
+      }
+
+      await storage.updateUserPin(child.id, await hashSecret(pin));
+      console.log(`🔑 [PIN] Facilitator ${req.currentUser!.id} reset PIN for child ${child.id}`);
+
+      res.json({ message: 'PIN actualizado exitosamente' });
+    } catch (error) {
+      console.error('Error resetting child PIN:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // What the retention policy would remove or flag next for the caller's groups (nothing is changed)
+  app.get('/api/facilitator/retention-report', async (req, res) => {
+    try {
+      res.json(await applyRetention({ dryRun: true, facilitatorId: req.currentUser!.id }));
+    } catch (error) {
+      console.error('Error building retention report:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Children deleted from the caller's groups that can still be restored
+  app.get('/api/facilitator/deleted-children', async (req, res) => {
+    try {
+      const children = await storage.getDeletedChildren(req.currentUser!.id);
+      res.json(children
+        .filter(child => isRestorable(child.deletedAt))
+        .map(child => ({ ...child, restorableUntil: restorableUntil(child.deletedAt!) })));
+    } catch (error) {
+      console.error('Error fetching deleted children:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Undo a child's deletion within the recovery window
+  app.post('/api/facilitator/child/:id/restore', authorize('child:restore', subject.param('id')), async (req, res) => {
+    try {
+      const child = await storage.getDeletedUser(req.params.id);
+      if (!child || child.role !== 'child') {
+        return res.status(404).json({ message: 'Child not found' });
+      }
+
+      if (!isRestorable(child.deletedAt)) {
+        return res.status(410).json({
+          message: `Solo se puede restaurar durante ${RECOVERY_WINDOW_DAYS} días después de eliminar`,
+          code: 'RECOVERY_WINDOW_EXPIRED'
+        });
+      }
+
+      const restored = await storage.restoreUser(child.id);
+      console.log(`♻️ [RESTORE] Facilitator ${req.currentUser!.id} restored child ${child.id}`);
+      res.json(toPublicUser(restored));
+    } catch (error) {
+      console.error('Error restoring child:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Journal entries deleted from a child's diary that can still be restored
+  app.get('/api/facilitator/child/:id/deleted-entries', authorize('child:restore', subject.param('id')), async (req, res) => {
+    try {
+      const entries = await storage.getDeletedJournalEntries(req.params.id);
+      res.json(entries
+        .filter(entry => isRestorable(entry.deletedAt))
+        .map(entry => ({ ...entry, restorableUntil: restorableUntil(entry.deletedAt!) })));
+    } catch (error) {
+      console.error('Error fetching deleted journal entries:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Undo a journal entry's deletion within the recovery window
+  app.post('/api/facilitator/journal-entries/:entryId/restore', authorize('child:restore', subject.deletedJournalEntryOwner('entryId')), async (req, res) => {
+    try {
+      const entry = await storage.getDeletedJournalEntry(req.params.entryId);
+      if (!entry) {
+        return res.status(404).json({ message: 'Entrada no encontrada' });
+      }
+
+      if (!isRestorable(entry.deletedAt)) {
+        return res.status(410).json({
+          message: `Solo se puede restaurar durante ${RECOVERY_WINDOW_DAYS} días después de eliminar`,
+          code: 'RECOVERY_WINDOW_EXPIRED'
+        });
+      }
+
+      const restored = await storage.restoreJournalEntry(entry.id);
+      console.log(`♻️ [RESTORE] Facilitator ${req.currentUser!.id} restored journal entry ${entry.id}`);
+      res.json(restored);
+    } catch (error) {
+      console.error('Error restoring journal entry:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // Every /api/caregiver route needs a signed-in caregiver; children are reached through guardianships
+  app.use('/api/caregiver', requireAuth, authorize('caregiver:access'));
+
+  // Children linked to the caregiver, with their plant progress
+  app.get('/api/caregiver/children', async (req, res) => {
+    try {
+      const children = await storage.getGuardedChildren(req.currentUser!.id);
+      res.json(children);
+    } catch (error) {
+      console.error('Error fetching caregiver children:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
+  // One child's progress and mood over the last week (private entries excluded)
+  app.get('/api/caregiver/child/:id', authorize('profile:read', subject.param('id')), async (req, res) => {
+    try {
+      const child = await storage.getUser(req.params.id);
+      if (!child || child.role !== 'child') {
+        return res.status(404).json({ message: 'Child not found' });
+      }
+
+      const since = new Date(Date.now() - MOOD_SUMMARY_DAYS * 24 * 60 * 60 * 1000);
+      const [plant, allAchievements, userAchievements, moods] = await Promise.all([
+        storage.getUserPlant(child.id),
+        storage.getAllAchievements(),
+        storage.getUserAchievements(child.id),
+        storage.getMoodSummary(child.id, since),
+      ]);
+
+      const earnedAchievementIds = new Set(userAchievements.map(ua => ua.achievementId));
+
+      res.json({
+        child: {
+          id: child.id,
+          alias: child.alias,
+          avatar: child.avatar,
+          colorTheme: child.colorTheme,
+          points: child.points,
+        },
+        plant: plant ? {
+          name: plant.name,
+          status: plant.status,
+          plantedAt: plant.plantedAt,
+          latestPhotoUrl: plant.latestPhotoUrl,
+        } : null,
+        achievements: allAchievements.filter(achievement => earnedAchievementIds.has(achievement.id)),
+        moodSummary: {
+          since,
+          days: MOOD_SUMMARY_DAYS,
+          entriesCount: moods.reduce((total, mood) => total + mood.count, 0),
+          emotions: moods,
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching caregiver child view:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  });
+
   // Storage statistics endpoint (for facilitators)
-  app.get('/api/storage/stats', async (req, res) => {
+  app.get('/api/storage/stats', requireAuth, authorize('storage:stats'), async (req, res) => {
     try {
       console.log('📊 [GET /api/storage/stats] Fetching storage statistics...');
 
@@ -1120,6 +2252,73 @@ async function initializeDefaultEmotions() {
   }
 }
 
+// Initialize the plant species catalog
+async function initializeDefaultPlantSpecies() {
+  try {
+    const defaultSpecies = [
+      {
+        slug: 'tomato', commonName: 'Tomate', scientificName: 'Solanum lycopersicum', emoji: '🍅',
+        germinationDays: 7, seedlingDays: 21, matureDays: 60, wateringEveryDays: 2, sunlight: 'full_sun',
+        tips: ['Riega la tierra, no las hojas', 'Cuando crezca ponle un palito para que se apoye'],
+      },
+      {
+        slug: 'sunflower', commonName: 'Girasol', scientificName: 'Helianthus annuus', emoji: '🌻',
+        germinationDays: 7, seedlingDays: 14, matureDays: 70, wateringEveryDays: 3, sunlight: 'full_sun',
+        tips: ['Necesita mucho sol: busca la ventana más luminosa', 'Mira cómo su flor sigue al sol durante el día'],
+      },
+      {
+        slug: 'basil', commonName: 'Albahaca', scientificName: 'Ocimum basilicum', emoji: '🌿',
+        germinationDays: 7, seedlingDays: 20, matureDays: 60, wateringEveryDays: 2, sunlight: 'full_sun',
+        tips: ['Corta las hojas de arriba para que crezca más tupida', 'No le gusta el frío'],
+      },
+      {
+        slug: 'bean', commonName: 'Poroto', scientificName: 'Phaseolus vulgaris', emoji: '🫘',
+        germinationDays: 6, seedlingDays: 12, matureDays: 45, wateringEveryDays: 2, sunlight: 'full_sun',
+        tips: ['Puedes verlo germinar en un frasco con algodón húmedo', 'Le gusta trepar: dale un palito o una cuerda'],
+      },
+      {
+        slug: 'lettuce', commonName: 'Lechuga', scientificName: 'Lactuca sativa', emoji: '🥬',
+        germinationDays: 5, seedlingDays: 15, matureDays: 45, wateringEveryDays: 1, sunlight: 'partial_sun',
+        tips: ['Mantén la tierra siempre un poco húmeda', 'En días muy calurosos ponla a la sombra'],
+      },
+      {
+        slug: 'radish', commonName: 'Rabanito', scientificName: 'Raphanus sativus', emoji: '🌱',
+        germinationDays: 4, seedlingDays: 10, matureDays: 28, wateringEveryDays: 1, sunlight: 'full_sun',
+        tips: ['Es de las plantas más rápidas: en un mes se puede cosechar', 'Si las plantitas están muy juntas, sepáralas'],
+      },
+      {
+        slug: 'carrot', commonName: 'Zanahoria', scientificName: 'Daucus carota', emoji: '🥕',
+        germinationDays: 14, seedlingDays: 30, matureDays: 75, wateringEveryDays: 2, sunlight: 'full_sun',
+        tips: ['Tarda en brotar: ten paciencia', 'Necesita una maceta profunda para crecer hacia abajo'],
+      },
+      {
+        slug: 'strawberry', commonName: 'Frutilla', scientificName: 'Fragaria × ananassa', emoji: '🍓',
+        germinationDays: 21, seedlingDays: 40, matureDays: 90, wateringEveryDays: 2, sunlight: 'full_sun',
+        tips: ['Riega por la mañana para que las hojas se sequen con el sol', 'Sus frutos aparecen después de las flores blancas'],
+      },
+      {
+        slug: 'mint', commonName: 'Menta', scientificName: 'Mentha spicata', emoji: '🍃',
+        germinationDays: 12, seedlingDays: 25, matureDays: 60, wateringEveryDays: 2, sunlight: 'partial_sun',
+        tips: ['Crece mucho: mejor en su propia maceta', 'Huele sus hojas después de regarla'],
+      },
+      {
+        slug: 'calendula', commonName: 'Caléndula', scientificName: 'Calendula officinalis', emoji: '🌼',
+        germinationDays: 8, seedlingDays: 20, matureDays: 50, wateringEveryDays: 3, sunlight: 'full_sun',
+        tips: ['Quita las flores secas para que salgan nuevas', 'Aguanta bien si un día te olvidas de regarla'],
+      },
+      {
+        slug: 'cilantro', commonName: 'Cilantro', scientificName: 'Coriandrum sativum', emoji: '🌿',
+        germinationDays: 10, seedlingDays: 20, matureDays: 45, wateringEveryDays: 2, sunlight: 'partial_sun',
+        tips: ['Siembra la semilla entera, sin partirla', 'Con mucho calor florece antes de tiempo'],
+      },
+    ];
+
+    await Promise.all(defaultSpecies.map(species => storage.upsertPlantSpecies(species)));
+  } catch (error) {
+    console.error('Error initializing default plant species:', error);
+  }
+}
+
 // Initialize default achievements
 async function initializeDefaultAchievements() {
   try {
@@ -1158,6 +2357,27 @@ async function initializeDefaultAchievements() {
         pointsRequired: 100,
         condition: JSON.stringify({ type: 'journal_entries', count: 10 }),
       },
+      {
+        name: 'Racha de 3 Días',
+        description: 'Escribiste en tu bitácora 3 días seguidos',
+        iconName: 'flame',
+        pointsRequired: 30,
+        condition: JSON.stringify({ type: 'streak', days: 3 }),
+      },
+      {
+        name: 'Racha de 7 Días',
+        description: 'Escribiste en tu bitácora 7 días seguidos',
+        iconName: 'flame',
+        pointsRequired: 70,
+        condition: JSON.stringify({ type: 'streak', days: 7 }),
+      },
+      {
+        name: 'Jardinero Atento',
+        description: 'Regaste tu planta 10 veces',
+        iconName: 'leaf',
+        pointsRequired: 50,
+        condition: JSON.stringify({ type: 'care_events', careType: 'watered', count: 10 }),
+      },
     ];
 
     // Insert all at once for better performance
@@ -1233,6 +2453,14 @@ async function initializeDefaultRewards() {
         pointsCost: 200,
         category: 'backgrounds',
         isActive: true,
+      },
+      {
+        name: 'Protector de Racha',
+        description: 'Cuida tu racha si un día no puedes escribir',
+        emoji: '🧊',
+        pointsCost: 40,
+        category: STREAK_FREEZE_CATEGORY,
+        isActive: true,
       }
     ];
 
@@ -0,0 +1,16 @@
+/**
+ * Send the daily journaling reminders that are due (see server/reminders.ts)
+ * Ejecutar con: npm run reminders:send (schedule it every 5-15 minutes, e.g. from cron)
+ */
+import { sendDueReminders } from "./reminders.js";
+
+async function main() {
+  const report = await sendDueReminders();
+  console.log(JSON.stringify(report, null, 2));
+  process.exit(report.failures.length > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error('❌ Error sending reminders:', error);
+  process.exit(1);
+});
@@ -9,8 +9,31 @@ import {
   notifications,
   rewards,
   userRewards,
+  passwordResetTokens,
+  workshopGroups,
+  groupFacilitators,
+  guardianships,
+  consentRequests,
+  consentEvents,
+  termsVersions,
+  mediaAssets,
+  pushSubscriptions,
+  notificationPreferences,
+  achievementStats,
+  plantCareEvents,
+  plantSpecies,
   type User,
   type InsertUser,
+  type InsertFacilitator,
+  type PasswordResetToken,
+  type WorkshopGroup,
+  type ConsentRequest,
+  type ConsentEvent,
+  type InsertConsentEvent,
+  type ConsentEventType,
+  type TermsVersion,
+  type InsertTermsVersion,
+  type InsertWorkshopGroup,
   type Plant,
   type InsertPlant,
   type JournalEntry,
@@ -25,35 +48,170 @@ import {
   type Reward,
   type InsertReward,
   type UserReward,
-  type InsertUserReward
+  type InsertUserReward,
+  type MediaAsset,
+  type InsertMediaAsset,
+  type WebPushSubscription,
+  type NotificationPreferences,
+  type UpdateNotificationPreferences,
+  type AchievementStats,
+  type InsertAchievementStats,
+  type TimeOfDay,
+  type PlantCareEvent,
+  type InsertPlantCareEvent,
+  type PlantCareType,
+  type PlantSpecies,
+  type InsertPlantSpecies,
+  STREAK_FREEZE_CATEGORY,
+  MAX_STREAK_FREEZES,
+  PLANT_CARE_POINTS,
+  PLANT_CARE_STATS
 } from "../shared/schema.js";
 import { db } from "./db.js";
-import { eq, desc, and, count, sql } from "drizzle-orm";
+import { randomBytes } from "crypto";
+import { daysBetween } from "./local-time.js";
+import { eq, desc, asc, and, count, sql, gt, gte, lt, lte, isNull, isNotNull, inArray, notLike, or } from "drizzle-orm";
+
+// One event's worth of changes to a user's achievement counters (see server/achievements.ts)
+export type AchievementStatsChange =
+  | { kind: 'journalEntry'; emotionId: string | null; hasPhoto: boolean; period: TimeOfDay; localDate: string }
+  | { kind: 'seedShared' }
+  | { kind: 'plantCare'; careType: PlantCareType };
+
+// What the achievement counters are rebuilt from for users who have none yet
+export type AchievementHistory = {
+  entries: { createdAt: Date | null; emotionId: string | null; hasPhoto: boolean }[];
+  seedsShared: number;
+  careEvents: { type: string; count: number }[];
+};
 
 // Extended type for journal entries with populated emotion
 export type JournalEntryWithEmotion = JournalEntry & {
   emotion: Emotion | null;
 };
 
+// A plant of the user's garden with the entries written while it grew
+export type PlantWithHistory = Plant & {
+  entriesCount: number;
+  lastEntryAt: Date | null;
+};
+
+// Join codes avoid characters that are easy to confuse when read aloud or copied (0/O, 1/I)
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+function generateJoinCode(length: number = 6): string {
+  const bytes = randomBytes(length);
+  let code = '';
+  for (let i = 0; i < length; i++) {
+    code += JOIN_CODE_ALPHABET[bytes[i] % JOIN_CODE_ALPHABET.length];
+  }
+  return code;
+}
+
+// A journal entry whose photo or audio falls under a retention rule
+export type RetentionMediaCandidate = {
+  entryId: string;
+  userId: string;
+  alias: string;
+  createdAt: Date | null;
+  key: string;
+};
+
+// Who a stored file belongs to, resolved from the rows that point at its key
+export type MediaReference = {
+  userId: string;
+  // Caregivers follow plants and shared entries, never what the child kept private
+  visibleToCaregivers: boolean;
+};
+
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByAlias(alias: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  getUsersByAlias(alias: string): Promise<User[]>;
+  createUser(user: InsertUser, extras?: { pinHash?: string; groupId?: string | null }): Promise<User>;
+  updateUserPin(id: string, pinHash: string): Promise<User>;
+  updateUserLoginState(id: string, state: { failedLoginAttempts: number; lockedUntil: Date | null }): Promise<User>;
+  // Facilitator accounts
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getFacilitators(sharingGroupsWith?: string): Promise<User[]>;
+  createFacilitator(facilitator: InsertFacilitator, passwordHash?: string): Promise<User>;
+  createCaregiver(caregiver: InsertFacilitator): Promise<User>;
+  updateUserPassword(id: string, passwordHash: string): Promise<User>;
+  createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken>;
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
   updateUserPoints(id: string, pointsToAdd: number): Promise<User>;
   updateUserConsent(id: string, consentVerified: boolean): Promise<User>;
   updateUserAccessibilitySettings(id: string, settings: any): Promise<User>;
-  deleteUser(id: string): Promise<void>;
+  deleteUser(id: string): Promise<{ filesDeleted: number }>;
+  // Soft deletion (restorable until the purge job removes it)
+  softDeleteUser(id: string, deletedBy: string): Promise<User>;
+  restoreUser(id: string): Promise<User>;
+  getDeletedUser(id: string): Promise<User | undefined>;
+  getDeletedChildren(facilitatorId: string): Promise<{ id: string; alias: string; age: number; deletedAt: Date | null; deletedBy: string | null }[]>;
+  getUsersDeletedBefore(cutoff: Date): Promise<User[]>;
+  // Parental consent
+  createConsentRequest(request: { userId: string; parentEmail: string; termsVersion: string; expiresAt: Date }): Promise<ConsentRequest>;
+  getConsentRequest(id: string): Promise<ConsentRequest | undefined>;
+  getLatestConsentRequest(userId: string): Promise<ConsentRequest | undefined>;
+  supersedePendingConsentRequests(userId: string): Promise<void>;
+  recordConsentDecision(id: string, decision: {
+    granted: boolean;
+    consenterName: string;
+    consenterIp: string | null;
+    consenterUserAgent: string | null;
+  }): Promise<ConsentRequest | undefined>;
+  revokeConsent(requestId: string, context: { ipAddress: string | null; userAgent: string | null }): Promise<ConsentRequest | undefined>;
+
+  // Consent ledger and terms versions
+  appendConsentEvent(event: InsertConsentEvent): Promise<ConsentEvent>;
+  getConsentEvents(userId: string): Promise<ConsentEvent[]>;
+  getCurrentTermsVersion(): Promise<TermsVersion | undefined>;
+  getTermsVersion(version: string): Promise<TermsVersion | undefined>;
+  getTermsVersions(): Promise<TermsVersion[]>;
+  publishTermsVersion(terms: InsertTermsVersion, publishedBy: string): Promise<TermsVersion>;
+  // Workshop groups
+  createWorkshopGroup(group: InsertWorkshopGroup, facilitatorId: string): Promise<WorkshopGroup>;
+  getWorkshopGroupByJoinCode(joinCode: string): Promise<WorkshopGroup | undefined>;
+  getFacilitatorGroups(facilitatorId: string): Promise<(WorkshopGroup & { childrenCount: number; facilitatorsCount: number })[]>;
+  isGroupFacilitator(groupId: string, facilitatorId: string): Promise<boolean>;
+  addGroupFacilitator(groupId: string, facilitatorId: string): Promise<void>;
+  regenerateGroupJoinCode(groupId: string): Promise<WorkshopGroup>;
+  updateUserGroup(userId: string, groupId: string | null): Promise<User>;
+  canFacilitatorAccessChild(facilitatorId: string, childId: string, options?: { includeDeleted?: boolean }): Promise<boolean>;
+  // Guardianships (caregiver portal)
+  addGuardianship(caregiverId: string, childId: string, consentRequestId?: string): Promise<void>;
+  isGuardianOf(caregiverId: string, childId: string): Promise<boolean>;
+  getGuardedChildren(caregiverId: string): Promise<{
+    id: string;
+    alias: string;
+    avatar: string | null;
+    colorTheme: string | null;
+    points: number | null;
+    plantName: string | null;
+    plantStatus: string | null;
+    plantedAt: Date | null;
+    latestPhotoUrl: string | null;
+    achievementsCount: number;
+    lastEntryAt: Date | null;
+  }[]>;
+  getMoodSummary(childId: string, since: Date): Promise<{
+    emotionId: string;
+    name: string;
+    emoji: string;
+    color: string;
+    count: number;
+  }[]>;
   // Return a minimal child summary for facilitator dashboard
-  getAllChildren(): Promise<{
+  getAllChildren(facilitatorId: string): Promise<{
     id: string;
     alias: string;
     age: number;
     points: number | null;
     createdAt: Date | null;
   }[]>;
-  // Optimized version with stats included (single query)
-  getAllChildrenWithStats(): Promise<{
+  // Optimized version with stats included (single query), limited to a facilitator's groups
+  getAllChildrenWithStats(facilitatorId: string): Promise<{
     id: string;
     alias: string;
     age: number;
@@ -70,37 +228,86 @@ export interface IStorage {
   // Plant operations
   getActivePlant(userId: string): Promise<Plant | undefined>;
   getPlantById(id: string): Promise<Plant | undefined>;
+  getUserPlants(userId: string): Promise<Plant[]>;
   createPlant(plant: InsertPlant): Promise<Plant>;
   updatePlantPhoto(id: string, photoUrl: string): Promise<Plant>;
   updatePlantStatus(id: string, status: string): Promise<Plant>;
+  updatePlantLifecycle(id: string, expected: Pick<Plant, 'stage' | 'status'>, changes: Pick<Plant, 'stage' | 'status' | 'milestones'>): Promise<Plant | undefined>;
+  getPlantCare(plantId: string, timeZone: string): Promise<{ careDays: number; lastCareDate: string | null }>;
+  createPlantCareEvent(event: InsertPlantCareEvent, timeZone: string): Promise<PlantCareEvent>;
+  getPlantCareEvents(plantId: string, limit?: number): Promise<PlantCareEvent[]>;
+  getUserPlantCareEvents(userId: string): Promise<PlantCareEvent[]>;
+  startPlant(plant: InsertPlant): Promise<{ plant: Plant; archived: Plant[] }>;
+  archivePlant(id: string): Promise<Plant | undefined>;
+  getPlantHistory(userId: string): Promise<PlantWithHistory[]>;
+  updateUserDaysSincePlanting(userId: string, days: number): Promise<void>;
 
   // Emotion operations
   getAllEmotions(): Promise<Emotion[]>;
   createEmotion(emotion: InsertEmotion): Promise<Emotion>;
   upsertEmotion(emotion: InsertEmotion): Promise<Emotion>;
 
+  // Plant species operations
+  getAllPlantSpecies(): Promise<PlantSpecies[]>;
+  getPlantSpecies(id: string): Promise<PlantSpecies | undefined>;
+  upsertPlantSpecies(species: InsertPlantSpecies): Promise<PlantSpecies>;
+
   // Journal entry operations
-  createJournalEntry(entry: InsertJournalEntry): Promise<JournalEntry>;
+  createJournalEntry(entry: InsertJournalEntry, createdAt?: Date): Promise<JournalEntry>;
+  getJournalEntryByIdempotencyKey(userId: string, idempotencyKey: string): Promise<JournalEntry | undefined>;
   getUserJournalEntries(userId: string, limit?: number): Promise<JournalEntryWithEmotion[]>;
-  getLatestJournalEntry(userId: string): Promise<JournalEntryWithEmotion | undefined>;
+  getLatestJournalEntry(userId: string, includePrivate?: boolean): Promise<JournalEntryWithEmotion | undefined>;
+  getPrivateJournalMediaKeys(userId: string): Promise<string[]>;
   getJournalEntryById(id: string): Promise<JournalEntry | undefined>;
+  updateJournalEntryPrivacy(id: string, isPrivate: boolean): Promise<JournalEntry>;
   deleteJournalEntry(id: string): Promise<void>;
+  softDeleteJournalEntry(id: string): Promise<JournalEntry>;
+  restoreJournalEntry(id: string): Promise<JournalEntry>;
+  getDeletedJournalEntry(id: string): Promise<JournalEntry | undefined>;
+  getDeletedJournalEntries(userId: string): Promise<JournalEntry[]>;
+  getJournalEntriesDeletedBefore(cutoff: Date): Promise<JournalEntry[]>;
+
+  // Retention (optionally limited to the children of one facilitator's groups)
+  getJournalMediaBefore(kind: 'audio' | 'photo', before: Date, facilitatorId?: string): Promise<RetentionMediaCandidate[]>;
+  replaceMediaKey(oldKey: string, newKey: string | null): Promise<void>;
+  getMediaReference(key: string): Promise<MediaReference | undefined>;
+  createMediaAsset(asset: InsertMediaAsset): Promise<MediaAsset>;
+  getMediaAsset(key: string): Promise<MediaAsset | undefined>;
+  deleteMediaAsset(key: string): Promise<MediaAsset | undefined>;
+  getInactiveChildren(lastActiveBefore: Date, facilitatorId?: string): Promise<{ id: string; alias: string; lastActiveAt: Date; inactiveFlaggedAt: Date | null }[]>;
+  flagInactiveChildren(ids: string[]): Promise<void>;
+  clearInactiveFlags(lastActiveSince: Date): Promise<number>;
 
   // Seed operations
   getUserSeeds(userId: string): Promise<Seed[]>;
   createSeed(seed: InsertSeed): Promise<Seed>;
   getSeedByShareCode(shareCode: string): Promise<Seed | undefined>;
+  getSeedById(id: string): Promise<Seed | undefined>;
 
   // Achievement operations
   getAllAchievements(): Promise<Achievement[]>;
   createAchievement(achievement: { name: string; description: string; iconName: string; pointsRequired: number; condition: string }): Promise<Achievement>;
   getUserAchievements(userId: string): Promise<UserAchievement[]>;
-  awardAchievement(userId: string, achievementId: string): Promise<UserAchievement>;
-  checkAndAwardAchievements(userId: string): Promise<UserAchievement[]>;
+  awardAchievement(userId: string, achievementId: string): Promise<UserAchievement | undefined>;
+  getAchievementStats(userId: string): Promise<AchievementStats | undefined>;
+  saveAchievementStats(stats: InsertAchievementStats): Promise<AchievementStats>;
+  incrementAchievementStats(userId: string, change: AchievementStatsChange): Promise<AchievementStats | undefined>;
+  getAchievementHistory(userId: string): Promise<AchievementHistory>;
 
   // Notification operations
   createNotification(userId: string, title: string, message: string, type?: string): Promise<Notification>;
   getUserNotifications(userId: string, limit?: number): Promise<Notification[]>;
+  getNotificationById(id: string): Promise<Notification | undefined>;
+  markNotificationRead(id: string): Promise<Notification>;
+  markAllNotificationsRead(userId: string): Promise<number>;
+  countUnreadNotifications(userId: string): Promise<number>;
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined>;
+  updateNotificationPreferences(userId: string, preferences: UpdateNotificationPreferences): Promise<NotificationPreferences>;
+  savePushSubscription(userId: string, subscription: { endpoint: string; p256dh: string; auth: string; userAgent?: string | null }): Promise<WebPushSubscription>;
+  deletePushSubscription(endpoint: string, userId?: string): Promise<void>;
+  getUserPushSubscriptions(userId: string): Promise<WebPushSubscription[]>;
+  getReminderCandidates(): Promise<NotificationPreferences[]>;
+  claimDailyReminder(userId: string, localDate: string): Promise<boolean>;
 
   // Rewards operations
   getAllRewards(): Promise<Reward[]>;
@@ -113,19 +320,27 @@ export interface IStorage {
 export class DatabaseStorage implements IStorage {
   // User operations
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await db.select().from(users).where(and(eq(users.id, id), isNull(users.deletedAt)));
     return user;
   }
 
   async getUserByAlias(alias: string): Promise<User | undefined> {
     const [user] = await db.select()
       .from(users)
-      .where(eq(users.alias, alias))
+      .where(and(eq(users.alias, alias), isNull(users.deletedAt)))
       .limit(1);
     return user;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async getUsersByAlias(alias: string): Promise<User[]> {
+    // Aliases are not unique, login has to check every candidate
+    return await db.select()
+      .from(users)
+      .where(and(eq(users.alias, alias), isNull(users.deletedAt)))
+      .limit(20);
+  }
+
+  async createUser(insertUser: InsertUser, extras: { pinHash?: string; groupId?: string | null } = {}): Promise<User> {
     try {
       console.log('🔍 [createUser] Starting user creation...');
       console.log('🔍 [createUser] Input data:', {
@@ -135,9 +350,14 @@ export class DatabaseStorage implements IStorage {
         context: insertUser.context
       });
 
+      // Never persist the plain PIN, only its hash (the join code is resolved to groupId by the caller)
+      const { pin, joinCode, ...userWithoutPin } = insertUser as InsertUser & { pin?: string; joinCode?: string };
+
       // Handle date conversion for parentalConsentDate
       const processedUser = {
-        ...insertUser,
+        ...userWithoutPin,
+        pinHash: extras.pinHash ?? null,
+        groupId: extras.groupId ?? null,
         parentalConsentDate: insertUser.role === 'child' && insertUser.parentalConsentDate
           ? new Date(insertUser.parentalConsentDate)
           : insertUser.role === 'child' ? null : undefined
@@ -175,6 +395,134 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserPin(id: string, pinHash: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({
+        pinHash,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        // Changing the PIN signs out every existing session
+        sessionVersion: sql`${users.sessionVersion} + 1`,
+        updatedAt: new Date()
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async updateUserLoginState(id: string, state: { failedLoginAttempts: number; lockedUntil: Date | null }): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({
+        failedLoginAttempts: state.failedLoginAttempts,
+        lockedUntil: state.lockedUntil,
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select()
+      .from(users)
+      .where(and(eq(users.email, email.trim().toLowerCase()), isNull(users.deletedAt)));
+    return user || undefined;
+  }
+
+  // Every facilitator, or only the ones who share a workshop group with the given facilitator
+  async getFacilitators(sharingGroupsWith?: string): Promise<User[]> {
+    return await db.select()
+      .from(users)
+      .where(and(
+        eq(users.role, 'facilitator'),
+        isNull(users.deletedAt),
+        sharingGroupsWith
+          ? or(
+              eq(users.id, sharingGroupsWith),
+              inArray(users.id, db.select({ id: groupFacilitators.facilitatorId })
+                .from(groupFacilitators)
+                .where(inArray(groupFacilitators.groupId, this.facilitatorGroupIds(sharingGroupsWith))))
+            )
+          : undefined
+      ))
+      .orderBy(users.alias);
+  }
+
+  async createFacilitator(facilitator: InsertFacilitator, passwordHash?: string): Promise<User> {
+    const [user] = await db
+      .insert(users)
+      .values({
+        alias: facilitator.alias,
+        email: facilitator.email.trim().toLowerCase(),
+        passwordHash: passwordHash ?? null,
+        role: 'facilitator',
+        context: 'workshop',
+        colorTheme: 'orange',
+        avatar: 'plant1',
+        age: 18,
+        isWorkshopMode: true,
+        consentVerified: true,
+      })
+      .returning();
+    return user;
+  }
+
+  async createCaregiver(caregiver: InsertFacilitator): Promise<User> {
+    // Caregivers set their password from the emailed invitation link
+    const [user] = await db
+      .insert(users)
+      .values({
+        alias: caregiver.alias,
+        email: caregiver.email.trim().toLowerCase(),
+        role: 'caregiver',
+        context: 'home',
+        avatar: 'plant1',
+        age: 18,
+        consentVerified: true,
+      })
+      .returning();
+    return user;
+  }
+
+  async updateUserPassword(id: string, passwordHash: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({
+        passwordHash,
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        // Changing the password signs out every existing session
+        sessionVersion: sql`${users.sessionVersion} + 1`,
+        updatedAt: new Date()
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async createPasswordResetToken(userId: string, tokenHash: string, expiresAt: Date): Promise<PasswordResetToken> {
+    const [token] = await db
+      .insert(passwordResetTokens)
+      .values({ userId, tokenHash, expiresAt })
+      .returning();
+    return token;
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    // Single conditional update so a token can never be used twice
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return token || undefined;
+  }
+
   async updateUserConsent(id: string, consentVerified: boolean): Promise<User> {
     const [user] = await db
       .update(users)
@@ -200,16 +548,18 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async deleteUser(id: string): Promise<void> {
+  async deleteUser(id: string): Promise<{ filesDeleted: number }> {
     console.log(`🗑️ [Delete User] Starting deletion process for user: ${id}`);
+    let filesDeleted = 0;
 
     try {
       // Import Supabase functions dynamically to avoid circular dependencies
-      const { deleteUserFiles, deleteUserProfileHistory } = await import('./supabase.js');
+      const { deleteUserProfileHistory } = await import('./supabase.js');
+      const { deleteUserFiles } = await import('./blob-store.js');
 
-      // Step 1: Delete all files from Supabase Storage
+      // Step 1: Delete all files from the blob store
       try {
-        const filesDeleted = await deleteUserFiles(id);
+        filesDeleted = await deleteUserFiles(id);
         console.log(`✅ [Delete User] Deleted ${filesDeleted} files from storage`);
       } catch (error) {
         console.error('⚠️ [Delete User] Error deleting files (continuing with user deletion):', error);
@@ -228,12 +578,64 @@ export class DatabaseStorage implements IStorage {
       console.log(`✅ [Delete User] User deleted from database (cascade deleted: plants, journal entries, seeds, achievements, notifications, rewards)`);
 
       console.log(`✅ [Delete User] Complete deletion finished for user: ${id}`);
+      return { filesDeleted };
     } catch (error) {
       console.error(`❌ [Delete User] Error during deletion process:`, error);
       throw error;
     }
   }
 
+  // Soft deletion - the row stays hidden (getUser ignores it, sessions are revoked) until
+  // it is restored or purged
+  async softDeleteUser(id: string, deletedBy: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({
+        deletedAt: new Date(),
+        deletedBy,
+        sessionVersion: sql`${users.sessionVersion} + 1`,
+        updatedAt: new Date()
+      })
+      .where(and(eq(users.id, id), isNull(users.deletedAt)))
+      .returning();
+    return user;
+  }
+
+  async restoreUser(id: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ deletedAt: null, deletedBy: null, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async getDeletedUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select()
+      .from(users)
+      .where(and(eq(users.id, id), isNotNull(users.deletedAt)));
+    return user;
+  }
+
+  async getDeletedChildren(facilitatorId: string): Promise<{ id: string; alias: string; age: number; deletedAt: Date | null; deletedBy: string | null }[]> {
+    return await db
+      .select({ id: users.id, alias: users.alias, age: users.age, deletedAt: users.deletedAt, deletedBy: users.deletedBy })
+      .from(users)
+      .where(and(
+        eq(users.role, 'child'),
+        inArray(users.groupId, this.facilitatorGroupIds(facilitatorId)),
+        isNotNull(users.deletedAt)
+      ))
+      .orderBy(desc(users.deletedAt));
+  }
+
+  async getUsersDeletedBefore(cutoff: Date): Promise<User[]> {
+    return await db.select()
+      .from(users)
+      .where(lt(users.deletedAt, cutoff))
+      .orderBy(asc(users.deletedAt));
+  }
+
   // Plant operations
   async getActivePlant(userId: string): Promise<Plant | undefined> {
     const [plant] = await db
@@ -253,6 +655,15 @@ export class DatabaseStorage implements IStorage {
     return plant;
   }
 
+  // Every plant the user has had, including retired ones, oldest first
+  async getUserPlants(userId: string): Promise<Plant[]> {
+    return await db
+      .select()
+      .from(plants)
+      .where(eq(plants.userId, userId))
+      .orderBy(asc(plants.createdAt));
+  }
+
   async createPlant(insertPlant: InsertPlant): Promise<Plant> {
     const [plant] = await db
       .insert(plants)
@@ -265,6 +676,8 @@ export class DatabaseStorage implements IStorage {
     const [plant] = await db
       .update(plants)
       .set({ 
+        // The first photo is kept for the before and after comparison
+        firstPhotoUrl: sql`COALESCE(${plants.firstPhotoUrl}, ${photoUrl})`,
         latestPhotoUrl: photoUrl,
         updatedAt: new Date()
       })
@@ -285,6 +698,134 @@ export class DatabaseStorage implements IStorage {
     return plant;
   }
 
+  // Only applied if the plant is still as the caller saw it, so a stage is reached only once
+  async updatePlantLifecycle(id: string, expected: Pick<Plant, 'stage' | 'status'>, changes: Pick<Plant, 'stage' | 'status' | 'milestones'>): Promise<Plant | undefined> {
+    const [plant] = await db
+      .update(plants)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(
+        eq(plants.id, id),
+        eq(plants.stage, expected.stage),
+        expected.status === null ? isNull(plants.status) : eq(plants.status, expected.status)
+      ))
+      .returning();
+    return plant;
+  }
+
+  // Days with journal entries or care events, counted in the user's time zone
+  async getPlantCare(plantId: string, timeZone: string): Promise<{ careDays: number; lastCareDate: string | null }> {
+    const entryDay = sql<string>`((${journalEntries.createdAt} AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})::date::text`;
+    const careDay = sql<string>`((${plantCareEvents.createdAt} AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})::date::text`;
+    const [entryDays, careDays] = await Promise.all([
+      db.selectDistinct({ day: entryDay })
+        .from(journalEntries)
+        .where(and(eq(journalEntries.plantId, plantId), isNull(journalEntries.deletedAt))),
+      db.selectDistinct({ day: careDay })
+        .from(plantCareEvents)
+        .where(eq(plantCareEvents.plantId, plantId)),
+    ]);
+    const days = Array.from(new Set([...entryDays, ...careDays].map(row => row.day))).sort();
+    return { careDays: days.length, lastCareDate: days[days.length - 1] ?? null };
+  }
+
+  // The plant's row is locked so two taps at once cannot both earn the day's points
+  async createPlantCareEvent(event: InsertPlantCareEvent, timeZone: string): Promise<PlantCareEvent> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .select({ id: plants.id })
+        .from(plants)
+        .where(eq(plants.id, event.plantId))
+        .for('update');
+
+      const [earlier] = await tx
+        .select({ id: plantCareEvents.id })
+        .from(plantCareEvents)
+        .where(and(
+          eq(plantCareEvents.plantId, event.plantId),
+          eq(plantCareEvents.type, event.type),
+          gt(plantCareEvents.pointsEarned, 0),
+          sql`((${plantCareEvents.createdAt} AT TIME ZONE 'UTC') AT TIME ZONE ${timeZone})::date = (now() AT TIME ZONE ${timeZone})::date`
+        ))
+        .limit(1);
+
+      const [careEvent] = await tx
+        .insert(plantCareEvents)
+        .values([{ ...event, pointsEarned: earlier ? 0 : PLANT_CARE_POINTS }])
+        .returning();
+      return careEvent;
+    });
+  }
+
+  // Newest first
+  async getPlantCareEvents(plantId: string, limit: number = 20): Promise<PlantCareEvent[]> {
+    return await db
+      .select()
+      .from(plantCareEvents)
+      .where(eq(plantCareEvents.plantId, plantId))
+      .orderBy(desc(plantCareEvents.createdAt))
+      .limit(limit);
+  }
+
+  // Oldest first, for data exports
+  async getUserPlantCareEvents(userId: string): Promise<PlantCareEvent[]> {
+    return await db
+      .select()
+      .from(plantCareEvents)
+      .where(eq(plantCareEvents.userId, userId))
+      .orderBy(asc(plantCareEvents.createdAt));
+  }
+
+  // The active plant is archived in the same transaction, so a user never has two
+  async startPlant(insertPlant: InsertPlant): Promise<{ plant: Plant; archived: Plant[] }> {
+    return await db.transaction(async (tx) => {
+      const archived = await tx
+        .update(plants)
+        .set({ isActive: false, archivedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(plants.userId, insertPlant.userId), eq(plants.isActive, true)))
+        .returning();
+
+      const [plant] = await tx
+        .insert(plants)
+        .values([{ ...insertPlant, isActive: true }])
+        .returning();
+
+      return { plant, archived };
+    });
+  }
+
+  // Returns undefined when the plant was not active
+  async archivePlant(id: string): Promise<Plant | undefined> {
+    const [plant] = await db
+      .update(plants)
+      .set({ isActive: false, archivedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(plants.id, id), eq(plants.isActive, true)))
+      .returning();
+    return plant;
+  }
+
+  // Newest plant first
+  async getPlantHistory(userId: string): Promise<PlantWithHistory[]> {
+    const rows = await db
+      .select({
+        plant: plants,
+        entriesCount: sql<number>`count(${journalEntries.id})`.mapWith(Number),
+        lastEntryAt: sql<Date | null>`max(${journalEntries.createdAt})`.mapWith(journalEntries.createdAt),
+      })
+      .from(plants)
+      .leftJoin(journalEntries, and(eq(journalEntries.plantId, plants.id), isNull(journalEntries.deletedAt)))
+      .where(eq(plants.userId, userId))
+      .groupBy(plants.id)
+      .orderBy(desc(plants.createdAt));
+    return rows.map(({ plant, entriesCount, lastEntryAt }) => ({ ...plant, entriesCount, lastEntryAt }));
+  }
+
+  async updateUserDaysSincePlanting(userId: string, days: number): Promise<void> {
+    await db
+      .update(users)
+      .set({ daysSincePlanting: days })
+      .where(and(eq(users.id, userId), sql`${users.daysSincePlanting} IS DISTINCT FROM ${days}`));
+  }
+
   // Emotion operations
   async getAllEmotions(): Promise<Emotion[]> {
     return await db.select().from(emotions);
@@ -314,15 +855,48 @@ export class DatabaseStorage implements IStorage {
     return emotion;
   }
 
+  // Plant species operations
+  async getAllPlantSpecies(): Promise<PlantSpecies[]> {
+    return await db.select().from(plantSpecies).orderBy(asc(plantSpecies.commonName));
+  }
+
+  async getPlantSpecies(id: string): Promise<PlantSpecies | undefined> {
+    const [species] = await db.select().from(plantSpecies).where(eq(plantSpecies.id, id));
+    return species;
+  }
+
+  async upsertPlantSpecies(insertSpecies: InsertPlantSpecies): Promise<PlantSpecies> {
+    const { slug, ...details } = insertSpecies;
+    const [species] = await db
+      .insert(plantSpecies)
+      .values([insertSpecies])
+      .onConflictDoUpdate({
+        target: plantSpecies.slug,
+        set: details,
+      })
+      .returning();
+    return species;
+  }
+
   // Journal entry operations
-  async createJournalEntry(insertEntry: InsertJournalEntry): Promise<JournalEntry> {
+  // createdAt is given for entries written offline, so they keep the time the child wrote them
+  async createJournalEntry(insertEntry: InsertJournalEntry, createdAt?: Date): Promise<JournalEntry> {
     const [entry] = await db
       .insert(journalEntries)
-      .values([insertEntry])
+      .values([{ ...insertEntry, ...(createdAt ? { createdAt } : {}) }])
       .returning();
     return entry;
   }
 
+  // Deleted entries included: a late replay must not bring back an entry the child deleted
+  async getJournalEntryByIdempotencyKey(userId: string, idempotencyKey: string): Promise<JournalEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(journalEntries)
+      .where(and(eq(journalEntries.userId, userId), eq(journalEntries.idempotencyKey, idempotencyKey)));
+    return entry;
+  }
+
   async getUserJournalEntries(userId: string, limit: number = 10): Promise<JournalEntryWithEmotion[]> {
     const entries = await db
       .select({
@@ -333,6 +907,9 @@ export class DatabaseStorage implements IStorage {
         textEntry: journalEntries.textEntry,
         photoUrl: journalEntries.photoUrl,
         audioUrl: journalEntries.audioUrl,
+        audioDurationMs: journalEntries.audioDurationMs,
+        audioPeaks: journalEntries.audioPeaks,
+        isPrivate: journalEntries.isPrivate,
         pointsEarned: journalEntries.pointsEarned,
         createdAt: journalEntries.createdAt,
         updatedAt: journalEntries.updatedAt,
@@ -340,14 +917,15 @@ export class DatabaseStorage implements IStorage {
       })
       .from(journalEntries)
       .leftJoin(emotions, eq(journalEntries.emotionId, emotions.id))
-      .where(eq(journalEntries.userId, userId))
+      .where(and(eq(journalEntries.userId, userId), isNull(journalEntries.deletedAt)))
       .orderBy(desc(journalEntries.createdAt))
       .limit(limit);
 
     return entries as JournalEntryWithEmotion[];
   }
 
-  async getLatestJournalEntry(userId: string): Promise<JournalEntryWithEmotion | undefined> {
+  // Private entries are left out for anyone reading another person's dashboard
+  async getLatestJournalEntry(userId: string, includePrivate = true): Promise<JournalEntryWithEmotion | undefined> {
     const [entry] = await db
       .select({
         id: journalEntries.id,
@@ -357,6 +935,9 @@ export class DatabaseStorage implements IStorage {
         textEntry: journalEntries.textEntry,
         photoUrl: journalEntries.photoUrl,
         audioUrl: journalEntries.audioUrl,
+        audioDurationMs: journalEntries.audioDurationMs,
+        audioPeaks: journalEntries.audioPeaks,
+        isPrivate: journalEntries.isPrivate,
         pointsEarned: journalEntries.pointsEarned,
         createdAt: journalEntries.createdAt,
         updatedAt: journalEntries.updatedAt,
@@ -364,18 +945,40 @@ export class DatabaseStorage implements IStorage {
       })
       .from(journalEntries)
       .leftJoin(emotions, eq(journalEntries.emotionId, emotions.id))
-      .where(eq(journalEntries.userId, userId))
+      .where(and(
+        eq(journalEntries.userId, userId),
+        isNull(journalEntries.deletedAt),
+        includePrivate ? undefined : eq(journalEntries.isPrivate, false)
+      ))
       .orderBy(desc(journalEntries.createdAt))
       .limit(1);
 
     return entry as JournalEntryWithEmotion | undefined;
   }
 
+  // Photos and recordings of private entries, to keep them out of what other people see
+  async getPrivateJournalMediaKeys(userId: string): Promise<string[]> {
+    const entries = await db
+      .select({ photoUrl: journalEntries.photoUrl, audioUrl: journalEntries.audioUrl })
+      .from(journalEntries)
+      .where(and(eq(journalEntries.userId, userId), eq(journalEntries.isPrivate, true)));
+    return entries.flatMap(entry => [entry.photoUrl, entry.audioUrl]).filter((key): key is string => !!key);
+  }
+
   async getJournalEntryById(id: string): Promise<JournalEntry | undefined> {
     const [entry] = await db
       .select()
       .from(journalEntries)
-      .where(eq(journalEntries.id, id));
+      .where(and(eq(journalEntries.id, id), isNull(journalEntries.deletedAt)));
+    return entry;
+  }
+
+  async updateJournalEntryPrivacy(id: string, isPrivate: boolean): Promise<JournalEntry> {
+    const [entry] = await db
+      .update(journalEntries)
+      .set({ isPrivate, updatedAt: new Date() })
+      .where(eq(journalEntries.id, id))
+      .returning();
     return entry;
   }
 
@@ -383,24 +986,25 @@ export class DatabaseStorage implements IStorage {
     console.log(`🗑️ [Delete Journal Entry] Starting deletion process for entry: ${id}`);
 
     try {
-      // First, get the journal entry to extract file URLs
-      const entry = await this.getJournalEntryById(id);
+      // First, get the journal entry to extract file URLs (soft-deleted ones included, the purge job
+      // is the usual caller)
+      const [entry] = await db.select().from(journalEntries).where(eq(journalEntries.id, id));
 
       if (!entry) {
         console.warn(`⚠️ [Delete Journal Entry] Entry ${id} not found`);
         return;
       }
 
-      // Import Supabase functions dynamically to avoid circular dependencies
-      const { deleteFromSupabase } = await import('./supabase.js');
+      // Import blob store functions dynamically to avoid circular dependencies
+      const { deleteBlob } = await import('./blob-store.js');
+      const { deleteRenditions } = await import('./images.js');
 
-      // Delete photo if exists
+      // Delete photo and its renditions if exists
       if (entry.photoUrl) {
         try {
-          // Extract path from URL (format: https://.../storage/v1/object/public/bucket-name/path/to/file)
-          const photoPath = entry.photoUrl.split('/').slice(-2).join('/'); // userId/filename.ext
-          console.log(`🗑️ [Delete Journal Entry] Deleting photo: ${photoPath}`);
-          await deleteFromSupabase(photoPath);
+          console.log(`🗑️ [Delete Journal Entry] Deleting photo: ${entry.photoUrl}`);
+          await deleteRenditions(entry.photoUrl);
+          await deleteBlob(entry.photoUrl);
           console.log(`✅ [Delete Journal Entry] Photo deleted successfully`);
         } catch (error) {
           console.error(`⚠️ [Delete Journal Entry] Error deleting photo (continuing):`, error);
@@ -410,10 +1014,8 @@ export class DatabaseStorage implements IStorage {
       // Delete audio if exists
       if (entry.audioUrl) {
         try {
-          // Extract path from URL
-          const audioPath = entry.audioUrl.split('/').slice(-2).join('/'); // userId/filename.ext
-          console.log(`🗑️ [Delete Journal Entry] Deleting audio: ${audioPath}`);
-          await deleteFromSupabase(audioPath);
+          console.log(`🗑️ [Delete Journal Entry] Deleting audio: ${entry.audioUrl}`);
+          await deleteBlob(entry.audioUrl);
           console.log(`✅ [Delete Journal Entry] Audio deleted successfully`);
         } catch (error) {
           console.error(`⚠️ [Delete Journal Entry] Error deleting audio (continuing):`, error);
@@ -430,6 +1032,199 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async softDeleteJournalEntry(id: string): Promise<JournalEntry> {
+    const [entry] = await db
+      .update(journalEntries)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(journalEntries.id, id), isNull(journalEntries.deletedAt)))
+      .returning();
+    return entry;
+  }
+
+  async restoreJournalEntry(id: string): Promise<JournalEntry> {
+    const [entry] = await db
+      .update(journalEntries)
+      .set({ deletedAt: null })
+      .where(eq(journalEntries.id, id))
+      .returning();
+    return entry;
+  }
+
+  async getDeletedJournalEntry(id: string): Promise<JournalEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(journalEntries)
+      .where(and(eq(journalEntries.id, id), isNotNull(journalEntries.deletedAt)));
+    return entry;
+  }
+
+  async getDeletedJournalEntries(userId: string): Promise<JournalEntry[]> {
+    return await db
+      .select()
+      .from(journalEntries)
+      .where(and(eq(journalEntries.userId, userId), isNotNull(journalEntries.deletedAt)))
+      .orderBy(desc(journalEntries.deletedAt));
+  }
+
+  async getJournalEntriesDeletedBefore(cutoff: Date): Promise<JournalEntry[]> {
+    return await db
+      .select()
+      .from(journalEntries)
+      .where(lt(journalEntries.deletedAt, cutoff))
+      .orderBy(asc(journalEntries.deletedAt));
+  }
+
+  // Retention
+  async getJournalMediaBefore(kind: 'audio' | 'photo', before: Date, facilitatorId?: string): Promise<RetentionMediaCandidate[]> {
+    const column = kind === 'audio' ? journalEntries.audioUrl : journalEntries.photoUrl;
+    const rows = await db
+      .select({
+        entryId: journalEntries.id,
+        userId: journalEntries.userId,
+        alias: users.alias,
+        createdAt: journalEntries.createdAt,
+        key: column,
+      })
+      .from(journalEntries)
+      .innerJoin(users, eq(users.id, journalEntries.userId))
+      .where(and(
+        isNotNull(column),
+        lt(journalEntries.createdAt, before),
+        isNull(journalEntries.deletedAt),
+        isNull(users.deletedAt),
+        // Thumbnails left by an earlier run are already as small as they get
+        kind === 'photo' ? notLike(journalEntries.photoUrl, '%/thumb_%') : undefined,
+        facilitatorId ? inArray(users.groupId, this.facilitatorGroupIds(facilitatorId)) : undefined
+      ))
+      .orderBy(asc(journalEntries.createdAt));
+    return rows as RetentionMediaCandidate[];
+  }
+
+  // Keep every row that points at a file in sync when the file is replaced or deleted
+  async replaceMediaKey(oldKey: string, newKey: string | null): Promise<void> {
+    await db.update(journalEntries).set({ photoUrl: newKey }).where(eq(journalEntries.photoUrl, oldKey));
+    await db
+      .update(journalEntries)
+      .set(newKey ? { audioUrl: newKey } : { audioUrl: null, audioDurationMs: null, audioPeaks: null })
+      .where(eq(journalEntries.audioUrl, oldKey));
+    await db.update(plants).set({ firstPhotoUrl: newKey }).where(eq(plants.firstPhotoUrl, oldKey));
+    await db.update(plants).set({ latestPhotoUrl: newKey }).where(eq(plants.latestPhotoUrl, oldKey));
+    await db.update(seeds).set({ photoUrl: newKey }).where(eq(seeds.photoUrl, oldKey));
+  }
+
+  // Files of deleted entries or users are not served until they are restored
+  async getMediaReference(key: string): Promise<MediaReference | undefined> {
+    const entries = await db
+      .select({ userId: journalEntries.userId, isPrivate: journalEntries.isPrivate })
+      .from(journalEntries)
+      .innerJoin(users, eq(users.id, journalEntries.userId))
+      .where(and(
+        or(eq(journalEntries.photoUrl, key), eq(journalEntries.audioUrl, key)),
+        isNull(journalEntries.deletedAt),
+        isNull(users.deletedAt)
+      ));
+    const plantRows = await db
+      .select({ userId: plants.userId })
+      .from(plants)
+      .innerJoin(users, eq(users.id, plants.userId))
+      .where(and(
+        or(eq(plants.firstPhotoUrl, key), eq(plants.latestPhotoUrl, key)),
+        isNull(users.deletedAt)
+      ));
+    const seedRows = await db
+      .select({ userId: seeds.userId })
+      .from(seeds)
+      .innerJoin(users, eq(users.id, seeds.userId))
+      .where(and(eq(seeds.photoUrl, key), isNull(users.deletedAt)));
+
+    const owner = entries[0]?.userId ?? plantRows[0]?.userId ?? seedRows[0]?.userId;
+    if (!owner) {
+      return this.getPlantPhotoReference(key);
+    }
+    return {
+      userId: owner,
+      // A plant photo that came from an entry later marked private stays private
+      visibleToCaregivers: entries.some(entry => !entry.isPrivate)
+        || (plantRows.length > 0 && !entries.some(entry => entry.isPrivate)),
+    };
+  }
+
+  // Earlier photos of a plant's time-lapse are only recorded in profile_history
+  private async getPlantPhotoReference(key: string): Promise<MediaReference | undefined> {
+    // Import Supabase functions dynamically to avoid circular dependencies
+    const { getPlantPhotoRecord } = await import('./supabase.js');
+    const record = await getPlantPhotoRecord(key.split('/')[0], key);
+    if (!record) {
+      return undefined;
+    }
+    const plant = await this.getPlantById(record.plantId);
+    if (!plant || plant.userId !== record.userId || !(await this.getUser(plant.userId))) {
+      return undefined;
+    }
+    return { userId: plant.userId, visibleToCaregivers: true };
+  }
+
+  async createMediaAsset(asset: InsertMediaAsset): Promise<MediaAsset> {
+    const [created] = await db.insert(mediaAssets).values(asset).returning();
+    return created;
+  }
+
+  async getMediaAsset(key: string): Promise<MediaAsset | undefined> {
+    const [asset] = await db.select().from(mediaAssets).where(eq(mediaAssets.key, key));
+    return asset;
+  }
+
+  async deleteMediaAsset(key: string): Promise<MediaAsset | undefined> {
+    const [asset] = await db.delete(mediaAssets).where(eq(mediaAssets.key, key)).returning();
+    return asset;
+  }
+
+  // Last journal entry, or the sign-up date for children who never wrote one
+  private lastActiveAt() {
+    return sql<Date>`COALESCE(
+      (SELECT MAX(journal_entries.created_at) FROM journal_entries WHERE journal_entries.user_id = ${users.id}),
+      ${users.createdAt}
+    )`;
+  }
+
+  async getInactiveChildren(lastActiveBefore: Date, facilitatorId?: string): Promise<{ id: string; alias: string; lastActiveAt: Date; inactiveFlaggedAt: Date | null }[]> {
+    return await db
+      .select({
+        id: users.id,
+        alias: users.alias,
+        lastActiveAt: this.lastActiveAt(),
+        inactiveFlaggedAt: users.inactiveFlaggedAt,
+      })
+      .from(users)
+      .where(and(
+        eq(users.role, 'child'),
+        isNull(users.deletedAt),
+        lt(this.lastActiveAt(), lastActiveBefore),
+        facilitatorId ? inArray(users.groupId, this.facilitatorGroupIds(facilitatorId)) : undefined
+      ))
+      .orderBy(asc(this.lastActiveAt()));
+  }
+
+  async flagInactiveChildren(ids: string[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await db
+      .update(users)
+      .set({ inactiveFlaggedAt: new Date() })
+      .where(and(inArray(users.id, ids), isNull(users.inactiveFlaggedAt)));
+  }
+
+  // Children who came back are no longer flagged
+  async clearInactiveFlags(lastActiveSince: Date): Promise<number> {
+    const cleared = await db
+      .update(users)
+      .set({ inactiveFlaggedAt: null })
+      .where(and(isNotNull(users.inactiveFlaggedAt), gte(this.lastActiveAt(), lastActiveSince)))
+      .returning({ id: users.id });
+    return cleared.length;
+  }
+
   // Seed operations
   async getUserSeeds(userId: string): Promise<Seed[]> {
     return await db
@@ -455,6 +1250,14 @@ export class DatabaseStorage implements IStorage {
     return seed;
   }
 
+  async getSeedById(id: string): Promise<Seed | undefined> {
+    const [seed] = await db
+      .select()
+      .from(seeds)
+      .where(eq(seeds.id, id));
+    return seed;
+  }
+
   // Achievement operations
   async getAllAchievements(): Promise<Achievement[]> {
     return await db
@@ -486,8 +1289,8 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(userAchievements.earnedAt));
   }
 
-  async awardAchievement(userId: string, achievementId: string): Promise<UserAchievement> {
-    // Check if user already has this achievement
+  // Returns undefined when the user already had it, so points are never awarded twice
+  async awardAchievement(userId: string, achievementId: string): Promise<UserAchievement | undefined> {
     const [existing] = await db
       .select()
       .from(userAchievements)
@@ -497,7 +1300,7 @@ export class DatabaseStorage implements IStorage {
       ));
 
     if (existing) {
-      return existing;
+      return undefined;
     }
 
     const [userAchievement] = await db
@@ -507,68 +1310,124 @@ export class DatabaseStorage implements IStorage {
     return userAchievement;
   }
 
-  async checkAndAwardAchievements(userId: string): Promise<UserAchievement[]> {
-    // Get user data
-    const user = await this.getUser(userId);
-    if (!user) return [];
-
-    // Get all achievements
-    const allAchievements = await this.getAllAchievements();
-
-    // Get user's existing achievements
-    const userExistingAchievements = await this.getUserAchievements(userId);
-    const earnedIds = new Set(userExistingAchievements.map(ua => ua.achievementId));
+  async getAchievementStats(userId: string): Promise<AchievementStats | undefined> {
+    const [stats] = await db.select().from(achievementStats).where(eq(achievementStats.userId, userId));
+    return stats;
+  }
 
-    // Get user stats
-    const plant = await this.getActivePlant(userId);
-    const journalEntriesData = await this.getUserJournalEntries(userId, 1000);
-    const journalEntriesCount = journalEntriesData.length;
+  async saveAchievementStats(stats: InsertAchievementStats): Promise<AchievementStats> {
+    const [saved] = await db
+      .insert(achievementStats)
+      .values(stats)
+      .onConflictDoUpdate({
+        target: achievementStats.userId,
+        set: { ...stats, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
 
-    const newlyAwarded: UserAchievement[] = [];
+  // Counters are applied in a single UPDATE so concurrent events never lose a count. Journal
+  // entries also lock the user's row: missed days since the last entry are covered with the
+  // user's streak freezes when there are enough of them, and only one entry may spend them.
+  async incrementAchievementStats(userId: string, change: AchievementStatsChange): Promise<AchievementStats | undefined> {
+    const stats = achievementStats;
+
+    if (change.kind === 'seedShared') {
+      const [updated] = await db
+        .update(achievementStats)
+        .set({ seedsShared: sql`${stats.seedsShared} + 1`, updatedAt: new Date() })
+        .where(eq(achievementStats.userId, userId))
+        .returning();
+      return updated;
+    }
 
-    for (const achievement of allAchievements) {
-      // Skip if already earned
-      if (earnedIds.has(achievement.id)) continue;
+    if (change.kind === 'plantCare') {
+      const field = PLANT_CARE_STATS[change.careType];
+      const [updated] = await db
+        .update(achievementStats)
+        .set({ [field]: sql`${stats[field]} + 1`, updatedAt: new Date() })
+        .where(eq(achievementStats.userId, userId))
+        .returning();
+      return updated;
+    }
 
-      let shouldAward = false;
+    return await db.transaction(async (tx) => {
+      const [user] = await tx
+        .select({ streakFreezes: users.streakFreezes })
+        .from(users)
+        .where(eq(users.id, userId))
+        .for('update');
+      const [current] = await tx
+        .select({ lastEntryDate: stats.lastEntryDate })
+        .from(achievementStats)
+        .where(eq(achievementStats.userId, userId));
+
+      const missedDays = current?.lastEntryDate ? daysBetween(current.lastEntryDate, change.localDate) - 1 : 0;
+      const bridged = missedDays > 0 && missedDays <= (user?.streakFreezes ?? 0);
+      if (bridged) {
+        await tx
+          .update(users)
+          .set({ streakFreezes: sql`${users.streakFreezes} - ${missedDays}`, updatedAt: new Date() })
+          .where(eq(users.id, userId));
+        console.log(`🧊 [STREAKS] User ${userId} used ${missedDays} streak freeze(s)`);
+      }
 
-      try {
-        if (!achievement.condition) continue;
-        const condition = JSON.parse(achievement.condition);
-
-        switch (condition.type) {
-          case 'plant_created':
-            shouldAward = !!plant;
-            break;
-          case 'days_caring':
-            if (plant && plant.plantedAt) {
-              const daysCaring = Math.floor((Date.now() - new Date(plant.plantedAt).getTime()) / (1000 * 60 * 60 * 24));
-              shouldAward = daysCaring >= condition.count;
-            }
-            break;
-          case 'journal_entries':
-            shouldAward = journalEntriesCount >= condition.count;
-            break;
-          case 'points':
-            const threshold = condition.threshold || achievement.pointsRequired;
-            shouldAward = (user.points ?? 0) >= threshold;
-            break;
-        }
+      const periodColumn = {
+        morning: stats.morningEntries,
+        afternoon: stats.afternoonEntries,
+        evening: stats.eveningEntries,
+        night: stats.nightEntries,
+      }[change.period];
+      const periodField = `${change.period}Entries` as const;
+
+      // Entries drafted offline can arrive after newer ones: they do not change the streak
+      const streak = bridged
+        ? sql`${stats.currentStreak} + 1`
+        : sql`CASE
+          WHEN ${stats.lastEntryDate} IS NULL OR ${change.localDate}::date > ${stats.lastEntryDate} + 1 THEN 1
+          WHEN ${change.localDate}::date = ${stats.lastEntryDate} + 1 THEN ${stats.currentStreak} + 1
+          ELSE ${stats.currentStreak}
+        END`;
+
+      const set: Partial<Record<keyof AchievementStats, unknown>> = {
+        journalEntries: sql`${stats.journalEntries} + 1`,
+        photoEntries: change.hasPhoto ? sql`${stats.photoEntries} + 1` : undefined,
+        emotionIds: change.emotionId
+          ? sql`CASE WHEN ${change.emotionId} = ANY(${stats.emotionIds}) THEN ${stats.emotionIds} ELSE array_append(${stats.emotionIds}, ${change.emotionId}::text) END`
+          : undefined,
+        [periodField]: sql`${periodColumn} + 1`,
+        currentStreak: streak,
+        longestStreak: sql`GREATEST(${stats.longestStreak}, ${streak})`,
+        lastEntryDate: sql`GREATEST(${stats.lastEntryDate}, ${change.localDate}::date)`,
+      };
 
-        if (shouldAward) {
-          const awarded = await this.awardAchievement(userId, achievement.id);
-          newlyAwarded.push(awarded);
-          // Award points for the achievement if applicable
-          if (achievement.pointsRequired && achievement.pointsRequired > 0) {
-            await this.updateUserPoints(userId, achievement.pointsRequired);
-          }
-        }
-      } catch (error) {
-        console.error('Error checking achievement condition:', error);
-      }
-    }
+      const [updated] = await tx
+        .update(achievementStats)
+        .set({ ...set, updatedAt: new Date() } as Partial<InsertAchievementStats>)
+        .where(eq(achievementStats.userId, userId))
+        .returning();
+      return updated;
+    });
+  }
 
-    return newlyAwarded;
+  async getAchievementHistory(userId: string): Promise<AchievementHistory> {
+    const [entries, [seedCount], careEvents] = await Promise.all([
+      db.select({
+        createdAt: journalEntries.createdAt,
+        emotionId: journalEntries.emotionId,
+        hasPhoto: sql<boolean>`${journalEntries.photoUrl} IS NOT NULL`,
+      })
+        .from(journalEntries)
+        .where(and(eq(journalEntries.userId, userId), isNull(journalEntries.deletedAt)))
+        .orderBy(asc(journalEntries.createdAt)),
+      db.select({ count: count() }).from(seeds).where(eq(seeds.userId, userId)),
+      db.select({ type: plantCareEvents.type, count: count() })
+        .from(plantCareEvents)
+        .where(eq(plantCareEvents.userId, userId))
+        .groupBy(plantCareEvents.type),
+    ]);
+    return { entries, seedsShared: seedCount?.count ?? 0, careEvents };
   }
 
   // Notification operations
@@ -589,6 +1448,107 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getNotificationById(id: string): Promise<Notification | undefined> {
+    const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
+  async markNotificationRead(id: string): Promise<Notification> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(eq(notifications.id, id))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ isRead: true })
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  async countUnreadNotifications(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)));
+    return result?.count ?? 0;
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+    return preferences;
+  }
+
+  async updateNotificationPreferences(userId: string, preferences: UpdateNotificationPreferences): Promise<NotificationPreferences> {
+    const [updated] = await db
+      .insert(notificationPreferences)
+      .values({ userId, ...preferences })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...preferences, updatedAt: new Date() },
+      })
+      .returning();
+    return updated;
+  }
+
+  // A browser has a single subscription: on a shared device it moves to whoever subscribed last
+  async savePushSubscription(userId: string, subscription: { endpoint: string; p256dh: string; auth: string; userAgent?: string | null }): Promise<WebPushSubscription> {
+    const [saved] = await db
+      .insert(pushSubscriptions)
+      .values({ userId, ...subscription })
+      .onConflictDoUpdate({
+        target: pushSubscriptions.endpoint,
+        set: { userId, p256dh: subscription.p256dh, auth: subscription.auth, userAgent: subscription.userAgent },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deletePushSubscription(endpoint: string, userId?: string): Promise<void> {
+    await db.delete(pushSubscriptions).where(and(
+      eq(pushSubscriptions.endpoint, endpoint),
+      userId ? eq(pushSubscriptions.userId, userId) : undefined
+    ));
+  }
+
+  async getUserPushSubscriptions(userId: string): Promise<WebPushSubscription[]> {
+    return await db.select().from(pushSubscriptions).where(eq(pushSubscriptions.userId, userId));
+  }
+
+  // Users with daily reminders on and at least one browser to send them to
+  async getReminderCandidates(): Promise<NotificationPreferences[]> {
+    const rows = await db
+      .select({ preferences: notificationPreferences })
+      .from(notificationPreferences)
+      .innerJoin(users, eq(users.id, notificationPreferences.userId))
+      .where(and(
+        eq(notificationPreferences.enabled, true),
+        isNull(users.deletedAt),
+        sql`EXISTS (SELECT 1 FROM push_subscriptions WHERE push_subscriptions.user_id = ${users.id})`
+      ));
+    return rows
+      .map(row => row.preferences)
+      .filter(preferences => preferences.types.includes('reminder'));
+  }
+
+  // Marks today's reminder as sent; false when another run already sent it
+  async claimDailyReminder(userId: string, localDate: string): Promise<boolean> {
+    const claimed = await db
+      .update(notificationPreferences)
+      .set({ lastReminderDate: localDate })
+      .where(and(
+        eq(notificationPreferences.userId, userId),
+        or(isNull(notificationPreferences.lastReminderDate), sql`${notificationPreferences.lastReminderDate} <> ${localDate}`)
+      ))
+      .returning({ userId: notificationPreferences.userId });
+    return claimed.length > 0;
+  }
+
   // Rewards operations
   async getAllRewards(): Promise<Reward[]> {
     return await db
@@ -640,17 +1600,26 @@ export class DatabaseStorage implements IStorage {
         throw new Error('Insufficient points');
       }
 
-      // Check if user already owns this reward
-      const [existingPurchase] = await tx
-        .select()
-        .from(userRewards)
-        .where(and(
-          eq(userRewards.userId, userId),
-          eq(userRewards.rewardId, rewardId)
-        ));
+      // Streak freezes are consumables: they are granted again on every purchase, up to a limit
+      const isStreakFreeze = reward.category === STREAK_FREEZE_CATEGORY;
 
-      if (existingPurchase) {
-        throw new Error('Reward already purchased');
+      if (isStreakFreeze) {
+        if ((user.streakFreezes ?? 0) >= MAX_STREAK_FREEZES) {
+          throw new Error('Streak freezes at maximum');
+        }
+      } else {
+        // Check if user already owns this reward
+        const [existingPurchase] = await tx
+          .select()
+          .from(userRewards)
+          .where(and(
+            eq(userRewards.userId, userId),
+            eq(userRewards.rewardId, rewardId)
+          ));
+
+        if (existingPurchase) {
+          throw new Error('Reward already purchased');
+        }
       }
 
       // Purchase reward (deduct points and create user reward)
@@ -658,6 +1627,7 @@ export class DatabaseStorage implements IStorage {
         .update(users)
         .set({ 
           points: sql`${users.points} - ${reward.pointsCost}`,
+          streakFreezes: isStreakFreeze ? sql`COALESCE(${users.streakFreezes}, 0) + 1` : undefined,
           updatedAt: new Date()
         })
         .where(eq(users.id, userId))
@@ -696,18 +1666,397 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(userRewards.purchasedAt));
   }
 
-  // Facilitator-specific operations
-  async getAllChildren(): Promise<{ id: string; alias: string; age: number; points: number | null; createdAt: Date | null }[]> {
+  // Parental consent
+  async createConsentRequest(request: { userId: string; parentEmail: string; termsVersion: string; expiresAt: Date }): Promise<ConsentRequest> {
+    const [created] = await db
+      .insert(consentRequests)
+      .values(request)
+      .returning();
+    return created;
+  }
+
+  async getConsentRequest(id: string): Promise<ConsentRequest | undefined> {
+    const [request] = await db.select().from(consentRequests).where(eq(consentRequests.id, id));
+    return request || undefined;
+  }
+
+  async getLatestConsentRequest(userId: string): Promise<ConsentRequest | undefined> {
+    const [request] = await db.select()
+      .from(consentRequests)
+      .where(eq(consentRequests.userId, userId))
+      .orderBy(desc(consentRequests.createdAt))
+      .limit(1);
+    return request || undefined;
+  }
+
+  async supersedePendingConsentRequests(userId: string): Promise<void> {
+    // Older links stop working once a new request is sent
+    await db
+      .update(consentRequests)
+      .set({ status: 'superseded' })
+      .where(and(eq(consentRequests.userId, userId), eq(consentRequests.status, 'pending')));
+  }
+
+  async recordConsentDecision(id: string, decision: {
+    granted: boolean;
+    consenterName: string;
+    consenterIp: string | null;
+    consenterUserAgent: string | null;
+  }): Promise<ConsentRequest | undefined> {
+    const now = new Date();
+
+    return await db.transaction(async (tx) => {
+      // Only a pending, unexpired request can be answered (and only once)
+      const [request] = await tx
+        .update(consentRequests)
+        .set({
+          status: decision.granted ? 'granted' : 'denied',
+          respondedAt: now,
+          consenterName: decision.consenterName,
+          consenterIp: decision.consenterIp,
+          consenterUserAgent: decision.consenterUserAgent,
+        })
+        .where(and(
+          eq(consentRequests.id, id),
+          eq(consentRequests.status, 'pending'),
+          gt(consentRequests.expiresAt, now)
+        ))
+        .returning();
+
+      if (!request) {
+        return undefined;
+      }
+
+      const [child] = await tx
+        .select({ consentTermsVersion: users.consentTermsVersion })
+        .from(users)
+        .where(eq(users.id, request.userId));
+
+      await tx
+        .update(users)
+        .set({
+          parentEmail: request.parentEmail,
+          parentalConsent: decision.granted,
+          consentVerified: decision.granted,
+          parentalConsentDate: decision.granted ? now : null,
+          consentTermsVersion: decision.granted ? request.termsVersion : null,
+          updatedAt: now,
+        })
+        .where(eq(users.id, request.userId));
+
+      // A grant for a child who already had consent under older terms is a re-confirmation
+      const type: ConsentEventType = !decision.granted
+        ? 'denied'
+        : child?.consentTermsVersion ? 'reconfirmed' : 'granted';
+
+      await tx.insert(consentEvents).values({
+        userId: request.userId,
+        type,
+        termsVersion: request.termsVersion,
+        actorType: 'parent',
+        actorName: decision.consenterName,
+        consentRequestId: request.id,
+        ipAddress: decision.consenterIp,
+        userAgent: decision.consenterUserAgent,
+        createdAt: now,
+      });
+
+      return request;
+    });
+  }
+
+  async revokeConsent(requestId: string, context: { ipAddress: string | null; userAgent: string | null }): Promise<ConsentRequest | undefined> {
+    const now = new Date();
+
+    return await db.transaction(async (tx) => {
+      const [request] = await tx
+        .update(consentRequests)
+        .set({ status: 'revoked', revokedAt: now })
+        .where(and(eq(consentRequests.id, requestId), eq(consentRequests.status, 'granted')))
+        .returning();
+
+      if (!request) {
+        return undefined;
+      }
+
+      // enforceConsentMiddleware reads these on every request, so revocation is immediate
+      await tx
+        .update(users)
+        .set({
+          parentalConsent: false,
+          consentVerified: false,
+          parentalConsentDate: null,
+          consentTermsVersion: null,
+          updatedAt: now,
+        })
+        .where(eq(users.id, request.userId));
+
+      await tx.insert(consentEvents).values({
+        userId: request.userId,
+        type: 'revoked',
+        termsVersion: request.termsVersion,
+        actorType: 'parent',
+        actorName: request.consenterName,
+        consentRequestId: request.id,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        createdAt: now,
+      });
+
+      return request;
+    });
+  }
+
+  // Consent ledger - only inserts and reads, the table rejects updates and deletes
+  async appendConsentEvent(event: InsertConsentEvent): Promise<ConsentEvent> {
+    const [created] = await db
+      .insert(consentEvents)
+      .values(event)
+      .returning();
+    return created;
+  }
+
+  async getConsentEvents(userId: string): Promise<ConsentEvent[]> {
+    return await db.select()
+      .from(consentEvents)
+      .where(eq(consentEvents.userId, userId))
+      .orderBy(asc(consentEvents.createdAt));
+  }
+
+  // Terms versions
+  async getCurrentTermsVersion(): Promise<TermsVersion | undefined> {
+    const [terms] = await db.select()
+      .from(termsVersions)
+      .where(lte(termsVersions.publishedAt, new Date()))
+      .orderBy(desc(termsVersions.publishedAt))
+      .limit(1);
+    return terms || undefined;
+  }
+
+  async getTermsVersion(version: string): Promise<TermsVersion | undefined> {
+    const [terms] = await db.select().from(termsVersions).where(eq(termsVersions.version, version));
+    return terms || undefined;
+  }
+
+  async getTermsVersions(): Promise<TermsVersion[]> {
+    return await db.select().from(termsVersions).orderBy(desc(termsVersions.publishedAt));
+  }
+
+  async publishTermsVersion(terms: InsertTermsVersion, publishedBy: string): Promise<TermsVersion> {
+    const [created] = await db
+      .insert(termsVersions)
+      .values({ ...terms, publishedBy })
+      .returning();
+    return created;
+  }
+
+  // Workshop groups
+  async createWorkshopGroup(group: InsertWorkshopGroup, facilitatorId: string): Promise<WorkshopGroup> {
+    const [created] = await db
+      .insert(workshopGroups)
+      .values({
+        name: group.name,
+        joinCode: generateJoinCode(),
+        createdBy: facilitatorId,
+      })
+      .returning();
+
+    await db.insert(groupFacilitators).values({ groupId: created.id, facilitatorId });
+    return created;
+  }
+
+  async getWorkshopGroupByJoinCode(joinCode: string): Promise<WorkshopGroup | undefined> {
+    const [group] = await db.select()
+      .from(workshopGroups)
+      .where(and(
+        eq(workshopGroups.joinCode, joinCode.trim().toUpperCase()),
+        eq(workshopGroups.isActive, true)
+      ));
+    return group || undefined;
+  }
+
+  async getFacilitatorGroups(facilitatorId: string): Promise<(WorkshopGroup & { childrenCount: number; facilitatorsCount: number })[]> {
+    return await db
+      .select({
+        id: workshopGroups.id,
+        name: workshopGroups.name,
+        joinCode: workshopGroups.joinCode,
+        isActive: workshopGroups.isActive,
+        createdBy: workshopGroups.createdBy,
+        createdAt: workshopGroups.createdAt,
+        childrenCount: sql<number>`(
+          SELECT COALESCE(COUNT(*)::int, 0)
+          FROM users
+          WHERE users.group_id = workshop_groups.id AND users.role = 'child' AND users.deleted_at IS NULL
+        )`,
+        facilitatorsCount: sql<number>`(
+          SELECT COALESCE(COUNT(*)::int, 0)
+          FROM group_facilitators gf
+          WHERE gf.group_id = workshop_groups.id
+        )`,
+      })
+      .from(workshopGroups)
+      .innerJoin(groupFacilitators, eq(groupFacilitators.groupId, workshopGroups.id))
+      .where(eq(groupFacilitators.facilitatorId, facilitatorId))
+      .orderBy(workshopGroups.name);
+  }
+
+  async isGroupFacilitator(groupId: string, facilitatorId: string): Promise<boolean> {
+    const [membership] = await db.select({ id: groupFacilitators.id })
+      .from(groupFacilitators)
+      .where(and(
+        eq(groupFacilitators.groupId, groupId),
+        eq(groupFacilitators.facilitatorId, facilitatorId)
+      ));
+    return !!membership;
+  }
+
+  async addGroupFacilitator(groupId: string, facilitatorId: string): Promise<void> {
+    await db.insert(groupFacilitators)
+      .values({ groupId, facilitatorId })
+      .onConflictDoNothing();
+  }
+
+  async regenerateGroupJoinCode(groupId: string): Promise<WorkshopGroup> {
+    const [group] = await db
+      .update(workshopGroups)
+      .set({ joinCode: generateJoinCode() })
+      .where(eq(workshopGroups.id, groupId))
+      .returning();
+    return group;
+  }
+
+  async updateUserGroup(userId: string, groupId: string | null): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ groupId, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  // Soft-deleted children are only reachable when asked for (restoring them)
+  async canFacilitatorAccessChild(facilitatorId: string, childId: string, options: { includeDeleted?: boolean } = {}): Promise<boolean> {
+    const [child] = await db.select({ id: users.id })
+      .from(users)
+      .where(and(
+        eq(users.id, childId),
+        eq(users.role, 'child'),
+        inArray(users.groupId, this.facilitatorGroupIds(facilitatorId)),
+        options.includeDeleted ? undefined : isNull(users.deletedAt)
+      ));
+    return !!child;
+  }
+
+  // Guardianships
+  async addGuardianship(caregiverId: string, childId: string, consentRequestId?: string): Promise<void> {
+    await db.insert(guardianships)
+      .values({ caregiverId, childId, consentRequestId })
+      .onConflictDoNothing();
+  }
+
+  async isGuardianOf(caregiverId: string, childId: string): Promise<boolean> {
+    const [guardianship] = await db.select({ id: guardianships.id })
+      .from(guardianships)
+      .where(and(
+        eq(guardianships.caregiverId, caregiverId),
+        eq(guardianships.childId, childId)
+      ));
+    return !!guardianship;
+  }
+
+  async getGuardedChildren(caregiverId: string): Promise<{
+    id: string;
+    alias: string;
+    avatar: string | null;
+    colorTheme: string | null;
+    points: number | null;
+    plantName: string | null;
+    plantStatus: string | null;
+    plantedAt: Date | null;
+    latestPhotoUrl: string | null;
+    achievementsCount: number;
+    lastEntryAt: Date | null;
+  }[]> {
+    return await db
+      .select({
+        id: users.id,
+        alias: users.alias,
+        avatar: users.avatar,
+        colorTheme: users.colorTheme,
+        points: users.points,
+        plantName: plants.name,
+        plantStatus: plants.status,
+        plantedAt: plants.plantedAt,
+        latestPhotoUrl: plants.latestPhotoUrl,
+        achievementsCount: sql<number>`(
+          SELECT COALESCE(COUNT(*)::int, 0)
+          FROM user_achievements
+          WHERE user_achievements.user_id = users.id
+        )`,
+        lastEntryAt: sql<Date | null>`(
+          SELECT MAX(journal_entries.created_at)
+          FROM journal_entries
+          WHERE journal_entries.user_id = users.id AND journal_entries.deleted_at IS NULL
+        )`,
+      })
+      .from(guardianships)
+      .innerJoin(users, eq(users.id, guardianships.childId))
+      .leftJoin(plants, and(eq(plants.userId, users.id), eq(plants.isActive, true)))
+      .where(and(eq(guardianships.caregiverId, caregiverId), isNull(users.deletedAt)))
+      .orderBy(users.alias);
+  }
+
+  async getMoodSummary(childId: string, since: Date): Promise<{
+    emotionId: string;
+    name: string;
+    emoji: string;
+    color: string;
+    count: number;
+  }[]> {
+    // Entries the child marked as private are never counted
+    return await db
+      .select({
+        emotionId: emotions.id,
+        name: emotions.name,
+        emoji: emotions.emoji,
+        color: emotions.color,
+        count: sql<number>`COUNT(*)::int`,
+      })
+      .from(journalEntries)
+      .innerJoin(emotions, eq(emotions.id, journalEntries.emotionId))
+      .where(and(
+        eq(journalEntries.userId, childId),
+        eq(journalEntries.isPrivate, false),
+        isNull(journalEntries.deletedAt),
+        gte(journalEntries.createdAt, since)
+      ))
+      .groupBy(emotions.id)
+      .orderBy(desc(sql`COUNT(*)`));
+  }
+
+  // Subquery with the ids of the groups a facilitator belongs to
+  private facilitatorGroupIds(facilitatorId: string) {
+    return db.select({ id: groupFacilitators.groupId })
+      .from(groupFacilitators)
+      .where(eq(groupFacilitators.facilitatorId, facilitatorId));
+  }
+
+  async getAllChildren(facilitatorId: string): Promise<{ id: string; alias: string; age: number; points: number | null; createdAt: Date | null }[]> {
     // Select only the fields we need for the facilitator dashboard and limit results
     return await db
       .select({ id: users.id, alias: users.alias, age: users.age, points: users.points, createdAt: users.createdAt })
       .from(users)
-      .where(eq(users.role, 'child'))
+      .where(and(
+        eq(users.role, 'child'),
+        inArray(users.groupId, this.facilitatorGroupIds(facilitatorId)),
+        isNull(users.deletedAt)
+      ))
       .orderBy(desc(users.createdAt))
       .limit(100);
   }
 
-  async getAllChildrenWithStats(): Promise<{
+  async getAllChildrenWithStats(facilitatorId: string): Promise<{
     id: string;
     alias: string;
     age: number;
@@ -728,13 +2077,13 @@ export class DatabaseStorage implements IStorage {
         journalEntriesCount: sql<number>`(
           SELECT COALESCE(COUNT(*)::int, 0)
           FROM journal_entries
-          WHERE journal_entries.user_id = users.id
+          WHERE journal_entries.user_id = users.id AND journal_entries.deleted_at IS NULL
         )`,
         latestEmotionEmoji: sql<string | null>`(
           SELECT emotions.emoji
           FROM journal_entries je
           LEFT JOIN emotions ON je.emotion_id = emotions.id
-          WHERE je.user_id = users.id
+          WHERE je.user_id = users.id AND je.deleted_at IS NULL
           ORDER BY je.created_at DESC
           LIMIT 1
         )`,
@@ -742,13 +2091,17 @@ export class DatabaseStorage implements IStorage {
           SELECT emotions.name
           FROM journal_entries je
           LEFT JOIN emotions ON je.emotion_id = emotions.id
-          WHERE je.user_id = users.id
+          WHERE je.user_id = users.id AND je.deleted_at IS NULL
           ORDER BY je.created_at DESC
           LIMIT 1
         )`
       })
       .from(users)
-      .where(eq(users.role, 'child'))
+      .where(and(
+        eq(users.role, 'child'),
+        inArray(users.groupId, this.facilitatorGroupIds(facilitatorId)),
+        isNull(users.deletedAt)
+      ))
       .orderBy(desc(users.createdAt))
       .limit(100);
 
@@ -759,7 +2112,7 @@ export class DatabaseStorage implements IStorage {
     const result = await db
       .select({ count: count() })
       .from(journalEntries)
-      .where(eq(journalEntries.userId, userId));
+      .where(and(eq(journalEntries.userId, userId), isNull(journalEntries.deletedAt)));
     return result[0]?.count || 0;
   }
 
@@ -777,6 +2130,9 @@ export class DatabaseStorage implements IStorage {
         textEntry: journalEntries.textEntry,
         photoUrl: journalEntries.photoUrl,
         audioUrl: journalEntries.audioUrl,
+        audioDurationMs: journalEntries.audioDurationMs,
+        audioPeaks: journalEntries.audioPeaks,
+        isPrivate: journalEntries.isPrivate,
         pointsEarned: journalEntries.pointsEarned,
         createdAt: journalEntries.createdAt,
         updatedAt: journalEntries.updatedAt,
@@ -784,7 +2140,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(journalEntries)
       .leftJoin(emotions, eq(journalEntries.emotionId, emotions.id))
-      .where(eq(journalEntries.userId, userId))
+      .where(and(eq(journalEntries.userId, userId), isNull(journalEntries.deletedAt)))
       .orderBy(desc(journalEntries.createdAt));
 
     return entries as JournalEntryWithEmotion[];
@@ -0,0 +1,40 @@
+import { storage } from './storage.js';
+import { ensureAchievementStats, userTimeZone } from './achievements.js';
+import { localClock, daysBetween } from './local-time.js';
+
+// Journaling streaks
+// A streak counts consecutive local days (in the user's time zone) with at least one journal
+// entry. The counters live in achievement_stats and are updated with every entry; a missed day
+// is forgiven when the user has a streak freeze from the rewards store, spent when they write again.
+
+export interface StreakStatus {
+  current: number; // 0 once the streak is broken
+  longest: number;
+  freezes: number; // Streak freezes in stock
+  wroteToday: boolean;
+  frozenDays: number; // Missed days the next entry will cover with freezes
+}
+
+/**
+ * A user's streak as of now, in their own time zone
+ */
+export async function getStreak(userId: string, now: Date = new Date()): Promise<StreakStatus> {
+  const [stats, user, timeZone] = await Promise.all([
+    ensureAchievementStats(userId),
+    storage.getUser(userId),
+    userTimeZone(userId),
+  ]);
+
+  const freezes = user?.streakFreezes ?? 0;
+  const today = localClock(now, timeZone).date;
+  const missedDays = stats.lastEntryDate ? Math.max(0, daysBetween(stats.lastEntryDate, today) - 1) : 0;
+  const alive = !!stats.lastEntryDate && missedDays <= freezes;
+
+  return {
+    current: alive ? stats.currentStreak : 0,
+    longest: stats.longestStreak,
+    freezes,
+    wroteToday: stats.lastEntryDate === today,
+    frozenDays: alive ? missedDays : 0,
+  };
+}
@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { BlobStore, StoredBlob } from './blob-store.js';
 
 // Supabase client configuration
 const supabaseUrl = process.env.SUPABASE_URL || '';
@@ -6,7 +7,7 @@ const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || '';
 const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
 
 if (!supabaseUrl || !supabaseAnonKey) {
-  console.warn('⚠️ Supabase credentials not configured. File uploads will use local storage.');
+  console.warn('⚠️ Supabase credentials not configured. File uploads will use local storage (see server/blob-store.ts).');
 }
 
 // Bucket configuration
@@ -49,11 +50,24 @@ function getSupabaseAdminClient(): SupabaseClient {
   return _supabaseAdmin;
 }
 
+// Applied when the bucket is created, and to buckets set up by earlier versions
+// (public, or without the AVIF renditions in the allowed types)
+const BUCKET_OPTIONS = {
+  public: false,
+  fileSizeLimit: 5242880, // 5MB
+  allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/avif', 'image/gif', 'audio/mpeg', 'audio/wav', 'audio/webm']
+};
+
+function bucketNeedsUpdate(bucket: { public: boolean; allowed_mime_types?: string[] | null }): boolean {
+  const allowed = bucket.allowed_mime_types;
+  return bucket.public || (!!allowed && BUCKET_OPTIONS.allowedMimeTypes.some(type => !allowed.includes(type)));
+}
+
 // Track if bucket has been verified (to avoid checking on every upload)
 let bucketVerified = false;
 
 /**
- * Ensure the storage bucket exists and has correct policies
+ * Ensure the storage bucket exists and is private
  */
 async function ensureBucketExists(): Promise<void> {
   if (bucketVerified) {
@@ -71,20 +85,13 @@ async function ensureBucketExists(): Promise<void> {
       throw listError;
     }
 
-    const bucketExists = buckets?.some(b => b.name === PROFILE_BUCKET);
+    const bucket = buckets?.find(b => b.name === PROFILE_BUCKET);
 
-    if (!bucketExists) {
+    if (!bucket) {
       console.log(`📦 Creating bucket: ${PROFILE_BUCKET}`);
 
-      // Create the bucket with public access
-      const { data: createData, error: createError } = await supabaseAdmin.storage.createBucket(
-        PROFILE_BUCKET,
-        {
-          public: true,
-          fileSizeLimit: 5242880, // 5MB
-          allowedMimeTypes: ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'audio/mpeg', 'audio/wav', 'audio/webm']
-        }
-      );
+      // Private bucket: files are only read through signed URLs
+      const { error: createError } = await supabaseAdmin.storage.createBucket(PROFILE_BUCKET, BUCKET_OPTIONS);
 
       if (createError) {
         console.error('Error creating bucket:', createError);
@@ -92,6 +99,15 @@ async function ensureBucketExists(): Promise<void> {
       }
 
       console.log(`✅ Bucket created successfully: ${PROFILE_BUCKET}`);
+    } else if (bucketNeedsUpdate(bucket)) {
+      const { error: updateError } = await supabaseAdmin.storage.updateBucket(PROFILE_BUCKET, BUCKET_OPTIONS);
+
+      if (updateError) {
+        console.error('Error updating bucket settings:', updateError);
+        throw updateError;
+      }
+
+      console.log(`🔒 Bucket settings updated (private): ${PROFILE_BUCKET}`);
     } else {
       console.log(`✅ Bucket already exists: ${PROFILE_BUCKET}`);
     }
@@ -104,122 +120,102 @@ async function ensureBucketExists(): Promise<void> {
 }
 
 /**
- * Upload a file to Supabase Storage
- * @param file - File buffer to upload
- * @param filename - Name for the file
- * @param mimetype - MIME type of the file
- * @returns Public URL of the uploaded file
- */
-export async function uploadToSupabase(
-  file: Buffer,
-  filename: string,
-  mimetype: string
-): Promise<string> {
-  try {
-    // Ensure bucket exists before uploading
-    await ensureBucketExists();
-
-    // Get admin client lazily
-    const supabaseAdmin = getSupabaseAdminClient();
-
-    // Use admin client to bypass RLS policies
-    const { data, error } = await supabaseAdmin.storage
-      .from(PROFILE_BUCKET)
-      .upload(filename, file, {
-        contentType: mimetype,
-        upsert: true, // Allow overwriting files with same name
-      });
-
-    if (error) {
-      throw new Error(`Supabase upload error: ${error.message}`);
-    }
-
-    // Get public URL using admin client
-    const { data: publicUrlData } = supabaseAdmin.storage
-      .from(PROFILE_BUCKET)
-      .getPublicUrl(data.path);
-
-    console.log('✅ File uploaded to Supabase:', publicUrlData.publicUrl);
-    return publicUrlData.publicUrl;
-  } catch (error) {
-    console.error('Error uploading to Supabase:', error);
-    throw error;
-  }
-}
-
-/**
- * Delete a file from Supabase Storage
- * @param filepath - Path of the file to delete
+ * Blob store backed by the private Supabase Storage bucket (files are read through signed URLs)
  */
-export async function deleteFromSupabase(filepath: string): Promise<void> {
-  try {
-    // Get admin client lazily
-    const supabaseAdmin = getSupabaseAdminClient();
-
-    // Use admin client to bypass RLS policies
-    const { error } = await supabaseAdmin.storage
-      .from(PROFILE_BUCKET)
-      .remove([filepath]);
+export function createSupabaseBlobStore(): BlobStore {
+  return {
+    name: 'supabase',
+    label: PROFILE_BUCKET,
+
+    async put(path, data, contentType) {
+      // Ensure bucket exists before uploading
+      await ensureBucketExists();
+
+      // Use admin client to bypass RLS policies
+      const supabaseAdmin = getSupabaseAdminClient();
+      const { error } = await supabaseAdmin.storage
+        .from(PROFILE_BUCKET)
+        .upload(path, data, {
+          contentType,
+          upsert: true, // Allow overwriting files with same name
+        });
 
-    if (error) {
-      throw new Error(`Supabase delete error: ${error.message}`);
-    }
-  } catch (error) {
-    console.error('Error deleting from Supabase:', error);
-    throw error;
-  }
-}
+      if (error) {
+        throw new Error(`Supabase upload error: ${error.message}`);
+      }
 
-/**
- * Delete all files for a user from Supabase Storage
- * @param userId - User ID whose files should be deleted
- * @returns Number of files deleted
- */
-export async function deleteUserFiles(userId: string): Promise<number> {
-  try {
-    console.log(`🗑️ [Delete User Files] Starting deletion for user: ${userId}`);
-    const supabaseAdmin = getSupabaseAdminClient();
+      console.log('✅ File uploaded to Supabase:', path);
+    },
 
-    // List all files in the user's folder
-    const { data: files, error: listError } = await supabaseAdmin.storage
-      .from(PROFILE_BUCKET)
-      .list(userId, {
-        limit: 1000,
-        sortBy: { column: 'created_at', order: 'desc' }
-      });
+    async get(path) {
+      const { data, error } = await getSupabaseAdminClient().storage
+        .from(PROFILE_BUCKET)
+        .download(path);
 
-    if (listError) {
-      console.error(`❌ [Delete User Files] Error listing files:`, listError);
-      throw new Error(`Error listing user files: ${listError.message}`);
-    }
+      if (error || !data) {
+        return undefined;
+      }
+      return Buffer.from(await data.arrayBuffer());
+    },
 
-    if (!files || files.length === 0) {
-      console.log(`✅ [Delete User Files] No files found for user ${userId}`);
-      return 0;
-    }
+    async delete(paths) {
+      if (paths.length === 0) {
+        return;
+      }
+      const { error } = await getSupabaseAdminClient().storage
+        .from(PROFILE_BUCKET)
+        .remove(paths);
 
-    // Create array of file paths to delete
-    const filePaths = files.map(file => `${userId}/${file.name}`);
+      if (error) {
+        throw new Error(`Supabase delete error: ${error.message}`);
+      }
+    },
+
+    async list(prefix = '') {
+      const supabaseAdmin = getSupabaseAdminClient();
+
+      // Folders come back as items without an id, so walk them recursively
+      async function listAllFiles(path: string): Promise<StoredBlob[]> {
+        const { data: items, error } = await supabaseAdmin.storage
+          .from(PROFILE_BUCKET)
+          .list(path, {
+            limit: 1000,
+            sortBy: { column: 'created_at', order: 'desc' }
+          });
+
+        if (error) {
+          throw new Error(`Supabase list error in "${path}": ${error.message}`);
+        }
 
-    console.log(`🗑️ [Delete User Files] Deleting ${filePaths.length} files...`);
+        let allFiles: StoredBlob[] = [];
+        for (const item of items ?? []) {
+          const itemPath = path ? `${path}/${item.name}` : item.name;
+          if (item.id === null) {
+            allFiles = allFiles.concat(await listAllFiles(itemPath));
+          } else {
+            allFiles.push({ path: itemPath, size: typeof item.metadata?.size === 'number' ? item.metadata.size : null });
+          }
+        }
+        return allFiles;
+      }
 
-    // Delete all files
-    const { data: deleteData, error: deleteError } = await supabaseAdmin.storage
-      .from(PROFILE_BUCKET)
-      .remove(filePaths);
+      return await listAllFiles(prefix.replace(/\/$/, ''));
+    },
 
-    if (deleteError) {
-      console.error(`❌ [Delete User Files] Error deleting files:`, deleteError);
-      throw new Error(`Error deleting user files: ${deleteError.message}`);
-    }
+    async signedUrl(path, expiresInSeconds) {
+      // Also closes a bucket left public before any new upload happens
+      await ensureBucketExists();
 
-    console.log(`✅ [Delete User Files] Successfully deleted ${filePaths.length} files for user ${userId}`);
+      const { data, error } = await getSupabaseAdminClient().storage
+        .from(PROFILE_BUCKET)
+        .createSignedUrl(path, expiresInSeconds);
 
-    return filePaths.length;
-  } catch (error) {
-    console.error('❌ [Delete User Files] Error deleting user files:', error);
-    throw error;
-  }
+      if (error || !data) {
+        throw new Error(`Supabase signed URL error: ${error?.message ?? 'no URL returned'}`);
+      }
+      return data.signedUrl;
+    },
+  };
 }
 
 /**
@@ -321,182 +317,96 @@ export async function getProfileHistory(userId: string, limit = 50): Promise<any
 }
 
 /**
- * Get storage usage statistics for the bucket
- * @returns Object with total size in bytes and number of files
- *
- * Note: Due to Supabase Storage API limitations, this function counts files
- * but may not be able to get accurate size information without making
- * individual requests for each file, which would be very slow.
+ * Photos uploaded for one plant, oldest first
+ * @param plantId - Plant whose photos are returned
+ * @param limit - Maximum number of photos (the most recent ones are kept)
  */
-export async function getStorageStats(): Promise<{
-  totalSizeBytes: number;
-  totalSizeMB: number;
-  fileCount: number;
-  bucketName: string;
-}> {
+export async function getPlantPhotoHistory(plantId: string, limit = 200): Promise<{ photoUrl: string; createdAt: string }[]> {
   try {
-    console.log(`📊 [Storage Stats] Counting files in bucket...`);
-    return await countFilesAndEstimateSize();
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('profile_history')
+      .select('photo_url, created_at')
+      .eq('plant_id', plantId)
+      .eq('type', 'plant')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Supabase query error: ${error.message}`);
+    }
+
+    return (data || []).reverse().map(record => ({ photoUrl: record.photo_url, createdAt: record.created_at }));
   } catch (error) {
-    console.error('❌ [Storage Stats] Error getting storage stats:', error);
-    throw error;
+    console.error('Error getting plant photo history:', error);
+    return [];
   }
 }
 
 /**
- * Get storage statistics per user
- * @returns Map of userId to their storage stats
+ * Find the plant a photo from the plant profile was uploaded for
+ * @param userId - Owner of the photo (the first segment of its storage key)
+ * @param photoUrl - Storage key recorded in profile_history
  */
-export async function getStorageStatsByUser(): Promise<Map<string, {
-  fileCount: number;
-  estimatedSizeMB: number;
-}>> {
-  try {
-    console.log(`📊 [Storage Stats] Calculating storage per user...`);
-    const supabaseAdmin = getSupabaseAdminClient();
-
-    // Helper function to recursively list all files
-    async function listAllFiles(path: string = ''): Promise<any[]> {
-      const { data: items, error } = await supabaseAdmin.storage
-        .from(PROFILE_BUCKET)
-        .list(path, {
-          limit: 1000,
-          sortBy: { column: 'created_at', order: 'desc' }
-        });
-
-      if (error) {
-        console.error(`❌ [Storage Stats] Error listing files in path "${path}":`, error);
-        return [];
-      }
-
-      if (!items) return [];
-
-      let allFiles: any[] = [];
-
-      for (const item of items) {
-        const itemPath = path ? `${path}/${item.name}` : item.name;
-
-        // If it's a folder (id is null), recursively get its contents
-        if (item.id === null) {
-          const subFiles = await listAllFiles(itemPath);
-          allFiles = allFiles.concat(subFiles);
-        } else {
-          // It's a file
-          allFiles.push({ ...item, fullPath: itemPath });
-        }
-      }
-
-      return allFiles;
-    }
-
-    const allFiles = await listAllFiles();
-
-    // Group files by userId (extracted from path)
-    // Path format: userId/timestamp_id.ext
-    const userStats = new Map<string, { fileCount: number; estimatedSizeMB: number }>();
-    const AVERAGE_FILE_SIZE_MB = 0.5; // 500KB per file estimate
-
-    for (const file of allFiles) {
-      const pathParts = file.fullPath.split('/');
-      if (pathParts.length >= 2) {
-        const userId = pathParts[0];
+export async function getPlantPhotoRecord(userId: string, photoUrl: string): Promise<{ userId: string; plantId: string } | undefined> {
+  // Without Supabase (local blob storage) there is no profile history to look in
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return undefined;
+  }
 
-        if (!userStats.has(userId)) {
-          userStats.set(userId, { fileCount: 0, estimatedSizeMB: 0 });
-        }
+  try {
+    const supabase = getSupabaseClient();
 
-        const stats = userStats.get(userId)!;
-        stats.fileCount++;
-        stats.estimatedSizeMB += AVERAGE_FILE_SIZE_MB;
-      }
-    }
+    const { data, error } = await supabase
+      .from('profile_history')
+      .select('user_id, plant_id')
+      .eq('user_id', userId)
+      .eq('type', 'plant')
+      .eq('photo_url', photoUrl)
+      .not('plant_id', 'is', null)
+      .limit(1);
 
-    // Round the MB values
-    for (const [userId, stats] of userStats.entries()) {
-      stats.estimatedSizeMB = Math.round(stats.estimatedSizeMB * 100) / 100;
+    if (error) {
+      throw new Error(`Supabase query error: ${error.message}`);
     }
 
-    console.log(`✅ [Storage Stats] Calculated storage for ${userStats.size} users`);
-
-    return userStats;
+    const record = data?.[0];
+    return record ? { userId: record.user_id, plantId: record.plant_id } : undefined;
   } catch (error) {
-    console.error('❌ [Storage Stats] Error getting storage by user:', error);
-    return new Map();
+    console.error('Error finding plant photo:', error);
+    return undefined;
   }
 }
 
 /**
- * Count files and estimate total size
+ * Point profile history records at a replacement file, or drop them when the file was deleted
+ * @param oldKey - Storage key recorded in profile_history
+ * @param newKey - Replacement key (null removes the records)
  */
-async function countFilesAndEstimateSize(): Promise<{
-  totalSizeBytes: number;
-  totalSizeMB: number;
-  fileCount: number;
-  bucketName: string;
-}> {
-  try {
-    const supabaseAdmin = getSupabaseAdminClient();
-
-    // Helper function to recursively list all files
-    async function listAllFiles(path: string = ''): Promise<any[]> {
-      const { data: items, error } = await supabaseAdmin.storage
-        .from(PROFILE_BUCKET)
-        .list(path, {
-          limit: 1000,
-          sortBy: { column: 'created_at', order: 'desc' }
-        });
-
-      if (error) {
-        console.error(`❌ [Storage Stats] Error listing files in path "${path}":`, error);
-        return [];
-      }
-
-      if (!items) return [];
+export async function replaceProfileHistoryPhoto(oldKey: string, newKey: string | null): Promise<void> {
+  // Without Supabase (local blob storage) there is no profile history to update
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return;
+  }
 
-      let allFiles: any[] = [];
+  try {
+    const supabase = getSupabaseClient();
 
-      for (const item of items) {
-        const itemPath = path ? `${path}/${item.name}` : item.name;
+    const { error } = newKey
+      ? await supabase.from('profile_history').update({ photo_url: newKey }).eq('photo_url', oldKey)
+      : await supabase.from('profile_history').delete().eq('photo_url', oldKey);
 
-        // If it's a folder (id is null), recursively get its contents
-        if (item.id === null) {
-          console.log(`📁 [Storage Stats] Found folder: ${itemPath}`);
-          const subFiles = await listAllFiles(itemPath);
-          allFiles = allFiles.concat(subFiles);
-        } else {
-          // It's a file
-          console.log(`📄 [Storage Stats] Found file: ${item.name}`);
-          allFiles.push(item);
-        }
+    if (error) {
+      // If table doesn't exist, log warning but don't fail
+      if (error.code === '42P01') {
+        console.warn('⚠️ profile_history table not found. Skipping...');
+      } else {
+        throw new Error(`Supabase update error: ${error.message}`);
       }
-
-      return allFiles;
     }
-
-    const allFiles = await listAllFiles();
-    const fileCount = allFiles.length;
-
-    console.log(`✅ [Storage Stats] Total files found: ${fileCount}`);
-
-    // Try to estimate size by downloading metadata for a sample
-    // or use average file size estimation
-    const AVERAGE_FILE_SIZE_MB = 0.5; // Estimate 500KB per file (conservative)
-    const estimatedSizeMB = fileCount * AVERAGE_FILE_SIZE_MB;
-    const estimatedSizeBytes = estimatedSizeMB * 1024 * 1024;
-
-    return {
-      totalSizeBytes: estimatedSizeBytes,
-      totalSizeMB: Math.round(estimatedSizeMB * 100) / 100,
-      fileCount,
-      bucketName: PROFILE_BUCKET
-    };
   } catch (error) {
-    console.error('❌ [Storage Stats] Count files failed:', error);
-    return {
-      totalSizeBytes: 0,
-      totalSizeMB: 0,
-      fileCount: 0,
-      bucketName: PROFILE_BUCKET
-    };
+    console.error('Error updating profile history photo:', error);
+    // Don't throw - the file was already replaced, the history only points at it
   }
 }
@@ -0,0 +1,183 @@
+import './setup.js';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AchievementStats } from '../../shared/schema.js';
+import { buildStats, ruleProgress, type AchievementFacts } from '../achievements.js';
+
+const NOW = new Date('2024-05-20T15:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function makeFacts(stats: Partial<AchievementStats> = {}, facts: Partial<Omit<AchievementFacts, 'stats'>> = {}): AchievementFacts {
+  return {
+    stats: {
+      userId: 'child-1',
+      journalEntries: 0,
+      photoEntries: 0,
+      seedsShared: 0,
+      emotionIds: [],
+      morningEntries: 0,
+      afternoonEntries: 0,
+      eveningEntries: 0,
+      nightEntries: 0,
+      currentStreak: 0,
+      longestStreak: 0,
+      lastEntryDate: null,
+      wateredEvents: 0,
+      sunlightEvents: 0,
+      repottedEvents: 0,
+      pestSpottedEvents: 0,
+      measuredEvents: 0,
+      updatedAt: null,
+      ...stats,
+    },
+    points: 0,
+    plantedAt: null,
+    now: NOW,
+    ...facts,
+  };
+}
+
+describe('ruleProgress', () => {
+  it('plant_created: done once there is an active plant', () => {
+    assert.deepEqual(ruleProgress({ type: 'plant_created' }, makeFacts()), { percent: 0, detail: null });
+    assert.deepEqual(
+      ruleProgress({ type: 'plant_created' }, makeFacts({}, { plantedAt: new Date(NOW.getTime() - DAY_MS) })),
+      { percent: 100, detail: null }
+    );
+  });
+
+  it('days_caring: whole days since the active plant was planted', () => {
+    const plantedAt = new Date(NOW.getTime() - 3.5 * DAY_MS);
+    assert.deepEqual(ruleProgress({ type: 'days_caring', count: 10 }, makeFacts({}, { plantedAt })), { percent: 30, detail: '3/10 días' });
+    assert.deepEqual(ruleProgress({ type: 'days_caring', count: 2 }, makeFacts({}, { plantedAt })), { percent: 100, detail: '2/2 días' });
+    assert.deepEqual(ruleProgress({ type: 'days_caring', count: 10 }, makeFacts()), { percent: 0, detail: '0/10 días' });
+  });
+
+  it('points: the rule threshold, or the achievement points when it has none', () => {
+    const facts = makeFacts({}, { points: 25 });
+    assert.deepEqual(ruleProgress({ type: 'points', threshold: 100 }, facts, 50), { percent: 25, detail: '25/100 pts' });
+    assert.deepEqual(ruleProgress({ type: 'points' }, facts, 50), { percent: 50, detail: '25/50 pts' });
+  });
+
+  it('journal_entries', () => {
+    assert.deepEqual(ruleProgress({ type: 'journal_entries', count: 8 }, makeFacts({ journalEntries: 4 })), { percent: 50, detail: '4/8' });
+  });
+
+  it('photo_entries', () => {
+    assert.deepEqual(ruleProgress({ type: 'photo_entries', count: 5 }, makeFacts({ photoEntries: 2 })), { percent: 40, detail: '2/5 fotos' });
+  });
+
+  it('distinct_emotions', () => {
+    assert.deepEqual(
+      ruleProgress({ type: 'distinct_emotions', count: 6 }, makeFacts({ emotionIds: ['alegria', 'calma', 'miedo'] })),
+      { percent: 50, detail: '3/6 emociones' }
+    );
+  });
+
+  it('seeds_shared: percent is rounded down', () => {
+    assert.deepEqual(ruleProgress({ type: 'seeds_shared', count: 3 }, makeFacts({ seedsShared: 1 })), { percent: 33, detail: '1/3 semillas' });
+  });
+
+  it('time_of_day: only entries in the rule period count', () => {
+    const facts = makeFacts({ nightEntries: 2, morningEntries: 9 });
+    assert.deepEqual(ruleProgress({ type: 'time_of_day', period: 'night', count: 4 }, facts), { percent: 50, detail: '2/4 por la noche' });
+    assert.deepEqual(ruleProgress({ type: 'time_of_day', period: 'evening', count: 4 }, facts), { percent: 0, detail: '0/4 al anochecer' });
+  });
+
+  it('streak: the longest streak counts, not the current one', () => {
+    assert.deepEqual(
+      ruleProgress({ type: 'streak', days: 7 }, makeFacts({ currentStreak: 1, longestStreak: 5 })),
+      { percent: 71, detail: '5/7 días seguidos' }
+    );
+  });
+
+  it('care_events: one kind of care, or all of them', () => {
+    const facts = makeFacts({ wateredEvents: 3, sunlightEvents: 2, measuredEvents: 1 });
+    assert.deepEqual(ruleProgress({ type: 'care_events', careType: 'watered', count: 10 }, facts), { percent: 30, detail: '3/10 riegos' });
+    assert.deepEqual(ruleProgress({ type: 'care_events', careType: 'repotted', count: 1 }, facts), { percent: 0, detail: '0/1 trasplantes' });
+    assert.deepEqual(ruleProgress({ type: 'care_events', count: 12 }, facts), { percent: 50, detail: '6/12 cuidados' });
+  });
+
+  it('all: as far as its least advanced condition', () => {
+    const facts = makeFacts({ journalEntries: 10, photoEntries: 1 });
+    assert.deepEqual(
+      ruleProgress({ type: 'all', rules: [{ type: 'journal_entries', count: 10 }, { type: 'photo_entries', count: 4 }] }, facts),
+      { percent: 25, detail: null }
+    );
+  });
+
+  it('any: as far as its most advanced condition, nested rules included', () => {
+    const facts = makeFacts({ journalEntries: 2, seedsShared: 3 }, { points: 10 });
+    assert.deepEqual(
+      ruleProgress({
+        type: 'any',
+        rules: [
+          { type: 'journal_entries', count: 10 },
+          { type: 'all', rules: [{ type: 'seeds_shared', count: 4 }, { type: 'points' }] },
+        ],
+      }, facts, 20),
+      { percent: 50, detail: null }
+    );
+  });
+});
+
+describe('buildStats', () => {
+  // Mexico City is UTC-6 all year: these entries fall on three consecutive local days,
+  // but on 1, 1 and 3 March in UTC
+  const history = {
+    entries: [
+      { createdAt: new Date('2024-03-01T04:00:00Z'), emotionId: 'alegria', hasPhoto: true }, // 29 Feb 22:00
+      { createdAt: new Date('2024-03-01T18:00:00Z'), emotionId: 'calma', hasPhoto: false }, // 1 Mar 12:00
+      { createdAt: new Date('2024-03-03T02:00:00Z'), emotionId: 'alegria', hasPhoto: false }, // 2 Mar 20:00
+    ],
+    seedsShared: 2,
+    careEvents: [
+      { type: 'watered', count: 4 },
+      { type: 'measured', count: 1 },
+      { type: 'unknown', count: 7 },
+    ],
+  };
+
+  it('rebuilds streaks from local days across the UTC date line', () => {
+    const stats = buildStats('child-1', history, 'America/Mexico_City');
+    assert.equal(stats.currentStreak, 3);
+    assert.equal(stats.longestStreak, 3);
+    assert.equal(stats.lastEntryDate, '2024-03-02');
+  });
+
+  it('counts the same entries as a broken streak in UTC', () => {
+    const stats = buildStats('child-1', history, 'UTC');
+    assert.equal(stats.currentStreak, 1);
+    assert.equal(stats.longestStreak, 1);
+    assert.equal(stats.lastEntryDate, '2024-03-03');
+  });
+
+  it('keeps the longest streak after a missed day', () => {
+    const stats = buildStats('child-1', {
+      ...history,
+      entries: [...history.entries, { createdAt: new Date('2024-03-05T18:00:00Z'), emotionId: null, hasPhoto: false }],
+    }, 'America/Mexico_City');
+    assert.equal(stats.currentStreak, 1);
+    assert.equal(stats.longestStreak, 3);
+    assert.equal(stats.lastEntryDate, '2024-03-05');
+  });
+
+  it('sorts entries into local times of day', () => {
+    const stats = buildStats('child-1', history, 'America/Mexico_City');
+    assert.deepEqual(
+      [stats.morningEntries, stats.afternoonEntries, stats.eveningEntries, stats.nightEntries],
+      [0, 1, 1, 1]
+    );
+  });
+
+  it('counts entries, photos, emotions, seeds and known kinds of care', () => {
+    const stats = buildStats('child-1', history, 'America/Mexico_City');
+    assert.equal(stats.journalEntries, 3);
+    assert.equal(stats.photoEntries, 1);
+    assert.deepEqual(stats.emotionIds, ['alegria', 'calma']);
+    assert.equal(stats.seedsShared, 2);
+    assert.equal(stats.wateredEvents, 4);
+    assert.equal(stats.measuredEvents, 1);
+    assert.equal(stats.sunlightEvents, 0);
+  });
+});
@@ -0,0 +1,134 @@
+import './setup.js';
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { Plant, User } from '../../shared/schema.js';
+
+// GET /api/media for the photos of a plant's time-lapse
+// Only the latest photo is referenced by the plants table; earlier frames are found through
+// profile_history (served here by a fake Supabase REST endpoint).
+
+const SUPABASE_URL = 'http://supabase.test';
+process.env.SUPABASE_URL = SUPABASE_URL;
+process.env.SUPABASE_ANON_KEY = 'test-anon-key';
+
+const child = { id: 'child-1', role: 'child', alias: 'Luna', sessionVersion: 0, deletedAt: null } as User;
+const otherChild = { id: 'child-2', role: 'child', alias: 'Sol', sessionVersion: 0, deletedAt: null } as User;
+
+const FRAMES = ['child-1/100_first.jpg', 'child-1/200_middle.jpg', 'child-1/300_latest.jpg'];
+
+const plant = {
+  id: 'plant-1',
+  userId: child.id,
+  firstPhotoUrl: FRAMES[0],
+  latestPhotoUrl: FRAMES[2],
+} as Plant;
+
+// profile_history rows as PostgREST would return them
+const PROFILE_HISTORY = FRAMES.map(photoUrl => ({ user_id: child.id, plant_id: plant.id, type: 'plant', photo_url: photoUrl }));
+
+// Query builder whose every chained call resolves to no rows: no journal entry, seed or
+// plant column references the earlier frames
+function noRows(): unknown {
+  const query: Record<string, unknown> = {
+    from: () => query,
+    innerJoin: () => query,
+    leftJoin: () => query,
+    where: () => query,
+    then: (resolve: (rows: unknown[]) => void) => resolve([]),
+  };
+  return query;
+}
+
+describe('GET /api/media for plant time-lapse frames', () => {
+  let server: Server;
+  let baseUrl: string;
+  let uploadsDir: string;
+  const cookies = new Map<string, string>();
+
+  before(async () => {
+    uploadsDir = await mkdtemp(path.join(os.tmpdir(), 'semillita-media-'));
+    process.env.LOCAL_STORAGE_DIR = uploadsDir;
+
+    const realFetch = globalThis.fetch;
+    mock.method(globalThis, 'fetch', async (input: string | URL | Request, init?: RequestInit) => {
+      const url = new URL(input instanceof Request ? input.url : input);
+      if (url.origin !== SUPABASE_URL) {
+        return realFetch(input, init);
+      }
+      const filter = (column: string) => url.searchParams.get(column)?.replace(/^eq\./, '');
+      const rows = PROFILE_HISTORY.filter(row =>
+        row.user_id === filter('user_id') && row.type === filter('type') && row.photo_url === filter('photo_url')
+      );
+      return new Response(JSON.stringify(rows.map(({ user_id, plant_id }) => ({ user_id, plant_id }))), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    });
+
+    const { db } = await import('../db.js');
+    const { storage } = await import('../storage.js');
+    const { registerRoutes } = await import('../routes.js');
+    const { issueSession } = await import('../auth.js');
+    const { getBlobStore } = await import('../blob-store.js');
+
+    mock.method(db, 'select', noRows as unknown as typeof db.select);
+    mock.method(storage, 'getUser', async (id: string) => [child, otherChild].find(user => user.id === id));
+    mock.method(storage, 'getPlantById', async (id: string) => (id === plant.id ? plant : undefined));
+
+    for (const key of FRAMES) {
+      await getBlobStore().put(key, Buffer.from(`photo ${key}`), 'image/jpeg');
+    }
+
+    const app = express();
+    app.post('/test/session/:userId', (req, res) => {
+      issueSession(res, [child, otherChild].find(user => user.id === req.params.userId)!);
+      res.end();
+    });
+    server = await registerRoutes(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    for (const user of [child, otherChild]) {
+      const response = await fetch(`${baseUrl}/test/session/${user.id}`, { method: 'POST' });
+      cookies.set(user.id, response.headers.get('set-cookie')!.split(';')[0]);
+    }
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await rm(uploadsDir, { recursive: true, force: true });
+    mock.restoreAll();
+  });
+
+  function getMedia(key: string, userId: string) {
+    return fetch(`${baseUrl}/api/media/${key}`, { headers: { Cookie: cookies.get(userId)! }, redirect: 'manual' });
+  }
+
+  it('loads a frame that is neither the first nor the latest photo', async () => {
+    const response = await getMedia(FRAMES[1], child.id);
+    assert.equal(response.status, 302);
+
+    const location = response.headers.get('location')!;
+    assert.match(location, /^\/uploads\/child-1\/200_middle\.jpg\?token=/);
+
+    const file = await fetch(`${baseUrl}${location}`);
+    assert.equal(file.status, 200);
+    assert.equal(await file.text(), `photo ${FRAMES[1]}`);
+  });
+
+  it('does not hand the frame to another child', async () => {
+    const response = await getMedia(FRAMES[1], otherChild.id);
+    assert.equal(response.status, 403);
+  });
+
+  it('answers 404 for files no plant photo history refers to', async () => {
+    const response = await getMedia('child-1/999_unknown.jpg', child.id);
+    assert.equal(response.status, 404);
+  });
+});
@@ -0,0 +1,157 @@
+import './setup.js';
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import type { User } from '../../shared/schema.js';
+import { storage } from '../storage.js';
+import { authorize, can, normalizeRole, POLICY, ROLES, type Permission, type Role } from '../policy.js';
+
+// Subjects a caller can act on, named after how they relate to the caller
+const SUBJECTS = {
+  s: 'caller',        // The caller's own data
+  g: 'group-child',   // A child in one of the caller's workshop groups
+  d: 'deleted-child', // A soft-deleted child in one of the caller's workshop groups
+  c: 'guarded-child', // A child linked to the caller by a guardianship
+  x: 'stranger',      // Anyone else
+} as const;
+
+type SubjectCode = keyof typeof SUBJECTS;
+
+const OWN: Record<Role, string> = { child: 's', caregiver: 's', facilitator: '', admin: 'sgcxd' };
+const OWN_OR_GROUP: Record<Role, string> = { child: 's', caregiver: 's', facilitator: 'sg', admin: 'sgcxd' };
+const OWN_GROUP_OR_GUARDED: Record<Role, string> = { child: 's', caregiver: 'sc', facilitator: 'sg', admin: 'sgcxd' };
+const STAFF: Record<Role, string> = { child: '', caregiver: '', facilitator: 'sgcxd', admin: 'sgcxd' };
+
+// Who may do what, written out independently of POLICY
+const EXPECTED: Record<Permission, Record<Role, string>> = {
+  'profile:read': OWN_GROUP_OR_GUARDED,
+  'profile:update': { child: 's', caregiver: 's', facilitator: 's', admin: 'sgcxd' },
+  'profile:delete': OWN_OR_GROUP,
+  'plant:read': OWN_GROUP_OR_GUARDED,
+  'plant:write': OWN_OR_GROUP,
+  'journal:read': OWN_OR_GROUP,
+  'journal:write': OWN,
+  'journal:delete': OWN_OR_GROUP,
+  'seeds:read': OWN_OR_GROUP,
+  'seeds:write': OWN,
+  'media:read': { child: 's', caregiver: 'c', facilitator: 'g', admin: 'sgcxd' },
+  'achievements:read': OWN_GROUP_OR_GUARDED,
+  'notifications:read': OWN_OR_GROUP,
+  'notifications:write': { child: 's', caregiver: 's', facilitator: 's', admin: 'sgcxd' },
+  'rewards:read': OWN_OR_GROUP,
+  'rewards:purchase': OWN,
+  'child:manage': { child: '', caregiver: '', facilitator: 'g', admin: 'sgcxd' },
+  'child:restore': { child: '', caregiver: '', facilitator: 'gd', admin: 'sgcxd' },
+  'consent:audit': { child: '', caregiver: '', facilitator: 'g', admin: 'sgcxd' },
+  'data:export': { child: 's', caregiver: 'c', facilitator: 'g', admin: 'sgcxd' },
+  'terms:manage': { child: '', caregiver: '', facilitator: '', admin: 'sgcxd' },
+  'facilitator:invite': { child: '', caregiver: '', facilitator: '', admin: 'sgcxd' },
+  'achievements:manage': { child: '', caregiver: '', facilitator: '', admin: 'sgcxd' },
+  'facilitator:access': STAFF,
+  'caregiver:access': { child: '', caregiver: 'sgcxd', facilitator: '', admin: '' },
+  'storage:stats': STAFF,
+  'admin:maintenance': { child: '', caregiver: '', facilitator: '', admin: 'sgcxd' },
+};
+
+function makeUser(role: string): User {
+  return { id: SUBJECTS.s, role } as User;
+}
+
+beforeEach(() => {
+  mock.method(storage, 'canFacilitatorAccessChild', async (_facilitatorId: string, childId: string, options: { includeDeleted?: boolean } = {}) =>
+    childId === SUBJECTS.g || (childId === SUBJECTS.d && !!options.includeDeleted));
+  mock.method(storage, 'isGuardianOf', async (_caregiverId: string, childId: string) => childId === SUBJECTS.c);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+describe('can', () => {
+  it('covers every permission', () => {
+    assert.deepEqual(Object.keys(EXPECTED).sort(), Object.keys(POLICY).sort());
+  });
+
+  for (const permission of Object.keys(EXPECTED) as Permission[]) {
+    for (const role of ROLES) {
+      const allowed = EXPECTED[permission][role];
+      it(`${role} ${permission}: ${allowed ? allowed.split('').map(code => SUBJECTS[code as SubjectCode]).join(', ') : 'nobody'}`, async () => {
+        for (const [code, subjectUserId] of Object.entries(SUBJECTS)) {
+          assert.equal(
+            await can(makeUser(role), permission, subjectUserId),
+            allowed.includes(code),
+            `${role} ${permission} on ${subjectUserId}`
+          );
+        }
+      });
+    }
+  }
+
+  it('treats legacy professional accounts as caregivers', async () => {
+    assert.equal(normalizeRole('professional'), 'caregiver');
+    assert.equal(await can(makeUser('professional'), 'plant:read', SUBJECTS.c), true);
+    assert.equal(await can(makeUser('professional'), 'journal:read', SUBJECTS.c), false);
+  });
+
+  it('gives unknown roles no permissions', async () => {
+    assert.equal(normalizeRole('superuser'), null);
+    for (const permission of Object.keys(POLICY) as Permission[]) {
+      assert.equal(await can(makeUser('superuser'), permission, SUBJECTS.s), false);
+    }
+  });
+});
+
+describe('authorize', () => {
+  function run(permission: Permission, caller: User | undefined, subjectUserId: string | undefined | Error) {
+    const req = { currentUser: caller, method: 'GET', originalUrl: '/test' } as Request;
+    const result = { status: 0, body: undefined as unknown, next: false };
+    const res = {
+      status(code: number) {
+        result.status = code;
+        return this;
+      },
+      json(body: unknown) {
+        result.body = body;
+        return this;
+      },
+    } as unknown as Response;
+
+    return authorize(permission, () => {
+      if (subjectUserId instanceof Error) {
+        throw subjectUserId;
+      }
+      return subjectUserId;
+    })(req, res, () => {
+      result.next = true;
+    }).then(() => result);
+  }
+
+  it('asks for a session when there is no caller', async () => {
+    const result = await run('plant:read', undefined, SUBJECTS.s);
+    assert.equal(result.status, 401);
+    assert.equal(result.next, false);
+  });
+
+  it('answers 404 when the subject does not exist', async () => {
+    const result = await run('plant:read', makeUser('child'), undefined);
+    assert.equal(result.status, 404);
+  });
+
+  it('answers 403 when the policy denies the operation', async () => {
+    const result = await run('journal:read', makeUser('caregiver'), SUBJECTS.c);
+    assert.equal(result.status, 403);
+    assert.deepEqual(result.body, { message: 'No tienes permiso para realizar esta acción', code: 'FORBIDDEN' });
+  });
+
+  it('passes allowed requests on', async () => {
+    const result = await run('plant:read', makeUser('caregiver'), SUBJECTS.c);
+    assert.equal(result.next, true);
+    assert.equal(result.status, 0);
+  });
+
+  it('answers 500 when the subject cannot be resolved', async () => {
+    mock.method(console, 'error', () => {});
+    const result = await run('plant:read', makeUser('child'), new Error('database is down'));
+    assert.equal(result.status, 500);
+  });
+});
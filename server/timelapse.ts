@@ -0,0 +1,30 @@
+import { getPlantPhotoHistory } from './supabase.js';
+import { userTimeZone } from './achievements.js';
+import { localClock, daysBetween } from './local-time.js';
+import type { Plant, PlantPhotoFrame } from '../shared/schema.js';
+
+// Plant time-lapse
+// Photos uploaded from the plant profile (PATCH /api/plants/:id/photo) are recorded in
+// profile_history with type "plant". They are returned oldest first, each with the day of the
+// plant's life it was taken on, counted in the child's time zone like the rest of the lifecycle.
+// Journal photos are left out: entries can be private and belong to the emotional diary.
+
+/**
+ * The photo series of a plant, oldest first
+ */
+export async function getPlantTimelapse(plant: Pick<Plant, 'id' | 'userId' | 'plantedAt'>): Promise<PlantPhotoFrame[]> {
+  const [photos, timeZone] = await Promise.all([
+    getPlantPhotoHistory(plant.id),
+    userTimeZone(plant.userId),
+  ]);
+
+  const plantedOn = plant.plantedAt ? localClock(new Date(plant.plantedAt), timeZone).date : null;
+  return photos.map(photo => {
+    const takenOn = localClock(new Date(photo.createdAt), timeZone).date;
+    return {
+      photoUrl: photo.photoUrl,
+      takenAt: photo.createdAt,
+      day: plantedOn ? Math.max(0, daysBetween(plantedOn, takenOn)) + 1 : 1,
+    };
+  });
+}
@@ -5,9 +5,13 @@ import {
   varchar, 
   timestamp, 
   integer, 
+  real, 
   boolean, 
+  date, 
   json, 
-  index 
+  index,
+  uniqueIndex,
+  type AnyPgColumn
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -20,6 +24,7 @@ export const users = pgTable("users", {
   avatar: varchar("avatar", { length: 100 }), // Avatar selection
   colorTheme: varchar("color_theme", { length: 50 }).default("green"),
   points: integer("points").default(0),
+  streakFreezes: integer("streak_freezes").default(0), // Bought in the rewards store, each covers one missed day of a streak
   daysSincePlanting: integer("days_since_planting").default(0),
 
   // Age validation
@@ -27,13 +32,14 @@ export const users = pgTable("users", {
 
   // Context and role
   context: varchar("context", { length: 20 }).notNull().default("home"), // "workshop" or "home"
-  role: varchar("role", { length: 20 }).notNull().default("child"), // "child", "professional", "facilitator"
+  role: varchar("role", { length: 20 }).notNull().default("child"), // "child", "caregiver" (legacy "professional"), "facilitator", "admin" - see server/policy.ts
 
   // Enhanced parental consent system
   parentalConsent: boolean("parental_consent").default(false),
   parentEmail: varchar("parent_email", { length: 255 }),
   parentalConsentDate: timestamp("parental_consent_date"),
   consentVerified: boolean("consent_verified").default(false),
+  consentTermsVersion: varchar("consent_terms_version", { length: 20 }), // Terms version the parent's consent covers
 
   // Legacy workshop mode (maintaining backward compatibility)
   isWorkshopMode: boolean("is_workshop_mode").default(false),
@@ -43,27 +49,160 @@ export const users = pgTable("users", {
     fontSize: 'medium'
   }),
 
+  // Authentication (hashed PIN for children, email + hashed password for facilitators,
+  // sessions revoked by bumping the version)
+  pinHash: text("pin_hash"),
+  email: varchar("email", { length: 255 }).unique(),
+  passwordHash: text("password_hash"),
+
+  // Workshop group the child joined with a join code (facilitators only see their groups' children)
+  groupId: varchar("group_id").references((): AnyPgColumn => workshopGroups.id, { onDelete: "set null" }),
+  sessionVersion: integer("session_version").notNull().default(0),
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+
+  // Soft deletion - hidden right away, restorable for 30 days, then purged (server/purge.ts)
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: varchar("deleted_by"),
+
+  // Set by the retention job when a child has been inactive longer than the retention policy allows
+  inactiveFlaggedAt: timestamp("inactive_flagged_at"),
+
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (users) => ({
-  aliasIndex: index("users_alias_idx").on(users.alias)
+  aliasIndex: index("users_alias_idx").on(users.alias),
+  groupIndex: index("users_group_idx").on(users.groupId)
+}));
+
+// Workshop groups - a cohort of children (e.g. one school) run by one or more facilitators
+export const workshopGroups = pgTable("workshop_groups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name", { length: 100 }).notNull(),
+  joinCode: varchar("join_code", { length: 12 }).notNull().unique(), // Entered by children at registration
+  isActive: boolean("is_active").default(true),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Group facilitators - which facilitators run which groups
+export const groupFacilitators = pgTable("group_facilitators", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id").notNull().references(() => workshopGroups.id, { onDelete: "cascade" }),
+  facilitatorId: varchar("facilitator_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  membershipUnique: uniqueIndex("group_facilitators_group_facilitator_idx").on(table.groupId, table.facilitatorId),
+  facilitatorIndex: index("group_facilitators_facilitator_idx").on(table.facilitatorId)
+}));
+
+// Password reset tokens - single use, only the SHA-256 of the token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Consent requests - a parent is emailed a signed link to grant or deny a child's access.
+// The record keeps who answered, when, from which IP and for which terms version
+export const consentRequests = pgTable("consent_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  parentEmail: varchar("parent_email", { length: 255 }).notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"), // pending, granted, denied, revoked, superseded
+  termsVersion: varchar("terms_version", { length: 20 }).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  respondedAt: timestamp("responded_at"),
+  consenterName: varchar("consenter_name", { length: 100 }),
+  consenterIp: varchar("consenter_ip", { length: 64 }),
+  consenterUserAgent: text("consenter_user_agent"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userIndex: index("consent_requests_user_idx").on(table.userId)
+}));
+
+// Guardianships - links a caregiver account (parent or tutor) to the children they follow
+export const guardianships = pgTable("guardianships", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  caregiverId: varchar("caregiver_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  childId: varchar("child_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  consentRequestId: varchar("consent_request_id").references(() => consentRequests.id, { onDelete: "set null" }), // Consent that created the link
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  caregiverChildIndex: uniqueIndex("guardianships_caregiver_child_idx").on(table.caregiverId, table.childId),
+  childIndex: index("guardianships_child_idx").on(table.childId)
+}));
+
+// Terms of use versions - publishing a new version requires every child's parent to consent again
+export const termsVersions = pgTable("terms_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  version: varchar("version", { length: 20 }).notNull().unique(), // e.g. 2025-10
+  summary: text("summary").notNull(), // Shown to the parent on the consent page
+  publishedAt: timestamp("published_at").notNull().defaultNow(),
+  publishedBy: varchar("published_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Consent ledger - append-only history of every consent action per child (for audits)
+// Rows are never updated or deleted (enforced by a trigger) and outlive the child's account
+export const consentEvents = pgTable("consent_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(), // No foreign key on purpose, the history survives account deletion
+  type: varchar("type", { length: 20 }).notNull(), // acknowledged, requested, granted, reconfirmed, denied, revoked
+  termsVersion: varchar("terms_version", { length: 20 }).notNull(),
+  actorType: varchar("actor_type", { length: 20 }).notNull(), // child, parent, staff, system
+  actorId: varchar("actor_id"), // User id for child/staff actors
+  actorName: varchar("actor_name", { length: 100 }), // Name typed by the parent, alias otherwise
+  consentRequestId: varchar("consent_request_id"),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  userAgent: text("user_agent"),
+  details: text("details"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  userIndex: index("consent_events_user_idx").on(table.userId, table.createdAt)
 }));
 
+// Plant species - catalog children pick their seeds and plants from (seeded like the emotions)
+export const plantSpecies = pgTable("plant_species", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  slug: varchar("slug", { length: 50 }).notNull().unique(), // Stable key the default catalog is upserted on
+  commonName: varchar("common_name", { length: 100 }).notNull(), // In Spanish
+  scientificName: varchar("scientific_name", { length: 100 }),
+  emoji: varchar("emoji", { length: 10 }).notNull(), // Illustration shown in the catalog and the care guide
+  // Typical days after sowing to reach each growth stage (sprout, seedling, flowering or harvest)
+  germinationDays: integer("germination_days").notNull(),
+  seedlingDays: integer("seedling_days").notNull(),
+  matureDays: integer("mature_days").notNull(),
+  wateringEveryDays: integer("watering_every_days").notNull(),
+  sunlight: varchar("sunlight", { length: 20 }).notNull(), // SUNLIGHT_NEEDS
+  tips: text("tips").array().notNull().default(sql`'{}'::text[]`),
+});
+
 // Plants - each user can have multiple plants over time
 export const plants = pgTable("plants", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   name: varchar("name", { length: 100 }),
   type: varchar("type", { length: 100 }), // tomato, sunflower, basil
-  status: varchar("status", { length: 50 }).default("growing"), // growing, alive, withered
+  speciesId: varchar("species_id").references(() => plantSpecies.id, { onDelete: "set null" }), // When picked from the catalog
+  status: varchar("status", { length: 50 }).default("growing"), // growing, needs_care, alive, withered (see server/plant-lifecycle.ts)
+  stage: varchar("stage", { length: 20 }).notNull().default("seed"), // GROWTH_STAGES, never goes back
   plantedAt: timestamp("planted_at").defaultNow(),
   firstPhotoUrl: text("first_photo_url"),
   latestPhotoUrl: text("latest_photo_url"),
-  milestones: json("milestones"),
-  isActive: boolean("is_active").default(true),
+  milestones: json("milestones").$type<PlantMilestone[]>(), // Stages reached, with dates
+  seedId: varchar("seed_id").references(() => seeds.id, { onDelete: "set null" }), // Vault seed it was planted from
+  isActive: boolean("is_active").default(true), // One active plant per user; the others are the garden's history
+  archivedAt: timestamp("archived_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  activeUnique: uniqueIndex("plants_one_active_per_user_idx").on(table.userId).where(sql`${table.isActive}`),
+}));
 
 // Emotions - predefined emotion types
 export const emotions = pgTable("emotions", {
@@ -80,19 +219,42 @@ export const journalEntries = pgTable("journal_entries", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   plantId: varchar("plant_id").references(() => plants.id, { onDelete: "cascade" }),
   emotionId: varchar("emotion_id").references(() => emotions.id),
-  photoUrl: text("photo_url"),
-  audioUrl: text("audio_url"),
+  photoUrl: text("photo_url"), // Storage key (<userId>/<filename>), served through /api/media
+  audioUrl: text("audio_url"), // Storage key, like photoUrl
+  audioDurationMs: integer("audio_duration_ms"), // Measured when the recording is processed (server/audio.ts)
+  audioPeaks: json("audio_peaks").$type<number[]>(), // Waveform bars (0-1) shown before the file loads
   textEntry: text("text_entry"),
+  isPrivate: boolean("is_private").notNull().default(false), // Chosen by the child - hidden from caregivers
+  deletedAt: timestamp("deleted_at"), // Soft deletion, purged with its files after the recovery window
+  idempotencyKey: varchar("idempotency_key", { length: 64 }), // Sent by the offline outbox so replays never create a second entry
   pointsEarned: integer("points_earned").default(10),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  idempotencyIndex: uniqueIndex("journal_entries_idempotency_idx").on(table.userId, table.idempotencyKey)
+}));
+
+// Plant care events - practical care logged with one tap (watering, sunlight...), kept apart
+// from the emotional diary
+export const plantCareEvents = pgTable("plant_care_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  plantId: varchar("plant_id").notNull().references(() => plants.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: varchar("type", { length: 20 }).notNull(), // PLANT_CARE_TYPES
+  heightCm: real("height_cm"), // Only for "measured"
+  note: varchar("note", { length: 200 }),
+  pointsEarned: integer("points_earned").notNull().default(0), // Once per kind of care, plant and day
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  plantIndex: index("plant_care_events_plant_idx").on(table.plantId, table.createdAt)
+}));
 
 // Seeds - for the seed vault sharing feature
 export const seeds = pgTable("seeds", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   type: varchar("type", { length: 100 }).notNull(),
+  speciesId: varchar("species_id").references(() => plantSpecies.id, { onDelete: "set null" }), // When picked from the catalog
   origin: varchar("origin", { length: 200 }),
   photoUrl: text("photo_url"),
   notes: text("notes"),
@@ -112,6 +274,31 @@ export const achievements = pgTable("achievements", {
   isActive: boolean("is_active").default(true),
 });
 
+// Achievement stats - counters kept up to date from domain events (see server/achievements.ts),
+// so rules are checked without re-reading a child's whole journal
+export const achievementStats = pgTable("achievement_stats", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  journalEntries: integer("journal_entries").notNull().default(0),
+  photoEntries: integer("photo_entries").notNull().default(0),
+  seedsShared: integer("seeds_shared").notNull().default(0), // Every seed in the vault gets a share code
+  emotionIds: text("emotion_ids").array().notNull().default(sql`'{}'::text[]`), // Distinct emotions logged
+  // Entries per time of day, in the user's time zone (see TIME_OF_DAY_PERIODS)
+  morningEntries: integer("morning_entries").notNull().default(0),
+  afternoonEntries: integer("afternoon_entries").notNull().default(0),
+  eveningEntries: integer("evening_entries").notNull().default(0),
+  nightEntries: integer("night_entries").notNull().default(0),
+  currentStreak: integer("current_streak").notNull().default(0), // Consecutive days with entries, ending on lastEntryDate
+  longestStreak: integer("longest_streak").notNull().default(0),
+  lastEntryDate: date("last_entry_date", { mode: 'string' }), // Local date of the latest entry
+  // Plant care logged, per kind of care (see PLANT_CARE_STATS)
+  wateredEvents: integer("watered_events").notNull().default(0),
+  sunlightEvents: integer("sunlight_events").notNull().default(0),
+  repottedEvents: integer("repotted_events").notNull().default(0),
+  pestSpottedEvents: integer("pest_spotted_events").notNull().default(0),
+  measuredEvents: integer("measured_events").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // User achievements - tracking which achievements users have earned
 export const userAchievements = pgTable("user_achievements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -138,7 +325,7 @@ export const rewards = pgTable("rewards", {
   description: text("description"),
   emoji: varchar("emoji", { length: 10 }),
   pointsCost: integer("points_cost").notNull(),
-  category: varchar("category", { length: 50 }), // stickers, guides, items, badges
+  category: varchar("category", { length: 50 }), // stickers, guides, items, badges, streak_freeze
   isActive: boolean("is_active").default(true),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -151,8 +338,51 @@ export const userRewards = pgTable("user_rewards", {
   purchasedAt: timestamp("purchased_at").defaultNow(),
 });
 
+// Media assets - the renditions generated for each uploaded image
+// Rows are keyed by the storage key saved in the photo columns (the full-size JPEG), so the
+// media route can hand out a smaller or more modern rendition of the same photo.
+export const mediaAssets = pgTable("media_assets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  key: text("key").notNull().unique(),
+  width: integer("width"), // Of the original after auto-rotation
+  height: integer("height"),
+  renditions: json("renditions").$type<MediaRendition[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userIndex: index("media_assets_user_idx").on(table.userId)
+}));
+
+// Web Push subscriptions - one per browser or device the user turned reminders on in
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  endpoint: text("endpoint").notNull().unique(), // Push service URL, identifies the subscription
+  p256dh: text("p256dh").notNull(), // Keys used to encrypt the payload for this browser
+  auth: text("auth").notNull(),
+  userAgent: varchar("user_agent", { length: 255 }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userIndex: index("push_subscriptions_user_idx").on(table.userId)
+}));
+
+// Notification preferences - which pushes a user gets and when (see server/reminders.ts)
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  enabled: boolean("enabled").notNull().default(true),
+  reminderTime: varchar("reminder_time", { length: 5 }).notNull().default("18:00"), // HH:MM in the user's time zone
+  timezone: varchar("timezone", { length: 64 }).notNull().default("UTC"), // IANA name reported by the browser
+  types: json("types").$type<NotificationType[]>().notNull().default(['reminder', 'achievement', 'milestone']),
+  lastReminderDate: varchar("last_reminder_date", { length: 10 }), // Local YYYY-MM-DD of the last daily reminder
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Define relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
+  group: one(workshopGroups, {
+    fields: [users.groupId],
+    references: [workshopGroups.id],
+  }),
   plants: many(plants),
   journalEntries: many(journalEntries),
   seeds: many(seeds),
@@ -166,7 +396,28 @@ export const plantsRelations = relations(plants, ({ one, many }) => ({
     fields: [plants.userId],
     references: [users.id],
   }),
+  species: one(plantSpecies, {
+    fields: [plants.speciesId],
+    references: [plantSpecies.id],
+  }),
   journalEntries: many(journalEntries),
+  careEvents: many(plantCareEvents),
+}));
+
+export const plantSpeciesRelations = relations(plantSpecies, ({ many }) => ({
+  plants: many(plants),
+  seeds: many(seeds),
+}));
+
+export const plantCareEventsRelations = relations(plantCareEvents, ({ one }) => ({
+  plant: one(plants, {
+    fields: [plantCareEvents.plantId],
+    references: [plants.id],
+  }),
+  user: one(users, {
+    fields: [plantCareEvents.userId],
+    references: [users.id],
+  }),
 }));
 
 export const emotionsRelations = relations(emotions, ({ many }) => ({
@@ -193,6 +444,10 @@ export const seedsRelations = relations(seeds, ({ one }) => ({
     fields: [seeds.userId],
     references: [users.id],
   }),
+  species: one(plantSpecies, {
+    fields: [seeds.speciesId],
+    references: [plantSpecies.id],
+  }),
 }));
 
 export const achievementsRelations = relations(achievements, ({ many }) => ({
@@ -232,12 +487,49 @@ export const userRewardsRelations = relations(userRewards, ({ one }) => ({
   }),
 }));
 
+export const consentRequestsRelations = relations(consentRequests, ({ one }) => ({
+  user: one(users, {
+    fields: [consentRequests.userId],
+    references: [users.id],
+  }),
+}));
+
+export const guardianshipsRelations = relations(guardianships, ({ one }) => ({
+  caregiver: one(users, {
+    fields: [guardianships.caregiverId],
+    references: [users.id],
+  }),
+  child: one(users, {
+    fields: [guardianships.childId],
+    references: [users.id],
+  }),
+}));
+
+export const workshopGroupsRelations = relations(workshopGroups, ({ many }) => ({
+  children: many(users),
+  facilitators: many(groupFacilitators),
+}));
+
+export const groupFacilitatorsRelations = relations(groupFacilitators, ({ one }) => ({
+  group: one(workshopGroups, {
+    fields: [groupFacilitators.groupId],
+    references: [workshopGroups.id],
+  }),
+  facilitator: one(users, {
+    fields: [groupFacilitators.facilitatorId],
+    references: [users.id],
+  }),
+}));
+
 // Zod schemas
 // Base schema without role-specific fields
 const baseUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
+  deletedBy: true,
+  inactiveFlaggedAt: true,
 });
 
 // Role-conditional validation using discriminated union
@@ -255,12 +547,14 @@ export const insertUserSchema = z.discriminatedUnion("role", [
     context: z.enum(["workshop", "home"]).default("home"),
     role: z.literal("child"),
     isWorkshopMode: z.boolean().default(false),
-    parentEmail: z.string().optional().nullable(),
+    parentEmail: z.string().trim().email("Ingresa el correo de un adulto responsable"),
     parentalConsent: z.boolean().optional().nullable(),
     consentAcknowledgment: z.boolean().refine(val => val === true,
       "Debes confirmar que has leído y aceptas los términos"),
     parentalConsentDate: z.string().optional().nullable(),
-    consentVerified: z.boolean().optional().default(true),
+    consentVerified: z.boolean().optional().default(false),
+    pin: z.string().regex(/^\d{4,6}$/, "El PIN debe tener entre 4 y 6 números"),
+    joinCode: z.string().trim().toUpperCase().optional(),
   }),
   // Professional/Caregiver role combined - no parental consent needed
   z.object({
@@ -299,18 +593,152 @@ export const insertUserSchema = z.discriminatedUnion("role", [
   }),
 ]);
 
+// Publishing a new terms version (admin only)
+export const insertTermsVersionSchema = z.object({
+  version: z.string().trim().min(1).max(20).regex(/^[\w.-]+$/, "Usa letras, números, puntos o guiones"),
+  summary: z.string().trim().min(10, "Describe los cambios para los adultos responsables"),
+});
+
+// Facilitator accounts are created by another facilitator, who invites them by email
+export const insertFacilitatorSchema = z.object({
+  alias: z.string().min(2, "El nombre debe tener al menos 2 caracteres"),
+  email: z.string().email("Correo electrónico inválido").transform(email => email.trim().toLowerCase()),
+});
+
+// Workshop groups are created by facilitators, the join code is generated by the server
+export const insertWorkshopGroupSchema = z.object({
+  name: z.string().trim().min(2, "El nombre del grupo debe tener al menos 2 caracteres").max(100),
+});
+
+// Facilitator passwords
+export const facilitatorPasswordSchema = z.string()
+  .min(8, "La contraseña debe tener al menos 8 caracteres")
+  .max(128, "La contraseña es demasiado larga");
+
+// Notification types a user can turn on or off
+export const NOTIFICATION_TYPES = ['reminder', 'achievement', 'milestone'] as const;
+export type NotificationType = typeof NOTIFICATION_TYPES[number];
+
+// Page a notification opens (inbox and push notifications)
+export function notificationLink(type: string | null): string {
+  switch (type) {
+    case 'reminder':
+      return '/new-entry';
+    case 'achievement':
+      return '/achievements';
+    case 'milestone':
+      return '/plant';
+    default:
+      return '/dashboard';
+  }
+}
+
+// Subscription sent by the browser's PushManager (PushSubscription.toJSON())
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url().max(1000),
+  keys: z.object({
+    p256dh: z.string().min(1).max(200),
+    auth: z.string().min(1).max(100),
+  }),
+});
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const updateNotificationPreferencesSchema = z.object({
+  enabled: z.boolean(),
+  reminderTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "La hora debe tener el formato HH:MM"),
+  timezone: z.string().max(64).refine(isTimeZone, "Zona horaria desconocida"),
+  types: z.array(z.enum(NOTIFICATION_TYPES)),
+}).partial();
+
 export const insertPlantSchema = createInsertSchema(plants).omit({
   id: true,
+  stage: true,
+  milestones: true,
+  archivedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Replanting - the current plant joins the garden's history and a new one starts
+export const startPlantSchema = z.object({
+  name: z.string().trim().min(1, "Ponle un nombre a tu planta").max(100),
+  type: z.string().trim().max(100).optional(), // Defaults to the seed's type or the species' name
+  seedId: z.string().optional(),
+  speciesId: z.string().optional(), // Defaults to the seed's species
+});
+
+// Plant species - how much sun each one needs
+export const SUNLIGHT_NEEDS = ['full_sun', 'partial_sun', 'shade'] as const;
+export type SunlightNeed = typeof SUNLIGHT_NEEDS[number];
+
+export const insertPlantSpeciesSchema = createInsertSchema(plantSpecies).omit({
+  id: true,
+});
+
+// Plant lifecycle - growth stages in order, reached with days since planting and days cared for
+// (see server/plant-lifecycle.ts)
+export const GROWTH_STAGES = ['seed', 'sprout', 'seedling', 'flowering'] as const;
+export type GrowthStage = typeof GROWTH_STAGES[number];
+
+export type PlantMilestone = { stage: GrowthStage; reachedAt: string };
+
+export interface PlantLifecycle {
+  stage: GrowthStage;
+  needsCare: boolean; // No entries or care for a few days; the plant recovers with the next one
+  daysSincePlanting: number;
+  careDays: number; // Days with at least one journal entry or care event since planting
+  daysWithoutCare: number;
+  nextStage: { stage: GrowthStage; minDays: number; minCareDays: number } | null;
+  milestones: PlantMilestone[];
+}
+
+// Plant time-lapse - photos uploaded for a plant, oldest first (see server/timelapse.ts)
+export interface PlantPhotoFrame {
+  photoUrl: string; // Storage key, served through /api/media
+  takenAt: string;
+  day: number; // Day of the plant's life, 1 on the day it was planted
+}
+
+// Plant care log - quick actions on the plant profile, worth PLANT_CARE_POINTS once per kind of care and day
+export const PLANT_CARE_TYPES = ['watered', 'sunlight', 'repotted', 'pest_spotted', 'measured'] as const;
+export type PlantCareType = typeof PLANT_CARE_TYPES[number];
+export const PLANT_CARE_POINTS = 5;
+
+// achievement_stats counter of each kind of care
+export const PLANT_CARE_STATS = {
+  watered: 'wateredEvents',
+  sunlight: 'sunlightEvents',
+  repotted: 'repottedEvents',
+  pest_spotted: 'pestSpottedEvents',
+  measured: 'measuredEvents',
+} as const;
+
+export const logPlantCareSchema = z.object({
+  type: z.enum(PLANT_CARE_TYPES, { errorMap: () => ({ message: "Tipo de cuidado desconocido" }) }),
+  heightCm: z.number().positive("La altura debe ser mayor que 0").max(500, "La altura debe ser de 500 cm como máximo").optional(),
+  note: z.string().trim().max(200, "La nota debe tener 200 caracteres como máximo").optional(),
+}).refine(care => care.type !== 'measured' || care.heightCm !== undefined, {
+  message: "Indica cuánto mide tu planta",
+  path: ['heightCm'],
+});
+
 export const insertJournalEntrySchema = createInsertSchema(journalEntries).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
 }).extend({
   plantId: z.string().optional().nullable(),
+  // Multipart forms send booleans as strings
+  isPrivate: z.union([z.boolean(), z.enum(["true", "false"]).transform(value => value === "true")]).optional(),
 });
 
 export const insertSeedSchema = createInsertSchema(seeds).omit({
@@ -326,11 +754,56 @@ export const insertAchievementSchema = createInsertSchema(achievements).omit({
   id: true,
 });
 
+// Achievement rules - the JSON stored in achievements.condition (evaluated by server/achievements.ts)
+// Counters: journal_entries, photo_entries, distinct_emotions, seeds_shared, time_of_day (entries
+// written in a period of the day), streak (consecutive days with entries), days_caring (days since
+// the active plant was planted), care_events (plant care logged, of one kind or any), points and
+// plant_created. "all" and "any" combine other rules.
+export const TIME_OF_DAY_PERIODS = ['morning', 'afternoon', 'evening', 'night'] as const;
+export type TimeOfDay = typeof TIME_OF_DAY_PERIODS[number];
+
+export type AchievementRule =
+  | { type: 'plant_created'; count?: number }
+  | { type: 'points'; threshold?: number } // Defaults to the achievement's pointsRequired
+  | { type: 'journal_entries' | 'photo_entries' | 'distinct_emotions' | 'seeds_shared' | 'days_caring'; count: number }
+  | { type: 'time_of_day'; period: TimeOfDay; count: number }
+  | { type: 'streak'; days: number }
+  | { type: 'care_events'; count: number; careType?: PlantCareType }
+  | { type: 'all' | 'any'; rules: AchievementRule[] };
+
+const ruleCount = z.number().int().min(1, "El número debe ser al menos 1").max(10000);
+
+export const achievementRuleSchema: z.ZodType<AchievementRule> = z.lazy(() => z.union([
+  z.object({ type: z.literal('plant_created'), count: ruleCount.optional() }),
+  z.object({ type: z.literal('points'), threshold: ruleCount.optional() }),
+  z.object({ type: z.enum(['journal_entries', 'photo_entries', 'distinct_emotions', 'seeds_shared', 'days_caring']), count: ruleCount }),
+  z.object({ type: z.literal('time_of_day'), period: z.enum(TIME_OF_DAY_PERIODS), count: ruleCount }),
+  z.object({ type: z.literal('streak'), days: ruleCount }),
+  z.object({ type: z.literal('care_events'), count: ruleCount, careType: z.enum(PLANT_CARE_TYPES).optional() }),
+  z.object({ type: z.enum(['all', 'any']), rules: z.array(achievementRuleSchema).min(1, "Agrega al menos una condición").max(10) }),
+]));
+
+// Icons the achievements screens know how to draw
+export const ACHIEVEMENT_ICONS = ['seedling', 'leaf', 'calendar-check', 'book-open', 'trophy', 'star', 'camera', 'flame', 'sun', 'moon', 'heart', 'share'] as const;
+
+// Achievements created by facilitators
+export const createAchievementSchema = z.object({
+  name: z.string().trim().min(2, "El nombre debe tener al menos 2 caracteres").max(100),
+  description: z.string().trim().min(2, "Describe cómo se consigue el logro").max(300),
+  iconName: z.enum(ACHIEVEMENT_ICONS),
+  pointsRequired: z.number().int().min(0).max(1000), // Points awarded with the achievement
+  rule: achievementRuleSchema,
+});
+
 export const insertRewardSchema = createInsertSchema(rewards).omit({
   id: true,
   createdAt: true,
 });
 
+// Streak freezes can be bought again and again (up to MAX_STREAK_FREEZES in stock), other rewards once
+export const STREAK_FREEZE_CATEGORY = 'streak_freeze';
+export const MAX_STREAK_FREEZES = 2;
+
 export const insertUserRewardSchema = createInsertSchema(userRewards).omit({
   id: true,
   purchasedAt: true,
@@ -339,9 +812,18 @@ export const insertUserRewardSchema = createInsertSchema(userRewards).omit({
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type InsertFacilitator = z.infer<typeof insertFacilitatorSchema>;
+
+export type PlantSpecies = typeof plantSpecies.$inferSelect;
+export type InsertPlantSpecies = z.infer<typeof insertPlantSpeciesSchema>;
 
 export type Plant = typeof plants.$inferSelect;
 export type InsertPlant = z.infer<typeof insertPlantSchema>;
+export type StartPlant = z.infer<typeof startPlantSchema>;
+
+export type PlantCareEvent = typeof plantCareEvents.$inferSelect;
+export type InsertPlantCareEvent = typeof plantCareEvents.$inferInsert;
+export type LogPlantCare = z.infer<typeof logPlantCareSchema>;
 
 export type JournalEntry = typeof journalEntries.$inferSelect;
 export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
@@ -356,10 +838,43 @@ export type Achievement = typeof achievements.$inferSelect;
 export type InsertAchievement = z.infer<typeof insertAchievementSchema>;
 
 export type UserAchievement = typeof userAchievements.$inferSelect;
+export type AchievementStats = typeof achievementStats.$inferSelect;
+export type InsertAchievementStats = typeof achievementStats.$inferInsert;
+export type CreateAchievement = z.infer<typeof createAchievementSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type ConsentRequest = typeof consentRequests.$inferSelect;
+export type Guardianship = typeof guardianships.$inferSelect;
+export type TermsVersion = typeof termsVersions.$inferSelect;
+export type InsertTermsVersion = z.infer<typeof insertTermsVersionSchema>;
+export type ConsentEvent = typeof consentEvents.$inferSelect;
+export type InsertConsentEvent = typeof consentEvents.$inferInsert;
+export type ConsentEventType = 'acknowledged' | 'requested' | 'granted' | 'reconfirmed' | 'denied' | 'revoked';
+export type WorkshopGroup = typeof workshopGroups.$inferSelect;
+export type InsertWorkshopGroup = z.infer<typeof insertWorkshopGroupSchema>;
+export type GroupFacilitator = typeof groupFacilitators.$inferSelect;
 export type Notification = typeof notifications.$inferSelect;
+export type WebPushSubscription = typeof pushSubscriptions.$inferSelect;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
 
 export type Reward = typeof rewards.$inferSelect;
 export type InsertReward = z.infer<typeof insertRewardSchema>;
 
 export type UserReward = typeof userRewards.$inferSelect;
 export type InsertUserReward = z.infer<typeof insertUserRewardSchema>;
+
+// Image renditions (see server/images.ts)
+export const RENDITION_SIZES = ['thumb', 'card', 'full'] as const;
+export const RENDITION_FORMATS = ['jpeg', 'webp', 'avif'] as const;
+export type RenditionSize = typeof RENDITION_SIZES[number];
+export type RenditionFormat = typeof RENDITION_FORMATS[number];
+export type MediaRendition = {
+  size: RenditionSize;
+  format: RenditionFormat;
+  key: string;
+  width: number;
+  height: number;
+  bytes: number;
+};
+export type MediaAsset = typeof mediaAssets.$inferSelect;
+export type InsertMediaAsset = typeof mediaAssets.$inferInsert;
@@ -73,6 +73,12 @@ const requiredVars = [
     description: 'Secreto para sesiones de usuario',
     example: 'un-string-aleatorio-largo',
     optional: true
+  },
+  {
+    name: 'APP_BASE_URL',
+    description: 'Dirección pública de la app para los enlaces de los correos (obligatoria en producción)',
+    example: 'https://semillita.app',
+    optional: true
   }
 ];
 
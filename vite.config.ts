@@ -1,11 +1,48 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
 import runtimeErrorOverlay from "@replit/vite-plugin-runtime-error-modal";
 
+// Files from client/public the service worker precaches next to the built bundle
+const PRECACHED_PUBLIC_FILES = [
+  "/manifest.json",
+  "/icons/icon.svg",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+  "/icons/icon-maskable-512.png",
+  "/icons/apple-touch-icon.png",
+];
+
+// Prepends the precache list and a build id to dist/sw.js (see client/public/sw.js)
+// The id is a hash of the bundle, so the worker changes, and the update prompt shows, only
+// when a deploy actually changes the app.
+function serviceWorkerManifest(): Plugin {
+  return {
+    name: "semillita-sw-manifest",
+    apply: "build",
+    writeBundle(options, bundle) {
+      const outDir = options.dir!;
+      const swPath = path.join(outDir, "sw.js");
+      const files = Object.keys(bundle).filter((file) => !file.endsWith(".map") && file !== "index.html");
+      const urls = ["/", ...PRECACHED_PUBLIC_FILES, ...files.map((file) => `/${file}`)];
+      const buildId = createHash("sha256")
+        .update(files.sort().join("\n"))
+        .update(fs.readFileSync(swPath))
+        .digest("hex")
+        .slice(0, 12);
+
+      const manifest = `self.__SW_MANIFEST = ${JSON.stringify({ buildId, urls })};\n`;
+      fs.writeFileSync(swPath, manifest + fs.readFileSync(swPath, "utf-8"));
+    },
+  };
+}
+
 export default defineConfig({
   plugins: [
     react(),
+    serviceWorkerManifest(),
     ...(process.env.NODE_ENV !== "production"
       ? [runtimeErrorOverlay()]
       : []),